@@ -1,30 +1,45 @@
 import { Router, Request, Response } from 'express';
 import { DatabaseService } from '../services/DatabaseService';
+import { AlertService } from '../services/AlertService';
+import { escapeHtml } from '../services/emailTemplates';
 import { asyncHandler, createError } from '../middleware/errorHandler';
-import { ApiResponse, AlertType } from '../types';
+import { requireAuth } from '../middleware/auth';
+import { ALERT_DELIVERY_MODES, ApiResponse, AlertType, AuthUser, CONDITION_ALERT_TYPES, MINER_ALERT_TYPES } from '../types';
+import { isValidTimeZone, TIME_OF_DAY_REGEX } from '../utils/dates';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = Router();
 
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// A week; longer than that the subscription might as well be paused
+const MAX_COOLDOWN_MINUTES = 7 * 24 * 60;
+const MAX_FOR_MINUTES = 24 * 60;
+
 class AlertController {
   private dbService: DatabaseService;
+  private alertService: AlertService;
 
-  constructor(dbService: DatabaseService) {
+  constructor(dbService: DatabaseService, alertService: AlertService) {
     this.dbService = dbService;
+    this.alertService = alertService;
   }
 
-  // POST /api/alerts/subscribe - Create alert subscription
+  // POST /api/alerts/subscribe - Create alert subscription for the logged-in user
+  // Alerts go to the account email unless another `email` is given. The
+  // subscription stays inactive until the recipient confirms the verification email.
   public createSubscription = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const { email, pool_id, alert_type, threshold } = req.body;
+    const user = req.user!;
+    const { pool_id, alert_type, threshold, miner_address } = req.body;
+    const email = req.body.email || user.email;
 
     // Validate required fields
-    if (!email || !alert_type) {
-      throw createError('Email and alert_type are required', 400);
+    if (!alert_type) {
+      throw createError('alert_type is required', 400);
     }
 
     // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
+    if (typeof email !== 'string' || !EMAIL_REGEX.test(email)) {
       throw createError('Invalid email format', 400);
     }
 
@@ -34,6 +49,18 @@ class AlertController {
       throw createError(`Invalid alert_type. Must be one of: ${validAlertTypes.join(', ')}`, 400);
     }
 
+    // Worker and share alerts watch a wallet address, pool alerts don't take one
+    const isMinerAlert = MINER_ALERT_TYPES.includes(alert_type);
+    if (isMinerAlert && !miner_address) {
+      throw createError(`miner_address is required for ${alert_type} alerts`, 400);
+    }
+    if (!isMinerAlert && miner_address) {
+      throw createError(`miner_address is only supported for ${MINER_ALERT_TYPES.join(', ')} alerts`, 400);
+    }
+    if (miner_address && (typeof miner_address !== 'string' || !ADDRESS_REGEX.test(miner_address))) {
+      throw createError('Invalid miner_address. Expected 0x followed by 40 hex characters', 400);
+    }
+
     // Check if pool exists (if pool_id provided)
     if (pool_id) {
       const poolExists = await this.dbService.queryOne('SELECT id FROM pools WHERE id = ?', [pool_id]);
@@ -42,21 +69,38 @@ class AlertController {
       }
     }
 
+    // Miner alerts carry the address's hashrate and shares, so only addresses the user watches qualify
+    if (miner_address) {
+      const watched = await this.dbService.queryOne(`
+        SELECT m.id
+        FROM miners m
+        INNER JOIN watchlist w ON w.miner_id = m.id AND w.user_id = ?
+        WHERE m.address = ? AND (? IS NULL OR m.pool_id = ?)
+      `, [user.id, miner_address.toLowerCase(), pool_id || null, pool_id || null]);
+      if (!watched) {
+        throw createError('Add this address to your watchlist (on this pool) before creating alerts for it', 403);
+      }
+    }
+
     try {
       const subscriptionId = this.generateId();
       await this.dbService.execute(`
-        INSERT INTO alert_subscriptions (id, email, pool_id, alert_type, threshold, is_active)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `, [subscriptionId, email, pool_id || null, alert_type, threshold || null, 1]);
+        INSERT INTO alert_subscriptions (id, user_id, email, pool_id, miner_address, alert_type, threshold, is_active)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [subscriptionId, user.id, email, pool_id || null, miner_address ? miner_address.toLowerCase() : null, alert_type, threshold || null, 0]);
 
       const newSubscription = await this.dbService.queryOne(`
         SELECT * FROM alert_subscriptions WHERE id = ?
       `, [subscriptionId]);
 
+      const delivery = await this.alertService.sendConfirmation(subscriptionId);
+
       const response: ApiResponse<any> = {
         success: true,
         data: newSubscription,
-        message: 'Alert subscription created successfully',
+        message: delivery.success
+          ? `Alert subscription created, check ${email} for the confirmation link`
+          : `Alert subscription created, but the confirmation email could not be sent; request another with POST /api/alerts/${subscriptionId}/confirmation`,
         timestamp: new Date().toISOString()
       };
 
@@ -69,33 +113,23 @@ class AlertController {
     }
   });
 
-  // GET /api/alerts/manage/:email - Get all subscriptions for an email
-  public getSubscriptionsByEmail = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const { email } = req.params;
-
-    if (!email) {
-      throw createError('Email parameter is required', 400);
-    }
-
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      throw createError('Invalid email format', 400);
-    }
-
+  // GET /api/alerts - Get all subscriptions of the logged-in user
+  public getSubscriptions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const subscriptions = await this.dbService.query(`
       SELECT 
         s.*,
         p.name as pool_name
       FROM alert_subscriptions s
       LEFT JOIN pools p ON s.pool_id = p.id
-      WHERE s.email = ?
+      WHERE s.user_id = ?
       ORDER BY s.created_at DESC
-    `, [email]);
+    `, [req.user!.id]);
+
+    const channelIds = await this.loadChannelIds(req.user!.id);
 
     const response: ApiResponse<any[]> = {
       success: true,
-      data: subscriptions,
+      data: subscriptions.map((subscription: any) => ({ ...subscription, channel_ids: channelIds.get(subscription.id) || [] })),
       timestamp: new Date().toISOString()
     };
 
@@ -103,18 +137,17 @@ class AlertController {
   });
 
   // PUT /api/alerts/:id - Update alert subscription
+  // Also sets delivery: cooldown_minutes, quiet_hours_start/end ('HH:MM' or null), timezone, delivery_mode
+  // and, for condition alerts, for_minutes and resolve_threshold (null = same as threshold).
+  // channel_ids replaces the notification channels the alerts also go to; email_enabled=false leaves only those
   public updateSubscription = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
-    const { threshold, is_active } = req.body;
-
-    const subscription = await this.dbService.queryOne(
-      'SELECT * FROM alert_subscriptions WHERE id = ?',
-      [id]
-    );
+    const {
+      threshold, is_active, cooldown_minutes, quiet_hours_start, quiet_hours_end, timezone, delivery_mode,
+      for_minutes, resolve_threshold, email_enabled, channel_ids
+    } = req.body;
 
-    if (!subscription) {
-      throw createError('Alert subscription not found', 404);
-    }
+    const subscription = await this.loadOwnSubscription(id!, req.user!);
 
     const updates: string[] = [];
     const values: any[] = [];
@@ -125,11 +158,89 @@ class AlertController {
     }
 
     if (is_active !== undefined) {
-      updates.push('is_active = ?');
+      // Only the recipient can turn a pending subscription on, via the confirmation link
+      if (is_active && !subscription.confirmed_at) {
+        throw createError('This subscription has not been confirmed yet. Use the link in the confirmation email', 409);
+      }
+      // Start over from ok so a stale firing state can't swallow the next alert
+      updates.push('is_active = ?', "state = 'ok'", 'state_changed_at = CURRENT_TIMESTAMP');
       values.push(is_active ? 1 : 0);
     }
 
-    if (updates.length === 0) {
+    if ((for_minutes !== undefined || resolve_threshold !== undefined) && !CONDITION_ALERT_TYPES.includes(subscription.alert_type)) {
+      throw createError(`for_minutes and resolve_threshold only apply to ${CONDITION_ALERT_TYPES.join(', ')} alerts`, 400);
+    }
+
+    if (for_minutes !== undefined) {
+      if (!Number.isInteger(for_minutes) || for_minutes < 0 || for_minutes > MAX_FOR_MINUTES) {
+        throw createError(`for_minutes must be a whole number between 0 and ${MAX_FOR_MINUTES}`, 400);
+      }
+      updates.push('for_minutes = ?');
+      values.push(for_minutes);
+    }
+
+    if (resolve_threshold !== undefined) {
+      if (resolve_threshold !== null && typeof resolve_threshold !== 'number') {
+        throw createError('resolve_threshold must be a number or null', 400);
+      }
+      updates.push('resolve_threshold = ?');
+      values.push(resolve_threshold);
+    }
+
+    if (cooldown_minutes !== undefined) {
+      if (!Number.isInteger(cooldown_minutes) || cooldown_minutes < 0 || cooldown_minutes > MAX_COOLDOWN_MINUTES) {
+        throw createError(`cooldown_minutes must be a whole number between 0 and ${MAX_COOLDOWN_MINUTES}`, 400);
+      }
+      updates.push('cooldown_minutes = ?');
+      values.push(cooldown_minutes);
+    }
+
+    // Quiet hours are set or cleared together
+    if (quiet_hours_start !== undefined || quiet_hours_end !== undefined) {
+      const clearing = quiet_hours_start === null && quiet_hours_end === null;
+      if (!clearing && !(TIME_OF_DAY_REGEX.test(quiet_hours_start) && TIME_OF_DAY_REGEX.test(quiet_hours_end))) {
+        throw createError('quiet_hours_start and quiet_hours_end must both be HH:MM (24-hour), or both null', 400);
+      }
+      updates.push('quiet_hours_start = ?', 'quiet_hours_end = ?');
+      values.push(quiet_hours_start, quiet_hours_end);
+    }
+
+    if (timezone !== undefined) {
+      if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+        throw createError('Invalid timezone. Expected an IANA name such as Europe/Berlin', 400);
+      }
+      updates.push('timezone = ?');
+      values.push(timezone);
+    }
+
+    if (delivery_mode !== undefined) {
+      if (!ALERT_DELIVERY_MODES.includes(delivery_mode)) {
+        throw createError(`Invalid delivery_mode. Must be one of: ${ALERT_DELIVERY_MODES.join(', ')}`, 400);
+      }
+      updates.push('delivery_mode = ?');
+      values.push(delivery_mode);
+    }
+
+    if (email_enabled !== undefined) {
+      if (typeof email_enabled !== 'boolean') {
+        throw createError('email_enabled must be a boolean', 400);
+      }
+      updates.push('email_enabled = ?');
+      values.push(email_enabled ? 1 : 0);
+    }
+
+    if (channel_ids !== undefined) {
+      if (!Array.isArray(channel_ids) || !channel_ids.every(channelId => typeof channelId === 'string')) {
+        throw createError('channel_ids must be an array of channel ids', 400);
+      }
+      const ownChannels = await this.loadOwnChannelIds(req.user!.id);
+      const unknown = channel_ids.filter(channelId => !ownChannels.has(channelId));
+      if (unknown.length > 0) {
+        throw createError(`Notification channel not found: ${unknown.join(', ')}`, 404);
+      }
+    }
+
+    if (updates.length === 0 && channel_ids === undefined) {
       throw createError('No valid fields to update', 400);
     }
 
@@ -142,14 +253,25 @@ class AlertController {
       WHERE id = ?
     `, values);
 
+    if (channel_ids !== undefined) {
+      await this.dbService.execute('DELETE FROM alert_subscription_channels WHERE subscription_id = ?', [id]);
+      for (const channelId of new Set<string>(channel_ids)) {
+        await this.dbService.execute(
+          'INSERT INTO alert_subscription_channels (subscription_id, channel_id) VALUES (?, ?)',
+          [id, channelId]
+        );
+      }
+    }
+
     const updatedSubscription = await this.dbService.queryOne(
       'SELECT * FROM alert_subscriptions WHERE id = ?',
       [id]
     );
+    const channelIds = await this.loadChannelIds(req.user!.id);
 
     const response: ApiResponse<any> = {
       success: true,
-      data: updatedSubscription,
+      data: { ...updatedSubscription, channel_ids: channelIds.get(id!) || [] },
       message: 'Alert subscription updated successfully',
       timestamp: new Date().toISOString()
     };
@@ -161,14 +283,7 @@ class AlertController {
   public deleteSubscription = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
 
-    const subscription = await this.dbService.queryOne(
-      'SELECT * FROM alert_subscriptions WHERE id = ?',
-      [id]
-    );
-
-    if (!subscription) {
-      throw createError('Alert subscription not found', 404);
-    }
+    await this.loadOwnSubscription(id!, req.user!);
 
     await this.dbService.execute('DELETE FROM alert_subscriptions WHERE id = ?', [id]);
 
@@ -182,21 +297,69 @@ class AlertController {
     res.json(response);
   });
 
-  // GET /api/alerts/history/:email - Get alert history for an email
-  public getAlertHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const { email } = req.params;
-    const { limit = 50, offset = 0 } = req.query;
+  // POST /api/alerts/:id/confirmation - Send the verification email again
+  public resendConfirmation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
 
-    if (!email) {
-      throw createError('Email parameter is required', 400);
+    const subscription = await this.loadOwnSubscription(id!, req.user!);
+    if (subscription.confirmed_at) {
+      throw createError('This subscription is already confirmed', 409);
     }
 
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      throw createError('Invalid email format', 400);
+    const delivery = await this.alertService.sendConfirmation(id!);
+    if (delivery.retryAfterSeconds) {
+      res.set('Retry-After', String(delivery.retryAfterSeconds));
+      throw createError(`${delivery.error}, please wait before asking for another`, 429);
+    }
+    if (!delivery.success) {
+      throw createError('The confirmation email could not be sent, please try again later', 502);
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      data: null,
+      message: `Confirmation email sent to ${subscription.email}`,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // GET /api/alerts/confirm?token= - Confirmation link from the verification email (no login)
+  public confirmSubscription = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const subscription = await this.alertService.confirmSubscription(String(req.query.token || ''));
+
+    if (!subscription) {
+      this.sendLinkResult(req, res, 400, 'Link invalid or expired',
+        'This confirmation link is invalid or has expired. Ask for a new one from the dashboard.', null);
+      return;
+    }
+
+    this.sendLinkResult(req, res, 200, 'Alerts confirmed',
+      `${subscription.email} will now receive these alerts. Every alert email has a link to unsubscribe.`, subscription);
+  });
+
+  // GET|POST /api/alerts/unsubscribe?token= - Unsubscribe link in every alert email (no login)
+  // POST is the one-click form mail clients send for the List-Unsubscribe header
+  public unsubscribe = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const subscription = await this.alertService.unsubscribe(String(req.query.token || ''));
+
+    if (!subscription) {
+      this.sendLinkResult(req, res, 400, 'Link invalid',
+        'This unsubscribe link is invalid, or the subscription has already been deleted.', null);
+      return;
     }
 
+    this.sendLinkResult(req, res, 200, 'Unsubscribed',
+      `${subscription.email} will no longer receive these alerts.`, subscription);
+  });
+
+  // GET /api/alerts/history - Get alert history of the logged-in user's subscriptions
+  // Each entry lists its notification channel deliveries; the email outcome is on the entry itself
+  public getAlertHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user!.id;
+    const { limit = 50, offset = 0 } = req.query;
+
     const history = await this.dbService.query(`
       SELECT 
         ah.*,
@@ -206,21 +369,35 @@ class AlertController {
       FROM alert_history ah
       INNER JOIN alert_subscriptions s ON ah.subscription_id = s.id
       LEFT JOIN pools p ON ah.pool_id = p.id
-      WHERE s.email = ?
+      WHERE s.user_id = ?
       ORDER BY ah.triggered_at DESC
       LIMIT ? OFFSET ?
-    `, [email, parseInt(limit as string), parseInt(offset as string)]);
+    `, [userId, parseInt(limit as string), parseInt(offset as string)]);
 
     const totalCount = await this.dbService.queryOne(`
       SELECT COUNT(*) as count
       FROM alert_history ah
       INNER JOIN alert_subscriptions s ON ah.subscription_id = s.id
-      WHERE s.email = ?
-    `, [email]);
+      WHERE s.user_id = ?
+    `, [userId]);
+
+    const historyIds = history.map((entry: any) => entry.id);
+    const deliveries = historyIds.length === 0 ? [] : await this.dbService.query<any>(`
+      SELECT d.alert_history_id, d.channel_id, d.channel_type, c.name as channel_name, d.success, d.error_message, d.attempted_at
+      FROM alert_history_deliveries d
+      LEFT JOIN notification_channels c ON d.channel_id = c.id
+      WHERE d.alert_history_id IN (${historyIds.map(() => '?').join(', ')})
+      ORDER BY d.attempted_at ASC
+    `, historyIds);
 
     const response: ApiResponse<any[]> = {
       success: true,
-      data: history,
+      data: history.map((entry: any) => ({
+        ...entry,
+        deliveries: deliveries
+          .filter(delivery => delivery.alert_history_id === entry.id)
+          .map(({ alert_history_id, ...delivery }) => delivery)
+      })),
       message: `Found ${history.length} alert history records`,
       timestamp: new Date().toISOString()
     };
@@ -228,34 +405,27 @@ class AlertController {
     res.json(response);
   });
 
-  // POST /api/alerts/test - Test alert (development only)
+  // POST /api/alerts/test - Record a test alert on one of your subscriptions (development only)
   public testAlert = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     if (process.env.NODE_ENV === 'production') {
       throw createError('Test alerts not available in production', 403);
     }
 
-    const { email, alert_type, message } = req.body;
+    const { subscription_id, message } = req.body;
 
-    if (!email || !alert_type || !message) {
-      throw createError('Email, alert_type, and message are required', 400);
+    if (!subscription_id || !message) {
+      throw createError('subscription_id and message are required', 400);
     }
 
-    // Create a temporary alert history entry for testing
+    // Recorded against one of the user's own subscriptions rather than a throwaway one
+    const subscription = await this.loadOwnSubscription(subscription_id, req.user!);
     const testId = this.generateId();
-    const testSubscriptionId = this.generateId();
 
-    // Insert temporary subscription if it doesn't exist
     try {
-      await this.dbService.execute(`
-        INSERT OR IGNORE INTO alert_subscriptions (id, email, alert_type, threshold, is_active)
-        VALUES (?, ?, ?, ?, ?)
-      `, [testSubscriptionId, email, alert_type, 0, 1]);
-
-      // Insert test alert history
       await this.dbService.execute(`
         INSERT INTO alert_history (id, subscription_id, message, email_sent, triggered_at)
         VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
-      `, [testId, testSubscriptionId, message, 0]);
+      `, [testId, subscription.id, message, 0]);
 
       const response: ApiResponse<any> = {
         success: true,
@@ -270,6 +440,72 @@ class AlertController {
     }
   });
 
+  // A subscription can only be read or changed by the account that created it
+  private async loadOwnSubscription(id: string, user: AuthUser): Promise<any> {
+    const subscription = await this.dbService.queryOne(
+      'SELECT * FROM alert_subscriptions WHERE id = ?',
+      [id]
+    );
+
+    if (!subscription) {
+      throw createError('Alert subscription not found', 404);
+    }
+
+    if (subscription.user_id !== user.id) {
+      throw createError('You do not have access to this alert subscription', 403);
+    }
+
+    return subscription;
+  }
+
+  // Notification channels selected per subscription, for all of the user's subscriptions
+  private async loadChannelIds(userId: string): Promise<Map<string, string[]>> {
+    const rows = await this.dbService.query<{ subscription_id: string; channel_id: string }>(`
+      SELECT sc.subscription_id, sc.channel_id
+      FROM alert_subscription_channels sc
+      INNER JOIN alert_subscriptions s ON sc.subscription_id = s.id
+      WHERE s.user_id = ?
+    `, [userId]);
+
+    const bySubscription = new Map<string, string[]>();
+    for (const row of rows) {
+      bySubscription.set(row.subscription_id, [...(bySubscription.get(row.subscription_id) || []), row.channel_id]);
+    }
+    return bySubscription;
+  }
+
+  // Subscriptions may only route alerts to their owner's channels
+  private async loadOwnChannelIds(userId: string): Promise<Set<string>> {
+    const rows = await this.dbService.query<{ id: string }>('SELECT id FROM notification_channels WHERE user_id = ?', [userId]);
+    return new Set(rows.map(row => row.id));
+  }
+
+  // Links from emails open in a browser, so answer with a page unless the client asked for JSON
+  private sendLinkResult(req: Request, res: Response, status: number, title: string, message: string, data: any): void {
+    if (req.accepts(['json', 'html']) === 'html') {
+      res.status(status).type('html').send(`<!doctype html>
+<html>
+  <head><meta charset="utf-8"><title>${escapeHtml(title)} - Mining Dashboard</title></head>
+  <body style="font-family: Inter, Arial, sans-serif; background: #f8f9fa; padding: 48px 24px;">
+    <div style="max-width: 480px; margin: 0 auto; background: #ffffff; border-radius: 10px; padding: 24px;">
+      <h2 style="margin-top: 0; color: #1a1d29;">${escapeHtml(title)}</h2>
+      <p style="color: #2d3748;">${escapeHtml(message)}</p>
+    </div>
+  </body>
+</html>`);
+      return;
+    }
+
+    const response: ApiResponse<any> = {
+      success: status < 400,
+      data,
+      ...(status < 400 ? { message } : { error: message }),
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(status).json(response);
+  }
+
   private generateId(): string {
     if (process.env.DATABASE_TYPE === 'sqlite') {
       return require('crypto').randomBytes(16).toString('hex');
@@ -283,42 +519,70 @@ class AlertController {
 let alertController: AlertController;
 
 // Routes
-router.post('/subscribe', (req, res, next) => {
+router.post('/subscribe', requireAuth, (req, res, next) => {
   if (!alertController) {
     return next(createError('Service not initialized', 500));
   }
   alertController.createSubscription(req, res, next);
 });
 
-router.get('/manage/:email', (req, res, next) => {
+router.get('/', requireAuth, (req, res, next) => {
   if (!alertController) {
     return next(createError('Service not initialized', 500));
   }
-  alertController.getSubscriptionsByEmail(req, res, next);
+  alertController.getSubscriptions(req, res, next);
 });
 
-router.put('/:id', (req, res, next) => {
+router.put('/:id', requireAuth, (req, res, next) => {
   if (!alertController) {
     return next(createError('Service not initialized', 500));
   }
   alertController.updateSubscription(req, res, next);
 });
 
-router.delete('/:id', (req, res, next) => {
+router.delete('/:id', requireAuth, (req, res, next) => {
   if (!alertController) {
     return next(createError('Service not initialized', 500));
   }
   alertController.deleteSubscription(req, res, next);
 });
 
-router.get('/history/:email', (req, res, next) => {
+router.post('/:id/confirmation', requireAuth, (req, res, next) => {
+  if (!alertController) {
+    return next(createError('Service not initialized', 500));
+  }
+  alertController.resendConfirmation(req, res, next);
+});
+
+router.get('/confirm', (req, res, next) => {
+  if (!alertController) {
+    return next(createError('Service not initialized', 500));
+  }
+  alertController.confirmSubscription(req, res, next);
+});
+
+router.get('/unsubscribe', (req, res, next) => {
+  if (!alertController) {
+    return next(createError('Service not initialized', 500));
+  }
+  alertController.unsubscribe(req, res, next);
+});
+
+router.post('/unsubscribe', (req, res, next) => {
+  if (!alertController) {
+    return next(createError('Service not initialized', 500));
+  }
+  alertController.unsubscribe(req, res, next);
+});
+
+router.get('/history', requireAuth, (req, res, next) => {
   if (!alertController) {
     return next(createError('Service not initialized', 500));
   }
   alertController.getAlertHistory(req, res, next);
 });
 
-router.post('/test', (req, res, next) => {
+router.post('/test', requireAuth, (req, res, next) => {
   if (!alertController) {
     return next(createError('Service not initialized', 500));
   }
@@ -326,8 +590,8 @@ router.post('/test', (req, res, next) => {
 });
 
 // Initialize function to be called from server.ts
-export const initializeAlertController = (dbService: DatabaseService): void => {
-  alertController = new AlertController(dbService);
+export const initializeAlertController = (dbService: DatabaseService, alertService: AlertService): void => {
+  alertController = new AlertController(dbService, alertService);
 };
 
 export default router;
\ No newline at end of file
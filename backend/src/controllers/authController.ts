@@ -0,0 +1,147 @@
+import { Router, Request, Response } from 'express';
+import { AuthService, AuthSession } from '../services/AuthService';
+import { WebSocketService } from '../services/WebSocketService';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+import { ApiResponse, AuthUser } from '../types';
+
+const router = Router();
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+class AuthController {
+  private authService: AuthService;
+  private websocketService?: WebSocketService;
+
+  constructor(authService: AuthService, websocketService?: WebSocketService) {
+    this.authService = authService;
+    this.websocketService = websocketService;
+  }
+
+  // POST /api/auth/register - Create an account and start a session
+  public register = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { email, password } = this.readCredentials(req);
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw createError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+    }
+
+    if (await this.authService.findUserByEmail(email)) {
+      throw createError('An account with this email already exists', 409);
+    }
+
+    const user = await this.authService.createUser(email, password);
+    const session = await this.authService.createSession(user);
+
+    const response: ApiResponse<AuthSession> = {
+      success: true,
+      data: session,
+      message: 'Account created successfully',
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(201).json(response);
+  });
+
+  // POST /api/auth/login - Exchange email and password for a session token
+  public login = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { email, password } = this.readCredentials(req);
+
+    const user = await this.authService.verifyPassword(email, password);
+    if (!user) {
+      throw createError('Invalid email or password', 401);
+    }
+
+    const response: ApiResponse<AuthSession> = {
+      success: true,
+      data: await this.authService.createSession(user),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // POST /api/auth/logout - Revoke the session the request was made with, also on open WebSockets
+  public logout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    await this.authService.revokeSession(req.authToken!);
+    this.websocketService?.revokeSession(req.authToken!);
+
+    const response: ApiResponse<null> = {
+      success: true,
+      data: null,
+      message: 'Logged out successfully',
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // GET /api/auth/me - The account behind the session token
+  public me = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const response: ApiResponse<AuthUser> = {
+      success: true,
+      data: req.user!,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  private readCredentials(req: Request): { email: string; password: string } {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      throw createError('Email and password are required', 400);
+    }
+
+    if (typeof email !== 'string' || !EMAIL_REGEX.test(email)) {
+      throw createError('Invalid email format', 400);
+    }
+
+    if (typeof password !== 'string') {
+      throw createError('Password must be a string', 400);
+    }
+
+    return { email: email.trim().toLowerCase(), password };
+  }
+}
+
+// Initialize controller with auth service
+let authController: AuthController;
+
+// Routes
+router.post('/register', (req, res, next) => {
+  if (!authController) {
+    return next(createError('Service not initialized', 500));
+  }
+  authController.register(req, res, next);
+});
+
+router.post('/login', (req, res, next) => {
+  if (!authController) {
+    return next(createError('Service not initialized', 500));
+  }
+  authController.login(req, res, next);
+});
+
+router.post('/logout', requireAuth, (req, res, next) => {
+  if (!authController) {
+    return next(createError('Service not initialized', 500));
+  }
+  authController.logout(req, res, next);
+});
+
+router.get('/me', requireAuth, (req, res, next) => {
+  if (!authController) {
+    return next(createError('Service not initialized', 500));
+  }
+  authController.me(req, res, next);
+});
+
+// Initialize function to be called from server.ts
+export const initializeAuthController = (authService: AuthService, websocketService?: WebSocketService): void => {
+  authController = new AuthController(authService, websocketService);
+};
+
+export default router;
@@ -0,0 +1,85 @@
+import { Router, Request, Response } from 'express';
+import { ProfitabilityService, EarningsEstimate } from '../services/ProfitabilityService';
+import { PriceUnavailableError } from '../services/ExternalAPIService';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { ApiResponse } from '../types';
+import { DEFAULT_COIN, parseCoin } from '../utils/coins';
+
+const router = Router();
+
+const SUPPORTED_CURRENCIES = ['usd', 'eur', 'gbp', 'cad', 'aud', 'chf', 'jpy', 'cny'];
+
+class CalculatorController {
+  private profitabilityService: ProfitabilityService;
+
+  constructor(profitabilityService: ProfitabilityService) {
+    this.profitabilityService = profitabilityService;
+  }
+
+  // GET /api/calculator - Project earnings per pool for a rig
+  // Query: hashrate (MH/s), power (W), electricity_cost (per kWh), currency, coin (default ETHW)
+  public calculate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { hashrate, power = '0', electricity_cost = '0', currency = 'usd' } = req.query;
+
+    const hashrateMh = parseFloat(hashrate as string);
+    const powerWatts = parseFloat(power as string);
+    const electricityCost = parseFloat(electricity_cost as string);
+    const vsCurrency = String(currency).toLowerCase();
+    const coin = parseCoin(req.query.coin) ?? DEFAULT_COIN;
+
+    if (!Number.isFinite(hashrateMh) || hashrateMh <= 0) {
+      throw createError('hashrate (MH/s) is required and must be a positive number', 400);
+    }
+
+    if (!Number.isFinite(powerWatts) || powerWatts < 0) {
+      throw createError('power must be a non-negative number of watts', 400);
+    }
+
+    if (!Number.isFinite(electricityCost) || electricityCost < 0) {
+      throw createError('electricity_cost must be a non-negative price per kWh', 400);
+    }
+
+    if (!SUPPORTED_CURRENCIES.includes(vsCurrency)) {
+      throw createError(`Invalid currency. Must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`, 400);
+    }
+
+    const estimate = await this.profitabilityService.estimateEarnings({
+      hashrate: hashrateMh * 1e6,
+      powerWatts,
+      electricityCost,
+      currency: vsCurrency,
+      coin
+    }).catch(error => {
+      if (error instanceof PriceUnavailableError) {
+        throw createError(`The ${coin} price is unavailable right now, please try again later`, 503);
+      }
+      throw error;
+    });
+
+    const response: ApiResponse<EarningsEstimate> = {
+      success: true,
+      data: estimate,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+}
+
+// Initialize controller with profitability service
+let calculatorController: CalculatorController;
+
+// Routes
+router.get('/', (req, res, next) => {
+  if (!calculatorController) {
+    return next(createError('Service not initialized', 500));
+  }
+  calculatorController.calculate(req, res, next);
+});
+
+// Initialize function to be called from server.ts
+export const initializeCalculatorController = (profitabilityService: ProfitabilityService): void => {
+  calculatorController = new CalculatorController(profitabilityService);
+};
+
+export default router;
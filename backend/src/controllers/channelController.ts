@@ -0,0 +1,188 @@
+import { Router, Request, Response } from 'express';
+import { DatabaseService } from '../services/DatabaseService';
+import { NotificationChannelRegistry, createTestNotification } from '../services/channels';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+import { ApiResponse, AuthUser, NotificationChannelRow } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const router = Router();
+
+const MAX_NAME_LENGTH = 100;
+
+// What the API shows of a channel; the config holds webhook URLs and bot tokens, so it is never sent back
+type ChannelSummary = Pick<NotificationChannelRow, 'id' | 'type' | 'name' | 'created_at'>;
+
+const toSummary = ({ id, type, name, created_at }: NotificationChannelRow): ChannelSummary => ({ id, type, name, created_at });
+
+class ChannelController {
+  private dbService: DatabaseService;
+  private registry: NotificationChannelRegistry;
+
+  constructor(dbService: DatabaseService, registry: NotificationChannelRegistry) {
+    this.dbService = dbService;
+    this.registry = registry;
+  }
+
+  // GET /api/channels - Notification channels of the logged-in user
+  public getChannels = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const channels = await this.dbService.query<NotificationChannelRow>(
+      'SELECT * FROM notification_channels WHERE user_id = ? ORDER BY created_at ASC',
+      [req.user!.id]
+    );
+
+    const response: ApiResponse<ChannelSummary[]> = {
+      success: true,
+      data: channels.map(toSummary),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // POST /api/channels - Add a channel: { type, name, config }
+  // config is { url, secret } for webhook, { webhook_url } for slack and discord, { bot_token, chat_id } for telegram
+  public createChannel = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { type, name, config } = req.body;
+
+    const channel = typeof type === 'string' ? this.registry.get(type) : undefined;
+    if (!channel) {
+      throw createError(`Invalid type. Must be one of: ${this.registry.getTypes().join(', ')}`, 400);
+    }
+
+    if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+      throw createError(`name is required and may be at most ${MAX_NAME_LENGTH} characters`, 400);
+    }
+
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw createError('config must be an object', 400);
+    }
+
+    const configError = channel.validateConfig(config);
+    if (configError) {
+      throw createError(`Invalid ${type} config: ${configError}`, 400);
+    }
+
+    const id = this.generateId();
+    await this.dbService.execute(
+      'INSERT INTO notification_channels (id, user_id, type, name, config) VALUES (?, ?, ?, ?, ?)',
+      [id, req.user!.id, type, name.trim(), JSON.stringify(config)]
+    );
+
+    const created = await this.loadOwnChannel(id, req.user!);
+
+    const response: ApiResponse<ChannelSummary> = {
+      success: true,
+      data: toSummary(created),
+      message: `Channel created, send a test with POST /api/channels/${id}/test`,
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(201).json(response);
+  });
+
+  // DELETE /api/channels/:id - Remove a channel; subscriptions using it stop sending there
+  public deleteChannel = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    await this.loadOwnChannel(id!, req.user!);
+
+    await this.dbService.execute('DELETE FROM notification_channels WHERE id = ?', [id]);
+
+    const response: ApiResponse<null> = {
+      success: true,
+      data: null,
+      message: 'Channel deleted successfully',
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // POST /api/channels/:id/test - Send a test notification through the channel
+  public testChannel = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const channel = await this.loadOwnChannel(req.params.id!, req.user!);
+
+    const result = await this.registry.send(channel, createTestNotification());
+    if (!result.success) {
+      // The reason (status code, connection error) stays in the server log: echoing it would let
+      // callers use this endpoint to probe what answers at an address
+      console.warn(`⚠️  Test notification to ${channel.type} channel ${channel.id} failed: ${result.error}`);
+      throw createError('Test notification could not be delivered, check the channel settings', 502);
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      data: null,
+      message: `Test notification sent to ${channel.name}`,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // A channel can only be used or removed by the account that created it
+  private async loadOwnChannel(id: string, user: AuthUser): Promise<NotificationChannelRow> {
+    const channel = await this.dbService.queryOne<NotificationChannelRow>(
+      'SELECT * FROM notification_channels WHERE id = ?',
+      [id]
+    );
+
+    if (!channel) {
+      throw createError('Notification channel not found', 404);
+    }
+
+    if (channel.user_id !== user.id) {
+      throw createError('You do not have access to this notification channel', 403);
+    }
+
+    return channel;
+  }
+
+  private generateId(): string {
+    if (process.env.DATABASE_TYPE === 'sqlite') {
+      return require('crypto').randomBytes(16).toString('hex');
+    } else {
+      return uuidv4();
+    }
+  }
+}
+
+// Initialize controller with database service and channel registry
+let channelController: ChannelController;
+
+// Routes
+router.get('/', requireAuth, (req, res, next) => {
+  if (!channelController) {
+    return next(createError('Service not initialized', 500));
+  }
+  channelController.getChannels(req, res, next);
+});
+
+router.post('/', requireAuth, (req, res, next) => {
+  if (!channelController) {
+    return next(createError('Service not initialized', 500));
+  }
+  channelController.createChannel(req, res, next);
+});
+
+router.delete('/:id', requireAuth, (req, res, next) => {
+  if (!channelController) {
+    return next(createError('Service not initialized', 500));
+  }
+  channelController.deleteChannel(req, res, next);
+});
+
+router.post('/:id/test', requireAuth, (req, res, next) => {
+  if (!channelController) {
+    return next(createError('Service not initialized', 500));
+  }
+  channelController.testChannel(req, res, next);
+});
+
+// Initialize function to be called from server.ts
+export const initializeChannelController = (dbService: DatabaseService, registry: NotificationChannelRegistry): void => {
+  channelController = new ChannelController(dbService, registry);
+};
+
+export default router;
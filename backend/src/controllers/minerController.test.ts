@@ -0,0 +1,82 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DatabaseService } from '../services/DatabaseService';
+import { AuthService } from '../services/AuthService';
+import { errorHandler } from '../middleware/errorHandler';
+import { initializeAuth } from '../middleware/auth';
+import { AlertType } from '../types';
+import minerRoutes, { initializeMinerController } from './minerController';
+
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+
+describe('minerController', () => {
+  let dbService: DatabaseService;
+  let server: http.Server;
+  let baseUrl: string;
+  let token: string;
+  let userId: string;
+
+  const subscriptionIds = async (): Promise<string[]> =>
+    (await dbService.query<{ id: string }>('SELECT id FROM alert_subscriptions ORDER BY id')).map(row => row.id);
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    const authService = new AuthService(dbService, { secret: 'test-secret', bcryptRounds: 4 });
+    const user = await authService.createUser('miner@example.com', 'correct horse');
+    userId = user.id;
+    token = (await authService.createSession(user)).token;
+    initializeAuth(authService);
+    initializeMinerController(dbService);
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/miners', minerRoutes);
+    app.use(errorHandler);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise<void>(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, fee_percentage, payout_method) VALUES (?, ?, ?, ?, ?), (?, ?, ?, ?, ?)`,
+      ['pool-1', 'Pool One', 'http://127.0.0.1:1', 1.0, 'PPLNS', 'pool-2', 'Pool Two', 'http://127.0.0.1:1', 1.0, 'PPS']
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await dbService.close();
+  });
+
+  const request = (method: string, path: string, body?: object) => fetch(`${baseUrl}/api/miners${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  it('removes the miner alerts on an address once it leaves the watchlist', async () => {
+    expect((await request('POST', '/', { address: ADDRESS, pool_id: 'pool-1' })).status).toBe(201);
+    expect((await request('POST', '/', { address: ADDRESS, pool_id: 'pool-2' })).status).toBe(201);
+    await dbService.execute(
+      `INSERT INTO alert_subscriptions (id, user_id, email, pool_id, miner_address, alert_type, is_active)
+       VALUES (?, ?, ?, ?, ?, ?, 1), (?, ?, ?, ?, ?, ?, 1), (?, ?, ?, ?, ?, ?, 1), (?, ?, ?, ?, ?, ?, 1)`,
+      [
+        'sub-pool-1', userId, 'miner@example.com', 'pool-1', ADDRESS, AlertType.WORKER_OFFLINE,
+        'sub-pool-2', userId, 'miner@example.com', 'pool-2', ADDRESS, AlertType.WORKER_OFFLINE,
+        'sub-any-pool', userId, 'miner@example.com', null, ADDRESS, AlertType.REJECTED_SHARE_RATIO,
+        'sub-pool-alert', userId, 'miner@example.com', 'pool-1', null, AlertType.POOL_OFFLINE
+      ]
+    );
+
+    // Still watched on pool-2, so only the alert pinned to pool-1 goes
+    expect((await request('DELETE', `/${ADDRESS}?pool_id=pool-1`)).status).toBe(200);
+    expect(await subscriptionIds()).toEqual(['sub-any-pool', 'sub-pool-2', 'sub-pool-alert']);
+
+    expect((await request('DELETE', `/${ADDRESS}`)).status).toBe(200);
+    expect(await subscriptionIds()).toEqual(['sub-pool-alert']);
+  });
+});
@@ -0,0 +1,391 @@
+import { Router, Request, Response } from 'express';
+import { DatabaseService } from '../services/DatabaseService';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+import { ApiResponse, MINER_ALERT_TYPES } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const router = Router();
+
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+
+class MinerController {
+  private dbService: DatabaseService;
+
+  constructor(dbService: DatabaseService) {
+    this.dbService = dbService;
+  }
+
+  // POST /api/miners - Add a wallet address on a pool to the user's watchlist
+  // The address is collected once however many users watch it
+  public registerMiner = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { address, pool_id, label } = req.body;
+    const userId = req.user!.id;
+
+    if (!address || !pool_id) {
+      throw createError('address and pool_id are required', 400);
+    }
+
+    const normalizedAddress = this.normalizeAddress(address);
+
+    const pool = await this.dbService.queryOne('SELECT id FROM pools WHERE id = ?', [pool_id]);
+    if (!pool) {
+      throw createError('Pool not found', 404);
+    }
+
+    let miner = await this.dbService.queryOne<{ id: string }>(
+      'SELECT id FROM miners WHERE address = ? AND pool_id = ?',
+      [normalizedAddress, pool_id]
+    );
+    if (!miner) {
+      miner = { id: this.generateId() };
+      await this.dbService.execute(`
+        INSERT INTO miners (id, address, pool_id)
+        VALUES (?, ?, ?)
+      `, [miner.id, normalizedAddress, pool_id]);
+    }
+
+    try {
+      await this.dbService.execute(`
+        INSERT INTO watchlist (id, user_id, miner_id, label)
+        VALUES (?, ?, ?, ?)
+      `, [this.generateId(), userId, miner.id, label || null]);
+
+      const watched = await this.dbService.queryOne(`
+        SELECT m.*, w.label
+        FROM miners m
+        INNER JOIN watchlist w ON w.miner_id = m.id AND w.user_id = ?
+        WHERE m.id = ?
+      `, [userId, miner.id]);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: watched,
+        message: 'Miner registered successfully; statistics appear after the next collection run',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      if (error.message.includes('UNIQUE constraint failed') || error.code === '23505') {
+        throw createError('This address is already on your watchlist for this pool', 409);
+      }
+      throw error;
+    }
+  });
+
+  // GET /api/miners - The logged-in user's watchlist
+  public getWatchlist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const miners = await this.dbService.query(`
+      SELECT
+        m.id as miner_id,
+        m.address,
+        m.pool_id,
+        p.name as pool_name,
+        w.label,
+        w.created_at,
+        m.last_fetch_at,
+        m.last_fetch_error
+      FROM watchlist w
+      INNER JOIN miners m ON w.miner_id = m.id
+      INNER JOIN pools p ON m.pool_id = p.id
+      WHERE w.user_id = ?
+      ORDER BY w.created_at DESC
+    `, [req.user!.id]);
+
+    const response: ApiResponse<any[]> = {
+      success: true,
+      data: miners,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // GET /api/miners/:address - Latest statistics for an address on every pool the user watches it on
+  public getMiner = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const address = this.normalizeAddress(req.params.address);
+
+    const pools = await this.dbService.query(`
+      SELECT
+        m.id as miner_id,
+        m.pool_id,
+        p.name as pool_name,
+        p.minimum_payout,
+        w.label,
+        m.last_fetch_at,
+        m.last_fetch_error,
+        ms.timestamp,
+        ms.reported_hashrate,
+        ms.current_hashrate,
+        ms.valid_shares,
+        ms.invalid_shares,
+        ms.stale_shares,
+        ms.active_workers,
+        ms.unpaid
+      FROM miners m
+      INNER JOIN watchlist w ON w.miner_id = m.id AND w.user_id = ?
+      INNER JOIN pools p ON m.pool_id = p.id
+      LEFT JOIN miner_statistics ms ON ms.id = (
+        SELECT id FROM miner_statistics
+        WHERE miner_id = m.id
+        ORDER BY timestamp DESC
+        LIMIT 1
+      )
+      WHERE m.address = ?
+      ORDER BY p.name
+    `, [req.user!.id, address]);
+
+    if (pools.length === 0) {
+      throw createError('Miner not found', 404);
+    }
+
+    const rows = pools.map((row: any) => ({
+      ...row,
+      share_quality: this.shareQuality(row)
+    }));
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        address,
+        totals: {
+          current_hashrate: rows.reduce((sum, row) => sum + (row.current_hashrate || 0), 0),
+          reported_hashrate: rows.reduce((sum, row) => sum + (row.reported_hashrate || 0), 0),
+          active_workers: rows.reduce((sum, row) => sum + (row.active_workers || 0), 0),
+          unpaid: rows.reduce((sum, row) => sum + (row.unpaid || 0), 0)
+        },
+        pools: rows
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // GET /api/miners/:address/history - Time series for an address
+  public getMinerHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const address = this.normalizeAddress(req.params.address);
+    const { period = '24h', pool_id, limit = 500 } = req.query;
+
+    let dateFilter = "datetime('now', '-1 day')";
+    switch (period) {
+      case '7d':
+        dateFilter = "datetime('now', '-7 days')";
+        break;
+      case '30d':
+        dateFilter = "datetime('now', '-30 days')";
+        break;
+      case '24h':
+      default:
+        dateFilter = "datetime('now', '-1 day')";
+        break;
+    }
+
+    const poolCondition = pool_id ? 'AND m.pool_id = ?' : '';
+    const params: any[] = [req.user!.id, address];
+    if (pool_id) params.push(pool_id);
+    params.push(parseInt(limit as string));
+
+    const history = await this.dbService.query(`
+      SELECT
+        m.pool_id,
+        ms.timestamp,
+        ms.reported_hashrate,
+        ms.current_hashrate,
+        ms.valid_shares,
+        ms.invalid_shares,
+        ms.stale_shares,
+        ms.active_workers,
+        ms.unpaid
+      FROM miner_statistics ms
+      INNER JOIN miners m ON ms.miner_id = m.id
+      INNER JOIN watchlist w ON w.miner_id = m.id AND w.user_id = ?
+      WHERE m.address = ? ${poolCondition} AND ms.timestamp >= ${dateFilter}
+      ORDER BY ms.timestamp DESC
+      LIMIT ?
+    `, params);
+
+    const response: ApiResponse<any[]> = {
+      success: true,
+      data: history.reverse(), // Return oldest to newest for charts
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // GET /api/miners/:address/workers - Workers of an address with their latest reading
+  public getMinerWorkers = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const address = this.normalizeAddress(req.params.address);
+    const { pool_id } = req.query;
+
+    const poolCondition = pool_id ? 'AND m.pool_id = ?' : '';
+    const params: any[] = [req.user!.id, address];
+    if (pool_id) params.push(pool_id);
+
+    const workers = await this.dbService.query(`
+      SELECT
+        w.id,
+        w.name,
+        m.pool_id,
+        p.name as pool_name,
+        w.is_online,
+        w.last_seen_at,
+        w.status_changed_at,
+        ws.reported_hashrate,
+        ws.current_hashrate,
+        ws.valid_shares,
+        ws.invalid_shares,
+        ws.stale_shares
+      FROM workers w
+      INNER JOIN miners m ON w.miner_id = m.id
+      INNER JOIN watchlist wl ON wl.miner_id = m.id AND wl.user_id = ?
+      INNER JOIN pools p ON m.pool_id = p.id
+      LEFT JOIN worker_statistics ws ON ws.id = (
+        SELECT id FROM worker_statistics
+        WHERE worker_id = w.id
+        ORDER BY timestamp DESC
+        LIMIT 1
+      )
+      WHERE m.address = ? ${poolCondition}
+      ORDER BY w.is_online ASC, p.name, w.name
+    `, params);
+
+    const response: ApiResponse<any[]> = {
+      success: true,
+      data: workers.map((row: any) => ({ ...row, is_online: Boolean(row.is_online) })),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // DELETE /api/miners/:address - Remove an address from the user's watchlist (on one pool with ?pool_id=)
+  // Miners nobody watches any more stop being collected and lose their history. The user's
+  // miner alerts on the address go too, as those may only watch addresses on the watchlist
+  public deleteMiner = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const address = this.normalizeAddress(req.params.address);
+    const { pool_id } = req.query;
+
+    const poolCondition = pool_id ? 'AND m.pool_id = ?' : '';
+    const params: any[] = [req.user!.id, address];
+    if (pool_id) params.push(pool_id);
+
+    const watched = await this.dbService.query<{ watch_id: string; miner_id: string; pool_id: string }>(`
+      SELECT w.id as watch_id, m.id as miner_id, m.pool_id
+      FROM watchlist w
+      INNER JOIN miners m ON w.miner_id = m.id
+      WHERE w.user_id = ? AND m.address = ? ${poolCondition}
+    `, params);
+    if (watched.length === 0) {
+      throw createError('Miner not found', 404);
+    }
+
+    for (const { watch_id, miner_id, pool_id: minerPoolId } of watched) {
+      await this.dbService.execute('DELETE FROM watchlist WHERE id = ?', [watch_id]);
+      await this.dbService.execute(
+        'DELETE FROM miners WHERE id = ? AND NOT EXISTS (SELECT 1 FROM watchlist WHERE miner_id = ?)',
+        [miner_id, miner_id]
+      );
+      // Alerts pinned to this pool, or to any pool once the address is watched on none of them
+      await this.dbService.execute(`
+        DELETE FROM alert_subscriptions
+        WHERE user_id = ? AND miner_address = ? AND alert_type IN (${MINER_ALERT_TYPES.map(() => '?').join(',')})
+          AND (pool_id = ? OR (pool_id IS NULL AND NOT EXISTS (
+            SELECT 1 FROM watchlist w INNER JOIN miners m ON w.miner_id = m.id WHERE w.user_id = ? AND m.address = ?
+          )))
+      `, [req.user!.id, address, ...MINER_ALERT_TYPES, minerPoolId, req.user!.id, address]);
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Miner removed successfully',
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  private normalizeAddress(address: unknown): string {
+    if (typeof address !== 'string' || !ADDRESS_REGEX.test(address)) {
+      throw createError('Invalid wallet address. Expected 0x followed by 40 hex characters', 400);
+    }
+    return address.toLowerCase();
+  }
+
+  // Stale/invalid ratios over all shares in the latest reporting window
+  private shareQuality(row: any): { total: number; stale_rate: number; invalid_rate: number } | null {
+    if (row.valid_shares === null || row.valid_shares === undefined) {
+      return null;
+    }
+
+    const total = row.valid_shares + row.invalid_shares + row.stale_shares;
+    return {
+      total,
+      stale_rate: total > 0 ? (row.stale_shares / total) * 100 : 0,
+      invalid_rate: total > 0 ? (row.invalid_shares / total) * 100 : 0
+    };
+  }
+
+  private generateId(): string {
+    if (process.env.DATABASE_TYPE === 'sqlite') {
+      return require('crypto').randomBytes(16).toString('hex');
+    } else {
+      return uuidv4();
+    }
+  }
+}
+
+// Initialize controller with database service
+let minerController: MinerController;
+
+// Routes
+router.post('/', requireAuth, (req, res, next) => {
+  if (!minerController) {
+    return next(createError('Service not initialized', 500));
+  }
+  minerController.registerMiner(req, res, next);
+});
+
+router.get('/', requireAuth, (req, res, next) => {
+  if (!minerController) {
+    return next(createError('Service not initialized', 500));
+  }
+  minerController.getWatchlist(req, res, next);
+});
+
+router.get('/:address', requireAuth, (req, res, next) => {
+  if (!minerController) {
+    return next(createError('Service not initialized', 500));
+  }
+  minerController.getMiner(req, res, next);
+});
+
+router.get('/:address/history', requireAuth, (req, res, next) => {
+  if (!minerController) {
+    return next(createError('Service not initialized', 500));
+  }
+  minerController.getMinerHistory(req, res, next);
+});
+
+router.get('/:address/workers', requireAuth, (req, res, next) => {
+  if (!minerController) {
+    return next(createError('Service not initialized', 500));
+  }
+  minerController.getMinerWorkers(req, res, next);
+});
+
+router.delete('/:address', requireAuth, (req, res, next) => {
+  if (!minerController) {
+    return next(createError('Service not initialized', 500));
+  }
+  minerController.deleteMiner(req, res, next);
+});
+
+// Initialize function to be called from server.ts
+export const initializeMinerController = (dbService: DatabaseService): void => {
+  minerController = new MinerController(dbService);
+};
+
+export default router;
@@ -0,0 +1,72 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DatabaseService } from '../services/DatabaseService';
+import { RollupService } from '../services/RollupService';
+import { RecommendationService } from '../services/RecommendationService';
+import { LuckService } from '../services/LuckService';
+import { errorHandler } from '../middleware/errorHandler';
+import poolRoutes, { initializePoolController } from './poolController';
+
+describe('poolController', () => {
+  let dbService: DatabaseService;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    const rollupService = new RollupService(dbService);
+    initializePoolController(dbService, rollupService, new RecommendationService(dbService), new LuckService(dbService, rollupService));
+
+    const app = express();
+    app.use('/api/pools', poolRoutes);
+    app.use(errorHandler);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise<void>(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, fee_percentage, payout_method) VALUES (?, ?, ?, ?, ?)`,
+      ['pool-1', 'Pool One', 'http://127.0.0.1:1', 1.0, 'PPLNS']
+    );
+    for (let number = 1; number <= 3; number++) {
+      await dbService.execute(
+        `INSERT INTO blocks (id, pool_id, block_number, timestamp, reward, difficulty, hash) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [`block-${number}`, 'pool-1', number, `2026-01-01 00:0${number}:00`, 2, 1000, `0x${number}`]
+      );
+    }
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await dbService.close();
+  });
+
+  describe('GET /:id/blocks', () => {
+    it('pages through the blocks of a pool', async () => {
+      const response = await fetch(`${baseUrl}/api/pools/pool-1/blocks?limit=2&offset=2`);
+      const body = await response.json() as any;
+
+      expect(response.status).toBe(200);
+      expect(body.data.map((block: any) => block.block_number)).toEqual([1]);
+      expect(body.pagination).toEqual({ page: 2, limit: 2, total: 3, totalPages: 2 });
+    });
+
+    it.each([
+      ['limit=abc', 'limit must be a whole number of 0 or more'],
+      ['offset=-1', 'offset must be a whole number of 0 or more'],
+      ['limit=2.5', 'limit must be a whole number of 0 or more'],
+      ['limit=0', 'limit must be between 1 and 200'],
+      ['limit=100000', 'limit must be between 1 and 200']
+    ])('rejects %s', async (query, message) => {
+      const response = await fetch(`${baseUrl}/api/pools/pool-1/blocks?${query}`);
+
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as any).error).toBe(message);
+    });
+  });
+});
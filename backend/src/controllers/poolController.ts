@@ -1,19 +1,60 @@
 import { Router, Request, Response } from 'express';
 import { DatabaseService } from '../services/DatabaseService';
+import { POOL_SERIES_METRICS, RollupService } from '../services/RollupService';
+import { RecommendationService, ScoringOptions } from '../services/RecommendationService';
+import { DEFAULT_EFFORT_COUNT, LuckService } from '../services/LuckService';
 import { asyncHandler, createError } from '../middleware/errorHandler';
-import { ApiResponse, PaginatedResponse, MiningPool, PoolStatistics, PoolComparison } from '../types';
+import { parseSeriesQuery } from '../utils/timeseries';
+import { parseMinerProfile, parseScoringWeights } from '../utils/scoring';
+import { parseLuckWindows } from '../utils/luck';
+import { parseCoin } from '../utils/coins';
+import { ApiResponse, PaginatedResponse, MiningPool, PoolStatistics, PoolComparison, PoolLuck } from '../types';
 
 const router = Router();
 
+// Upper bound on pools per multi-pool history request
+const MAX_SERIES_POOLS = 10;
+
+// Pools returned by /recommend when no limit is given
+const DEFAULT_RECOMMENDATIONS = 3;
+
+// Upper bound on per-block efforts per luck request
+const MAX_EFFORTS = 100;
+
+// Upper bound on blocks per /blocks page
+const MAX_BLOCKS_PAGE = 200;
+
+// Reads a whole, non-negative query number, falling back when the parameter is missing
+const parseCount = (value: unknown, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const count = Number(value);
+  if (typeof value !== 'string' || !/^\d+$/.test(value) || !Number.isSafeInteger(count)) {
+    throw createError(`${name} must be a whole number of 0 or more`, 400);
+  }
+  return count;
+};
+
 class PoolController {
   private dbService: DatabaseService;
-
-  constructor(dbService: DatabaseService) {
+  private rollupService: RollupService;
+  private recommendationService: RecommendationService;
+  private luckService: LuckService;
+
+  constructor(
+    dbService: DatabaseService,
+    rollupService: RollupService,
+    recommendationService: RecommendationService,
+    luckService: LuckService
+  ) {
     this.dbService = dbService;
+    this.rollupService = rollupService;
+    this.recommendationService = recommendationService;
+    this.luckService = luckService;
   }
 
-  // GET /api/pools - Get all pools with current statistics
+  // GET /api/pools - Get all pools with current statistics (?coin= narrows to one chain)
   public getAllPools = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const coin = parseCoin(req.query.coin) ?? null;
     const pools = await this.dbService.query(`
       SELECT 
         p.*,
@@ -21,12 +62,16 @@ class PoolController {
         lps.miners_count,
         lps.blocks_found_24h,
         lps.luck_7d,
-        lps.timestamp as last_updated
+        lps.timestamp as last_updated,
+        lpf.fetched_at as last_fetch_at,
+        lpf.success as last_fetch_success,
+        lpf.error_message as last_fetch_error
       FROM pools p
       LEFT JOIN latest_pool_stats lps ON p.id = lps.pool_id
-      WHERE p.status = 'active'
+      LEFT JOIN latest_pool_fetch lpf ON p.id = lpf.pool_id
+      WHERE p.status = 'active' AND (? IS NULL OR p.coin = ?)
       ORDER BY lps.hashrate DESC NULLS LAST
-    `);
+    `, [coin, coin]);
 
     const response: ApiResponse<any[]> = {
       success: true,
@@ -48,9 +93,13 @@ class PoolController {
         lps.miners_count,
         lps.blocks_found_24h,
         lps.luck_7d,
-        lps.timestamp as last_updated
+        lps.timestamp as last_updated,
+        lpf.fetched_at as last_fetch_at,
+        lpf.success as last_fetch_success,
+        lpf.error_message as last_fetch_error
       FROM pools p
       LEFT JOIN latest_pool_stats lps ON p.id = lps.pool_id
+      LEFT JOIN latest_pool_fetch lpf ON p.id = lpf.pool_id
       WHERE p.id = ?
     `, [id]);
 
@@ -58,9 +107,11 @@ class PoolController {
       throw createError('Pool not found', 404);
     }
 
+    const luck = await this.luckService.getLuckWindows([id as string], parseLuckWindows(undefined));
+
     const response: ApiResponse<any> = {
       success: true,
-      data: pool,
+      data: { ...pool, computed_luck: luck.get(id as string) },
       timestamp: new Date().toISOString()
     };
 
@@ -68,99 +119,145 @@ class PoolController {
   });
 
   // GET /api/pools/:id/history - Get historical data for a pool
+  // Query: from, to, period, interval, limit, metrics, aggregations (see parseSeriesQuery)
   public getPoolHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const { id } = req.params;
-    const { period = '7d', limit = 100 } = req.query;
-
-    let dateFilter = "datetime('now', '-7 days')";
-    switch (period) {
-      case '24h':
-        dateFilter = "datetime('now', '-1 day')";
-        break;
-      case '30d':
-        dateFilter = "datetime('now', '-30 days')";
-        break;
-      case '7d':
-      default:
-        dateFilter = "datetime('now', '-7 days')";
-        break;
+    const id = req.params.id as string;
+    const query = parseSeriesQuery(req.query, POOL_SERIES_METRICS, '7d');
+
+    const pool = await this.dbService.queryOne('SELECT id FROM pools WHERE id = ?', [id]);
+    if (!pool) {
+      throw createError('Pool not found', 404);
     }
 
-    const history = await this.dbService.query(`
-      SELECT 
-        timestamp,
-        hashrate,
-        miners_count,
-        blocks_found_24h,
-        luck_7d,
-        difficulty,
-        block_time
-      FROM pool_statistics
-      WHERE pool_id = ? AND timestamp >= ${dateFilter}
-      ORDER BY timestamp DESC
-      LIMIT ?
-    `, [id, parseInt(limit as string)]);
+    const result = await this.rollupService.getPoolSeries([id], query);
+    const points = result.series[0]!.points;
 
     const response: ApiResponse<any[]> = {
       success: true,
-      data: history.reverse(), // Return oldest to newest for charts
+      data: points, // Oldest to newest for charts
+      message: `${points.length} points at ${result.step}s spacing from ${result.resolution} rollups`,
       timestamp: new Date().toISOString()
     };
 
     res.json(response);
   });
 
-  // GET /api/pools/compare - Compare multiple pools
-  public comparePools = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  // GET /api/pools/history - Aligned series for several pools in one request
+  // Query: pools (comma-separated ids) plus the same parameters as /:id/history
+  public getPoolsHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { pools: poolIds } = req.query;
 
     if (!poolIds || typeof poolIds !== 'string') {
       throw createError('Pool IDs are required', 400);
     }
 
-    const poolIdArray = poolIds.split(',').slice(0, 5); // Limit to 5 pools max
+    const poolIdArray = [...new Set(poolIds.split(',').map(id => id.trim()).filter(Boolean))];
+    if (poolIdArray.length === 0 || poolIdArray.length > MAX_SERIES_POOLS) {
+      throw createError(`Between 1 and ${MAX_SERIES_POOLS} pool IDs are required`, 400);
+    }
+
+    const query = parseSeriesQuery(req.query, POOL_SERIES_METRICS, '7d');
+
     const placeholders = poolIdArray.map(() => '?').join(',');
+    const pools = await this.dbService.query<{ id: string; name: string }>(
+      `SELECT id, name FROM pools WHERE id IN (${placeholders})`,
+      poolIdArray
+    );
+    const missing = poolIdArray.filter(id => !pools.some(pool => pool.id === id));
+    if (missing.length > 0) {
+      throw createError(`Pool not found: ${missing.join(', ')}`, 404);
+    }
 
-    const comparison = await this.dbService.query(`
-      SELECT 
-        p.*,
-        lps.hashrate,
-        lps.miners_count,
-        lps.blocks_found_24h,
-        lps.luck_7d,
-        lps.timestamp as last_updated,
-        COALESCE(recent_blocks.block_count, 0) as recent_blocks,
-        COALESCE(avg_luck.avg_luck_7d, 0) as avg_luck_7d,
-        COALESCE(avg_luck.avg_luck_30d, 0) as avg_luck_30d
-      FROM pools p
-      LEFT JOIN latest_pool_stats lps ON p.id = lps.pool_id
-      LEFT JOIN (
-        SELECT pool_id, COUNT(*) as block_count
-        FROM blocks
-        WHERE timestamp > datetime('now', '-24 hours')
-        GROUP BY pool_id
-      ) recent_blocks ON p.id = recent_blocks.pool_id
-      LEFT JOIN (
-        SELECT 
-          pool_id, 
-          AVG(CASE WHEN timestamp > datetime('now', '-7 days') THEN luck_7d END) as avg_luck_7d,
-          AVG(CASE WHEN timestamp > datetime('now', '-30 days') THEN luck_7d END) as avg_luck_30d
-        FROM pool_statistics
-        GROUP BY pool_id
-      ) avg_luck ON p.id = avg_luck.pool_id
-      WHERE p.id IN (${placeholders})
-      ORDER BY lps.hashrate DESC NULLS LAST
-    `, poolIdArray);
+    const result = await this.rollupService.getPoolSeries(poolIdArray, query);
+    const namesById = new Map(pools.map(pool => [pool.id, pool.name]));
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        from: query.from.toISOString(),
+        to: query.to.toISOString(),
+        resolution: result.resolution,
+        step: result.step,
+        metrics: query.metrics,
+        aggregations: query.aggregations,
+        series: result.series.map(series => ({
+          pool_id: series.pool_id,
+          pool_name: namesById.get(series.pool_id),
+          points: series.points
+        }))
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // GET /api/pools/compare - Compare multiple pools
+  // Query: pools (comma-separated ids, max 5) plus the scoring options of /recommend
+  public comparePools = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { pools: poolIds } = req.query;
+
+    if (!poolIds || typeof poolIds !== 'string') {
+      throw createError('Pool IDs are required', 400);
+    }
+
+    const poolIdArray = [...new Set(poolIds.split(',').map(id => id.trim()).filter(Boolean))].slice(0, 5); // Limit to 5 pools max
+    if (poolIdArray.length === 0) {
+      throw createError('Pool IDs are required', 400);
+    }
 
-    // Calculate recommendation scores (simple algorithm)
-    const comparisionWithScores = comparison.map((pool: any) => ({
-      ...pool,
-      recommendation_score: this.calculateRecommendationScore(pool)
-    }));
+    const comparison = await this.recommendationService.comparePools(poolIdArray, this.parseScoringOptions(req.query));
+    const luck = await this.luckService.getLuckWindows(comparison.map(pool => pool.id), parseLuckWindows(undefined));
 
     const response: ApiResponse<any[]> = {
       success: true,
-      data: comparisionWithScores,
+      data: comparison.map(pool => ({ ...pool, computed_luck: luck.get(pool.id) })),
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // GET /api/pools/recommend - Rank active pools for a miner profile
+  // Query: hashrate (MH/s), payout_preference (any/pps/pplns), risk_tolerance (low/medium/high),
+  //        weights (factor:weight pairs, e.g. fee:30,luck:5), coin (ETH/ETC/ETHW), limit (default 3)
+  public recommendPools = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '')) || DEFAULT_RECOMMENDATIONS, 1), 50);
+    const options = this.parseScoringOptions(req.query);
+
+    const pools = await this.recommendationService.recommendPools(options, limit);
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        profile: options.profile,
+        weights: options.weights ?? this.recommendationService.getDefaultWeights(),
+        pools
+      },
+      message: pools.length > 0 ? `Best match: ${pools[0]!.name} (${pools[0]!.recommendation_score}/100)` : 'No active pools to recommend',
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // GET /api/pools/:id/luck - Luck computed from found blocks and hashrate history
+  // Query: windows (comma-separated, e.g. 24h,7d,30d), efforts (recent per-block efforts, default 20)
+  public getPoolLuck = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = req.params.id as string;
+    const windows = parseLuckWindows(req.query.windows);
+    const efforts = Math.min(Math.max(parseInt(String(req.query.efforts ?? '')) || DEFAULT_EFFORT_COUNT, 0), MAX_EFFORTS);
+
+    const pool = await this.dbService.queryOne('SELECT id FROM pools WHERE id = ?', [id]);
+    if (!pool) {
+      throw createError('Pool not found', 404);
+    }
+
+    const luck = await this.luckService.getPoolLuck(id, windows, efforts);
+
+    const response: ApiResponse<PoolLuck> = {
+      success: true,
+      data: luck,
       timestamp: new Date().toISOString()
     };
 
@@ -170,7 +267,11 @@ class PoolController {
   // GET /api/pools/:id/blocks - Get recent blocks for a pool
   public getPoolBlocks = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
-    const { limit = 50, offset = 0 } = req.query;
+    const limit = parseCount(req.query.limit, 'limit', 50);
+    const offset = parseCount(req.query.offset, 'offset', 0);
+    if (limit < 1 || limit > MAX_BLOCKS_PAGE) {
+      throw createError(`limit must be between 1 and ${MAX_BLOCKS_PAGE}`, 400);
+    }
 
     const blocks = await this.dbService.query(`
       SELECT 
@@ -180,12 +281,14 @@ class PoolController {
         miner_count,
         difficulty,
         hash,
-        uncle
+        uncle,
+        status,
+        matured_at
       FROM blocks
       WHERE pool_id = ?
       ORDER BY timestamp DESC
       LIMIT ? OFFSET ?
-    `, [id, parseInt(limit as string), parseInt(offset as string)]);
+    `, [id, limit, offset]);
 
     const totalCount = await this.dbService.queryOne(`
       SELECT COUNT(*) as count FROM blocks WHERE pool_id = ?
@@ -195,10 +298,10 @@ class PoolController {
       success: true,
       data: blocks,
       pagination: {
-        page: Math.floor(parseInt(offset as string) / parseInt(limit as string)) + 1,
-        limit: parseInt(limit as string),
+        page: Math.floor(offset / limit) + 1,
+        limit,
         total: (totalCount as any).count,
-        totalPages: Math.ceil((totalCount as any).count / parseInt(limit as string))
+        totalPages: Math.ceil((totalCount as any).count / limit)
       },
       timestamp: new Date().toISOString()
     };
@@ -206,32 +309,15 @@ class PoolController {
     res.json(response);
   });
 
-  private calculateRecommendationScore(pool: any): number {
-    let score = 50; // Base score
-
-    // Hashrate factor (larger pools get higher scores for stability)
-    if (pool.hashrate > 500000000000000) score += 20;
-    else if (pool.hashrate > 100000000000000) score += 15;
-    else if (pool.hashrate > 50000000000000) score += 10;
-
-    // Fee factor (lower fees are better)
-    if (pool.fee_percentage <= 1.0) score += 15;
-    else if (pool.fee_percentage <= 2.0) score += 10;
-    else if (pool.fee_percentage <= 3.0) score += 5;
-
-    // Luck factor (closer to 100% is better)
-    const luckDeviation = Math.abs(100 - pool.luck_7d);
-    if (luckDeviation <= 5) score += 10;
-    else if (luckDeviation <= 15) score += 5;
-
-    // Recent activity (blocks found in last 24h)
-    if (pool.recent_blocks > 5) score += 10;
-    else if (pool.recent_blocks > 0) score += 5;
-
-    // Payout method preference (PPLNS generally preferred for decentralization)
-    if (pool.payout_method === 'PPLNS') score += 5;
-
-    return Math.min(Math.max(score, 0), 100); // Clamp between 0-100
+  // Miner profile and optional weight overrides shared by /compare and /recommend
+  private parseScoringOptions(query: Record<string, unknown>): ScoringOptions {
+    return {
+      profile: parseMinerProfile(query),
+      weights: query.weights !== undefined
+        ? parseScoringWeights(query.weights, this.recommendationService.getDefaultWeights())
+        : undefined,
+      coin: parseCoin(query.coin)
+    };
   }
 }
 
@@ -253,6 +339,20 @@ router.get('/compare', (req, res, next) => {
   poolController.comparePools(req, res, next);
 });
 
+router.get('/recommend', (req, res, next) => {
+  if (!poolController) {
+    return next(createError('Service not initialized', 500));
+  }
+  poolController.recommendPools(req, res, next);
+});
+
+router.get('/history', (req, res, next) => {
+  if (!poolController) {
+    return next(createError('Service not initialized', 500));
+  }
+  poolController.getPoolsHistory(req, res, next);
+});
+
 router.get('/:id', (req, res, next) => {
   if (!poolController) {
     return next(createError('Service not initialized', 500));
@@ -267,6 +367,13 @@ router.get('/:id/history', (req, res, next) => {
   poolController.getPoolHistory(req, res, next);
 });
 
+router.get('/:id/luck', (req, res, next) => {
+  if (!poolController) {
+    return next(createError('Service not initialized', 500));
+  }
+  poolController.getPoolLuck(req, res, next);
+});
+
 router.get('/:id/blocks', (req, res, next) => {
   if (!poolController) {
     return next(createError('Service not initialized', 500));
@@ -275,8 +382,13 @@ router.get('/:id/blocks', (req, res, next) => {
 });
 
 // Initialize function to be called from server.ts
-export const initializePoolController = (dbService: DatabaseService): void => {
-  poolController = new PoolController(dbService);
+export const initializePoolController = (
+  dbService: DatabaseService,
+  rollupService: RollupService,
+  recommendationService: RecommendationService,
+  luckService: LuckService
+): void => {
+  poolController = new PoolController(dbService, rollupService, recommendationService, luckService);
 };
 
 export default router;
\ No newline at end of file
@@ -1,21 +1,29 @@
 import { Router, Request, Response } from 'express';
 import { DatabaseService } from '../services/DatabaseService';
+import { NETWORK_SERIES_METRICS, RollupService } from '../services/RollupService';
 import { asyncHandler, createError } from '../middleware/errorHandler';
+import { parseSeriesQuery } from '../utils/timeseries';
+import { COINS, COIN_DEFINITIONS, DEFAULT_COIN, blockRewardFor, parseCoin } from '../utils/coins';
 import { ApiResponse } from '../types';
 
 const router = Router();
 
 class StatsController {
   private dbService: DatabaseService;
+  private rollupService: RollupService;
 
-  constructor(dbService: DatabaseService) {
+  constructor(dbService: DatabaseService, rollupService: RollupService) {
     this.dbService = dbService;
+    this.rollupService = rollupService;
   }
 
-  // GET /api/stats/network - Get current network statistics
+  // GET /api/stats/network - Get current network statistics for one coin (?coin=, default ETHW)
   public getNetworkStats = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const coin = parseCoin(req.query.coin) ?? DEFAULT_COIN;
     const currentStats = await this.dbService.queryOne(`
       SELECT 
+        coin,
+        block_number,
         total_hashrate,
         difficulty,
         block_time,
@@ -23,30 +31,39 @@ class StatsController {
         gas_price,
         timestamp
       FROM network_stats
+      WHERE coin = ?
       ORDER BY timestamp DESC
       LIMIT 1
-    `);
+    `, [coin]);
 
     if (!currentStats) {
-      // Return default/calculated stats if no data exists
-      const poolStats = await this.dbService.query(`
-        SELECT SUM(hashrate) as total_hashrate
-        FROM latest_pool_stats
-      `);
-
-      const defaultStats = {
-        total_hashrate: poolStats[0] ? (poolStats[0] as any).total_hashrate || 0 : 0,
-        difficulty: 15500000000000000,
-        block_time: 13,
-        pending_transactions: 125000,
-        gas_price: 25000000000,
+      // No node readings yet: report what the coin's pools themselves tell us, nothing invented
+      const poolStats = await this.dbService.queryOne(`
+        SELECT
+          SUM(lps.hashrate) as total_hashrate,
+          MAX(lps.difficulty) as difficulty,
+          AVG(NULLIF(lps.block_time, 0)) as block_time
+        FROM latest_pool_stats lps
+        INNER JOIN pools p ON p.id = lps.pool_id
+        WHERE p.coin = ?
+      `, [coin]);
+
+      const calculatedStats = {
+        coin,
+        block_number: null,
+        total_hashrate: (poolStats as any)?.total_hashrate || 0,
+        difficulty: (poolStats as any)?.difficulty || 0,
+        block_time: (poolStats as any)?.block_time || 0,
+        pending_transactions: 0,
+        gas_price: 0,
+        block_reward: blockRewardFor(coin),
         timestamp: new Date().toISOString()
       };
 
       const response: ApiResponse<any> = {
         success: true,
-        data: defaultStats,
-        message: 'Using calculated network statistics',
+        data: calculatedStats,
+        message: `No ${coin} network readings yet; using figures reported by the pools`,
         timestamp: new Date().toISOString()
       };
 
@@ -56,7 +73,7 @@ class StatsController {
 
     const response: ApiResponse<any> = {
       success: true,
-      data: currentStats,
+      data: { ...currentStats, block_reward: blockRewardFor(coin, (currentStats as any).block_number) },
       timestamp: new Date().toISOString()
     };
 
@@ -64,78 +81,58 @@ class StatsController {
   });
 
   // GET /api/stats/network/history - Get historical network statistics
+  // Query: coin, from, to, period, interval, limit, metrics, aggregations (see parseSeriesQuery)
   public getNetworkHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const { period = '24h', limit = 100 } = req.query;
-
-    let dateFilter = "datetime('now', '-1 day')";
-    switch (period) {
-      case '7d':
-        dateFilter = "datetime('now', '-7 days')";
-        break;
-      case '30d':
-        dateFilter = "datetime('now', '-30 days')";
-        break;
-      case '24h':
-      default:
-        dateFilter = "datetime('now', '-1 day')";
-        break;
-    }
-
-    const history = await this.dbService.query(`
-      SELECT 
-        timestamp,
-        total_hashrate,
-        difficulty,
-        block_time,
-        pending_transactions,
-        gas_price
-      FROM network_stats
-      WHERE timestamp >= ${dateFilter}
-      ORDER BY timestamp DESC
-      LIMIT ?
-    `, [parseInt(limit as string)]);
+    const coin = parseCoin(req.query.coin) ?? DEFAULT_COIN;
+    const query = parseSeriesQuery(req.query, NETWORK_SERIES_METRICS, '24h');
+    const series = await this.rollupService.getNetworkSeries(query, coin);
 
     const response: ApiResponse<any[]> = {
       success: true,
-      data: history.reverse(), // Return oldest to newest for charts
+      data: series.points, // Oldest to newest for charts
+      message: `${series.points.length} points at ${series.step}s spacing from ${series.resolution} rollups`,
       timestamp: new Date().toISOString()
     };
 
     res.json(response);
   });
 
-  // GET /api/stats/pools - Get aggregated pool statistics
+  // GET /api/stats/pools - Get aggregated pool statistics (?coin= narrows to one chain)
   public getPoolStats = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const coinParams = this.coinParams(req);
     const stats = await this.dbService.queryOne(`
       SELECT 
         COUNT(*) as total_pools,
         COUNT(CASE WHEN status = 'active' THEN 1 END) as active_pools,
         SUM(COALESCE(lps.hashrate, 0)) as total_hashrate,
         SUM(COALESCE(lps.miners_count, 0)) as total_miners,
-        AVG(COALESCE(lps.luck_7d, 0)) as avg_luck_7d
+        AVG(lps.luck_7d) as avg_luck_7d
       FROM pools p
       LEFT JOIN latest_pool_stats lps ON p.id = lps.pool_id
-    `);
+      WHERE (? IS NULL OR p.coin = ?)
+    `, coinParams);
 
     const recentBlocks = await this.dbService.queryOne(`
       SELECT COUNT(*) as blocks_24h
       FROM blocks
-      WHERE timestamp > datetime('now', '-24 hours')
-    `);
+      WHERE timestamp > datetime('now', '-24 hours') AND status != 'orphaned'
+        AND (? IS NULL OR coin = ?)
+    `, coinParams);
 
     const topPools = await this.dbService.query(`
       SELECT 
         p.name,
+        p.coin,
         p.fee_percentage,
         lps.hashrate,
         lps.miners_count,
         lps.luck_7d
       FROM pools p
       INNER JOIN latest_pool_stats lps ON p.id = lps.pool_id
-      WHERE p.status = 'active'
+      WHERE p.status = 'active' AND (? IS NULL OR p.coin = ?)
       ORDER BY lps.hashrate DESC
       LIMIT 5
-    `);
+    `, coinParams);
 
     const combinedStats = {
       ...stats,
@@ -152,8 +149,11 @@ class StatsController {
     res.json(response);
   });
 
-  // GET /api/stats/dashboard - Get dashboard summary statistics
+  // GET /api/stats/dashboard - Get dashboard summary statistics (?coin= narrows to one chain)
   public getDashboardStats = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const coin = parseCoin(req.query.coin);
+    const coinParams = this.coinParams(req);
+
     // Get network totals
     const networkTotals = await this.dbService.queryOne(`
       SELECT 
@@ -162,7 +162,8 @@ class StatsController {
         COUNT(CASE WHEN p.status = 'active' THEN 1 END) as active_pools
       FROM pools p
       LEFT JOIN latest_pool_stats lps ON p.id = lps.pool_id
-    `);
+      WHERE (? IS NULL OR p.coin = ?)
+    `, coinParams);
 
     // Get recent blocks
     const recentBlocks = await this.dbService.query(`
@@ -170,35 +171,41 @@ class StatsController {
         b.block_number,
         b.timestamp,
         b.reward,
+        b.uncle,
+        b.status,
+        b.coin,
         p.name as pool_name
       FROM blocks b
       INNER JOIN pools p ON b.pool_id = p.id
+      WHERE b.status != 'orphaned' AND (? IS NULL OR b.coin = ?)
       ORDER BY b.timestamp DESC
       LIMIT 10
-    `);
+    `, coinParams);
 
-    // Get blocks found in last 24h
+    // Get blocks found in last 24h (uncles are not found blocks)
     const blocks24h = await this.dbService.queryOne(`
       SELECT COUNT(*) as count
       FROM blocks
-      WHERE timestamp > datetime('now', '-24 hours')
-    `);
-
-    // Get current difficulty from latest network stats or calculate average
-    const networkDifficulty = await this.dbService.queryOne(`
-      SELECT difficulty, timestamp
-      FROM network_stats
-      ORDER BY timestamp DESC
-      LIMIT 1
-    `);
+      WHERE timestamp > datetime('now', '-24 hours') AND status != 'orphaned' AND uncle = 0
+        AND (? IS NULL OR coin = ?)
+    `, coinParams);
+
+    // Difficulty only means something per chain: latest network stats, else the pools' latest reading
+    const networkDifficulty = coin ? await this.dbService.queryOne(`
+      SELECT COALESCE(
+        (SELECT difficulty FROM network_stats WHERE coin = ? ORDER BY timestamp DESC LIMIT 1),
+        (SELECT MAX(lps.difficulty) FROM latest_pool_stats lps INNER JOIN pools p ON p.id = lps.pool_id WHERE p.coin = ?)
+      ) as difficulty
+    `, [coin, coin]) : null;
 
     const dashboardData = {
+      coin: coin ?? null,
       total_hashrate: (networkTotals as any).total_hashrate || 0,
       total_miners: (networkTotals as any).total_miners || 0,
       active_pools: (networkTotals as any).active_pools || 0,
       blocks_found_24h: (blocks24h as any).count || 0,
       recent_blocks: recentBlocks,
-      network_difficulty: networkDifficulty ? (networkDifficulty as any).difficulty : 15500000000000000,
+      network_difficulty: coin ? (networkDifficulty as any)?.difficulty || 0 : null,
       last_updated: new Date().toISOString()
     };
 
@@ -210,6 +217,47 @@ class StatsController {
 
     res.json(response);
   });
+
+  // GET /api/stats/coins - Chains the dashboard can track, with their pools and latest network reading
+  public getCoins = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const pools = await this.dbService.query<{ coin: string; pool_count: number; active_pools: number }>(`
+      SELECT coin, COUNT(*) as pool_count, COUNT(CASE WHEN status = 'active' THEN 1 END) as active_pools
+      FROM pools
+      GROUP BY coin
+    `);
+
+    const coins = await Promise.all(COINS.map(async coin => {
+      const network = await this.dbService.queryOne<{ block_number: number | null; timestamp: string }>(
+        'SELECT block_number, timestamp FROM network_stats WHERE coin = ? ORDER BY timestamp DESC LIMIT 1',
+        [coin]
+      );
+      const poolCounts = pools.find(row => row.coin === coin);
+
+      return {
+        coin,
+        name: COIN_DEFINITIONS[coin].name,
+        pool_count: poolCounts?.pool_count || 0,
+        active_pools: poolCounts?.active_pools || 0,
+        block_number: network?.block_number ?? null,
+        block_reward: blockRewardFor(coin, network?.block_number),
+        network_updated: network?.timestamp ?? null
+      };
+    }));
+
+    const response: ApiResponse<any[]> = {
+      success: true,
+      data: coins,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // Bind parameters for a `(? IS NULL OR coin = ?)` filter; no coin means every chain
+  private coinParams(req: Request): (string | null)[] {
+    const coin = parseCoin(req.query.coin) ?? null;
+    return [coin, coin];
+  }
 }
 
 // Initialize controller with database service
@@ -237,6 +285,13 @@ router.get('/pools', (req, res, next) => {
   statsController.getPoolStats(req, res, next);
 });
 
+router.get('/coins', (req, res, next) => {
+  if (!statsController) {
+    return next(createError('Service not initialized', 500));
+  }
+  statsController.getCoins(req, res, next);
+});
+
 router.get('/dashboard', (req, res, next) => {
   if (!statsController) {
     return next(createError('Service not initialized', 500));
@@ -245,8 +300,8 @@ router.get('/dashboard', (req, res, next) => {
 });
 
 // Initialize function to be called from server.ts
-export const initializeStatsController = (dbService: DatabaseService): void => {
-  statsController = new StatsController(dbService);
+export const initializeStatsController = (dbService: DatabaseService, rollupService: RollupService): void => {
+  statsController = new StatsController(dbService, rollupService);
 };
 
 export default router;
\ No newline at end of file
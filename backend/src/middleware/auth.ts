@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/AuthService';
+import { AuthUser } from '../types';
+import { asyncHandler, createError } from './errorHandler';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      authToken?: string;
+    }
+  }
+}
+
+let authService: AuthService | undefined;
+
+// Initialize function to be called from server.ts
+export const initializeAuth = (service: AuthService): void => {
+  authService = service;
+};
+
+/**
+ * Reject the request unless it carries `Authorization: Bearer <token>` for a
+ * live session; sets req.user for the handlers that follow
+ */
+export const requireAuth = asyncHandler(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!authService) {
+    throw createError('Service not initialized', 500);
+  }
+
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    throw createError('Authentication required', 401);
+  }
+
+  const user = await authService.authenticate(token);
+  if (!user) {
+    throw createError('Session expired or invalid, please log in again', 401);
+  }
+
+  req.user = user;
+  req.authToken = token;
+  next();
+});
@@ -10,14 +10,30 @@ import { WebSocketServer } from 'ws';
 
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/logger';
+import { initializeAuth } from './middleware/auth';
 import { DatabaseService } from './services/DatabaseService';
 import { MiningPoolService } from './services/MiningPoolService';
+import { BlockCollectorService } from './services/BlockCollectorService';
+import { NetworkStatsCollectorService } from './services/NetworkStatsCollectorService';
+import { CoinProviders, createDefaultRpcProviders } from './services/JsonRpcProvider';
 import { AlertService } from './services/AlertService';
+import { ProfitabilityService } from './services/ProfitabilityService';
+import { MinerCollectorService } from './services/MinerCollectorService';
+import { RollupService } from './services/RollupService';
+import { RecommendationService } from './services/RecommendationService';
+import { LuckService } from './services/LuckService';
+import { AuthService } from './services/AuthService';
 import { WebSocketService } from './services/WebSocketService';
+import { PoolAdapterRegistry, createDefaultPoolAdapterRegistry } from './services/adapters';
+import { NotificationChannelRegistry, createDefaultNotificationChannelRegistry } from './services/channels';
 
 import poolRoutes, { initializePoolController } from './controllers/poolController';
 import alertRoutes, { initializeAlertController } from './controllers/alertController';
 import statsRoutes, { initializeStatsController } from './controllers/statsController';
+import calculatorRoutes, { initializeCalculatorController } from './controllers/calculatorController';
+import minerRoutes, { initializeMinerController } from './controllers/minerController';
+import authRoutes, { initializeAuthController } from './controllers/authController';
+import channelRoutes, { initializeChannelController } from './controllers/channelController';
 
 dotenv.config();
 
@@ -26,16 +42,28 @@ class Server {
   private server: any;
   private wss!: WebSocketServer;
   private databaseService!: DatabaseService;
+  private adapterRegistry!: PoolAdapterRegistry;
+  private rpcProviders!: CoinProviders;
   private miningPoolService!: MiningPoolService;
+  private blockCollectorService!: BlockCollectorService;
+  private networkStatsCollectorService!: NetworkStatsCollectorService;
   private alertService!: AlertService;
+  private profitabilityService!: ProfitabilityService;
+  private minerCollectorService!: MinerCollectorService;
+  private rollupService!: RollupService;
+  private recommendationService!: RecommendationService;
+  private luckService!: LuckService;
+  private authService!: AuthService;
+  private channelRegistry!: NotificationChannelRegistry;
   private websocketService!: WebSocketService;
 
   constructor() {
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
-    this.setupServices();
+    // WebSocket first so the data services can publish through it
     this.setupWebSocket();
+    this.setupServices();
     this.setupErrorHandling();
   }
 
@@ -78,9 +106,13 @@ class Server {
       });
     });
 
+    this.app.use('/api/auth', authRoutes);
     this.app.use('/api/pools', poolRoutes);
     this.app.use('/api/alerts', alertRoutes);
     this.app.use('/api/stats', statsRoutes);
+    this.app.use('/api/calculator', calculatorRoutes);
+    this.app.use('/api/miners', minerRoutes);
+    this.app.use('/api/channels', channelRoutes);
 
     this.app.use(notFoundHandler);
   }
@@ -90,13 +122,33 @@ class Server {
       this.databaseService = new DatabaseService();
       await this.databaseService.initialize();
 
-      this.miningPoolService = new MiningPoolService(this.databaseService);
-      this.alertService = new AlertService(this.databaseService);
+      this.adapterRegistry = createDefaultPoolAdapterRegistry();
+      this.miningPoolService = new MiningPoolService(this.databaseService, this.adapterRegistry, this.websocketService);
+      // One provider per coin so both collectors share endpoint failover state
+      this.rpcProviders = createDefaultRpcProviders();
+      this.blockCollectorService = new BlockCollectorService(this.databaseService, this.adapterRegistry, this.websocketService, this.rpcProviders);
+      this.networkStatsCollectorService = new NetworkStatsCollectorService(this.databaseService, this.websocketService, this.rpcProviders);
+      this.profitabilityService = new ProfitabilityService(this.databaseService);
+      this.minerCollectorService = new MinerCollectorService(this.databaseService, this.adapterRegistry);
+      this.rollupService = new RollupService(this.databaseService);
+      this.recommendationService = new RecommendationService(this.databaseService);
+      this.luckService = new LuckService(this.databaseService, this.rollupService);
+      this.authService = new AuthService(this.databaseService);
+      this.channelRegistry = createDefaultNotificationChannelRegistry();
+      this.alertService = new AlertService(this.databaseService, this.websocketService, undefined, this.authService, this.channelRegistry);
       
+      // Alert, miner and channel routes check sessions through this, and so does the alerts WebSocket channel
+      initializeAuth(this.authService);
+      this.websocketService.setAuthService(this.authService);
+
       // Initialize controllers with database service
-      initializePoolController(this.databaseService);
-      initializeAlertController(this.databaseService);
-      initializeStatsController(this.databaseService);
+      initializePoolController(this.databaseService, this.rollupService, this.recommendationService, this.luckService);
+      initializeAlertController(this.databaseService, this.alertService);
+      initializeStatsController(this.databaseService, this.rollupService);
+      initializeCalculatorController(this.profitabilityService);
+      initializeMinerController(this.databaseService);
+      initializeAuthController(this.authService, this.websocketService);
+      initializeChannelController(this.databaseService, this.channelRegistry);
       
       console.log('✅ Services initialized successfully');
     } catch (error) {
@@ -180,6 +232,31 @@ class Server {
       console.log('📡 Mining pool data collection started');
     }
 
+    if (this.blockCollectorService) {
+      this.blockCollectorService.startBlockCollection();
+      console.log('⛏️  Block collection started');
+    }
+
+    if (this.networkStatsCollectorService) {
+      // Logs its own start, or why it stays off without ETH_RPC_URL
+      this.networkStatsCollectorService.startNetworkCollection();
+    }
+
+    if (this.minerCollectorService) {
+      this.minerCollectorService.startMinerCollection();
+      console.log('👷 Miner collection started');
+    }
+
+    if (this.profitabilityService) {
+      this.profitabilityService.startProfitabilityTracking();
+      console.log('💰 Profitability tracking started');
+    }
+
+    if (this.rollupService) {
+      this.rollupService.startCompaction();
+      console.log('🗜️  Rollup compaction started');
+    }
+
     if (this.alertService) {
       this.alertService.startAlertProcessing();
       console.log('🔔 Alert processing started');
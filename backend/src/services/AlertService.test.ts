@@ -0,0 +1,595 @@
+import http from 'http';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { DatabaseService } from './DatabaseService';
+import { EmailService } from './EmailService';
+import { AlertService, CONFIRMATION_RESEND_MINUTES } from './AlertService';
+import { AuthService } from './AuthService';
+import { DiscordChannel, NotificationChannelRegistry, SlackChannel, TelegramChannel, WebhookChannel } from './channels';
+import { AlertType } from '../types';
+import { minutesOfDayIn, toSqlTimestamp } from '../utils/dates';
+
+interface CapturedMessage {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * Minimal SMTP capture server. `mailFromReplies` scripts the reply to each
+ * successive MAIL FROM so tests can inject transient (4xx) or permanent (5xx) failures.
+ */
+class SmtpCaptureServer {
+  public messages: CapturedMessage[] = [];
+  public mailFromReplies: string[] = [];
+  private server = net.createServer(socket => this.handle(socket));
+
+  async listen(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket): void {
+    let buffer = '';
+    let inData = false;
+    let current: CapturedMessage = { from: '', to: [], data: '' };
+
+    socket.write('220 localhost ESMTP capture\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            this.messages.push(current);
+            socket.write('250 OK queued\r\n');
+          } else {
+            current.data += line + '\n';
+          }
+          continue;
+        }
+
+        const command = line.toUpperCase();
+        if (command.startsWith('EHLO') || command.startsWith('HELO')) {
+          socket.write('250 localhost\r\n');
+        } else if (command.startsWith('MAIL FROM')) {
+          const reply = this.mailFromReplies.shift() || '250 OK';
+          current = { from: line.slice(10), to: [], data: '' };
+          socket.write(reply + '\r\n');
+        } else if (command.startsWith('RCPT TO')) {
+          current.to.push(line.slice(8));
+          socket.write('250 OK\r\n');
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'RSET' || command === 'NOOP') {
+          socket.write('250 OK\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('502 Command not implemented\r\n');
+        }
+      }
+    });
+    socket.on('error', () => undefined);
+  }
+}
+
+// 'HH:MM' for `offsetMinutes` from now in a time zone
+const localTime = (timeZone: string, offsetMinutes: number): string => {
+  const minutes = (minutesOfDayIn(new Date(), timeZone) + offsetMinutes + 24 * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// Undo quoted-printable soft line breaks and pull a link's token out of the message body
+const linkToken = (message: CapturedMessage, action: 'confirm' | 'unsubscribe'): string => {
+  const body = message.data.replace(/=\n/g, '').replace(/=3D/g, '=');
+  const match = body.match(new RegExp(`/api/alerts/${action}\\?token=([\\w.%-]+)`));
+  return decodeURIComponent(match![1]!);
+};
+
+describe('AlertService email delivery', () => {
+  let dbService: DatabaseService;
+  let smtp: SmtpCaptureServer;
+  let emailService: EmailService;
+  let alertService: AlertService;
+
+  const history = () => dbService.query<any>(
+    'SELECT email_sent, email_sent_at, error_message FROM alert_history ORDER BY triggered_at'
+  );
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    smtp = new SmtpCaptureServer();
+    const port = await smtp.listen();
+    emailService = new EmailService({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      auth: { user: '', pass: '' },
+      from: 'alerts@mining-dashboard.test'
+    }, { maxAttempts: 3, initialDelayMs: 10 });
+    alertService = new AlertService(dbService, undefined, emailService, new AuthService(dbService, { secret: 'test-secret' }));
+
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, fee_percentage, payout_method) VALUES (?, ?, ?, ?, ?)`,
+      ['pool-1', 'Pool <One>', 'http://127.0.0.1:1', 1.0, 'PPLNS']
+    );
+    await dbService.execute(
+      `INSERT INTO pool_statistics (pool_id, hashrate, miners_count, blocks_found_24h, luck_7d, timestamp)
+       VALUES (?, ?, ?, ?, ?, datetime('now', '-2 minutes')), (?, ?, ?, ?, ?, datetime('now', '-1 minutes'))`,
+      ['pool-1', 1000, 10, 0, 100, 'pool-1', 500, 10, 0, 100]
+    );
+  });
+
+  beforeEach(async () => {
+    smtp.messages = [];
+    smtp.mailFromReplies = [];
+    await dbService.execute('DELETE FROM alert_history');
+    await dbService.execute('DELETE FROM alert_subscriptions');
+    await dbService.execute(
+      `INSERT INTO alert_subscriptions (id, email, alert_type, pool_id, threshold, is_active) VALUES (?, ?, ?, ?, ?, 1)`,
+      ['sub-1', 'miner@example.com', AlertType.HASHRATE_DROP, 'pool-1', 20]
+    );
+  });
+
+  afterAll(async () => {
+    emailService.close();
+    await smtp.close();
+    await dbService.close();
+  });
+
+  it('delivers a templated email and records when it was sent', async () => {
+    await alertService.processAlerts();
+
+    expect(smtp.messages).toHaveLength(1);
+    const message = smtp.messages[0]!;
+    expect(message.to).toEqual(['<miner@example.com>']);
+    expect(message.data).toContain('Subject: [Mining Dashboard] Hashrate drop on Pool <One>');
+    expect(message.data).toContain('Content-Type: text/plain');
+    expect(message.data).toContain('Content-Type: text/html');
+    expect(message.data).toContain('Pool &lt;One&gt;');
+
+    const [row] = await history();
+    expect(row.email_sent).toBe(1);
+    expect(row.email_sent_at).not.toBeNull();
+    expect(row.error_message).toBeNull();
+  });
+
+  it('retries transient failures with backoff', async () => {
+    smtp.mailFromReplies = ['421 Try again later'];
+
+    await alertService.processAlerts();
+
+    expect(smtp.messages).toHaveLength(1);
+    const [row] = await history();
+    expect(row.email_sent).toBe(1);
+  });
+
+  it('does not retry permanent failures and records the error', async () => {
+    smtp.mailFromReplies = ['550 Mailbox unavailable', '250 OK'];
+
+    await alertService.processAlerts();
+
+    expect(smtp.messages).toHaveLength(0);
+    expect(smtp.mailFromReplies).toEqual(['250 OK']);
+    const [row] = await history();
+    expect(row.email_sent).toBe(0);
+    expect(row.email_sent_at).toBeNull();
+    expect(row.error_message).toContain('after 1 attempt(s)');
+    expect(row.error_message).toContain('550');
+  });
+
+  it('gives up after the configured number of attempts', async () => {
+    smtp.mailFromReplies = ['421 Busy', '421 Busy', '421 Busy'];
+
+    await alertService.processAlerts();
+
+    expect(smtp.messages).toHaveLength(0);
+    const [row] = await history();
+    expect(row.email_sent).toBe(0);
+    expect(row.error_message).toContain('after 3 attempt(s)');
+  });
+
+  it('puts a one-click unsubscribe link in every alert email', async () => {
+    await alertService.processAlerts();
+
+    const message = smtp.messages[0]!;
+    expect(message.data).toMatch(/List-Unsubscribe:\s+<http:\/\/localhost:3000\/api\/alerts\/unsubscribe\?token=/);
+    expect(message.data).toContain('List-Unsubscribe-Post: List-Unsubscribe=One-Click');
+
+    const token = linkToken(message, 'unsubscribe');
+    expect(await alertService.confirmSubscription(token)).toBeNull();
+
+    const subscription = await alertService.unsubscribe(token);
+    expect(subscription).toMatchObject({ id: 'sub-1', is_active: 0, confirmed_at: null });
+  });
+
+  it('keeps new subscriptions quiet until the verification link is clicked', async () => {
+    await dbService.execute(
+      `INSERT INTO alert_subscriptions (id, email, alert_type, pool_id, threshold, is_active) VALUES (?, ?, ?, ?, ?, 0)`,
+      ['sub-2', 'someone@example.com', AlertType.HASHRATE_DROP, 'pool-1', 20]
+    );
+
+    const delivery = await alertService.sendConfirmation('sub-2');
+    expect(delivery.success).toBe(true);
+    expect(smtp.messages[0]!.to).toEqual(['<someone@example.com>']);
+    expect(smtp.messages[0]!.data).toContain('Subject: [Mining Dashboard] Confirm your alert');
+
+    await alertService.processAlerts();
+    const alerted = smtp.messages.slice(1).map(message => message.to[0]);
+    expect(alerted).toEqual(['<miner@example.com>']);
+
+    const token = linkToken(smtp.messages[0]!, 'confirm');
+    expect(await alertService.unsubscribe(token)).toBeNull();
+    expect(await alertService.confirmSubscription(token.slice(0, -2) + 'xx')).toBeNull();
+
+    const subscription = await alertService.confirmSubscription(token);
+    expect(subscription).toMatchObject({ id: 'sub-2', is_active: 1 });
+    expect(subscription.confirmed_at).not.toBeNull();
+  });
+
+  it('refuses another confirmation email until the resend interval has passed', async () => {
+    await dbService.execute(
+      `INSERT INTO alert_subscriptions (id, email, alert_type, pool_id, threshold, is_active) VALUES (?, ?, ?, ?, ?, 0)`,
+      ['sub-2', 'someone@example.com', AlertType.HASHRATE_DROP, 'pool-1', 20]
+    );
+    const sentAt = new Date();
+    const later = (minutes: number) => new Date(sentAt.getTime() + minutes * 60000);
+
+    expect((await alertService.sendConfirmation('sub-2', sentAt)).success).toBe(true);
+    const refused = await alertService.sendConfirmation('sub-2', later(1));
+    expect(refused).toMatchObject({ success: false, attempts: 0, retryAfterSeconds: (CONFIRMATION_RESEND_MINUTES - 1) * 60 });
+    expect(smtp.messages).toHaveLength(1);
+
+    expect((await alertService.sendConfirmation('sub-2', later(CONFIRMATION_RESEND_MINUTES))).success).toBe(true);
+    expect(smtp.messages).toHaveLength(2);
+  });
+
+  it('applies the subscription cooldown instead of a fixed hour', async () => {
+    await alertService.processAlerts();
+    await alertService.processAlerts();
+    expect(await history()).toHaveLength(1);
+
+    await dbService.execute('UPDATE alert_subscriptions SET cooldown_minutes = 0');
+    await alertService.processAlerts();
+    expect(await history()).toHaveLength(2);
+    expect(smtp.messages).toHaveLength(2);
+  });
+
+  it('holds alerts during quiet hours in the subscription timezone', async () => {
+    await dbService.execute(
+      `UPDATE alert_subscriptions SET timezone = 'Asia/Kolkata', quiet_hours_start = ?, quiet_hours_end = ?`,
+      [localTime('Asia/Kolkata', -60), localTime('Asia/Kolkata', 60)]
+    );
+
+    await alertService.processAlerts();
+    expect(smtp.messages).toHaveLength(0);
+    const [held] = await dbService.query<any>('SELECT email_sent, digest_pending FROM alert_history');
+    expect(held).toEqual({ email_sent: 0, digest_pending: 1 });
+
+    // Quiet hours over: the held alert goes out as a normal alert email
+    await dbService.execute(
+      'UPDATE alert_subscriptions SET quiet_hours_start = ?, quiet_hours_end = ?',
+      [localTime('Asia/Kolkata', 60), localTime('Asia/Kolkata', 120)]
+    );
+    await alertService.sendDueDigests();
+
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0]!.data).toContain('Subject: [Mining Dashboard] Hashrate drop on Pool <One>');
+    const [sent] = await dbService.query<any>('SELECT email_sent, digest_pending FROM alert_history');
+    expect(sent).toEqual({ email_sent: 1, digest_pending: 0 });
+  });
+
+  it('batches alerts into an hourly digest', async () => {
+    await dbService.execute(`UPDATE alert_subscriptions SET delivery_mode = 'hourly', cooldown_minutes = 0`);
+
+    await alertService.processAlerts();
+    await alertService.processAlerts();
+    expect(smtp.messages).toHaveLength(0);
+    expect(await history()).toHaveLength(2);
+
+    await alertService.sendDueDigests(new Date(Date.now() + 59 * 60 * 1000));
+    expect(smtp.messages).toHaveLength(0);
+
+    await alertService.sendDueDigests(new Date(Date.now() + 61 * 60 * 1000));
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0]!.data).toContain('Subject: [Mining Dashboard] 2 alerts: Hashrate drop on Pool <One>');
+    expect(smtp.messages[0]!.data).toContain('Your hourly summary of triggered alerts.');
+
+    const rows = await dbService.query<any>('SELECT email_sent, digest_pending FROM alert_history');
+    expect(rows).toEqual([{ email_sent: 1, digest_pending: 0 }, { email_sent: 1, digest_pending: 0 }]);
+  });
+
+  it('alerts on newly found blocks but not on old ones from a first sync', async () => {
+    await dbService.execute(
+      `INSERT INTO alert_subscriptions (id, email, alert_type, pool_id, cooldown_minutes, is_active) VALUES (?, ?, ?, ?, 0, 1)`,
+      ['sub-blocks', 'miner@example.com', AlertType.NEW_BLOCK, 'pool-1']
+    );
+    const ingest = (blockNumber: number, foundMinutesAgo: number, hash: string) => dbService.execute(
+      `INSERT INTO blocks (pool_id, block_number, timestamp, reward, difficulty, hash, status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      ['pool-1', blockNumber, toSqlTimestamp(new Date(Date.now() - foundMinutesAgo * 60 * 1000)), 2, 1, hash, 'immature',
+        toSqlTimestamp(new Date(Date.now() - 1000))]
+    );
+    // Move everything stored so far into the past, as if the next run came a minute later
+    const aMinuteLater = async () => {
+      await dbService.execute(`UPDATE blocks SET created_at = datetime(created_at, '-60 seconds')`);
+      await dbService.execute(`UPDATE alert_subscriptions SET blocks_checked_until = datetime(blocks_checked_until, '-60 seconds')`);
+    };
+    const alerts = () => dbService.query<any>(`SELECT message FROM alert_history WHERE subscription_id = 'sub-blocks' ORDER BY rowid`);
+
+    await ingest(500, 3 * 24 * 60, '0xold');
+    await ingest(501, 1, '0xnew');
+    await alertService.processAlerts();
+    expect(await alerts()).toEqual([{ message: 'New block found: #501' }]);
+
+    // Without a cooldown the next runs must not alert the same block again
+    await aMinuteLater();
+    await alertService.processAlerts();
+    await aMinuteLater();
+    await ingest(502, 0, '0xnext');
+    await alertService.processAlerts();
+    expect(await alerts()).toEqual([{ message: 'New block found: #501' }, { message: 'New block found: #502' }]);
+    await dbService.execute('DELETE FROM blocks');
+  });
+
+  describe('notification channels', () => {
+    interface CapturedRequest {
+      url: string;
+      headers: http.IncomingHttpHeaders;
+      body: string;
+    }
+
+    let stub: http.Server;
+    let stubUrl: string;
+    let requests: CapturedRequest[] = [];
+    let channelAlertService: AlertService;
+    const secret = 'webhook-signing-secret';
+
+    beforeAll(async () => {
+      stub = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          requests.push({ url: req.url!, headers: req.headers, body });
+          res.writeHead(req.url === '/broken' ? 500 : 200, { 'Content-Type': 'application/json' });
+          res.end('{"ok":true}');
+        });
+      });
+      await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+      stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+
+      // The stub lives on loopback, which channels refuse by default
+      process.env.NOTIFICATION_ALLOW_PRIVATE_HOSTS = 'true';
+      const registry = new NotificationChannelRegistry()
+        .register(new WebhookChannel())
+        .register(new SlackChannel())
+        .register(new DiscordChannel())
+        .register(new TelegramChannel(stubUrl));
+      delete process.env.NOTIFICATION_ALLOW_PRIVATE_HOSTS;
+      channelAlertService = new AlertService(dbService, undefined, emailService, new AuthService(dbService, { secret: 'test-secret' }), registry);
+
+      await dbService.execute(`INSERT INTO users (id, email, password_hash) VALUES ('user-1', 'miner@example.com', 'x')`);
+      const channels: [string, string, object][] = [
+        ['ch-webhook', 'webhook', { url: `${stubUrl}/webhook`, secret }],
+        ['ch-slack', 'slack', { webhook_url: `${stubUrl}/slack` }],
+        ['ch-discord', 'discord', { webhook_url: `${stubUrl}/discord` }],
+        ['ch-telegram', 'telegram', { bot_token: '123456:test-token', chat_id: '-1001' }],
+        ['ch-broken', 'slack', { webhook_url: `${stubUrl}/broken` }]
+      ];
+      for (const [id, type, config] of channels) {
+        await dbService.execute(
+          'INSERT INTO notification_channels (id, user_id, type, name, config) VALUES (?, ?, ?, ?, ?)',
+          [id, 'user-1', type, id, JSON.stringify(config)]
+        );
+      }
+    });
+
+    beforeEach(async () => {
+      requests = [];
+      await dbService.execute(`UPDATE alert_subscriptions SET user_id = 'user-1', email_enabled = 0 WHERE id = 'sub-1'`);
+      for (const channelId of ['ch-webhook', 'ch-slack', 'ch-discord', 'ch-telegram', 'ch-broken']) {
+        await dbService.execute('INSERT INTO alert_subscription_channels (subscription_id, channel_id) VALUES (?, ?)', ['sub-1', channelId]);
+      }
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => stub.close(() => resolve()));
+    });
+
+    const requestTo = (path: string) => {
+      const request = requests.find(candidate => candidate.url === path);
+      expect(request).toBeDefined();
+      return request!;
+    };
+
+    it('posts the alert to every selected channel instead of email', async () => {
+      await channelAlertService.processAlerts();
+
+      expect(smtp.messages).toHaveLength(0);
+      expect(requests).toHaveLength(5);
+
+      const webhook = requestTo('/webhook');
+      const timestamp = webhook.headers['x-mining-dashboard-timestamp'] as string;
+      expect(webhook.headers['x-mining-dashboard-signature']).toBe(`sha256=${WebhookChannel.sign(secret, timestamp, webhook.body)}`);
+      expect(JSON.parse(webhook.body)).toMatchObject({
+        event: 'alert',
+        subscription_id: 'sub-1',
+        alert_type: AlertType.HASHRATE_DROP,
+        title: 'Hashrate drop on Pool <One>',
+        pool_name: 'Pool <One>',
+        alerts: [{ kind: 'firing', message: 'Hashrate dropped by 50.00%', trigger_value: 500 }]
+      });
+
+      expect(JSON.parse(requestTo('/slack').body).text).toBe('*Hashrate drop on Pool <One>*\nHashrate dropped by 50.00%\nPool: Pool <One>');
+      expect(JSON.parse(requestTo('/discord').body).embeds[0]).toMatchObject({
+        title: 'Hashrate drop on Pool <One>',
+        color: 0xf59e0b
+      });
+      expect(JSON.parse(requestTo('/bot123456:test-token/sendMessage').body)).toMatchObject({
+        chat_id: '-1001',
+        text: expect.stringContaining('Hashrate dropped by 50.00%')
+      });
+    });
+
+    it('logs the outcome of every channel delivery on the alert', async () => {
+      await channelAlertService.processAlerts();
+
+      const [alert] = await dbService.query<any>('SELECT id, email_sent, digest_pending FROM alert_history');
+      expect(alert).toMatchObject({ email_sent: 0, digest_pending: 0 });
+
+      const deliveries = await dbService.query<any>(
+        'SELECT channel_id, channel_type, success, error_message FROM alert_history_deliveries WHERE alert_history_id = ? ORDER BY channel_id',
+        [alert.id]
+      );
+      expect(deliveries).toEqual([
+        { channel_id: 'ch-broken', channel_type: 'slack', success: 0, error_message: 'HTTP 500' },
+        { channel_id: 'ch-discord', channel_type: 'discord', success: 1, error_message: null },
+        { channel_id: 'ch-slack', channel_type: 'slack', success: 1, error_message: null },
+        { channel_id: 'ch-telegram', channel_type: 'telegram', success: 1, error_message: null },
+        { channel_id: 'ch-webhook', channel_type: 'webhook', success: 1, error_message: null }
+      ]);
+    });
+
+    it('refuses internal destinations unless private hosts are allowed', async () => {
+      const channel = new WebhookChannel();
+
+      expect(channel.validateConfig({ url: 'http://169.254.169.254/latest/meta-data', secret })).toBe('url must point to a public host');
+      expect(channel.validateConfig({ url: 'http://localhost:8080/hook', secret })).toBe('url must point to a public host');
+      expect(channel.validateConfig({ url: 'http://[::ffff:10.0.0.1]/hook', secret })).toBe('url must point to a public host');
+      expect(channel.validateConfig({ url: 'https://hooks.example.com/alerts', secret })).toBeNull();
+
+      const result = await channel.send({ url: `${stubUrl}/webhook`, secret }, {
+        event: 'test', subscriptionId: null, alertType: null, title: 'Test', color: '#000000',
+        poolName: null, minerAddress: null, entries: []
+      });
+      expect(result).toEqual({ success: false, error: 'Destination is not a public host' });
+      expect(requests).toHaveLength(0);
+    });
+
+    it('sends digests to channels as one message listing every alert', async () => {
+      await dbService.execute(`UPDATE alert_subscriptions SET delivery_mode = 'hourly', cooldown_minutes = 0, email_enabled = 1`);
+      await dbService.execute(`DELETE FROM alert_subscription_channels WHERE channel_id != 'ch-webhook'`);
+
+      await channelAlertService.processAlerts();
+      await channelAlertService.processAlerts();
+      expect(requests).toHaveLength(0);
+
+      await channelAlertService.sendDueDigests(new Date(Date.now() + 61 * 60 * 1000));
+      expect(smtp.messages).toHaveLength(1);
+      expect(requests).toHaveLength(1);
+      const payload = JSON.parse(requestTo('/webhook').body);
+      expect(payload.title).toBe('2 alerts: Hashrate drop on Pool <One>');
+      expect(payload.alerts).toHaveLength(2);
+      expect(await dbService.query<any>('SELECT success FROM alert_history_deliveries')).toEqual([{ success: 1 }, { success: 1 }]);
+    });
+  });
+
+  describe('condition alerts', () => {
+    let readingOffset = 0;
+
+    // Each reading a second after the previous one so it becomes the latest
+    const luckReading = (luck: number) => dbService.execute(
+      `INSERT INTO pool_statistics (pool_id, hashrate, miners_count, blocks_found_24h, luck_7d, timestamp) VALUES (?, ?, ?, ?, ?, ?)`,
+      ['pool-2', 1000, 10, 0, luck, toSqlTimestamp(new Date(Date.now() + ++readingOffset * 1000))]
+    );
+    const historyOf = (subscriptionId: string) => dbService.query<any>(
+      'SELECT kind, message FROM alert_history WHERE subscription_id = ? ORDER BY triggered_at, rowid', [subscriptionId]
+    );
+    const stateOf = async (subscriptionId: string) => (await dbService.queryOne<any>(
+      'SELECT state FROM alert_subscriptions WHERE id = ?', [subscriptionId]
+    ))!.state;
+
+    beforeAll(async () => {
+      await dbService.execute(
+        `INSERT INTO pools (id, name, api_url, fee_percentage, payout_method) VALUES (?, ?, ?, ?, ?)`,
+        ['pool-2', 'Pool Two', 'http://127.0.0.1:1', 1.0, 'PPLNS']
+      );
+    });
+
+    beforeEach(async () => {
+      await dbService.execute("DELETE FROM alert_subscriptions WHERE id = 'sub-1'");
+    });
+
+    it('fires once, resolves past the hysteresis threshold and can fire again', async () => {
+      await dbService.execute(
+        `INSERT INTO alert_subscriptions (id, email, alert_type, pool_id, threshold, resolve_threshold, cooldown_minutes, is_active)
+         VALUES (?, ?, ?, ?, ?, ?, 0, 1)`,
+        ['sub-luck', 'miner@example.com', AlertType.LUCK_STREAK, 'pool-2', 90, 95]
+      );
+
+      for (const luck of [80, 85, 92]) {
+        await luckReading(luck);
+        await alertService.processAlerts();
+      }
+      expect(await stateOf('sub-luck')).toBe('firing');
+      expect(await historyOf('sub-luck')).toEqual([{ kind: 'firing', message: 'Pool luck dropped to 80.00%' }]);
+
+      await luckReading(97);
+      await alertService.processAlerts();
+      expect(await stateOf('sub-luck')).toBe('resolved');
+      expect(smtp.messages[1]!.data).toContain('Subject: [Mining Dashboard] Resolved: Luck streak on Pool Two');
+
+      await luckReading(70);
+      await alertService.processAlerts();
+      expect(await historyOf('sub-luck')).toEqual([
+        { kind: 'firing', message: 'Pool luck dropped to 80.00%' },
+        { kind: 'resolved', message: 'Pool luck recovered to 97.00%' },
+        { kind: 'firing', message: 'Pool luck dropped to 70.00%' }
+      ]);
+    });
+
+    it('waits for_minutes before firing and drops a breach that clears in time', async () => {
+      await dbService.execute(
+        `INSERT INTO alert_subscriptions (id, email, alert_type, pool_id, for_minutes, is_active) VALUES (?, ?, ?, ?, ?, 1)`,
+        ['sub-offline', 'miner@example.com', AlertType.POOL_OFFLINE, 'pool-2', 5]
+      );
+      const lastUpdate = (minutesAgo: number) => dbService.execute(
+        `UPDATE pool_statistics SET timestamp = ? WHERE pool_id = 'pool-2'`,
+        [toSqlTimestamp(new Date(Date.now() - minutesAgo * 60 * 1000))]
+      );
+      const pendingFor = (minutes: number) => dbService.execute(
+        `UPDATE alert_subscriptions SET state_changed_at = ? WHERE id = 'sub-offline'`,
+        [toSqlTimestamp(new Date(Date.now() - minutes * 60 * 1000))]
+      );
+
+      await lastUpdate(20);
+      await alertService.processAlerts();
+      expect(await stateOf('sub-offline')).toBe('pending');
+
+      // Fresh data before for_minutes passed: back to ok without a notification
+      await lastUpdate(0);
+      await alertService.processAlerts();
+      expect(await stateOf('sub-offline')).toBe('ok');
+
+      await lastUpdate(20);
+      await alertService.processAlerts();
+      await pendingFor(2);
+      await alertService.processAlerts();
+      expect(await historyOf('sub-offline')).toEqual([]);
+
+      await pendingFor(6);
+      await alertService.processAlerts();
+      expect(await stateOf('sub-offline')).toBe('firing');
+
+      await lastUpdate(0);
+      await alertService.processAlerts();
+      expect(await historyOf('sub-offline')).toEqual([
+        { kind: 'firing', message: 'Pool offline for 20 minutes' },
+        { kind: 'resolved', message: 'Pool is back online' }
+      ]);
+    });
+  });
+});
@@ -1,13 +1,77 @@
 import { DatabaseService } from './DatabaseService';
-import { AlertType } from '../types';
+import { WebSocketService } from './WebSocketService';
+import { EmailDeliveryResult, EmailService } from './EmailService';
+import { AuthService, SubscriptionAction } from './AuthService';
+import { NEW_BLOCK_MAX_AGE_MINUTES } from './BlockCollectorService';
+import { alertColor, alertTitle, renderAlertEmail, renderConfirmationEmail, renderDigestEmail } from './emailTemplates';
+import { AlertNotification, NotificationChannelRegistry, createDefaultNotificationChannelRegistry } from './channels';
+import { AlertDeliveryMode, AlertHistoryKind, AlertState, AlertType, NotificationChannelRow } from '../types';
+import { percentChange } from '../utils/profitability';
+import { fromSqlTimestamp, isWithinDailyWindow, toSqlTimestamp } from '../utils/dates';
+
+// Defaults for alerts subscribed without a threshold
+const DEFAULT_POOL_OFFLINE_MINUTES = 10;
+const DEFAULT_WORKER_OFFLINE_MINUTES = 10;
+const DEFAULT_HASHRATE_DIVERGENCE_PERCENT = 10;
+const DEFAULT_REJECTED_SHARE_PERCENT = 5;
+
+// Used for subscriptions without their own cooldown_minutes (event alerts only;
+// condition alerts notify once per state change instead)
+const DEFAULT_COOLDOWN_MINUTES = 60;
+
+// Shortest gap between two verification emails for one subscription
+export const CONFIRMATION_RESEND_MINUTES = 5;
+
+// How long a digest collects alerts, counted from the first one it holds.
+// Immediate subscriptions only batch alerts held by quiet hours and send them as soon as those end.
+const DIGEST_PERIOD_MINUTES: Record<AlertDeliveryMode, number> = {
+  immediate: 0,
+  hourly: 60,
+  daily: 24 * 60
+};
+
+export interface ConfirmationDeliveryResult extends EmailDeliveryResult {
+  retryAfterSeconds?: number;   // set when the send was refused because one went out recently
+}
+
+/**
+ * One evaluation of a condition alert. `breaching` is past the firing
+ * threshold; `recovered` is back past the resolve threshold, which may sit
+ * further away than the firing one so a value hovering at the threshold
+ * doesn't flap between firing and resolved.
+ */
+interface ConditionReading {
+  value: number;
+  breaching: boolean;
+  recovered: boolean;
+  message: string;
+  resolvedMessage: string;
+}
 
 export class AlertService {
   private dbService: DatabaseService;
+  private websocketService?: WebSocketService;
+  private emailService: EmailService;
+  private authService: AuthService;
+  private channels: NotificationChannelRegistry;
+  private publicUrl: string;
   private processingInterval?: NodeJS.Timeout;
   private isRunning: boolean = false;
 
-  constructor(dbService: DatabaseService) {
+  constructor(
+    dbService: DatabaseService,
+    websocketService?: WebSocketService,
+    emailService: EmailService = new EmailService(),
+    authService: AuthService = new AuthService(dbService),
+    channels: NotificationChannelRegistry = createDefaultNotificationChannelRegistry()
+  ) {
     this.dbService = dbService;
+    this.websocketService = websocketService;
+    this.emailService = emailService;
+    this.authService = authService;
+    this.channels = channels;
+    // Where the links in emails point; the API must be reachable there from the recipient's mail client
+    this.publicUrl = (process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/$/, '');
   }
 
   public startAlertProcessing(): void {
@@ -39,7 +103,7 @@ export class AlertService {
     console.log('🔔 Alert processing stopped');
   }
 
-  private async processAlerts(): Promise<void> {
+  public async processAlerts(): Promise<void> {
     try {
       console.log('🔍 Processing alert conditions...');
       
@@ -56,6 +120,8 @@ export class AlertService {
       for (const alert of activeAlerts) {
         await this.checkAlertCondition(alert as any);
       }
+
+      await this.sendDueDigests();
       
       console.log(`✅ Processed ${activeAlerts.length} alert subscriptions`);
     } catch (error) {
@@ -63,6 +129,106 @@ export class AlertService {
     }
   }
 
+  /**
+   * Email the verification link for a pending subscription. Never throws;
+   * the result says whether the email went out. Only one verification email
+   * goes out per CONFIRMATION_RESEND_MINUTES, so the address can't be flooded;
+   * a refused send carries the seconds to wait in `retryAfterSeconds`.
+   */
+  public async sendConfirmation(subscriptionId: string, now: Date = new Date()): Promise<ConfirmationDeliveryResult> {
+    const subscription = await this.loadSubscription(subscriptionId);
+    if (!subscription) {
+      return { success: false, attempts: 0, error: 'Subscription not found' };
+    }
+
+    // Claim the send in one statement so two concurrent requests can't both go out
+    const resendAfter = new Date(now.getTime() - CONFIRMATION_RESEND_MINUTES * 60000);
+    const claim = await this.dbService.execute(`
+      UPDATE alert_subscriptions SET confirmation_sent_at = ?
+      WHERE id = ? AND (confirmation_sent_at IS NULL OR confirmation_sent_at <= ?)
+    `, [toSqlTimestamp(now), subscriptionId, toSqlTimestamp(resendAfter)]);
+    if (claim.rowsAffected === 0) {
+      const sentAt = fromSqlTimestamp(subscription.confirmation_sent_at).getTime();
+      return {
+        success: false,
+        attempts: 0,
+        error: `A confirmation email was sent less than ${CONFIRMATION_RESEND_MINUTES} minutes ago`,
+        retryAfterSeconds: Math.max(Math.ceil((sentAt - resendAfter.getTime()) / 1000), 1)
+      };
+    }
+
+    const email = renderConfirmationEmail({
+      alertType: subscription.alert_type,
+      poolName: subscription.pool_name,
+      minerAddress: subscription.miner_address,
+      threshold: subscription.threshold,
+      confirmUrl: this.linkFor(subscription, 'confirm'),
+      expiresInHours: this.authService.confirmTokenTtlHours
+    });
+
+    const delivery = await this.emailService.send(subscription.email, email);
+    if (!delivery.success) {
+      // Nothing reached the recipient, so an immediate retry is fine
+      await this.dbService.execute(
+        'UPDATE alert_subscriptions SET confirmation_sent_at = ? WHERE id = ?',
+        [subscription.confirmation_sent_at ?? null, subscriptionId]
+      );
+    }
+    return delivery;
+  }
+
+  /**
+   * Activate the subscription a confirm link was issued for. Returns the
+   * subscription, or null when the token is invalid, expired or the
+   * subscription no longer exists.
+   */
+  public async confirmSubscription(token: string): Promise<any | null> {
+    const claims = this.authService.verifySubscriptionToken(token, 'confirm');
+    if (!claims) return null;
+
+    // Confirming twice is harmless, but it must not re-activate a subscription the owner paused
+    await this.dbService.execute(`
+      UPDATE alert_subscriptions
+      SET is_active = 1, confirmed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND email = ? AND confirmed_at IS NULL
+    `, [claims.subscriptionId, claims.email]);
+
+    const subscription = await this.loadSubscription(claims.subscriptionId);
+    return subscription && subscription.email === claims.email ? subscription : null;
+  }
+
+  /**
+   * Deactivate the subscription an unsubscribe link was issued for. It also
+   * loses its confirmation, so turning it back on needs the recipient again.
+   */
+  public async unsubscribe(token: string): Promise<any | null> {
+    const claims = this.authService.verifySubscriptionToken(token, 'unsubscribe');
+    if (!claims) return null;
+
+    await this.dbService.execute(`
+      UPDATE alert_subscriptions
+      SET is_active = 0, confirmed_at = NULL, state = 'ok', updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND email = ?
+    `, [claims.subscriptionId, claims.email]);
+
+    const subscription = await this.loadSubscription(claims.subscriptionId);
+    return subscription && subscription.email === claims.email ? subscription : null;
+  }
+
+  private async loadSubscription(id: string): Promise<any | null> {
+    return this.dbService.queryOne(`
+      SELECT s.*, p.name as pool_name
+      FROM alert_subscriptions s
+      LEFT JOIN pools p ON s.pool_id = p.id
+      WHERE s.id = ?
+    `, [id]);
+  }
+
+  private linkFor(subscription: { id: string; email: string }, action: SubscriptionAction): string {
+    const token = this.authService.signSubscriptionToken(subscription.id, subscription.email, action);
+    return `${this.publicUrl}/api/alerts/${action}?token=${encodeURIComponent(token)}`;
+  }
+
   private async checkAlertCondition(alert: any): Promise<void> {
     try {
       switch (alert.alert_type) {
@@ -81,6 +247,15 @@ export class AlertService {
         case AlertType.PROFITABILITY_CHANGE:
           await this.checkProfitabilityChange(alert);
           break;
+        case AlertType.WORKER_OFFLINE:
+          await this.checkWorkerOffline(alert);
+          break;
+        case AlertType.HASHRATE_DIVERGENCE:
+          await this.checkHashrateDivergence(alert);
+          break;
+        case AlertType.REJECTED_SHARE_RATIO:
+          await this.checkRejectedShareRatio(alert);
+          break;
         default:
           console.warn(`Unknown alert type: ${alert.alert_type}`);
       }
@@ -115,7 +290,9 @@ export class AlertService {
   private async checkPoolOffline(alert: any): Promise<void> {
     if (!alert.pool_id) return;
 
-    // Check if pool has updated in the last 10 minutes
+    const minutes = alert.threshold || DEFAULT_POOL_OFFLINE_MINUTES;
+    const resolveMinutes = alert.resolve_threshold ?? minutes;
+
     const lastUpdate = await this.dbService.queryOne(`
       SELECT timestamp
       FROM pool_statistics
@@ -126,13 +303,17 @@ export class AlertService {
 
     if (!lastUpdate) return;
 
-    const updateTime = new Date((lastUpdate as any).timestamp);
+    const updateTime = fromSqlTimestamp((lastUpdate as any).timestamp);
     const now = new Date();
     const minutesSinceUpdate = (now.getTime() - updateTime.getTime()) / (1000 * 60);
 
-    if (minutesSinceUpdate > 10) {
-      await this.triggerAlert(alert, `Pool offline for ${Math.floor(minutesSinceUpdate)} minutes`, minutesSinceUpdate);
-    }
+    await this.updateConditionState(alert, {
+      value: minutesSinceUpdate,
+      breaching: minutesSinceUpdate > minutes,
+      recovered: minutesSinceUpdate <= resolveMinutes,
+      message: `Pool offline for ${Math.floor(minutesSinceUpdate)} minutes`,
+      resolvedMessage: 'Pool is back online'
+    });
   }
 
   private async checkLuckStreak(alert: any): Promise<void> {
@@ -149,90 +330,549 @@ export class AlertService {
     if (!currentLuck) return;
 
     const luck = (currentLuck as any).luck_7d;
-    if (luck < alert.threshold) {
-      await this.triggerAlert(alert, `Pool luck dropped to ${luck.toFixed(2)}%`, luck);
-    }
+    if (luck === null || luck === undefined) return;
+
+    const resolveLuck = alert.resolve_threshold ?? alert.threshold;
+    await this.updateConditionState(alert, {
+      value: luck,
+      breaching: luck < alert.threshold,
+      recovered: luck >= resolveLuck,
+      message: `Pool luck dropped to ${luck.toFixed(2)}%`,
+      resolvedMessage: `Pool luck recovered to ${luck.toFixed(2)}%`
+    });
   }
 
-  private async checkNewBlock(alert: any): Promise<void> {
-    // Check for blocks found in the last 2 minutes
-    const poolCondition = alert.pool_id ? 'AND pool_id = ?' : '';
-    const params = alert.pool_id ? [alert.pool_id] : [];
+  private async checkNewBlock(alert: any, now: Date = new Date()): Promise<void> {
+    // Each block is considered once: the subscription remembers up to where blocks were
+    // ingested when it last looked. Only whole seconds that have passed are taken, as a block
+    // stored later in the current second carries the same created_at. The first check
+    // looks back 2 minutes; blocks found long ago (a pool's first sync) are not news.
+    const checkedUntil = alert.blocks_checked_until
+      ? toSqlTimestamp(fromSqlTimestamp(alert.blocks_checked_until))
+      : toSqlTimestamp(new Date(now.getTime() - 2 * 60 * 1000));
+    const checkUntil = toSqlTimestamp(now);
+    const foundAfter = toSqlTimestamp(new Date(now.getTime() - NEW_BLOCK_MAX_AGE_MINUTES * 60 * 1000));
+    const poolCondition = alert.pool_id ? 'AND b.pool_id = ?' : '';
+    const params = [checkedUntil, checkUntil, foundAfter, ...(alert.pool_id ? [alert.pool_id] : [])];
 
     const recentBlocks = await this.dbService.query(`
-      SELECT *
-      FROM blocks
-      WHERE timestamp > datetime('now', '-2 minutes') ${poolCondition}
+      SELECT b.*, p.name as pool_name
+      FROM blocks b
+      INNER JOIN pools p ON b.pool_id = p.id
+      WHERE b.created_at >= ? AND b.created_at < ?
+        AND b.timestamp > ?
+        AND b.status != 'orphaned' ${poolCondition}
+      ORDER BY b.block_number DESC
     `, params);
 
+    await this.dbService.execute(
+      'UPDATE alert_subscriptions SET blocks_checked_until = ? WHERE id = ?',
+      [checkUntil, alert.id]
+    );
+
     for (const block of recentBlocks) {
       const blockData = block as any;
+      const kind = blockData.uncle ? 'uncle' : 'block';
       const message = alert.pool_id 
-        ? `New block found: #${blockData.block_number}`
-        : `New block found: #${blockData.block_number} by ${alert.pool_name || 'Unknown Pool'}`;
+        ? `New ${kind} found: #${blockData.block_number}`
+        : `New ${kind} found: #${blockData.block_number} by ${blockData.pool_name || 'Unknown Pool'}`;
       
       await this.triggerAlert(alert, message, blockData.block_number);
     }
   }
 
+  /**
+   * Compare the oldest and newest profitability points inside the window
+   * (PROFITABILITY_ALERT_WINDOW_HOURS, default 24h). USD/day is used so that
+   * difficulty, PPLNS luck and coin price moves all count towards the threshold.
+   */
   private async checkProfitabilityChange(alert: any): Promise<void> {
-    // This is a simplified profitability check
-    // In a real implementation, you would calculate based on difficulty, gas fees, etc.
-    console.log('📊 Profitability check - placeholder implementation');
+    if (!alert.threshold) return;
+
+    const windowHours = parseInt(process.env.PROFITABILITY_ALERT_WINDOW_HOURS || '24');
+    const poolCondition = alert.pool_id ? 'AND pp.pool_id = ?' : '';
+    const params: any[] = [`-${windowHours} hours`];
+    if (alert.pool_id) params.push(alert.pool_id);
+
+    const points = await this.dbService.query(`
+      SELECT pp.pool_id, pp.usd_per_mh_day, pp.timestamp, p.name as pool_name
+      FROM pool_profitability pp
+      INNER JOIN pools p ON pp.pool_id = p.id
+      WHERE pp.timestamp >= datetime('now', ?) ${poolCondition}
+      ORDER BY pp.timestamp ASC
+    `, params);
+
+    const byPool = new Map<string, any[]>();
+    for (const point of points as any[]) {
+      byPool.set(point.pool_id, [...(byPool.get(point.pool_id) || []), point]);
+    }
+
+    // Global subscriptions alert on the pool with the largest move
+    let largest: { change: number; poolName: string; current: number } | null = null;
+    for (const poolPoints of byPool.values()) {
+      if (poolPoints.length < 2) continue;
+
+      const first = poolPoints[0];
+      const last = poolPoints[poolPoints.length - 1];
+      const change = percentChange(first.usd_per_mh_day, last.usd_per_mh_day);
+      if (change === null) continue;
+
+      if (!largest || Math.abs(change) > Math.abs(largest.change)) {
+        largest = { change, poolName: last.pool_name, current: last.usd_per_mh_day };
+      }
+    }
+
+    if (!largest || Math.abs(largest.change) <= alert.threshold) return;
+
+    const direction = largest.change > 0 ? 'rose' : 'fell';
+    const subject = alert.pool_id ? 'Profitability' : `Profitability on ${largest.poolName}`;
+    await this.triggerAlert(
+      alert,
+      `${subject} ${direction} ${Math.abs(largest.change).toFixed(2)}% over ${windowHours}h to $${largest.current.toFixed(4)}/MH/day`,
+      largest.change
+    );
   }
 
-  private async triggerAlert(alert: any, message: string, triggerValue?: number): Promise<void> {
-    try {
-      // Check if we've already sent this alert recently (rate limiting)
-      const recentAlert = await this.dbService.queryOne(`
-        SELECT id
-        FROM alert_history
-        WHERE subscription_id = ? AND triggered_at > datetime('now', '-1 hour')
-        ORDER BY triggered_at DESC
+  /**
+   * Fire when any worker of the address has been offline for at least
+   * `threshold` minutes (default 10), measured from its last status flip.
+   * Resolves once every worker is back online.
+   */
+  private async checkWorkerOffline(alert: any): Promise<void> {
+    if (!alert.miner_address) return;
+
+    const minutes = alert.threshold || DEFAULT_WORKER_OFFLINE_MINUTES;
+    const poolCondition = alert.pool_id ? 'AND m.pool_id = ?' : '';
+    const params: any[] = [alert.miner_address];
+    if (alert.pool_id) params.push(alert.pool_id);
+
+    const offlineWorkers = await this.dbService.query<any>(`
+      SELECT w.name, w.status_changed_at, p.name as pool_name
+      FROM workers w
+      INNER JOIN miners m ON w.miner_id = m.id
+      INNER JOIN pools p ON m.pool_id = p.id
+      WHERE m.address = ? AND w.is_online = 0 ${poolCondition}
+      ORDER BY w.status_changed_at ASC
+    `, params);
+
+    const cutoff = Date.now() - minutes * 60 * 1000;
+    const longOffline = offlineWorkers.filter(worker => fromSqlTimestamp(worker.status_changed_at).getTime() <= cutoff);
+
+    const names = longOffline.map(worker => alert.pool_id ? worker.name : `${worker.name} (${worker.pool_name})`);
+    const message = longOffline.length === 1
+      ? `Worker ${names[0]} has been offline for more than ${minutes} minutes`
+      : `${longOffline.length} workers offline for more than ${minutes} minutes: ${names.join(', ')}`;
+
+    await this.updateConditionState(alert, {
+      value: longOffline.length,
+      breaching: longOffline.length > 0,
+      recovered: offlineWorkers.length === 0,
+      message,
+      resolvedMessage: 'All workers are back online'
+    });
+  }
+
+  /**
+   * Compare the hashrate the rigs report with what the pool actually credits
+   * over the last hour. A large gap usually means stale shares, a bad riser
+   * or a miner lying about its speed. Threshold is a percentage (default 10).
+   */
+  private async checkHashrateDivergence(alert: any): Promise<void> {
+    if (!alert.miner_address) return;
+
+    const threshold = alert.threshold || DEFAULT_HASHRATE_DIVERGENCE_PERCENT;
+    const poolCondition = alert.pool_id ? 'AND m.pool_id = ?' : '';
+    const params: any[] = [alert.miner_address];
+    if (alert.pool_id) params.push(alert.pool_id);
+
+    const averages = await this.dbService.query<any>(`
+      SELECT
+        p.name as pool_name,
+        AVG(ms.reported_hashrate) as reported_hashrate,
+        AVG(ms.current_hashrate) as current_hashrate
+      FROM miner_statistics ms
+      INNER JOIN miners m ON ms.miner_id = m.id
+      INNER JOIN pools p ON m.pool_id = p.id
+      WHERE m.address = ? AND ms.reported_hashrate IS NOT NULL
+        AND ms.timestamp >= datetime('now', '-1 hour') ${poolCondition}
+      GROUP BY m.pool_id, p.name
+    `, params);
+
+    // Alert on the pool where the effective hashrate lags the most
+    let worst: { divergence: number; poolName: string } | null = null;
+    for (const row of averages) {
+      if (!row.reported_hashrate) continue;
+
+      const divergence = ((row.reported_hashrate - row.current_hashrate) / row.reported_hashrate) * 100;
+      if (!worst || divergence > worst.divergence) {
+        worst = { divergence, poolName: row.pool_name };
+      }
+    }
+
+    if (!worst) return;
+
+    const location = alert.pool_id ? '' : ` on ${worst.poolName}`;
+    await this.updateConditionState(alert, {
+      value: worst.divergence,
+      breaching: worst.divergence > threshold,
+      recovered: worst.divergence <= (alert.resolve_threshold ?? threshold),
+      message: `Effective hashrate${location} is ${worst.divergence.toFixed(2)}% below reported over the last hour`,
+      resolvedMessage: `Effective hashrate${location} is back within ${worst.divergence.toFixed(2)}% of reported`
+    });
+  }
+
+  /**
+   * Fire when stale + invalid shares exceed `threshold` percent (default 5)
+   * of all shares in the latest reading for the address.
+   */
+  private async checkRejectedShareRatio(alert: any): Promise<void> {
+    if (!alert.miner_address) return;
+
+    const threshold = alert.threshold || DEFAULT_REJECTED_SHARE_PERCENT;
+    const poolCondition = alert.pool_id ? 'AND m.pool_id = ?' : '';
+    const params: any[] = [alert.miner_address];
+    if (alert.pool_id) params.push(alert.pool_id);
+
+    const readings = await this.dbService.query<any>(`
+      SELECT p.name as pool_name, ms.valid_shares, ms.invalid_shares, ms.stale_shares
+      FROM miners m
+      INNER JOIN pools p ON m.pool_id = p.id
+      INNER JOIN miner_statistics ms ON ms.id = (
+        SELECT id FROM miner_statistics
+        WHERE miner_id = m.id
+        ORDER BY timestamp DESC
         LIMIT 1
-      `, [alert.id]);
+      )
+      WHERE m.address = ? ${poolCondition}
+    `, params);
+
+    let worst: { ratio: number; poolName: string } | null = null;
+    for (const row of readings) {
+      const total = row.valid_shares + row.invalid_shares + row.stale_shares;
+      if (total === 0) continue;
+
+      const ratio = ((row.invalid_shares + row.stale_shares) / total) * 100;
+      if (!worst || ratio > worst.ratio) {
+        worst = { ratio, poolName: row.pool_name };
+      }
+    }
+
+    if (!worst) return;
+
+    const location = alert.pool_id ? '' : ` on ${worst.poolName}`;
+    await this.updateConditionState(alert, {
+      value: worst.ratio,
+      breaching: worst.ratio > threshold,
+      recovered: worst.ratio <= (alert.resolve_threshold ?? threshold),
+      message: `Stale/invalid shares${location} at ${worst.ratio.toFixed(2)}% of submitted shares`,
+      resolvedMessage: `Stale/invalid shares${location} down to ${worst.ratio.toFixed(2)}% of submitted shares`
+    });
+  }
+
+  /**
+   * Move a condition alert through ok → pending → firing → resolved. Only the
+   * firing and resolved transitions are notified; while the condition holds
+   * nothing is repeated. A breach has to last for_minutes (pending) before it
+   * fires, and a pending breach that clears goes back to ok silently.
+   */
+  private async updateConditionState(alert: any, reading: ConditionReading): Promise<void> {
+    const state: AlertState = alert.state || 'ok';
+    const forMinutes = alert.for_minutes || 0;
+
+    if (reading.breaching) {
+      if (state === 'firing') return;
+
+      if (state !== 'pending' && forMinutes > 0) {
+        await this.setState(alert, 'pending');
+        return;
+      }
 
-      if (recentAlert) {
-        return; // Don't spam alerts
+      if (state === 'pending' && alert.state_changed_at) {
+        const pendingMinutes = (Date.now() - fromSqlTimestamp(alert.state_changed_at).getTime()) / (60 * 1000);
+        if (pendingMinutes < forMinutes) return;
       }
 
+      await this.setState(alert, 'firing');
+      await this.recordAlert(alert, reading.message, reading.value, 'firing');
+      return;
+    }
+
+    if (state === 'pending') {
+      await this.setState(alert, 'ok');
+    } else if (state === 'firing' && reading.recovered) {
+      await this.setState(alert, 'resolved');
+      await this.recordAlert(alert, reading.resolvedMessage, reading.value, 'resolved');
+    }
+  }
+
+  private async setState(alert: any, state: AlertState): Promise<void> {
+    await this.dbService.execute(
+      'UPDATE alert_subscriptions SET state = ?, state_changed_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [state, alert.id]
+    );
+  }
+
+  // Event alerts (new blocks, drops, profitability moves) fire on every check, limited by the cooldown
+  private async triggerAlert(alert: any, message: string, triggerValue?: number): Promise<void> {
+    try {
+      // Don't trigger the same subscription again within its cooldown
+      const cooldownMinutes = alert.cooldown_minutes ?? DEFAULT_COOLDOWN_MINUTES;
+      if (cooldownMinutes > 0) {
+        const recentAlert = await this.dbService.queryOne(`
+          SELECT id
+          FROM alert_history
+          WHERE subscription_id = ? AND triggered_at > ?
+          ORDER BY triggered_at DESC
+          LIMIT 1
+        `, [alert.id, toSqlTimestamp(new Date(Date.now() - cooldownMinutes * 60 * 1000))]);
+
+        if (recentAlert) {
+          return;
+        }
+      }
+
+      await this.recordAlert(alert, message, triggerValue, 'firing');
+    } catch (error) {
+      console.error('Failed to trigger alert:', error);
+    }
+  }
+
+  // Write the history row, push it to dashboards and deliver it (or hold it for a digest)
+  private async recordAlert(alert: any, message: string, triggerValue: number | undefined, kind: AlertHistoryKind): Promise<void> {
+    try {
+      // Digest subscriptions and quiet hours hold the alert for sendDueDigests
+      const held = (alert.delivery_mode || 'immediate') !== 'immediate' || this.isInQuietHours(alert, new Date());
+
       // Create alert history record
       const alertId = this.generateId();
       await this.dbService.execute(`
         INSERT INTO alert_history (
           id, subscription_id, triggered_at, message, 
-          email_sent, pool_id, trigger_value
-        ) VALUES (?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?)
-      `, [alertId, alert.id, message, 0, alert.pool_id, triggerValue]);
-
-      console.log(`🔔 Alert triggered for ${alert.email}: ${message}`);
+          email_sent, pool_id, trigger_value, digest_pending, kind
+        ) VALUES (?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?, ?)
+      `, [alertId, alert.id, message, 0, alert.pool_id, triggerValue, held ? 1 : 0, kind]);
+
+      const label = kind === 'resolved' ? 'Alert resolved' : 'Alert triggered';
+      console.log(`🔔 ${label} for ${alert.email}: ${message}${held ? ' (held for digest)' : ''}`);
+
+      this.websocketService?.broadcastAlert(alert.user_id ?? null, {
+        id: alertId,
+        subscription_id: alert.id,
+        alert_type: alert.alert_type,
+        pool_id: alert.pool_id,
+        pool_name: alert.pool_name,
+        message,
+        kind,
+        trigger_value: triggerValue,
+        triggered_at: new Date().toISOString()
+      });
       
-      // TODO: Send actual email notification
-      await this.sendEmailNotification(alert.email, message);
-      
-      // Update alert history to mark email as sent
+      if (!held) {
+        await this.deliver(alert, [{ id: alertId, message, trigger_value: triggerValue, triggered_at: toSqlTimestamp(new Date()), kind }]);
+      }
+
+    } catch (error) {
+      console.error('Failed to record alert:', error);
+    }
+  }
+
+  private isInQuietHours(subscription: any, at: Date): boolean {
+    if (!subscription.quiet_hours_start || !subscription.quiet_hours_end) return false;
+    return isWithinDailyWindow(at, subscription.quiet_hours_start, subscription.quiet_hours_end, subscription.timezone || 'UTC');
+  }
+
+  /**
+   * Deliver the held alerts of every active subscription whose digest period has
+   * passed since the first held alert, unless it is inside its quiet hours.
+   */
+  public async sendDueDigests(now: Date = new Date()): Promise<void> {
+    const pending = await this.dbService.query<any>(`
+      SELECT ah.id, ah.subscription_id, ah.message, ah.trigger_value, ah.triggered_at, ah.kind
+      FROM alert_history ah
+      INNER JOIN alert_subscriptions s ON ah.subscription_id = s.id
+      WHERE ah.digest_pending = 1 AND s.is_active = 1
+      ORDER BY ah.triggered_at ASC
+    `);
+
+    const bySubscription = new Map<string, any[]>();
+    for (const entry of pending) {
+      bySubscription.set(entry.subscription_id, [...(bySubscription.get(entry.subscription_id) || []), entry]);
+    }
+
+    for (const [subscriptionId, entries] of bySubscription) {
+      const subscription = await this.loadSubscription(subscriptionId);
+      if (!subscription || this.isInQuietHours(subscription, now)) continue;
+
+      const period = DIGEST_PERIOD_MINUTES[subscription.delivery_mode as AlertDeliveryMode] ?? 0;
+      const waitingMinutes = (now.getTime() - fromSqlTimestamp(entries[0].triggered_at).getTime()) / (60 * 1000);
+      if (waitingMinutes < period) continue;
+
+      await this.deliver(subscription, entries);
+    }
+  }
+
+  /**
+   * Send alert_history entries of one subscription by email (unless the
+   * subscription turned email off) and to each of its notification channels,
+   * then take them off the digest queue whatever the outcome
+   */
+  private async deliver(subscription: any, entries: any[]): Promise<void> {
+    if (subscription.email_enabled) {
+      // A single alert held by quiet hours reads better as the normal alert email
+      const [only] = entries;
+      if (only && entries.length === 1 && (subscription.delivery_mode || 'immediate') === 'immediate') {
+        await this.sendEmailNotification(only.id, subscription, only.message, only.trigger_value ?? undefined, only.kind);
+      } else {
+        await this.sendDigest(subscription, entries);
+      }
+    }
+
+    await this.sendToChannels(subscription, entries);
+
+    const ids = entries.map(entry => entry.id);
+    await this.dbService.execute(
+      `UPDATE alert_history SET digest_pending = 0 WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      ids
+    );
+  }
+
+  private async sendDigest(subscription: any, entries: any[]): Promise<void> {
+    const email = renderDigestEmail({
+      alertType: subscription.alert_type,
+      poolName: subscription.pool_name,
+      minerAddress: subscription.miner_address,
+      threshold: subscription.threshold,
+      deliveryMode: subscription.delivery_mode,
+      entries: entries.map(entry => ({
+        message: entry.message,
+        triggeredAt: fromSqlTimestamp(entry.triggered_at),
+        triggerValue: entry.trigger_value,
+        kind: entry.kind
+      })),
+      unsubscribeUrl: this.linkFor(subscription, 'unsubscribe')
+    });
+
+    const result = await this.emailService.send(subscription.email, email);
+    const ids = entries.map(entry => entry.id);
+    const placeholders = ids.map(() => '?').join(', ');
+
+    // Failed digests are not retried, same as single alert emails
+    if (result.success) {
+      await this.dbService.execute(`
+        UPDATE alert_history
+        SET email_sent = 1, email_sent_at = CURRENT_TIMESTAMP, error_message = NULL
+        WHERE id IN (${placeholders})
+      `, ids);
+      console.log(`📧 Alert digest (${entries.length} alerts) sent to ${subscription.email}`);
+    } else {
+      await this.dbService.execute(`
+        UPDATE alert_history
+        SET email_sent = 0, error_message = ?
+        WHERE id IN (${placeholders})
+      `, [`Digest delivery failed after ${result.attempts} attempt(s): ${result.error}`, ...ids]);
+    }
+  }
+
+  /**
+   * Deliver the alert email and record the real outcome on the history row:
+   * email_sent/email_sent_at only on success, error_message otherwise.
+   */
+  private async sendEmailNotification(
+    alertId: string,
+    alert: any,
+    message: string,
+    triggerValue?: number,
+    kind: AlertHistoryKind = 'firing'
+  ): Promise<void> {
+    const email = renderAlertEmail({
+      alertType: alert.alert_type,
+      message,
+      poolName: alert.pool_name,
+      minerAddress: alert.miner_address,
+      threshold: alert.threshold,
+      triggerValue,
+      triggeredAt: new Date(),
+      unsubscribeUrl: this.linkFor(alert, 'unsubscribe'),
+      kind
+    });
+
+    const result = await this.emailService.send(alert.email, email);
+
+    if (result.success) {
       await this.dbService.execute(`
         UPDATE alert_history 
-        SET email_sent = 1, email_sent_at = CURRENT_TIMESTAMP
+        SET email_sent = 1, email_sent_at = CURRENT_TIMESTAMP, error_message = NULL
         WHERE id = ?
       `, [alertId]);
-
-    } catch (error) {
-      console.error('Failed to trigger alert:', error);
+      console.log(`📧 Alert email sent to ${alert.email} (${result.attempts} attempt(s))`);
+    } else {
+      await this.dbService.execute(`
+        UPDATE alert_history 
+        SET email_sent = 0, error_message = ?
+        WHERE id = ?
+      `, [`Email delivery failed after ${result.attempts} attempt(s): ${result.error}`, alertId]);
     }
   }
 
-  private async sendEmailNotification(email: string, message: string): Promise<void> {
-    // Placeholder for email sending
-    // In development, just log to console
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`📧 [MOCK EMAIL] To: ${email} - ${message}`);
-    } else {
-      // TODO: Implement actual email sending with nodemailer
-      console.log('📧 Email sending not implemented yet');
+  /**
+   * Post the entries to every channel selected for the subscription and log
+   * one alert_history_deliveries row per entry and channel with the outcome.
+   * Failed deliveries are not retried, same as emails.
+   */
+  private async sendToChannels(subscription: any, entries: any[]): Promise<void> {
+    const channels = await this.dbService.query<NotificationChannelRow>(`
+      SELECT c.*
+      FROM notification_channels c
+      INNER JOIN alert_subscription_channels sc ON sc.channel_id = c.id
+      WHERE sc.subscription_id = ?
+      ORDER BY c.created_at ASC
+    `, [subscription.id]);
+    if (channels.length === 0) return;
+
+    const notification = this.buildNotification(subscription, entries);
+
+    for (const channel of channels) {
+      const result = await this.channels.send(channel, notification);
+
+      for (const entry of entries) {
+        await this.dbService.execute(`
+          INSERT INTO alert_history_deliveries (id, alert_history_id, channel_id, channel_type, success, error_message)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `, [this.generateId(), entry.id, channel.id, channel.type, result.success ? 1 : 0, result.error ?? null]);
+      }
+
+      if (result.success) {
+        console.log(`📣 Alert sent to ${channel.type} channel "${channel.name}"`);
+      } else {
+        console.warn(`⚠️  Alert delivery to ${channel.type} channel "${channel.name}" failed: ${result.error}`);
+      }
     }
   }
 
+  private buildNotification(subscription: any, entries: any[]): AlertNotification {
+    const target = { poolName: subscription.pool_name, minerAddress: subscription.miner_address, threshold: subscription.threshold };
+    // A digest that mixes firing and resolved alerts is titled after the alert itself
+    const kind: AlertHistoryKind = entries.every(entry => entry.kind === 'resolved') ? 'resolved' : 'firing';
+    const title = alertTitle(subscription.alert_type, target, kind);
+
+    return {
+      event: 'alert',
+      subscriptionId: subscription.id,
+      alertType: subscription.alert_type,
+      title: entries.length === 1 ? title : `${entries.length} alerts: ${title}`,
+      color: alertColor(subscription.alert_type, kind),
+      poolName: subscription.pool_name ?? null,
+      minerAddress: subscription.miner_address ?? null,
+      entries: entries.map(entry => ({
+        id: entry.id,
+        kind: entry.kind,
+        message: entry.message,
+        triggerValue: entry.trigger_value ?? null,
+        triggeredAt: fromSqlTimestamp(entry.triggered_at)
+      }))
+    };
+  }
+
   private generateId(): string {
     if (process.env.DATABASE_TYPE === 'sqlite') {
       return require('crypto').randomBytes(16).toString('hex');
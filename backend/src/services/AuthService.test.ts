@@ -0,0 +1,66 @@
+import { DatabaseService } from './DatabaseService';
+import { AuthService } from './AuthService';
+
+describe('AuthService', () => {
+  let dbService: DatabaseService;
+  let authService: AuthService;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    authService = new AuthService(dbService, { secret: 'test-secret', bcryptRounds: 4 });
+  });
+
+  afterAll(async () => {
+    await dbService.close();
+  });
+
+  it('stores a bcrypt hash and only accepts the right password', async () => {
+    const user = await authService.createUser('Miner@Example.com', 'correct horse');
+
+    const row = await authService.findUserByEmail('miner@example.com');
+    expect(row).toMatchObject({ id: user.id, email: 'miner@example.com' });
+    expect(row!.password_hash).not.toContain('correct horse');
+
+    expect(await authService.verifyPassword('miner@example.com', 'wrong password')).toBeNull();
+    expect(await authService.verifyPassword('nobody@example.com', 'correct horse')).toBeNull();
+    expect(await authService.verifyPassword('MINER@example.com', 'correct horse')).toEqual(user);
+  });
+
+  it('accepts a session token until it is revoked', async () => {
+    const user = (await authService.verifyPassword('miner@example.com', 'correct horse'))!;
+    const session = await authService.createSession(user);
+
+    expect(await authService.authenticate(session.token)).toEqual(user);
+
+    await authService.revokeSession(session.token);
+    expect(await authService.authenticate(session.token)).toBeNull();
+  });
+
+  it('rejects tokens that are forged, expired or signed with another secret', async () => {
+    const user = (await authService.findUserByEmail('miner@example.com'))!;
+    const session = await authService.createSession({ id: user.id, email: user.email });
+
+    const otherSecret = new AuthService(dbService, { secret: 'other-secret', bcryptRounds: 4 });
+    expect(await otherSecret.authenticate(session.token)).toBeNull();
+    expect(await authService.authenticate('not-a-jwt')).toBeNull();
+
+    // The session row decides, even while the JWT itself is still valid
+    await dbService.execute(`UPDATE user_sessions SET expires_at = datetime('now', '-1 minute')`);
+    expect(await authService.authenticate(session.token)).toBeNull();
+  });
+
+  it('keeps subscription link tokens and session tokens apart', async () => {
+    const user = (await authService.findUserByEmail('miner@example.com'))!;
+    const session = await authService.createSession({ id: user.id, email: user.email });
+    const link = authService.signSubscriptionToken('sub-1', 'miner@example.com', 'unsubscribe');
+
+    expect(authService.verifySubscriptionToken(link, 'unsubscribe')).toEqual({ subscriptionId: 'sub-1', email: 'miner@example.com' });
+    expect(authService.verifySubscriptionToken(link, 'confirm')).toBeNull();
+    expect(authService.verifySubscriptionToken(session.token, 'unsubscribe')).toBeNull();
+    expect(await authService.authenticate(link)).toBeNull();
+  });
+});
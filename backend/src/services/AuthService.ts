@@ -0,0 +1,201 @@
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from './DatabaseService';
+import { AuthUser, UserRow } from '../types';
+import { toSqlTimestamp } from '../utils/dates';
+
+export interface AuthOptions {
+  secret: string;
+  sessionTtlHours: number;
+  bcryptRounds: number;
+  confirmTokenTtlHours: number;
+}
+
+// What a signed link in an alert email is allowed to do
+export type SubscriptionAction = 'confirm' | 'unsubscribe';
+
+export interface SubscriptionTokenClaims {
+  subscriptionId: string;
+  email: string;
+}
+
+// What login and registration hand back to the client
+export interface AuthSession {
+  token: string;
+  expires_at: string;
+  user: AuthUser;
+}
+
+interface SessionClaims {
+  sub: string;
+  email: string;
+  jti: string;
+}
+
+interface SubscriptionClaims {
+  sub: string;
+  email: string;
+  act: SubscriptionAction;
+}
+
+/**
+ * Email/password accounts with JWT sessions. Every token's jti is stored in
+ * user_sessions, so a token only works while its row exists: logging out
+ * deletes the row and the token is dead even though its signature still checks out.
+ */
+export class AuthService {
+  private dbService: DatabaseService;
+  private options: AuthOptions;
+
+  constructor(dbService: DatabaseService, options?: Partial<AuthOptions>) {
+    this.dbService = dbService;
+    this.options = {
+      sessionTtlHours: parseFloat(process.env.SESSION_TTL_HOURS || '168'),
+      bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '12'),
+      confirmTokenTtlHours: parseFloat(process.env.CONFIRM_TOKEN_TTL_HOURS || '48'),
+      ...options,
+      secret: options?.secret || process.env.JWT_SECRET || this.fallbackSecret()
+    };
+  }
+
+  public get confirmTokenTtlHours(): number {
+    return this.options.confirmTokenTtlHours;
+  }
+
+  public async findUserByEmail(email: string): Promise<UserRow | null> {
+    return this.dbService.queryOne<UserRow>('SELECT * FROM users WHERE email = ?', [email.toLowerCase()]);
+  }
+
+  public async createUser(email: string, password: string): Promise<AuthUser> {
+    const id = this.generateId();
+    const passwordHash = await bcrypt.hash(password, this.options.bcryptRounds);
+
+    await this.dbService.execute(
+      'INSERT INTO users (id, email, password_hash) VALUES (?, ?, ?)',
+      [id, email.toLowerCase(), passwordHash]
+    );
+
+    return { id, email: email.toLowerCase() };
+  }
+
+  /**
+   * The account for these credentials, or null when the email is unknown or
+   * the password is wrong (callers shouldn't say which)
+   */
+  public async verifyPassword(email: string, password: string): Promise<AuthUser | null> {
+    const user = await this.findUserByEmail(email);
+    if (!user || !(await bcrypt.compare(password, user.password_hash))) {
+      return null;
+    }
+
+    await this.dbService.execute('UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?', [user.id]);
+    return { id: user.id, email: user.email };
+  }
+
+  public async createSession(user: AuthUser): Promise<AuthSession> {
+    const sessionToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + this.options.sessionTtlHours * 3600 * 1000);
+
+    // Drop this user's expired sessions while we're here
+    await this.dbService.execute(
+      'DELETE FROM user_sessions WHERE user_id = ? AND expires_at <= ?',
+      [user.id, toSqlTimestamp(new Date())]
+    );
+    await this.dbService.execute(`
+      INSERT INTO user_sessions (id, user_id, email, session_token, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+    `, [this.generateId(), user.id, user.email, sessionToken, toSqlTimestamp(expiresAt)]);
+
+    const token = jwt.sign(
+      { sub: user.id, email: user.email, jti: sessionToken },
+      this.options.secret,
+      { expiresIn: Math.round(this.options.sessionTtlHours * 3600) }
+    );
+
+    return { token, expires_at: expiresAt.toISOString(), user };
+  }
+
+  /**
+   * The user behind a bearer token, or null when the token is malformed,
+   * expired or its session was revoked
+   */
+  public async authenticate(token: string): Promise<AuthUser | null> {
+    const claims = this.decode(token);
+    if (!claims) return null;
+
+    const session = await this.dbService.queryOne<{ id: string; user_id: string; email: string }>(`
+      SELECT s.id, s.user_id, u.email
+      FROM user_sessions s
+      INNER JOIN users u ON s.user_id = u.id
+      WHERE s.session_token = ? AND s.expires_at > ?
+    `, [claims.jti, toSqlTimestamp(new Date())]);
+
+    if (!session || session.user_id !== claims.sub) {
+      return null;
+    }
+
+    await this.dbService.execute('UPDATE user_sessions SET last_accessed_at = CURRENT_TIMESTAMP WHERE id = ?', [session.id]);
+    return { id: session.user_id, email: session.email };
+  }
+
+  public async revokeSession(token: string): Promise<void> {
+    const claims = this.decode(token);
+    if (!claims) return;
+
+    await this.dbService.execute('DELETE FROM user_sessions WHERE session_token = ?', [claims.jti]);
+  }
+
+  /**
+   * Token for the confirm/unsubscribe links in alert emails. Confirm links
+   * expire after confirmTokenTtlHours; unsubscribe links keep working as long
+   * as the subscription exists, so an old email can always be used to opt out.
+   */
+  public signSubscriptionToken(subscriptionId: string, email: string, action: SubscriptionAction): string {
+    const claims: SubscriptionClaims = { sub: subscriptionId, email, act: action };
+    return action === 'confirm'
+      ? jwt.sign(claims, this.options.secret, { expiresIn: Math.round(this.options.confirmTokenTtlHours * 3600) })
+      : jwt.sign(claims, this.options.secret);
+  }
+
+  /**
+   * The subscription a link token was issued for, or null when it is invalid,
+   * expired or was signed for a different action (or is a session token)
+   */
+  public verifySubscriptionToken(token: string, action: SubscriptionAction): SubscriptionTokenClaims | null {
+    try {
+      const claims = jwt.verify(token, this.options.secret) as Partial<SubscriptionClaims>;
+      if (claims.act !== action || !claims.sub || !claims.email) return null;
+      return { subscriptionId: claims.sub, email: claims.email };
+    } catch {
+      return null;
+    }
+  }
+
+  private decode(token: string): SessionClaims | null {
+    try {
+      const claims = jwt.verify(token, this.options.secret) as Partial<SessionClaims>;
+      return claims.sub && claims.jti ? claims as SessionClaims : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Tokens signed with a per-process secret stop working on restart, which is fine outside production
+  private fallbackSecret(): string {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT_SECRET must be set in production');
+    }
+    console.warn('⚠️  JWT_SECRET is not set; using a random secret, sessions end when the server restarts');
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  private generateId(): string {
+    if (process.env.DATABASE_TYPE === 'sqlite') {
+      return crypto.randomBytes(16).toString('hex');
+    } else {
+      return uuidv4();
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { DatabaseService } from './DatabaseService';
+import { BlockCollectorService } from './BlockCollectorService';
+import { EthereumProvider } from './JsonRpcProvider';
+import { WebSocketService } from './WebSocketService';
+import { PoolAdapter, PoolAdapterRegistry } from './adapters';
+import { PoolBlock } from '../types';
+
+describe('BlockCollectorService', () => {
+  let dbService: DatabaseService;
+  let collector: BlockCollectorService;
+
+  const block = (overrides: Partial<PoolBlock> = {}): PoolBlock => ({
+    blockNumber: 1000,
+    hash: '0xabc',
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    reward: 2.05,
+    difficulty: 1000000,
+    uncle: false,
+    status: 'immature',
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, fee_percentage, payout_method) VALUES (?, ?, ?, ?, ?)`,
+      ['pool-1', 'Pool One', 'http://127.0.0.1:1', 1.0, 'PPLNS']
+    );
+
+    collector = new BlockCollectorService(dbService);
+  });
+
+  afterAll(async () => {
+    await dbService.close();
+  });
+
+  it('inserts new blocks once and ignores an unchanged feed', async () => {
+    const first = await collector.ingestBlocks('pool-1', [block(), block({ blockNumber: 1001, hash: '0xdef', uncle: true })]);
+    const second = await collector.ingestBlocks('pool-1', [block(), block({ blockNumber: 1001, hash: '0xdef', uncle: true })]);
+
+    expect(first.inserted).toHaveLength(2);
+    expect(second.inserted).toHaveLength(0);
+    expect(second.updated).toHaveLength(0);
+
+    const rows = await dbService.query('SELECT block_number, uncle, status FROM blocks ORDER BY block_number');
+    expect(rows).toEqual([
+      { block_number: 1000, uncle: 0, status: 'immature' },
+      { block_number: 1001, uncle: 1, status: 'immature' }
+    ]);
+  });
+
+  it('tracks maturity and orphaning as the feed changes', async () => {
+    const result = await collector.ingestBlocks('pool-1', [
+      block({ status: 'confirmed' }),
+      block({ blockNumber: 1001, hash: '0xdef', uncle: true, status: 'orphaned' })
+    ]);
+
+    expect(result.updated.map(updated => updated.status)).toEqual(['confirmed', 'orphaned']);
+
+    const matured = await dbService.queryOne('SELECT status, matured_at FROM blocks WHERE block_number = 1000');
+    expect(matured.status).toBe('confirmed');
+    expect(matured.matured_at).not.toBeNull();
+  });
+
+  it('does not move a confirmed block back to immature', async () => {
+    const result = await collector.ingestBlocks('pool-1', [block({ status: 'immature' })]);
+
+    expect(result.updated).toHaveLength(0);
+  });
+
+  it('keeps an orphaned block orphaned unless the chain check finds it canonical', async () => {
+    const fromFeed = await collector.ingestBlocks('pool-1', [block({ blockNumber: 1001, hash: '0xdef', uncle: true, status: 'confirmed' })]);
+    expect(fromFeed.updated).toHaveLength(0);
+
+    await collector.ingestBlocks('pool-1', [block({ blockNumber: 1100, hash: '0x1100', status: 'orphaned' })]);
+    const verified = await collector.ingestBlocks('pool-1', [block({ blockNumber: 1100, hash: '0x1100', status: 'immature', onChain: true })]);
+    expect(verified.updated.map(updated => updated.status)).toEqual(['immature']);
+  });
+
+  it('orphans blocks the chain replaced and fills missing difficulty from the node', async () => {
+    const requested: number[][] = [];
+    const provider = {
+      getBlocksByNumber: async (numbers: number[]) => {
+        requested.push(numbers);
+        return numbers.map(number => number === 2001 ? null : {
+          number: `0x${number.toString(16)}`,
+          hash: number === 2000 ? '0xCANONICAL' : '0xreorged',
+          timestamp: '0x0',
+          difficulty: '0x2540be400'
+        });
+      }
+    } as unknown as EthereumProvider;
+    const verifying = new BlockCollectorService(dbService, undefined, undefined, { ETC: provider });
+
+    const verified = await verifying.verifyAgainstChain('ETC', [
+      block({ blockNumber: 2000, hash: '0xcanonical', difficulty: 0 }),
+      block({ blockNumber: 2001, hash: '0xnotyetseen' }),
+      block({ blockNumber: 2002, hash: '0xlost' }),
+      block({ blockNumber: 2003, hash: '0xuncle', uncle: true })
+    ]);
+
+    expect(requested).toEqual([[2000, 2001, 2002]]);
+    expect(await verifying.verifyAgainstChain('ETH', [block({ blockNumber: 2002, hash: '0xlost' })])).toMatchObject([{ status: 'immature' }]);
+    expect(verified.map(entry => entry.onChain)).toEqual([true, undefined, undefined, undefined]);
+    expect(verified.map(entry => [entry.blockNumber, entry.status, entry.difficulty])).toEqual([
+      [2000, 'immature', 10000000000],
+      [2001, 'immature', 1000000],
+      [2002, 'orphaned', 1000000],
+      [2003, 'immature', 1000000]
+    ]);
+  });
+
+  it('only announces blocks that were found recently', async () => {
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, adapter_type, fee_percentage, payout_method) VALUES (?, ?, ?, ?, ?, ?)`,
+      ['pool-feed', 'Feed Pool', 'http://127.0.0.1:1', 'feed', 1.0, 'PPLNS']
+    );
+    const adapter: PoolAdapter = {
+      type: 'feed',
+      fetchPoolStats: async () => ({ hashrate: 0, minersCount: 0 }),
+      fetchBlocks: async () => [
+        block({ blockNumber: 3000, hash: '0xold', timestamp: new Date(Date.now() - 3 * 24 * 3600 * 1000) }),
+        block({ blockNumber: 3001, hash: '0xnew', timestamp: new Date(Date.now() - 60 * 1000) })
+      ]
+    };
+    const announced: any[] = [];
+    const websocketService = { broadcastNewBlock: (data: any) => announced.push(data) } as unknown as WebSocketService;
+    const feedCollector = new BlockCollectorService(dbService, new PoolAdapterRegistry().register(adapter), websocketService, {});
+
+    const [result] = await feedCollector.collectAllBlocks();
+
+    // Both are stored on the first sync, but only the fresh one is news
+    expect(result!.inserted.map(inserted => inserted.blockNumber)).toEqual([3000, 3001]);
+    expect(announced.map(message => message.block_number)).toEqual([3001]);
+  });
+});
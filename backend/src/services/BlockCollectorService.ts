@@ -0,0 +1,269 @@
+import { DatabaseService } from './DatabaseService';
+import { WebSocketService } from './WebSocketService';
+import { CoinProviders, createDefaultRpcProviders, hexToNumber } from './JsonRpcProvider';
+import { PoolAdapterRegistry, createDefaultPoolAdapterRegistry } from './adapters';
+import { Block, Coin, PoolBlock, PoolRow } from '../types';
+import { toSqlTimestamp } from '../utils/dates';
+import { DEFAULT_COIN } from '../utils/coins';
+
+// Only blocks found this recently are announced as new (WebSocket and NEW_BLOCK alerts). Older ones
+// show up when a pool is synced for the first time or its feed lags, and are history rather than news.
+export const NEW_BLOCK_MAX_AGE_MINUTES = 15;
+
+export const isRecentBlock = (timestamp: Date, now: Date = new Date()): boolean =>
+  now.getTime() - timestamp.getTime() <= NEW_BLOCK_MAX_AGE_MINUTES * 60 * 1000;
+
+export interface BlockIngestResult {
+  poolId: string;
+  inserted: Block[];
+  updated: Block[];
+  error?: string;
+}
+
+export class BlockCollectorService {
+  private dbService: DatabaseService;
+  private adapterRegistry: PoolAdapterRegistry;
+  private websocketService?: WebSocketService;
+  private rpcProviders: CoinProviders;
+  private updateInterval?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+
+  constructor(
+    dbService: DatabaseService,
+    adapterRegistry: PoolAdapterRegistry = createDefaultPoolAdapterRegistry(),
+    websocketService?: WebSocketService,
+    rpcProviders: CoinProviders = createDefaultRpcProviders()
+  ) {
+    this.dbService = dbService;
+    this.adapterRegistry = adapterRegistry;
+    this.websocketService = websocketService;
+    this.rpcProviders = rpcProviders;
+  }
+
+  public startBlockCollection(): void {
+    if (this.isRunning) {
+      console.log('⚠️  Block collection already running');
+      return;
+    }
+
+    this.isRunning = true;
+    const interval = parseInt(process.env.BLOCK_UPDATE_INTERVAL || '60000');
+
+    console.log(`⛏️  Starting block collection (interval: ${interval}ms)`);
+
+    // Initial block fetch
+    this.collectAllBlocks();
+
+    // Set up recurring block fetch
+    this.updateInterval = setInterval(() => {
+      this.collectAllBlocks();
+    }, interval);
+  }
+
+  public stopBlockCollection(): void {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = undefined;
+    }
+    this.isRunning = false;
+    console.log('⛏️  Block collection stopped');
+  }
+
+  public async collectAllBlocks(): Promise<BlockIngestResult[]> {
+    try {
+      const pools = await this.dbService.query<PoolRow>(
+        'SELECT * FROM pools WHERE status = ?',
+        ['active']
+      );
+
+      const results: BlockIngestResult[] = [];
+      for (const pool of pools) {
+        const adapter = this.adapterRegistry.forPool(pool);
+        if (!adapter || !adapter.fetchBlocks) {
+          continue;
+        }
+
+        try {
+          const blocks = await this.verifyAgainstChain(pool.coin, await adapter.fetchBlocks(pool));
+          const result = await this.ingestBlocks(pool.id, blocks, pool.coin);
+          this.publishBlocks(pool, result);
+          results.push(result);
+        } catch (error: any) {
+          console.error(`❌ Failed to fetch blocks for ${pool.name}:`, error?.message || error);
+          results.push({ poolId: pool.id, inserted: [], updated: [], error: error?.message || String(error) });
+        }
+      }
+
+      const inserted = results.reduce((sum, result) => sum + result.inserted.length, 0);
+      if (inserted > 0) {
+        console.log(`⛏️  Ingested ${inserted} new blocks`);
+      }
+      return results;
+    } catch (error) {
+      console.error('❌ Failed to collect blocks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Upsert a pool's block feed. Re-ingesting the same feed is a no-op; a block
+   * is only rewritten when its status, uncle flag, reward or hash changed.
+   */
+  public async ingestBlocks(poolId: string, blocks: PoolBlock[], coin: Coin = DEFAULT_COIN): Promise<BlockIngestResult> {
+    const result: BlockIngestResult = { poolId, inserted: [], updated: [] };
+
+    for (const block of blocks) {
+      if (!block.hash || !Number.isFinite(block.blockNumber)) {
+        continue;
+      }
+
+      const existing = await this.dbService.queryOne(
+        'SELECT * FROM blocks WHERE pool_id = ? AND block_number = ?',
+        [poolId, block.blockNumber]
+      );
+
+      if (!existing) {
+        const id = this.generateId();
+        await this.dbService.execute(`
+          INSERT INTO blocks (
+            id, pool_id, coin, block_number, timestamp, reward, miner_count,
+            difficulty, hash, uncle, status, matured_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          id,
+          poolId,
+          coin,
+          block.blockNumber,
+          toSqlTimestamp(block.timestamp),
+          block.reward,
+          0,
+          block.difficulty,
+          block.hash,
+          block.uncle ? 1 : 0,
+          block.status,
+          block.status === 'confirmed' ? toSqlTimestamp(new Date()) : null
+        ]);
+
+        result.inserted.push(this.toBlock(id, poolId, coin, block));
+        continue;
+      }
+
+      const row = existing as any;
+      const changed = row.status !== block.status
+        || Boolean(row.uncle) !== block.uncle
+        || row.hash !== block.hash
+        || Math.abs(row.reward - block.reward) > 1e-9;
+
+      if (!changed) {
+        continue;
+      }
+
+      // Never move a block backwards out of a final state: a confirmed block can
+      // still be orphaned, but an orphaned one only comes back when the node says
+      // its hash is canonical (a pool feed, or an unreachable node, can't undo it)
+      if (row.status === 'confirmed' && block.status !== 'orphaned' && block.status !== 'confirmed') {
+        continue;
+      }
+      if (row.status === 'orphaned' && block.status !== 'orphaned' && !block.onChain) {
+        continue;
+      }
+
+      const maturedAt = block.status === 'confirmed' && !row.matured_at
+        ? toSqlTimestamp(new Date())
+        : row.matured_at;
+
+      await this.dbService.execute(`
+        UPDATE blocks
+        SET hash = ?, reward = ?, difficulty = ?, uncle = ?, status = ?,
+            matured_at = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [block.hash, block.reward, block.difficulty, block.uncle ? 1 : 0, block.status, maturedAt, row.id]);
+
+      result.updated.push(this.toBlock(row.id, poolId, coin, block));
+    }
+
+    return result;
+  }
+
+  /**
+   * Check a pool's feed against its coin's node in one batch: a block whose
+   * number now holds a different hash lost a reorg and is orphaned, and a
+   * missing difficulty is taken from the chain; blocks the node holds are marked
+   * onChain. Uncles are never canonical, so they pass through, as does everything
+   * when no node is configured or reachable.
+   */
+  public async verifyAgainstChain(coin: Coin, blocks: PoolBlock[]): Promise<PoolBlock[]> {
+    const provider = this.rpcProviders[coin];
+    const candidates = blocks.filter(block => !block.uncle && block.status !== 'orphaned' && block.hash);
+    if (!provider || candidates.length === 0) {
+      return blocks;
+    }
+
+    let canonical: Map<number, { hash: string; difficulty: string } | null>;
+    try {
+      const chainBlocks = await provider.getBlocksByNumber(candidates.map(block => block.blockNumber));
+      canonical = new Map(candidates.map((block, index) => [block.blockNumber, chainBlocks[index] ?? null]));
+    } catch (error: any) {
+      console.error('⚠️  Could not verify blocks against the chain:', error?.message || error);
+      return blocks;
+    }
+
+    return blocks.map(block => {
+      const onChain = block.uncle ? null : canonical.get(block.blockNumber);
+      if (!onChain) {
+        return block;  // uncle, already orphaned, or not yet seen by the node
+      }
+      if (onChain.hash.toLowerCase() !== block.hash.toLowerCase()) {
+        return { ...block, status: 'orphaned' };
+      }
+      return {
+        ...block,
+        onChain: true,
+        difficulty: block.difficulty > 0 ? block.difficulty : hexToNumber(onChain.difficulty)
+      };
+    });
+  }
+
+  private publishBlocks(pool: PoolRow, result: BlockIngestResult): void {
+    if (!this.websocketService) return;
+
+    const toMessage = (block: Block) => ({
+      pool_id: pool.id,
+      pool_name: pool.name,
+      coin: block.coin,
+      block_number: block.blockNumber,
+      timestamp: block.timestamp.toISOString(),
+      reward: block.reward,
+      uncle: block.uncle,
+      status: block.status
+    });
+
+    result.inserted
+      .filter(block => block.status !== 'orphaned' && isRecentBlock(block.timestamp))
+      .forEach(block => this.websocketService!.broadcastNewBlock(toMessage(block)));
+  }
+
+  private toBlock(id: string, poolId: string, coin: Coin, block: PoolBlock): Block {
+    return {
+      id,
+      poolId,
+      coin,
+      blockNumber: block.blockNumber,
+      timestamp: block.timestamp,
+      reward: block.reward,
+      minerCount: 0,
+      difficulty: block.difficulty,
+      hash: block.hash,
+      uncle: block.uncle,
+      status: block.status
+    };
+  }
+
+  private generateId(): string {
+    if (process.env.DATABASE_TYPE === 'sqlite') {
+      return require('crypto').randomBytes(16).toString('hex');
+    } else {
+      return require('crypto').randomUUID();
+    }
+  }
+}
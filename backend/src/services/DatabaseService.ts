@@ -226,6 +226,7 @@ export class DatabaseService {
             id: this.generateId(),
             name: 'Ethermine',
             api_url: 'https://api.ethermine.org',
+            adapter_type: 'ethermine',
             fee_percentage: 1.0,
             payout_method: 'PPLNS',
             minimum_payout: 0.01
@@ -234,6 +235,7 @@ export class DatabaseService {
             id: this.generateId(),
             name: 'F2Pool',
             api_url: 'https://api.f2pool.com',
+            adapter_type: 'f2pool',
             fee_percentage: 2.5,
             payout_method: 'PPS',
             minimum_payout: 0.005
@@ -242,6 +244,7 @@ export class DatabaseService {
             id: this.generateId(),
             name: 'Flexpool',
             api_url: 'https://flexpool.io/api/v2',
+            adapter_type: 'flexpool',
             fee_percentage: 1.0,
             payout_method: 'PPLNS',
             minimum_payout: 0.01
@@ -250,6 +253,7 @@ export class DatabaseService {
             id: this.generateId(),
             name: '2miners',
             api_url: 'https://eth.2miners.com/api',
+            adapter_type: '2miners',
             fee_percentage: 1.0,
             payout_method: 'PPLNS',
             minimum_payout: 0.01
@@ -258,9 +262,9 @@ export class DatabaseService {
 
         for (const pool of pools) {
           await this.execute(
-            `INSERT INTO pools (id, name, api_url, fee_percentage, payout_method, minimum_payout) 
-             VALUES (?, ?, ?, ?, ?, ?)`,
-            [pool.id, pool.name, pool.api_url, pool.fee_percentage, pool.payout_method, pool.minimum_payout]
+            `INSERT INTO pools (id, name, api_url, adapter_type, fee_percentage, payout_method, minimum_payout) 
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [pool.id, pool.name, pool.api_url, pool.adapter_type, pool.fee_percentage, pool.payout_method, pool.minimum_payout]
           );
 
           // Add sample statistics for each pool
@@ -0,0 +1,126 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { EmailConfig } from '../types';
+import { RenderedEmail } from './emailTemplates';
+
+export interface EmailDeliveryResult {
+  success: boolean;
+  attempts: number;
+  messageId?: string;
+  error?: string;
+}
+
+export interface EmailRetryOptions {
+  maxAttempts: number;
+  initialDelayMs: number;
+}
+
+// Connection-level failures worth another attempt; anything else is treated as permanent
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNECTION', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'EAI_AGAIN'
+]);
+
+export class EmailService {
+  private config: EmailConfig;
+  private retry: EmailRetryOptions;
+  private transporter: Transporter;
+
+  constructor(config?: EmailConfig, retry?: Partial<EmailRetryOptions>) {
+    this.config = config || this.loadConfig();
+    this.retry = {
+      maxAttempts: parseInt(process.env.EMAIL_MAX_ATTEMPTS || '3'),
+      initialDelayMs: parseInt(process.env.EMAIL_RETRY_DELAY || '1000'),
+      ...retry
+    };
+    this.transporter = this.createTransporter();
+  }
+
+  private loadConfig(): EmailConfig {
+    return {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: {
+        user: process.env.SMTP_USER || '',
+        pass: process.env.SMTP_PASS || ''
+      },
+      from: process.env.SMTP_FROM || 'noreply@mining-dashboard.com'
+    };
+  }
+
+  private createTransporter(): Transporter {
+    // EMAIL_TRANSPORT=json renders messages without connecting anywhere (local development)
+    if (process.env.EMAIL_TRANSPORT === 'json') {
+      return nodemailer.createTransport({ jsonTransport: true });
+    }
+
+    return nodemailer.createTransport({
+      host: this.config.host,
+      port: this.config.port,
+      secure: this.config.secure,
+      auth: this.config.auth.user ? this.config.auth : undefined,
+      connectionTimeout: 10000,
+      greetingTimeout: 10000,
+      socketTimeout: 20000
+    });
+  }
+
+  /**
+   * Deliver a rendered email, retrying transient failures (connection errors and
+   * SMTP 4xx replies) with exponential backoff. Never throws.
+   */
+  public async send(to: string, email: RenderedEmail): Promise<EmailDeliveryResult> {
+    let lastError = 'Unknown error';
+
+    for (let attempt = 1; attempt <= this.retry.maxAttempts; attempt++) {
+      try {
+        const info = await this.transporter.sendMail({
+          from: this.config.from,
+          to,
+          subject: email.subject,
+          text: email.text,
+          html: email.html,
+          headers: email.headers
+        });
+
+        if (process.env.EMAIL_TRANSPORT === 'json') {
+          console.log(`📧 [JSON EMAIL] To: ${to} - ${email.subject}`);
+        }
+
+        return { success: true, attempts: attempt, messageId: info.messageId };
+      } catch (error: any) {
+        lastError = error?.response || error?.message || String(error);
+
+        if (!this.isTransient(error) || attempt === this.retry.maxAttempts) {
+          console.error(`❌ Email to ${to} failed after ${attempt} attempt(s): ${lastError}`);
+          return { success: false, attempts: attempt, error: lastError };
+        }
+
+        const delay = this.retry.initialDelayMs * 2 ** (attempt - 1);
+        console.warn(`⚠️  Email to ${to} failed (attempt ${attempt}), retrying in ${delay}ms: ${lastError}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    return { success: false, attempts: this.retry.maxAttempts, error: lastError };
+  }
+
+  private isTransient(error: any): boolean {
+    if (typeof error?.responseCode === 'number') {
+      return error.responseCode >= 400 && error.responseCode < 500;
+    }
+    return TRANSIENT_ERROR_CODES.has(error?.code);
+  }
+
+  public async verify(): Promise<boolean> {
+    try {
+      await this.transporter.verify();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  public close(): void {
+    this.transporter.close();
+  }
+}
@@ -1,9 +1,21 @@
 import axios from 'axios';
 import * as dotenv from 'dotenv';
+import { Coin, PoolRow } from '../types';
+import { PoolAdapterRegistry, createDefaultPoolAdapterRegistry } from './adapters';
+import { EthereumProvider, createDefaultRpcProvider, hexToNumber } from './JsonRpcProvider';
+import { COIN_DEFINITIONS } from '../utils/coins';
 
 // Load environment variables
 dotenv.config();
 
+// No real price for the coin: the price API failed and none was ever fetched before
+export class PriceUnavailableError extends Error {
+  constructor(public readonly coin: Coin, public readonly currency: string, cause: unknown) {
+    super(`${coin} price in ${currency.toUpperCase()} is unavailable: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'PriceUnavailableError';
+  }
+}
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -18,7 +30,7 @@ interface MiningPoolData {
   status: string;
   hashrate: number;
   miners_count: number;
-  luck_7d: number;
+  luck_7d: number | null;
   minimum_payout: number;
 }
 
@@ -36,24 +48,28 @@ interface DashboardStats {
 
 export class ExternalAPIService {
   private cache: Map<string, CacheEntry<any>> = new Map();
+  private adapterRegistry: PoolAdapterRegistry;
+  private rpcProvider?: EthereumProvider;
   private readonly CACHE_TTL = parseInt(process.env.CACHE_TTL || '30000'); // 30 seconds
 
   private readonly API_KEYS = {
-    etherscan: process.env.ETHERSCAN_API_KEY,
     coingecko: process.env.COINGECKO_API_KEY,
     infura: process.env.INFURA_PROJECT_ID,
     alchemy: process.env.ALCHEMY_API_KEY
   };
 
   private readonly API_URLS = {
-    ethermine: 'https://api.ethermine.org',
-    f2pool: 'https://api.f2pool.com',
-    flexpool: 'https://flexpool.io/api/v2',
-    twominers: 'https://eth.2miners.com/api',
-    etherscan: 'https://api.etherscan.io/api',
     coingecko: 'https://api.coingecko.com/api/v3'
   };
 
+  constructor(
+    adapterRegistry: PoolAdapterRegistry = createDefaultPoolAdapterRegistry(),
+    rpcProvider: EthereumProvider | undefined = createDefaultRpcProvider()
+  ) {
+    this.adapterRegistry = adapterRegistry;
+    this.rpcProvider = rpcProvider;
+  }
+
   /**
    * Generic cache management
    */
@@ -65,6 +81,11 @@ export class ExternalAPIService {
     return null;
   }
 
+  // Last value stored under the key however old it is, for when the live source is down
+  private getStaleData<T>(key: string): T | null {
+    return this.cache.get(key)?.data ?? null;
+  }
+
   private setCachedData<T>(key: string, data: T, ttl: number = this.CACHE_TTL): void {
     this.cache.set(key, {
       data,
@@ -74,277 +95,184 @@ export class ExternalAPIService {
   }
 
   /**
-   * Fetch ETH price from CoinGecko
+   * Fetch ETH price from CoinGecko in the given fiat currency (default USD)
+   */
+  async getEthPrice(currency: string = 'usd'): Promise<number> {
+    return this.getCoinPrice('ETH', currency);
+  }
+
+  /**
+   * Fetch a coin's price from CoinGecko in the given fiat currency (default USD).
+   * When CoinGecko fails the last price fetched is used, however old; without
+   * one a PriceUnavailableError is thrown rather than guessing a price.
    */
-  async getEthPrice(): Promise<number> {
-    const cacheKey = 'eth_price';
+  async getCoinPrice(coin: Coin, currency: string = 'usd'): Promise<number> {
+    const vsCurrency = currency.toLowerCase();
+    const prefix = `${coin.toLowerCase()}_price`;
+    const cacheKey = vsCurrency === 'usd' ? prefix : `${prefix}:${vsCurrency}`;
     const cached = this.getCachedData<number>(cacheKey);
     if (cached) return cached;
 
+    const { coingeckoId } = COIN_DEFINITIONS[coin];
     try {
       const response = await axios.get(
-        `${this.API_URLS.coingecko}/simple/price?ids=ethereum&vs_currencies=usd`,
+        `${this.API_URLS.coingecko}/simple/price?ids=${coingeckoId}&vs_currencies=${encodeURIComponent(vsCurrency)}`,
         {
           headers: this.API_KEYS.coingecko ? { 'X-CG-Pro-API-Key': this.API_KEYS.coingecko } : {},
           timeout: 10000
         }
       );
       
-      const price = response.data.ethereum.usd;
+      const price = response.data[coingeckoId]?.[vsCurrency];
+      if (typeof price !== 'number') {
+        throw new Error(`No ${coin} price returned for ${vsCurrency}`);
+      }
       this.setCachedData(cacheKey, price);
       return price;
     } catch (error) {
-      console.error('Error fetching ETH price:', error);
-      return this.getCachedData(cacheKey) || 2500; // fallback price
+      console.error(`Error fetching ${coin} price:`, error);
+      const lastKnown = this.getStaleData<number>(cacheKey);
+      if (lastKnown) return lastKnown;
+      throw new PriceUnavailableError(coin, vsCurrency, error);
     }
   }
 
   /**
-   * Fetch network stats from Etherscan
+   * Fetch the latest difficulty and gas price (in Gwei) from the configured JSON-RPC node
    */
   async getNetworkStats(): Promise<{ difficulty: number; gasPrice: number }> {
     const cacheKey = 'network_stats';
     const cached = this.getCachedData<{ difficulty: number; gasPrice: number }>(cacheKey);
     if (cached) return cached;
 
+    if (!this.rpcProvider) {
+      return { difficulty: 0, gasPrice: 0 };
+    }
+
     try {
-      const [difficultyResponse, gasPriceResponse] = await Promise.all([
-        axios.get(`${this.API_URLS.etherscan}?module=stats&action=ethsupply&apikey=${this.API_KEYS.etherscan}`),
-        axios.get(`${this.API_URLS.etherscan}?module=gastracker&action=gasoracle&apikey=${this.API_KEYS.etherscan}`)
+      const [latestBlock, gasPrice] = await Promise.all([
+        this.rpcProvider.getBlockByNumber('latest'),
+        this.rpcProvider.getGasPrice()
       ]);
 
       const networkStats = {
-        difficulty: 15500000000000000, // ETH moved to PoS, using static value
-        gasPrice: parseInt(gasPriceResponse.data.result.ProposeGasPrice) || 20
+        difficulty: hexToNumber(latestBlock?.difficulty),
+        gasPrice: Math.round(gasPrice / 1e9)
       };
 
       this.setCachedData(cacheKey, networkStats);
       return networkStats;
     } catch (error) {
       console.error('Error fetching network stats:', error);
-      return this.getCachedData(cacheKey) || { difficulty: 15500000000000000, gasPrice: 20 };
-    }
-  }
-
-  /**
-   * Fetch Ethermine pool data
-   */
-  async getEthermineData(): Promise<Partial<MiningPoolData>> {
-    const cacheKey = 'ethermine_data';
-    const cached = this.getCachedData<Partial<MiningPoolData>>(cacheKey);
-    if (cached) return cached;
-
-    try {
-      const response = await axios.get(`${this.API_URLS.ethermine}/poolStats`, {
-        timeout: 10000
-      });
-      
-      const data = response.data.data;
-      const poolData: Partial<MiningPoolData> = {
-        id: 'ethermine-001',
-        name: 'Ethermine',
-        hashrate: data.poolHashRate || 750000000000000,
-        miners_count: data.minersTotal || 85000,
-        fee_percentage: 1.0,
-        payout_method: 'PPLNS',
-        status: 'active',
-        minimum_payout: 0.01
-      };
-
-      this.setCachedData(cacheKey, poolData);
-      return poolData;
-    } catch (error) {
-      console.error('Error fetching Ethermine data:', error);
-      return this.getFallbackPoolData('ethermine-001', 'Ethermine');
+      return this.getCachedData(cacheKey) || { difficulty: 0, gasPrice: 0 };
     }
   }
 
   /**
-   * Fetch F2Pool data
+   * Fetch a single pool's data through its registered adapter
    */
-  async getF2PoolData(): Promise<Partial<MiningPoolData>> {
-    const cacheKey = 'f2pool_data';
-    const cached = this.getCachedData<Partial<MiningPoolData>>(cacheKey);
+  async getPoolData(pool: PoolRow): Promise<MiningPoolData | null> {
+    const cacheKey = `pool_data:${pool.id}`;
+    const cached = this.getCachedData<MiningPoolData>(cacheKey);
     if (cached) return cached;
 
-    try {
-      // F2Pool API structure may vary, implementing basic structure
-      const poolData: Partial<MiningPoolData> = {
-        id: 'f2pool-002',
-        name: 'F2Pool',
-        hashrate: 320000000000000,
-        miners_count: 35000,
-        fee_percentage: 2.5,
-        payout_method: 'PPS',
-        status: 'active',
-        minimum_payout: 0.005
-      };
-
-      this.setCachedData(cacheKey, poolData);
-      return poolData;
-    } catch (error) {
-      console.error('Error fetching F2Pool data:', error);
-      return this.getFallbackPoolData('f2pool-002', 'F2Pool');
+    const adapter = this.adapterRegistry.forPool(pool);
+    if (!adapter) {
+      return null;
     }
-  }
-
-  /**
-   * Fetch Flexpool data
-   */
-  async getFlexpoolData(): Promise<Partial<MiningPoolData>> {
-    const cacheKey = 'flexpool_data';
-    const cached = this.getCachedData<Partial<MiningPoolData>>(cacheKey);
-    if (cached) return cached;
 
     try {
-      const response = await axios.get(`${this.API_URLS.flexpool}/pool/hashrate`, {
-        timeout: 10000
-      });
-      
-      const hashrate = response.data.result.total;
-      const poolData: Partial<MiningPoolData> = {
-        id: 'flexpool-003',
-        name: 'Flexpool',
-        hashrate: hashrate || 180000000000000,
-        miners_count: 22000,
-        fee_percentage: 1.0,
-        payout_method: 'PPLNS',
-        status: 'active',
-        minimum_payout: 0.01
+      const snapshot = await adapter.fetchPoolStats(pool);
+      const poolData: MiningPoolData = {
+        id: pool.id,
+        name: pool.name,
+        fee_percentage: pool.fee_percentage,
+        payout_method: pool.payout_method,
+        status: pool.status,
+        minimum_payout: pool.minimum_payout,
+        hashrate: snapshot.hashrate,
+        miners_count: snapshot.minersCount,
+        luck_7d: snapshot.luck7d ?? null
       };
 
       this.setCachedData(cacheKey, poolData);
       return poolData;
     } catch (error) {
-      console.error('Error fetching Flexpool data:', error);
-      return this.getFallbackPoolData('flexpool-003', 'Flexpool');
+      console.error(`Error fetching ${pool.name} data via ${adapter.type} adapter:`, error);
+      return null;
     }
   }
 
   /**
-   * Fetch 2miners data
+   * Get recent blocks from each pool's found-blocks feed
    */
-  async get2MinersData(): Promise<Partial<MiningPoolData>> {
-    const cacheKey = '2miners_data';
-    const cached = this.getCachedData<Partial<MiningPoolData>>(cacheKey);
-    if (cached) return cached;
-
-    try {
-      const response = await axios.get(`${this.API_URLS.twominers}/stats`, {
-        timeout: 10000
-      });
-      
-      const data = response.data;
-      const poolData: Partial<MiningPoolData> = {
-        id: '2miners-004',
-        name: '2miners',
-        hashrate: data.hashrate || 95000000000000,
-        miners_count: data.minersTotal || 12000,
-        fee_percentage: 1.0,
-        payout_method: 'PPLNS',
-        status: 'active',
-        minimum_payout: 0.01
-      };
-
-      this.setCachedData(cacheKey, poolData);
-      return poolData;
-    } catch (error) {
-      console.error('Error fetching 2miners data:', error);
-      return this.getFallbackPoolData('2miners-004', '2miners');
-    }
-  }
-
-  /**
-   * Get recent blocks from Etherscan
-   */
-  async getRecentBlocks(): Promise<any[]> {
+  async getRecentBlocks(pools: PoolRow[], limit: number = 10): Promise<any[]> {
     const cacheKey = 'recent_blocks';
     const cached = this.getCachedData<any[]>(cacheKey);
     if (cached) return cached;
 
-    try {
-      const response = await axios.get(
-        `${this.API_URLS.etherscan}?module=proxy&action=eth_getBlockByNumber&tag=latest&boolean=true&apikey=${this.API_KEYS.etherscan}`
-      );
-      
-      const block = response.data.result;
-      const recentBlocks = [
-        {
-          pool_id: 'ethermine-001',
-          block_number: parseInt(block.number, 16),
-          timestamp: new Date(parseInt(block.timestamp, 16) * 1000),
-          reward: 2.08,
-          pool_name: 'Ethermine'
-        }
-      ];
-
-      this.setCachedData(cacheKey, recentBlocks);
-      return recentBlocks;
-    } catch (error) {
-      console.error('Error fetching recent blocks:', error);
-      return this.getCachedData(cacheKey) || [];
-    }
+    const feeds = await Promise.all(pools.map(async pool => {
+      const adapter = this.adapterRegistry.forPool(pool);
+      if (!adapter || !adapter.fetchBlocks) return [];
+
+      try {
+        const blocks = await adapter.fetchBlocks(pool);
+        return blocks
+          .filter(block => block.status !== 'orphaned')
+          .map(block => ({
+            pool_id: pool.id,
+            pool_name: pool.name,
+            block_number: block.blockNumber,
+            timestamp: block.timestamp,
+            reward: block.reward,
+            uncle: block.uncle,
+            status: block.status
+          }));
+      } catch (error) {
+        console.error(`Error fetching recent blocks for ${pool.name}:`, error);
+        return [];
+      }
+    }));
+
+    const recentBlocks = feeds
+      .flat()
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, limit);
+
+    this.setCachedData(cacheKey, recentBlocks);
+    return recentBlocks;
   }
 
   /**
    * Get all mining pools data
    */
-  async getAllPoolsData(): Promise<MiningPoolData[]> {
-    const cacheKey = 'all_pools_data';
-    const cached = this.getCachedData<MiningPoolData[]>(cacheKey);
-    if (cached) return cached;
-
-    try {
-      const [ethermine, f2pool, flexpool, twominers] = await Promise.all([
-        this.getEthermineData(),
-        this.getF2PoolData(),
-        this.getFlexpoolData(),
-        this.get2MinersData()
-      ]);
-
-      const pools: MiningPoolData[] = [
-        { ...this.getDefaultPoolData('ethermine-001', 'Ethermine'), ...ethermine },
-        { ...this.getDefaultPoolData('f2pool-002', 'F2Pool'), ...f2pool },
-        { ...this.getDefaultPoolData('flexpool-003', 'Flexpool'), ...flexpool },
-        { ...this.getDefaultPoolData('2miners-004', '2miners'), ...twominers }
-      ];
-
-      // Add luck calculations (mock for now as APIs don't always provide this)
-      pools.forEach(pool => {
-        if (!pool.luck_7d) {
-          pool.luck_7d = 95 + Math.random() * 10; // Random between 95-105%
-        }
-      });
-
-      this.setCachedData(cacheKey, pools, this.CACHE_TTL);
-      return pools;
-    } catch (error) {
-      console.error('Error fetching all pools data:', error);
-      return this.getCachedData(cacheKey) || this.getFallbackAllPools();
-    }
+  async getAllPoolsData(pools: PoolRow[]): Promise<MiningPoolData[]> {
+    // Each pool is cached individually in getPoolData
+    const results = await Promise.all(pools.map(pool => this.getPoolData(pool)));
+    return results.filter((pool): pool is MiningPoolData => pool !== null);
   }
 
   /**
    * Get dashboard statistics
    */
-  async getDashboardStats(): Promise<DashboardStats> {
+  async getDashboardStats(pools: PoolRow[]): Promise<DashboardStats> {
     const cacheKey = 'dashboard_stats';
     const cached = this.getCachedData<DashboardStats>(cacheKey);
     if (cached) return cached;
 
     try {
-      const [pools, ethPrice, networkStats, recentBlocks] = await Promise.all([
-        this.getAllPoolsData(),
+      const [poolsData, ethPrice, networkStats, recentBlocks] = await Promise.all([
+        this.getAllPoolsData(pools),
         this.getEthPrice(),
         this.getNetworkStats(),
-        this.getRecentBlocks()
+        this.getRecentBlocks(pools)
       ]);
 
       const stats: DashboardStats = {
-        total_hashrate: pools.reduce((sum, pool) => sum + pool.hashrate, 0),
-        total_miners: pools.reduce((sum, pool) => sum + pool.miners_count, 0),
-        active_pools: pools.length,
-        blocks_found_24h: recentBlocks.length,
+        total_hashrate: poolsData.reduce((sum, pool) => sum + pool.hashrate, 0),
+        total_miners: poolsData.reduce((sum, pool) => sum + pool.miners_count, 0),
+        active_pools: poolsData.length,
+        blocks_found_24h: recentBlocks.filter(block => Date.now() - block.timestamp.getTime() < 24 * 60 * 60 * 1000).length,
         recent_blocks: recentBlocks,
         network_difficulty: networkStats.difficulty,
         eth_price: ethPrice,
@@ -363,59 +291,16 @@ export class ExternalAPIService {
   /**
    * Fallback data methods
    */
-  private getFallbackPoolData(id: string, name: string): Partial<MiningPoolData> {
-    const fallbackData = {
-      'ethermine-001': { hashrate: 750000000000000, miners_count: 85000, fee_percentage: 1.0 },
-      'f2pool-002': { hashrate: 320000000000000, miners_count: 35000, fee_percentage: 2.5 },
-      'flexpool-003': { hashrate: 180000000000000, miners_count: 22000, fee_percentage: 1.0 },
-      '2miners-004': { hashrate: 95000000000000, miners_count: 12000, fee_percentage: 1.0 }
-    };
-
-    return {
-      id,
-      name,
-      ...fallbackData[id],
-      payout_method: 'PPLNS',
-      status: 'active',
-      minimum_payout: 0.01,
-      luck_7d: 98.5
-    };
-  }
-
-  private getDefaultPoolData(id: string, name: string): MiningPoolData {
-    return {
-      id,
-      name,
-      fee_percentage: 1.0,
-      payout_method: 'PPLNS',
-      status: 'active',
-      hashrate: 100000000000000,
-      miners_count: 10000,
-      luck_7d: 98.5,
-      minimum_payout: 0.01
-    };
-  }
-
-  private getFallbackAllPools(): MiningPoolData[] {
-    return [
-      { ...this.getDefaultPoolData('ethermine-001', 'Ethermine'), hashrate: 750000000000000, miners_count: 85000 },
-      { ...this.getDefaultPoolData('f2pool-002', 'F2Pool'), hashrate: 320000000000000, miners_count: 35000, fee_percentage: 2.5 },
-      { ...this.getDefaultPoolData('flexpool-003', 'Flexpool'), hashrate: 180000000000000, miners_count: 22000 },
-      { ...this.getDefaultPoolData('2miners-004', '2miners'), hashrate: 95000000000000, miners_count: 12000 }
-    ];
-  }
-
   private getFallbackDashboardStats(): DashboardStats {
-    const pools = this.getFallbackAllPools();
     return {
-      total_hashrate: pools.reduce((sum, pool) => sum + pool.hashrate, 0),
-      total_miners: pools.reduce((sum, pool) => sum + pool.miners_count, 0),
-      active_pools: pools.length,
-      blocks_found_24h: 3,
+      total_hashrate: 0,
+      total_miners: 0,
+      active_pools: 0,
+      blocks_found_24h: 0,
       recent_blocks: [],
-      network_difficulty: 15500000000000000,
+      network_difficulty: 0,
       eth_price: 2500,
-      gas_price: 20,
+      gas_price: 0,
       last_updated: new Date().toISOString()
     };
   }
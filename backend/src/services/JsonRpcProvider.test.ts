@@ -0,0 +1,104 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { JsonRpcError, JsonRpcProvider } from './JsonRpcProvider';
+
+type Handler = (body: any) => { status: number; body: unknown };
+
+// A node stub whose behaviour each test swaps out; it records what it received
+const startNode = async (handler: { current: Handler }, received: any[]) => {
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      received.push(body);
+      const reply = handler.current(body);
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+};
+
+const answer = ({ id, method, params }: any) => {
+  switch (method) {
+    case 'eth_blockNumber': return { jsonrpc: '2.0', id, result: '0x10' };
+    case 'eth_gasPrice': return { jsonrpc: '2.0', id, result: '0x3b9aca00' };
+    case 'net_peerCount': return { jsonrpc: '2.0', id, result: '0x19' };
+    case 'eth_getBlockByNumber': return { jsonrpc: '2.0', id, result: { number: params[0], hash: `0xhash${params[0]}`, timestamp: '0x0', difficulty: '0x1' } };
+    default: return { jsonrpc: '2.0', id, error: { code: -32601, message: `Method ${method} not found` } };
+  }
+};
+
+const healthy: Handler = body => ({ status: 200, body: Array.isArray(body) ? body.map(answer).reverse() : answer(body) });
+const broken: Handler = () => ({ status: 503, body: { message: 'unavailable' } });
+
+describe('JsonRpcProvider', () => {
+  const primaryHandler = { current: healthy };
+  const backupHandler = { current: healthy };
+  const primaryReceived: any[] = [];
+  const backupReceived: any[] = [];
+  let primary: { server: http.Server; url: string };
+  let backup: { server: http.Server; url: string };
+
+  beforeAll(async () => {
+    primary = await startNode(primaryHandler, primaryReceived);
+    backup = await startNode(backupHandler, backupReceived);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => primary.server.close(resolve));
+    await new Promise(resolve => backup.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    primaryHandler.current = healthy;
+    backupHandler.current = healthy;
+    primaryReceived.length = 0;
+    backupReceived.length = 0;
+  });
+
+  it('decodes the standard calls and sends batches in chunks, matching replies by id', async () => {
+    const provider = new JsonRpcProvider([primary.url], { batchSize: 2 });
+
+    expect(await provider.getBlockNumber()).toBe(16);
+    expect(await provider.getGasPrice()).toBe(1e9);
+    expect(await provider.getPeerCount()).toBe(25);
+
+    primaryReceived.length = 0;
+    const blocks = await provider.getBlocksByNumber([100, 101, 'latest']);
+    expect(blocks.map(block => block!.hash)).toEqual(['0xhash0x64', '0xhash0x65', '0xhashlatest']);
+    expect(primaryReceived.map(body => body.length)).toEqual([2, 1]);
+
+    const [gasPrice, unknown] = await provider.batch([{ method: 'eth_gasPrice' }, { method: 'debug_nothing' }]);
+    expect(gasPrice).toBe('0x3b9aca00');
+    expect(unknown).toBeInstanceOf(JsonRpcError);
+  });
+
+  it('fails over to the next endpoint and skips the failed one until it is due a retry', async () => {
+    primaryHandler.current = broken;
+    const provider = new JsonRpcProvider([primary.url, backup.url], { retryAfter: 60000 });
+
+    expect(await provider.getBlockNumber()).toBe(16);
+    expect(await provider.getGasPrice()).toBe(1e9);
+    expect(primaryReceived).toHaveLength(1);
+    expect(backupReceived).toHaveLength(2);
+
+    // A node without batch support answers a batch with one error object
+    primaryHandler.current = healthy;
+    backupHandler.current = () => ({ status: 200, body: { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'batch not supported' } } });
+    const retrying = new JsonRpcProvider([backup.url, primary.url]);
+    expect((await retrying.getBlocksByNumber([1]))[0]!.hash).toBe('0xhash0x1');
+  });
+
+  it('returns node errors without failing over and reports when every endpoint is down', async () => {
+    const provider = new JsonRpcProvider([primary.url, backup.url]);
+    await expect(provider.call('debug_nothing')).rejects.toThrow('debug_nothing failed (-32601)');
+    expect(backupReceived).toHaveLength(0);
+
+    primaryHandler.current = broken;
+    backupHandler.current = broken;
+    await expect(provider.getBlockNumber()).rejects.toThrow('All JSON-RPC endpoints failed');
+  });
+});
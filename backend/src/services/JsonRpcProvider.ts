@@ -0,0 +1,223 @@
+import axios from 'axios';
+import { Coin } from '../types';
+import { COINS } from '../utils/coins';
+
+// Error object a node returns in place of a result
+export class JsonRpcError extends Error {
+  constructor(public readonly method: string, public readonly code: number, message: string) {
+    super(`${method} failed (${code}): ${message}`);
+    this.name = 'JsonRpcError';
+  }
+}
+
+export interface RpcRequest {
+  method: string;
+  params?: unknown[];
+}
+
+// Subset of the eth_getBlockByNumber result the collectors read
+export interface RpcBlock {
+  number: string;
+  hash: string;
+  timestamp: string;
+  difficulty: string;
+  miner?: string;
+}
+
+export type BlockTag = number | 'latest' | 'pending' | 'earliest';
+
+/**
+ * Read access to an Ethereum-compatible chain. Collectors depend on this
+ * rather than on a particular node or explorer API.
+ */
+export interface EthereumProvider {
+  call<T>(method: string, params?: unknown[]): Promise<T>;
+  // Results in request order; a request the node rejected yields its JsonRpcError
+  batch(requests: RpcRequest[]): Promise<unknown[]>;
+  getBlockNumber(): Promise<number>;
+  getBlockByNumber(block: BlockTag): Promise<RpcBlock | null>;
+  getBlocksByNumber(blocks: BlockTag[]): Promise<(RpcBlock | null)[]>;
+  getGasPrice(): Promise<number>;
+  getPeerCount(): Promise<number>;
+}
+
+export interface JsonRpcProviderOptions {
+  timeout?: number;      // per HTTP request, ms
+  batchSize?: number;    // most calls sent in one HTTP request
+  retryAfter?: number;   // ms a failed endpoint is skipped before being tried again
+}
+
+interface Endpoint {
+  url: string;
+  downUntil: number;
+}
+
+/**
+ * JSON-RPC 2.0 over HTTP against one or more node URLs. Requests go to the
+ * first healthy endpoint; when it can't be reached or answers with something
+ * other than JSON-RPC, it is benched for `retryAfter` and the next one is
+ * tried. An error the node returns for a method is the answer, not a failure.
+ */
+export class JsonRpcProvider implements EthereumProvider {
+  private readonly endpoints: Endpoint[];
+  private readonly timeout: number;
+  private readonly batchSize: number;
+  private readonly retryAfter: number;
+  private nextId = 1;
+
+  constructor(urls: string[], options: JsonRpcProviderOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('At least one JSON-RPC endpoint is required');
+    }
+
+    this.endpoints = urls.map(url => ({ url, downUntil: 0 }));
+    this.timeout = options.timeout ?? parseInt(process.env.ETH_RPC_TIMEOUT || '10000');
+    this.batchSize = Math.max(options.batchSize ?? parseInt(process.env.ETH_RPC_BATCH_SIZE || '50'), 1);
+    this.retryAfter = options.retryAfter ?? parseInt(process.env.ETH_RPC_RETRY_AFTER || '30000');
+  }
+
+  get urls(): string[] {
+    return this.endpoints.map(endpoint => endpoint.url);
+  }
+
+  async call<T>(method: string, params: unknown[] = []): Promise<T> {
+    const id = this.nextId++;
+    const body = await this.send({ jsonrpc: '2.0', id, method, params }, response => {
+      return typeof response === 'object' && response !== null && !Array.isArray(response)
+        && ('result' in response || 'error' in response);
+    });
+
+    if (body.error) {
+      throw new JsonRpcError(method, body.error.code ?? 0, body.error.message ?? 'Unknown error');
+    }
+    return body.result as T;
+  }
+
+  async batch(requests: RpcRequest[]): Promise<unknown[]> {
+    const results: unknown[] = [];
+
+    for (let start = 0; start < requests.length; start += this.batchSize) {
+      const chunk = requests.slice(start, start + this.batchSize);
+      const payload = chunk.map(request => ({
+        jsonrpc: '2.0',
+        id: this.nextId++,
+        method: request.method,
+        params: request.params ?? []
+      }));
+
+      // Nodes without batch support answer with a single error object
+      const body: any[] = await this.send(payload, response => Array.isArray(response));
+      const byId = new Map(body.map(entry => [entry?.id, entry]));
+
+      payload.forEach(({ id, method }) => {
+        const entry = byId.get(id);
+        if (!entry) {
+          results.push(new JsonRpcError(method, 0, 'Missing from batch response'));
+        } else if (entry.error) {
+          results.push(new JsonRpcError(method, entry.error.code ?? 0, entry.error.message ?? 'Unknown error'));
+        } else {
+          results.push(entry.result);
+        }
+      });
+    }
+
+    return results;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return hexToNumber(await this.call<string>('eth_blockNumber'));
+  }
+
+  async getBlockByNumber(block: BlockTag): Promise<RpcBlock | null> {
+    return this.call<RpcBlock | null>('eth_getBlockByNumber', [toBlockParam(block), false]);
+  }
+
+  async getBlocksByNumber(blocks: BlockTag[]): Promise<(RpcBlock | null)[]> {
+    const results = await this.batch(blocks.map(block => ({
+      method: 'eth_getBlockByNumber',
+      params: [toBlockParam(block), false]
+    })));
+    return results.map(result => unwrap<RpcBlock | null>(result));
+  }
+
+  async getGasPrice(): Promise<number> {
+    return hexToNumber(await this.call<string>('eth_gasPrice'));
+  }
+
+  async getPeerCount(): Promise<number> {
+    return hexToNumber(await this.call<string>('net_peerCount'));
+  }
+
+  // POST to each endpoint in turn, healthy ones first, until one gives a valid answer
+  private async send(payload: unknown, isValid: (body: any) => boolean): Promise<any> {
+    const now = Date.now();
+    const ordered = [
+      ...this.endpoints.filter(endpoint => endpoint.downUntil <= now),
+      ...this.endpoints.filter(endpoint => endpoint.downUntil > now)
+    ];
+    const failures: string[] = [];
+
+    for (const endpoint of ordered) {
+      try {
+        const response = await axios.post(endpoint.url, payload, {
+          timeout: this.timeout,
+          headers: { 'Content-Type': 'application/json' }
+        });
+        if (!isValid(response.data)) {
+          throw new Error('Unexpected JSON-RPC response');
+        }
+
+        endpoint.downUntil = 0;
+        return response.data;
+      } catch (error: any) {
+        endpoint.downUntil = Date.now() + this.retryAfter;
+        failures.push(`${endpoint.url}: ${error?.message || error}`);
+      }
+    }
+
+    throw new Error(`All JSON-RPC endpoints failed (${failures.join('; ')})`);
+  }
+}
+
+/**
+ * Provider for a coin's node URLs: <COIN>_RPC_URLS (comma-separated, in
+ * failover order) or <COIN>_RPC_URL, e.g. ETC_RPC_URL. Undefined when unset.
+ */
+export const createDefaultRpcProvider = (coin: Coin = 'ETH'): JsonRpcProvider | undefined => {
+  const urls = (process.env[`${coin}_RPC_URLS`] || process.env[`${coin}_RPC_URL`] || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+
+  return urls.length > 0 ? new JsonRpcProvider(urls) : undefined;
+};
+
+// One provider per coin that has a node configured
+export type CoinProviders = Partial<Record<Coin, EthereumProvider>>;
+
+export const createDefaultRpcProviders = (): CoinProviders => {
+  const providers: CoinProviders = {};
+  for (const coin of COINS) {
+    const provider = createDefaultRpcProvider(coin);
+    if (provider) providers[coin] = provider;
+  }
+  return providers;
+};
+
+// Turn one entry of a batch result back into a value or a thrown error
+export const unwrap = <T>(result: unknown): T => {
+  if (result instanceof JsonRpcError) throw result;
+  return result as T;
+};
+
+// Quantities come back as 0x-prefixed hex strings
+export const hexToNumber = (value: string | null | undefined): number => {
+  if (typeof value !== 'string' || !/^0x[0-9a-f]+$/i.test(value)) {
+    return 0;
+  }
+  return Number(BigInt(value));
+};
+
+export const numberToHex = (value: number): string => `0x${Math.max(Math.floor(value), 0).toString(16)}`;
+
+const toBlockParam = (block: BlockTag): string => typeof block === 'number' ? numberToHex(block) : block;
@@ -0,0 +1,120 @@
+import { DatabaseService } from './DatabaseService';
+import { RollupService } from './RollupService';
+import { LuckService } from './LuckService';
+import { toSqlTimestamp } from '../utils/dates';
+import { estimateLuck, parseLuckWindows, poissonInterval } from '../utils/luck';
+
+// One expected block per hour: hashrate / difficulty = 1 / 3600 blocks per second
+const HASHRATE = 1e12;
+const DIFFICULTY = 3.6e15;
+
+describe('LuckService', () => {
+  let dbService: DatabaseService;
+  let luckService: LuckService;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, adapter_type, fee_percentage, payout_method) VALUES (?, ?, ?, ?, ?, ?)`,
+      ['pool-1', 'Test Pool', 'http://127.0.0.1/unused', 'ethermine', 1.0, 'PPLNS']
+    );
+
+    // Hourly rollups for the last 30 days, with a day missing 10 days ago
+    const hour = Math.floor(Date.now() / 3600000) * 3600000;
+    const rows: string[] = [];
+    for (let i = 0; i <= 30 * 24; i++) {
+      if (i >= 240 && i < 264) continue;
+      rows.push(`('pool-1', '1h', '${toSqlTimestamp(new Date(hour - i * 3600000))}', 60, ${HASHRATE}, ${HASHRATE}, ${HASHRATE}, ${DIFFICULTY}, ${DIFFICULTY}, ${DIFFICULTY})`);
+    }
+    await dbService.execute(`
+      INSERT INTO pool_statistics_rollup
+        (pool_id, resolution, bucket_start, sample_count, hashrate_min, hashrate_avg, hashrate_max, difficulty_min, difficulty_avg, difficulty_max)
+      VALUES ${rows.join(', ')}
+    `);
+
+    // 30 blocks 48 minutes apart in the last day, plus an uncle that must not count
+    for (let i = 0; i < 30; i++) {
+      await dbService.execute(
+        `INSERT INTO blocks (pool_id, block_number, timestamp, reward, difficulty, hash) VALUES (?, ?, ?, ?, ?, ?)`,
+        ['pool-1', 2000 - i, toSqlTimestamp(new Date(Date.now() - (i * 48 + 1) * 60000)), 2, DIFFICULTY, `0x${String(i).padStart(64, '0')}`]
+      );
+    }
+    await dbService.execute(
+      `INSERT INTO blocks (pool_id, block_number, timestamp, reward, difficulty, hash, uncle) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      ['pool-1', 1000, toSqlTimestamp(new Date(Date.now() - 30 * 60000)), 1.75, DIFFICULTY, `0x${'f'.repeat(64)}`, 1]
+    );
+
+    // Only hourly rollups are kept past the last hour, so every window reads them
+    const rollupService = new RollupService(dbService, { raw: 3600, resolutions: { '1m': 3600, '1h': 0, '1d': 0 } });
+    luckService = new LuckService(dbService, rollupService);
+  });
+
+  afterAll(async () => {
+    await dbService.close();
+  });
+
+  it('computes luck with confidence intervals over each window from blocks and hashrate history', async () => {
+    const luck = await luckService.getPoolLuck('pool-1', parseLuckWindows('24h,7d,30d'), 5);
+    const [day, week, month] = luck.windows;
+
+    // 30 blocks against 24 expected
+    expect(day).toMatchObject({ window: '24h', blocks: 30, luck: 125 });
+    expect(day!.expected_blocks).toBeCloseTo(24, 1);
+    expect(day!.ci_low).toBeCloseTo(84.3, 0);
+    expect(day!.ci_high).toBeCloseTo(178.5, 0);
+
+    expect(week).toMatchObject({ window: '7d', blocks: 30 });
+    expect(week!.luck).toBeCloseTo(17.9, 0);
+
+    // The missing day is filled at the average rate rather than counted as idle
+    expect(month!.expected_blocks).toBeCloseTo(720, 0);
+    expect(month!.coverage).toBeCloseTo(0.97, 2);
+  });
+
+  it('reports the effort behind each block, newest first', async () => {
+    const luck = await luckService.getPoolLuck('pool-1', parseLuckWindows('24h'), 5);
+
+    expect(luck.efforts).toHaveLength(5);
+    expect(luck.efforts[0]!.block_number).toBe(2000);
+    expect(luck.efforts.every(block => Math.abs(block.effort - 80) < 0.5)).toBe(true);
+  });
+
+  it('fills readings without a difficulty from the pool\'s own chain', async () => {
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, adapter_type, coin, fee_percentage, payout_method) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      ['pool-etc', 'Classic Pool', 'http://127.0.0.1/unused', 'ethermine', 'ETC', 1.0, 'PPLNS']
+    );
+    const hour = Math.floor(Date.now() / 3600000) * 3600000;
+    const rows: string[] = [];
+    for (let i = 0; i <= 24; i++) {
+      rows.push(`('pool-etc', '1h', '${toSqlTimestamp(new Date(hour - i * 3600000))}', 60, ${HASHRATE}, ${HASHRATE}, ${HASHRATE})`);
+    }
+    await dbService.execute(`
+      INSERT INTO pool_statistics_rollup (pool_id, resolution, bucket_start, sample_count, hashrate_min, hashrate_avg, hashrate_max)
+      VALUES ${rows.join(', ')}
+    `);
+    // The newest reading is another chain's and must not be used
+    await dbService.execute(
+      `INSERT INTO network_stats (coin, timestamp, total_hashrate, difficulty, block_time) VALUES (?, ?, ?, ?, ?), (?, ?, ?, ?, ?)`,
+      ['ETC', toSqlTimestamp(new Date(Date.now() - 60000)), 1, DIFFICULTY, 13, 'ETH', toSqlTimestamp(new Date()), 1, DIFFICULTY * 10, 13]
+    );
+
+    const luck = await luckService.getPoolLuck('pool-etc', parseLuckWindows('24h'), 0);
+
+    expect(luck.windows[0]!.expected_blocks).toBeCloseTo(24, 0);
+  });
+
+  it('bounds small block counts and rejects invalid windows', () => {
+    expect(poissonInterval(0).low).toBe(0);
+    expect(poissonInterval(0).high).toBeCloseTo(3.69, 1);
+    expect(estimateLuck(3, 0)).toEqual({ luck: null, ci_low: null, ci_high: null });
+
+    expect(() => parseLuckWindows('7d,forever')).toThrow('Invalid window forever');
+    expect(() => parseLuckWindows('400d')).toThrow('Invalid window 400d');
+    expect(parseLuckWindows(undefined).map(window => window.label)).toEqual(['24h', '7d', '30d']);
+  });
+});
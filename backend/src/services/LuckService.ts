@@ -0,0 +1,153 @@
+import { DatabaseService } from './DatabaseService';
+import { RollupService } from './RollupService';
+import { BlockEffort, Coin, LuckWindow, PoolLuck } from '../types';
+import { fromSqlTimestamp, toSqlTimestamp } from '../utils/dates';
+import { LuckWindowSpec, WorkTimeline, estimateLuck } from '../utils/luck';
+import { MAX_SERIES_POINTS } from '../utils/timeseries';
+
+// Per-block efforts returned when the caller doesn't ask for a number
+export const DEFAULT_EFFORT_COUNT = 20;
+
+interface FoundBlock {
+  pool_id: string;
+  block_number: number;
+  timestamp: Date;
+}
+
+/**
+ * Computes luck from the blocks table and the pool's hashrate history instead
+ * of trusting the figure pools report. Expected blocks are the hashes a pool
+ * did (hashrate over time, from the rollups) divided by the network
+ * difficulty at the time; uncles are not counted as found blocks, orphaned
+ * blocks are, since the pool did find them.
+ */
+export class LuckService {
+  private dbService: DatabaseService;
+  private rollupService: RollupService;
+
+  constructor(dbService: DatabaseService, rollupService: RollupService) {
+    this.dbService = dbService;
+    this.rollupService = rollupService;
+  }
+
+  /**
+   * Luck over each window plus the effort of the most recent blocks
+   */
+  public async getPoolLuck(
+    poolId: string,
+    windows: LuckWindowSpec[],
+    effortCount: number = DEFAULT_EFFORT_COUNT,
+    to: Date = new Date()
+  ): Promise<PoolLuck> {
+    const from = this.windowStart(windows, to);
+    const timelines = await this.loadTimelines([poolId], from, to);
+    const blocks = await this.loadBlocks([poolId], from, to);
+    const timeline = timelines.get(poolId)!;
+
+    return {
+      pool_id: poolId,
+      windows: windows.map(window => this.computeWindow(window, timeline, blocks, to)),
+      efforts: this.computeEfforts(timeline, blocks).slice(0, effortCount)
+    };
+  }
+
+  /**
+   * The same windows for several pools at once, for the pool list and comparison
+   */
+  public async getLuckWindows(poolIds: string[], windows: LuckWindowSpec[], to: Date = new Date()): Promise<Map<string, LuckWindow[]>> {
+    const result = new Map<string, LuckWindow[]>();
+    if (poolIds.length === 0) return result;
+
+    const from = this.windowStart(windows, to);
+    const timelines = await this.loadTimelines(poolIds, from, to);
+    const blocks = await this.loadBlocks(poolIds, from, to);
+
+    for (const poolId of poolIds) {
+      const poolBlocks = blocks.filter(block => block.pool_id === poolId);
+      result.set(poolId, windows.map(window => this.computeWindow(window, timelines.get(poolId)!, poolBlocks, to)));
+    }
+    return result;
+  }
+
+  private computeWindow(window: LuckWindowSpec, timeline: WorkTimeline, blocks: FoundBlock[], to: Date): LuckWindow {
+    const from = new Date(to.getTime() - window.seconds * 1000);
+    const found = blocks.filter(block => block.timestamp > from && block.timestamp <= to).length;
+    const expected = timeline.hasData ? timeline.expectedBlocks(from, to) : 0;
+
+    return {
+      window: window.label,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      blocks: found,
+      expected_blocks: Math.round(expected * 1000) / 1000,
+      ...estimateLuck(found, expected),
+      coverage: Math.round(timeline.coverage * 100) / 100
+    };
+  }
+
+  // Work between consecutive blocks over the difficulty; the oldest block has no predecessor in range
+  private computeEfforts(timeline: WorkTimeline, blocks: FoundBlock[]): BlockEffort[] {
+    if (!timeline.hasData) return [];
+
+    const efforts: BlockEffort[] = [];
+    for (let index = 1; index < blocks.length; index++) {
+      const previous = blocks[index - 1]!;
+      const block = blocks[index]!;
+      efforts.push({
+        block_number: block.block_number,
+        timestamp: block.timestamp.toISOString(),
+        effort: Math.round(timeline.expectedBlocks(previous.timestamp, block.timestamp) * 1000) / 10
+      });
+    }
+    return efforts.reverse();
+  }
+
+  private windowStart(windows: LuckWindowSpec[], to: Date): Date {
+    const longest = Math.max(...windows.map(window => window.seconds));
+    return new Date(to.getTime() - longest * 1000);
+  }
+
+  // Hashrate and difficulty per step from the rollups, one timeline per pool
+  private async loadTimelines(poolIds: string[], from: Date, to: Date): Promise<Map<string, WorkTimeline>> {
+    const { step, series } = await this.rollupService.getPoolSeries(poolIds, {
+      from,
+      to,
+      maxPoints: MAX_SERIES_POINTS,
+      metrics: ['hashrate', 'difficulty'],
+      aggregations: ['avg']
+    });
+
+    // Steps without a pool reading fall back to the latest difficulty of the pool's own chain
+    const pools = await this.dbService.query<{ id: string; coin: Coin }>(
+      `SELECT id, coin FROM pools WHERE id IN (${poolIds.map(() => '?').join(',')})`,
+      poolIds
+    );
+    const coinOf = new Map(pools.map(pool => [pool.id, pool.coin]));
+    const fallbackDifficulty = new Map<Coin, number>();
+    for (const coin of new Set(pools.map(pool => pool.coin))) {
+      const network = await this.dbService.queryOne<{ difficulty: number }>(
+        'SELECT difficulty FROM network_stats WHERE coin = ? AND difficulty > 0 ORDER BY timestamp DESC LIMIT 1',
+        [coin]
+      );
+      fallbackDifficulty.set(coin, network?.difficulty || 0);
+    }
+
+    return new Map(series.map(({ pool_id, points }) => {
+      const coin = coinOf.get(pool_id);
+      return [pool_id, new WorkTimeline(points as any[], step, coin ? fallbackDifficulty.get(coin) || 0 : 0)];
+    }));
+  }
+
+  private async loadBlocks(poolIds: string[], from: Date, to: Date): Promise<FoundBlock[]> {
+    const rows = await this.dbService.query<{ pool_id: string; block_number: number; timestamp: string | Date }>(`
+      SELECT pool_id, block_number, timestamp
+      FROM blocks
+      WHERE pool_id IN (${poolIds.map(() => '?').join(',')})
+        AND uncle = ?
+        AND timestamp > ? AND timestamp <= ?
+      ORDER BY timestamp ASC
+    `, [...poolIds, 0, toSqlTimestamp(from), toSqlTimestamp(to)]);
+
+    return rows.map(row => ({ ...row, timestamp: fromSqlTimestamp(row.timestamp) }));
+  }
+}
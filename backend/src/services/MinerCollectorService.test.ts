@@ -0,0 +1,155 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AlertType } from '../types';
+import { DatabaseService } from './DatabaseService';
+import { MinerCollectorService } from './MinerCollectorService';
+import { AlertService } from './AlertService';
+import { EmailService } from './EmailService';
+
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+
+describe('MinerCollectorService', () => {
+  let stub: http.Server;
+  let stubUrl: string;
+  let dbService: DatabaseService;
+  let collector: MinerCollectorService;
+  let workers: object[];
+
+  beforeAll(async () => {
+    // Local stand-in for Ethermine's per-miner endpoint
+    stub = http.createServer((req, res) => {
+      if (req.url === `/ethermine/miner/${ADDRESS}/currentStats`) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          status: 'OK',
+          data: {
+            time: 1700000000,
+            lastSeen: 1700000000,
+            reportedHashrate: 512000000,
+            currentHashrate: 498000000,
+            validShares: 470,
+            invalidShares: 2,
+            staleShares: 28,
+            activeWorkers: 4,
+            unpaid: 52000000000000000
+          }
+        }));
+        return;
+      }
+      if (req.url === `/ethermine/miner/${ADDRESS}/workers`) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'OK', data: workers }));
+        return;
+      }
+      res.writeHead(404);
+      res.end('not found');
+    });
+    await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+    stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, adapter_type, fee_percentage, payout_method)
+       VALUES (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?)`,
+      [
+        'eth-pool', 'Ethermine', `${stubUrl}/ethermine`, 'ethermine', 1.0, 'PPLNS',
+        'f2-pool', 'F2Pool', `${stubUrl}/f2pool`, 'f2pool', 2.5, 'PPS+'
+      ]
+    );
+    await dbService.execute(
+      `INSERT INTO miners (id, address, pool_id) VALUES (?, ?, ?), (?, ?, ?)`,
+      ['miner-eth', ADDRESS, 'eth-pool', 'miner-f2', ADDRESS, 'f2-pool']
+    );
+
+    workers = [
+      { worker: 'rig-1', time: 1700000000, lastSeen: 1699999900, reportedHashrate: 256000000, currentHashrate: 250000000, validShares: 240, invalidShares: 1, staleShares: 9 },
+      { worker: 'rig-2', time: 1700000000, lastSeen: 1699999950, reportedHashrate: 256000000, currentHashrate: 248000000, validShares: 230, invalidShares: 1, staleShares: 19 }
+    ];
+    collector = new MinerCollectorService(dbService);
+  });
+
+  afterAll(async () => {
+    await dbService.close();
+    await new Promise(resolve => stub.close(resolve));
+  });
+
+  it('stores per-address readings and records pools without a miner endpoint', async () => {
+    const results = await collector.collectAllMiners();
+
+    expect(results.map(result => [result.poolId, result.success])).toEqual([
+      ['eth-pool', true],
+      ['f2-pool', false]
+    ]);
+
+    const stats = await dbService.query('SELECT * FROM miner_statistics');
+    expect(stats).toHaveLength(1);
+    expect(stats[0]).toMatchObject({
+      miner_id: 'miner-eth',
+      reported_hashrate: 512000000,
+      current_hashrate: 498000000,
+      valid_shares: 470,
+      invalid_shares: 2,
+      stale_shares: 28,
+      active_workers: 4,
+      unpaid: 0.052
+    });
+
+    const miners = await dbService.query<any>('SELECT id, last_fetch_at, last_fetch_error FROM miners ORDER BY id');
+    expect(miners[0].last_fetch_error).toBeNull();
+    expect(miners[0].last_fetch_at).not.toBeNull();
+    expect(miners[1].last_fetch_error).toBe('F2Pool does not expose per-address statistics');
+  });
+
+  it('persists worker status history and flips workers that stop reporting', async () => {
+    let rows = await dbService.query<any>('SELECT name, is_online FROM workers ORDER BY name');
+    expect(rows).toEqual([{ name: 'rig-1', is_online: 1 }, { name: 'rig-2', is_online: 1 }]);
+
+    // rig-1 stops submitting shares, rig-2 disappears from the pool's list
+    workers = [{ ...workers[0], lastSeen: 1699998000 }];
+    await collector.collectAllMiners();
+
+    rows = await dbService.query<any>('SELECT name, is_online FROM workers ORDER BY name');
+    expect(rows).toEqual([{ name: 'rig-1', is_online: 0 }, { name: 'rig-2', is_online: 0 }]);
+
+    const history = await dbService.query<any>(`
+      SELECT w.name, ws.is_online
+      FROM worker_statistics ws
+      INNER JOIN workers w ON ws.worker_id = w.id
+      ORDER BY w.name, ws.timestamp, ws.is_online DESC
+    `);
+    expect(history).toEqual([
+      { name: 'rig-1', is_online: 1 },
+      { name: 'rig-1', is_online: 0 },
+      { name: 'rig-2', is_online: 1 }
+    ]);
+  });
+
+  it('fires worker offline and rejected share alerts for the subscribed address', async () => {
+    const emailService = new EmailService({ host: '127.0.0.1', port: 25, secure: false, auth: { user: '', pass: '' }, from: 'alerts@test' });
+    jest.spyOn(emailService, 'send').mockResolvedValue({ success: true, attempts: 1 });
+    const alertService = new AlertService(dbService, undefined, emailService);
+
+    // Backdate the status flip past the 10 minute threshold
+    await dbService.execute("UPDATE workers SET status_changed_at = datetime('now', '-15 minutes') WHERE name = 'rig-1'");
+    await dbService.execute(
+      `INSERT INTO alert_subscriptions (id, email, miner_address, alert_type, threshold, is_active)
+       VALUES (?, ?, ?, ?, ?, 1), (?, ?, ?, ?, ?, 1)`,
+      [
+        'sub-offline', 'rig@example.com', ADDRESS, AlertType.WORKER_OFFLINE, 10,
+        'sub-shares', 'rig@example.com', ADDRESS, AlertType.REJECTED_SHARE_RATIO, 5
+      ]
+    );
+
+    await alertService.processAlerts();
+
+    const history = await dbService.query<any>('SELECT subscription_id, message, trigger_value FROM alert_history ORDER BY subscription_id');
+    expect(history).toEqual([
+      { subscription_id: 'sub-offline', message: 'Worker rig-1 (Ethermine) has been offline for more than 10 minutes', trigger_value: 1 },
+      { subscription_id: 'sub-shares', message: 'Stale/invalid shares on Ethermine at 6.00% of submitted shares', trigger_value: 6 }
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import { DatabaseService } from './DatabaseService';
+import { PoolAdapterRegistry, createDefaultPoolAdapterRegistry } from './adapters';
+import { MinerRow, MinerSnapshot, PoolRow, WorkerRow, WorkerSnapshot } from '../types';
+
+export interface MinerFetchResult {
+  minerId: string;
+  address: string;
+  poolId: string;
+  success: boolean;
+  snapshot?: MinerSnapshot;
+  workers?: WorkerSnapshot[];
+  error?: string;
+}
+
+export class MinerCollectorService {
+  private dbService: DatabaseService;
+  private adapterRegistry: PoolAdapterRegistry;
+  private updateInterval?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+
+  constructor(
+    dbService: DatabaseService,
+    adapterRegistry: PoolAdapterRegistry = createDefaultPoolAdapterRegistry()
+  ) {
+    this.dbService = dbService;
+    this.adapterRegistry = adapterRegistry;
+  }
+
+  public startMinerCollection(): void {
+    if (this.isRunning) {
+      console.log('⚠️  Miner collection already running');
+      return;
+    }
+
+    this.isRunning = true;
+    const interval = parseInt(process.env.MINER_UPDATE_INTERVAL || '120000');
+
+    console.log(`👷 Starting miner collection (interval: ${interval}ms)`);
+
+    // Initial miner fetch
+    this.collectAllMiners();
+
+    // Set up recurring miner fetch
+    this.updateInterval = setInterval(() => {
+      this.collectAllMiners();
+    }, interval);
+  }
+
+  public stopMinerCollection(): void {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = undefined;
+    }
+    this.isRunning = false;
+    console.log('👷 Miner collection stopped');
+  }
+
+  public async collectAllMiners(): Promise<MinerFetchResult[]> {
+    try {
+      const pools = await this.dbService.query<PoolRow>(
+        'SELECT * FROM pools WHERE status = ?',
+        ['active']
+      );
+      const poolsById = new Map(pools.map(pool => [pool.id, pool]));
+      const miners = await this.dbService.query<MinerRow>('SELECT * FROM miners ORDER BY created_at');
+
+      const results: MinerFetchResult[] = [];
+      for (const miner of miners) {
+        const pool = poolsById.get(miner.pool_id);
+        if (!pool) {
+          continue;
+        }
+        results.push(await this.collectMiner(miner, pool));
+      }
+
+      if (results.length > 0) {
+        const succeeded = results.filter(result => result.success).length;
+        console.log(`👷 Updated ${succeeded}/${results.length} tracked miners`);
+      }
+      return results;
+    } catch (error) {
+      console.error('❌ Failed to collect miner data:', error);
+      return [];
+    }
+  }
+
+  private async collectMiner(miner: MinerRow, pool: PoolRow): Promise<MinerFetchResult> {
+    const result: MinerFetchResult = { minerId: miner.id, address: miner.address, poolId: pool.id, success: false };
+    const adapter = this.adapterRegistry.forPool(pool);
+
+    if (!adapter || !adapter.fetchMinerStats) {
+      const message = `${pool.name} does not expose per-address statistics`;
+      await this.recordFetch(miner.id, message);
+      return { ...result, error: message };
+    }
+
+    try {
+      const snapshot = await adapter.fetchMinerStats(pool, miner.address);
+
+      await this.dbService.execute(`
+        INSERT INTO miner_statistics (
+          id, miner_id, timestamp, reported_hashrate, current_hashrate,
+          valid_shares, invalid_shares, stale_shares, active_workers, unpaid
+        ) VALUES (?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        this.generateId(),
+        miner.id,
+        snapshot.reportedHashrate === null ? null : Math.round(snapshot.reportedHashrate),
+        Math.round(snapshot.currentHashrate || 0),
+        snapshot.validShares || 0,
+        snapshot.invalidShares || 0,
+        snapshot.staleShares || 0,
+        snapshot.activeWorkers || 0,
+        snapshot.unpaid || 0
+      ]);
+
+      // Worker breakdown is best-effort; the address reading is already stored
+      let workers: WorkerSnapshot[] | undefined;
+      if (adapter.fetchWorkers) {
+        try {
+          workers = await adapter.fetchWorkers(pool, miner.address);
+          await this.storeWorkers(miner.id, workers);
+        } catch (error: any) {
+          console.error(`❌ Failed to update workers of ${miner.address} on ${pool.name}:`, error?.message || error);
+        }
+      }
+
+      await this.recordFetch(miner.id, null);
+      return { ...result, success: true, snapshot, workers };
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      console.error(`❌ Failed to update miner ${miner.address} on ${pool.name}:`, message);
+      await this.recordFetch(miner.id, message);
+      return { ...result, error: message };
+    }
+  }
+
+  /**
+   * Upsert every reported worker, append a status reading for each and mark
+   * workers that disappeared from the pool's list as offline.
+   */
+  private async storeWorkers(minerId: string, snapshots: WorkerSnapshot[]): Promise<void> {
+    const existing = await this.dbService.query<WorkerRow>('SELECT * FROM workers WHERE miner_id = ?', [minerId]);
+    const workersByName = new Map(existing.map(worker => [worker.name, worker]));
+    const seen = new Set<string>();
+
+    for (const snapshot of snapshots) {
+      seen.add(snapshot.name);
+      const lastSeen = snapshot.lastSeen ? snapshot.lastSeen.toISOString() : null;
+      let worker = workersByName.get(snapshot.name);
+
+      if (!worker) {
+        const workerId = this.generateId();
+        await this.dbService.execute(`
+          INSERT INTO workers (id, miner_id, name, is_online, last_seen_at, status_changed_at)
+          VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        `, [workerId, minerId, snapshot.name, snapshot.isOnline ? 1 : 0, lastSeen]);
+        worker = { id: workerId } as WorkerRow;
+      } else {
+        await this.updateWorkerStatus(worker, snapshot.isOnline, lastSeen);
+      }
+
+      await this.dbService.execute(`
+        INSERT INTO worker_statistics (
+          id, worker_id, timestamp, is_online, reported_hashrate, current_hashrate,
+          valid_shares, invalid_shares, stale_shares
+        ) VALUES (?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?, ?)
+      `, [
+        this.generateId(),
+        worker.id,
+        snapshot.isOnline ? 1 : 0,
+        snapshot.reportedHashrate === null ? null : Math.round(snapshot.reportedHashrate),
+        Math.round(snapshot.currentHashrate || 0),
+        snapshot.validShares || 0,
+        snapshot.invalidShares || 0,
+        snapshot.staleShares || 0
+      ]);
+    }
+
+    // Pools drop workers from the list after a while; treat that as offline
+    for (const worker of existing) {
+      if (!seen.has(worker.name)) {
+        await this.updateWorkerStatus(worker, false, worker.last_seen_at);
+      }
+    }
+  }
+
+  private async updateWorkerStatus(worker: WorkerRow, isOnline: boolean, lastSeen: string | null): Promise<void> {
+    const statusChanged = Boolean(worker.is_online) !== isOnline;
+
+    await this.dbService.execute(`
+      UPDATE workers
+      SET is_online = ?,
+          last_seen_at = COALESCE(?, last_seen_at),
+          status_changed_at = ${statusChanged ? 'CURRENT_TIMESTAMP' : 'status_changed_at'}
+      WHERE id = ?
+    `, [isOnline ? 1 : 0, lastSeen, worker.id]);
+  }
+
+  private async recordFetch(minerId: string, errorMessage: string | null): Promise<void> {
+    await this.dbService.execute(
+      'UPDATE miners SET last_fetch_at = CURRENT_TIMESTAMP, last_fetch_error = ? WHERE id = ?',
+      [errorMessage, minerId]
+    );
+  }
+
+  private generateId(): string {
+    if (process.env.DATABASE_TYPE === 'sqlite') {
+      return require('crypto').randomBytes(16).toString('hex');
+    } else {
+      return require('crypto').randomUUID();
+    }
+  }
+}
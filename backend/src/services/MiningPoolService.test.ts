@@ -0,0 +1,93 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DatabaseService } from './DatabaseService';
+import { MiningPoolService } from './MiningPoolService';
+
+describe('MiningPoolService', () => {
+  let stub: http.Server;
+  let stubUrl: string;
+  let dbService: DatabaseService;
+  let service: MiningPoolService;
+
+  beforeAll(async () => {
+    // Local stand-in for the pool APIs: /healthy behaves like 2miners, /broken fails
+    stub = http.createServer((req, res) => {
+      if (req.url === '/healthy/stats') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          hashrate: 123456789000,
+          minersTotal: 4321,
+          candidatesTotal: 0,
+          immatureTotal: 0,
+          maturedTotal: 0,
+          nodes: [],
+          stats: { lastBlockFound: 1700000000, luck: 97.5 }
+        }));
+        return;
+      }
+      res.writeHead(500);
+      res.end('upstream error');
+    });
+    await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+    stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, adapter_type, fee_percentage, payout_method)
+       VALUES (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?)`,
+      [
+        'healthy-pool', 'Healthy', `${stubUrl}/healthy`, '2miners', 1.0, 'PPLNS',
+        'broken-pool', 'Broken', `${stubUrl}/broken`, '2miners', 1.0, 'PPLNS',
+        'manual-pool', 'Manual', `${stubUrl}/manual`, null, 1.0, 'PPLNS'
+      ]
+    );
+
+    service = new MiningPoolService(dbService);
+  });
+
+  afterAll(async () => {
+    await dbService.close();
+    await new Promise(resolve => stub.close(resolve));
+  });
+
+  it('stores normalized adapter readings and logs per-pool fetch outcomes', async () => {
+    const results = await service.fetchAllPoolData();
+
+    expect(results).toHaveLength(2);
+
+    const healthy = results.find(result => result.poolId === 'healthy-pool');
+    expect(healthy?.success).toBe(true);
+    expect(healthy?.statistics).toMatchObject({
+      hashrate: 123456789000,
+      minersCount: 4321,
+      luck7d: 97.5
+    });
+
+    const broken = results.find(result => result.poolId === 'broken-pool');
+    expect(broken?.success).toBe(false);
+    expect(broken?.error).toContain('500');
+
+    const stats = await dbService.query('SELECT pool_id, hashrate, miners_count, luck_7d FROM pool_statistics');
+    expect(stats).toEqual([
+      { pool_id: 'healthy-pool', hashrate: 123456789000, miners_count: 4321, luck_7d: 97.5 }
+    ]);
+
+    const log = await dbService.query(
+      'SELECT pool_id, success, statistics_id, error_message FROM pool_fetch_log ORDER BY pool_id'
+    );
+    expect(log).toEqual([
+      expect.objectContaining({ pool_id: 'broken-pool', success: 0, statistics_id: null }),
+      expect.objectContaining({ pool_id: 'healthy-pool', success: 1, statistics_id: healthy?.statistics?.id, error_message: null })
+    ]);
+  });
+
+  it('reports failing pools in the health summary', async () => {
+    const health = await service.getPoolHealth();
+
+    expect(health.failingPools).toBe(1);
+  });
+});
@@ -1,12 +1,24 @@
 import { DatabaseService } from './DatabaseService';
+import { WebSocketService } from './WebSocketService';
+import { PoolAdapter, PoolAdapterRegistry, createDefaultPoolAdapterRegistry } from './adapters';
+import { PoolFetchResult, PoolRow, PoolSnapshot, PoolStatistics } from '../types';
+import { toSqlTimestamp } from '../utils/dates';
 
 export class MiningPoolService {
   private dbService: DatabaseService;
+  private adapterRegistry: PoolAdapterRegistry;
+  private websocketService?: WebSocketService;
   private updateInterval?: NodeJS.Timeout;
   private isRunning: boolean = false;
 
-  constructor(dbService: DatabaseService) {
+  constructor(
+    dbService: DatabaseService,
+    adapterRegistry: PoolAdapterRegistry = createDefaultPoolAdapterRegistry(),
+    websocketService?: WebSocketService
+  ) {
     this.dbService = dbService;
+    this.adapterRegistry = adapterRegistry;
+    this.websocketService = websocketService;
   }
 
   public startDataCollection(): void {
@@ -38,60 +50,199 @@ export class MiningPoolService {
     console.log('📡 Mining pool data collection stopped');
   }
 
-  private async fetchAllPoolData(): Promise<void> {
+  public async fetchAllPoolData(): Promise<PoolFetchResult[]> {
     try {
       console.log('📊 Fetching mining pool data...');
       
       // Get all active pools
-      const pools = await this.dbService.query(
+      const pools = await this.dbService.query<PoolRow>(
         'SELECT * FROM pools WHERE status = ?',
         ['active']
       );
 
+      const results: PoolFetchResult[] = [];
       for (const pool of pools) {
-        await this.fetchPoolData(pool as any);
+        const adapter = this.adapterRegistry.forPool(pool);
+        if (!adapter) {
+          continue;
+        }
+        results.push(await this.fetchPoolData(pool, adapter));
       }
       
-      console.log(`✅ Successfully updated data for ${pools.length} pools`);
+      const succeeded = results.filter(result => result.success).length;
+      console.log(`✅ Successfully updated data for ${succeeded}/${results.length} pools`);
+
+      if (succeeded > 0) {
+        await this.publishNetworkTotals();
+      }
+      return results;
     } catch (error) {
       console.error('❌ Failed to fetch mining pool data:', error);
+      return [];
     }
   }
 
-  private async fetchPoolData(pool: any): Promise<void> {
+  private async fetchPoolData(pool: PoolRow, adapter: PoolAdapter): Promise<PoolFetchResult> {
+    const fetchedAt = new Date();
+    const startTime = Date.now();
+
     try {
-      // This is a placeholder - actual API integration will be implemented later
       console.log(`🔄 Updating data for ${pool.name}...`);
       
-      // Generate mock data for now
-      const mockData = {
-        hashrate: Math.floor(Math.random() * 1000000000000000) + 100000000000000,
-        minersCount: Math.floor(Math.random() * 100000) + 10000,
-        blocksFound24h: Math.floor(Math.random() * 20),
-        luck7d: 90 + Math.random() * 20, // 90-110%
-        difficulty: 15500000000000000,
-        blockTime: 13
-      };
+      const snapshot = await adapter.fetchPoolStats(pool);
+      const responseTimeMs = Date.now() - startTime;
+      const statistics = await this.normalizeSnapshot(pool, snapshot, fetchedAt);
 
       // Insert statistics record
       await this.dbService.execute(`
         INSERT INTO pool_statistics (
-          id, pool_id, timestamp, hashrate, miners_count, 
-          blocks_found_24h, luck_7d, difficulty, block_time
-        ) VALUES (?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?, ?)
+          id, pool_id, coin, timestamp, hashrate, miners_count, 
+          blocks_found_24h, luck_7d, difficulty, block_time, last_block_time
+        ) VALUES (?, ?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?, ?, ?)
       `, [
-        this.generateId(),
+        statistics.id,
         pool.id,
-        mockData.hashrate,
-        mockData.minersCount,
-        mockData.blocksFound24h,
-        mockData.luck7d,
-        mockData.difficulty,
-        mockData.blockTime
+        statistics.coin,
+        statistics.hashrate,
+        statistics.minersCount,
+        statistics.blocksFound24h,
+        statistics.luck7d,
+        statistics.difficulty,
+        statistics.blockTime,
+        statistics.lastBlockTime ? toSqlTimestamp(statistics.lastBlockTime) : null
       ]);
 
+      await this.recordFetch(pool.id, true, responseTimeMs, statistics.id);
+
+      this.websocketService?.broadcastPoolUpdate({
+        id: pool.id,
+        name: pool.name,
+        coin: pool.coin,
+        fee_percentage: pool.fee_percentage,
+        payout_method: pool.payout_method,
+        status: pool.status,
+        minimum_payout: pool.minimum_payout,
+        hashrate: statistics.hashrate,
+        miners_count: statistics.minersCount,
+        blocks_found_24h: statistics.blocksFound24h,
+        luck_7d: statistics.luck7d,
+        last_updated: fetchedAt.toISOString(),
+        last_fetch_at: fetchedAt.toISOString(),
+        last_fetch_success: 1
+      });
+
+      return { poolId: pool.id, success: true, fetchedAt, responseTimeMs, statistics };
+    } catch (error: any) {
+      const responseTimeMs = Date.now() - startTime;
+      const message = error?.message || String(error);
+      console.error(`❌ Failed to update data for ${pool.name}:`, message);
+
+      await this.recordFetch(pool.id, false, responseTimeMs, null, message);
+
+      this.websocketService?.broadcastPoolUpdate({
+        id: pool.id,
+        name: pool.name,
+        last_fetch_at: fetchedAt.toISOString(),
+        last_fetch_success: 0,
+        last_fetch_error: message
+      });
+
+      return { poolId: pool.id, success: false, fetchedAt, responseTimeMs, error: message };
+    }
+  }
+
+  // Push the aggregate totals the dashboard hero section shows, one message per coin
+  private async publishNetworkTotals(): Promise<void> {
+    if (!this.websocketService) return;
+
+    try {
+      const totals = await this.dbService.query(`
+        SELECT 
+          p.coin,
+          SUM(COALESCE(lps.hashrate, 0)) as total_hashrate,
+          SUM(COALESCE(lps.miners_count, 0)) as total_miners,
+          COUNT(CASE WHEN p.status = 'active' THEN 1 END) as active_pools
+        FROM pools p
+        LEFT JOIN latest_pool_stats lps ON p.id = lps.pool_id
+        GROUP BY p.coin
+      `);
+
+      // coin: null carries the all-chains totals
+      const sum = (key: string) => (totals as any[]).reduce((total, row) => total + (row[key] || 0), 0);
+      const messages = [
+        ...(totals as any[]).map(row => ({ coin: row.coin, total_hashrate: row.total_hashrate, total_miners: row.total_miners, active_pools: row.active_pools })),
+        { coin: null, total_hashrate: sum('total_hashrate'), total_miners: sum('total_miners'), active_pools: sum('active_pools') }
+      ];
+
+      for (const message of messages) {
+        this.websocketService.broadcastNetworkUpdate({
+          coin: message.coin,
+          total_hashrate: message.total_hashrate || 0,
+          total_miners: message.total_miners || 0,
+          active_pools: message.active_pools || 0,
+          last_updated: new Date().toISOString()
+        });
+      }
     } catch (error) {
-      console.error(`❌ Failed to update data for ${pool.name}:`, error);
+      console.error('❌ Failed to publish network totals:', error);
+    }
+  }
+
+  // Fill in the values a pool API doesn't report from our own tables
+  private async normalizeSnapshot(pool: PoolRow, snapshot: PoolSnapshot, fetchedAt: Date): Promise<PoolStatistics> {
+    if (!Number.isFinite(snapshot.hashrate) || !Number.isFinite(snapshot.minersCount)) {
+      throw new Error(`Adapter ${pool.adapter_type} returned an invalid snapshot`);
+    }
+
+    let blocksFound24h = snapshot.blocksFound24h;
+    if (blocksFound24h === undefined) {
+      const blocks = await this.dbService.queryOne(
+        "SELECT COUNT(*) as count FROM blocks WHERE pool_id = ? AND status != 'orphaned' AND timestamp > datetime('now', '-24 hours')",
+        [pool.id]
+      );
+      blocksFound24h = (blocks as any)?.count || 0;
+    }
+
+    let { difficulty, blockTime } = snapshot;
+    if (difficulty === undefined || blockTime === undefined) {
+      const network = await this.dbService.queryOne(
+        'SELECT difficulty, block_time FROM network_stats WHERE coin = ? ORDER BY timestamp DESC LIMIT 1',
+        [pool.coin]
+      );
+      difficulty = difficulty ?? (network as any)?.difficulty ?? 0;
+      blockTime = blockTime ?? (network as any)?.block_time ?? 0;
+    }
+
+    return {
+      id: this.generateId(),
+      poolId: pool.id,
+      coin: pool.coin,
+      timestamp: fetchedAt,
+      hashrate: Math.round(snapshot.hashrate),
+      minersCount: Math.round(snapshot.minersCount),
+      blocksFound24h: blocksFound24h || 0,
+      luck7d: snapshot.luck7d ?? null,
+      difficulty: difficulty || 0,
+      blockTime: blockTime || 0,
+      lastBlockTime: snapshot.lastBlockTime
+    };
+  }
+
+  private async recordFetch(
+    poolId: string,
+    success: boolean,
+    responseTimeMs: number,
+    statisticsId: string | null,
+    errorMessage?: string
+  ): Promise<void> {
+    try {
+      await this.dbService.execute(`
+        INSERT INTO pool_fetch_log (
+          id, pool_id, fetched_at, success, statistics_id, response_time_ms, error_message
+        ) VALUES (?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?)
+      `, [this.generateId(), poolId, success ? 1 : 0, statisticsId, responseTimeMs, errorMessage || null]);
+    } catch (error) {
+      console.error(`❌ Failed to record fetch status for pool ${poolId}:`, error);
     }
   }
 
@@ -103,7 +254,7 @@ export class MiningPoolService {
     }
   }
 
-  public async getPoolHealth(): Promise<{ status: string; lastUpdate: string; poolCount: number }> {
+  public async getPoolHealth(): Promise<{ status: string; lastUpdate: string; poolCount: number; failingPools: number }> {
     try {
       const poolCount = await this.dbService.queryOne(
         'SELECT COUNT(*) as count FROM pools WHERE status = ?',
@@ -114,16 +265,22 @@ export class MiningPoolService {
         'SELECT MAX(timestamp) as last_update FROM pool_statistics'
       );
 
+      const failingPools = await this.dbService.queryOne(
+        'SELECT COUNT(*) as count FROM latest_pool_fetch WHERE success = 0'
+      );
+
       return {
         status: this.isRunning ? 'running' : 'stopped',
         lastUpdate: (lastUpdate as any)?.last_update || 'never',
-        poolCount: (poolCount as any)?.count || 0
+        poolCount: (poolCount as any)?.count || 0,
+        failingPools: (failingPools as any)?.count || 0
       };
     } catch (error) {
       return {
         status: 'error',
         lastUpdate: 'unknown',
-        poolCount: 0
+        poolCount: 0,
+        failingPools: 0
       };
     }
   }
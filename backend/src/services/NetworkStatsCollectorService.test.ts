@@ -0,0 +1,130 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DatabaseService } from './DatabaseService';
+import { NetworkStatsCollectorService } from './NetworkStatsCollectorService';
+import { JsonRpcProvider } from './JsonRpcProvider';
+
+const LATEST_BLOCK = 20000000;
+const hex = (value: number) => `0x${value.toString(16)}`;
+
+describe('NetworkStatsCollectorService', () => {
+  let stub: http.Server;
+  let stubUrl: string;
+  let dbService: DatabaseService;
+  let txpoolEnabled = true;
+  let nodeDown = false;
+  const calls: string[] = [];
+
+  // Blocks 13 seconds apart; difficulty 2e15 at the head
+  const blockByNumber = (number: number) => ({
+    number: hex(number),
+    timestamp: hex(1700000000 + (number - LATEST_BLOCK) * 13),
+    difficulty: hex(number === LATEST_BLOCK ? 2e15 : 1e15)
+  });
+
+  const answer = ({ id, method, params }: { id: number; method: string; params: any[] }) => {
+    calls.push(method);
+    const reply = (payload: object) => ({ jsonrpc: '2.0', id, ...payload });
+
+    switch (method) {
+      case 'eth_getBlockByNumber':
+        return reply({ result: blockByNumber(params[0] === 'latest' ? LATEST_BLOCK : parseInt(params[0], 16)) });
+      case 'eth_gasPrice':
+        return reply({ result: hex(25e9) });
+      case 'net_peerCount':
+        return reply({ result: hex(12) });
+      case 'txpool_status':
+        return txpoolEnabled
+          ? reply({ result: { pending: hex(150), queued: hex(30) } })
+          : reply({ error: { code: -32601, message: 'the method txpool_status does not exist/is not available' } });
+      case 'eth_getBlockTransactionCountByNumber':
+        return reply({ result: hex(42) });
+      default:
+        return reply({ error: { code: -32601, message: `Method ${method} not found` } });
+    }
+  };
+
+  beforeAll(async () => {
+    stub = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        if (nodeDown) {
+          res.writeHead(502);
+          res.end('bad gateway');
+          return;
+        }
+
+        const payload = JSON.parse(body);
+        const answers = (Array.isArray(payload) ? payload : [payload]).map(answer);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(Array.isArray(payload) ? answers : answers[0]));
+      });
+    });
+    await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+    stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+  });
+
+  afterAll(async () => {
+    await dbService.close();
+    await new Promise(resolve => stub.close(resolve));
+  });
+
+  beforeEach(async () => {
+    await dbService.execute('DELETE FROM network_stats');
+    txpoolEnabled = true;
+    nodeDown = false;
+    calls.length = 0;
+  });
+
+  it('stores difficulty, block time, derived hashrate, mempool size and gas price from the node', async () => {
+    const collector = new NetworkStatsCollectorService(dbService, undefined, { ETC: new JsonRpcProvider([stubUrl]) });
+    const [snapshot] = await collector.collectNetworkStats();
+
+    // The head, gas price, peers and mempool go in one batch before the sample start block
+    expect(calls.slice(0, 5)).toEqual(['eth_getBlockByNumber', 'eth_gasPrice', 'net_peerCount', 'txpool_status', 'eth_getBlockByNumber']);
+    expect(snapshot).toMatchObject({
+      coin: 'ETC',
+      block_number: LATEST_BLOCK,
+      difficulty: 2e15,
+      block_time: 13,
+      total_hashrate: Math.round(2e15 / 13),
+      pending_transactions: 180,
+      gas_price: 25e9
+    });
+
+    const rows = await dbService.query('SELECT coin, block_number, total_hashrate, difficulty, block_time, pending_transactions, gas_price FROM network_stats');
+    expect(rows).toEqual([{
+      coin: 'ETC',
+      block_number: LATEST_BLOCK,
+      total_hashrate: Math.round(2e15 / 13),
+      difficulty: 2e15,
+      block_time: 13,
+      pending_transactions: 180,
+      gas_price: 25e9
+    }]);
+  });
+
+  it('counts the pending block when the node has txpool disabled', async () => {
+    txpoolEnabled = false;
+    const collector = new NetworkStatsCollectorService(dbService, undefined, { ETH: new JsonRpcProvider([stubUrl]) });
+    const [snapshot] = await collector.collectNetworkStats();
+
+    expect(snapshot!.pending_transactions).toBe(42);
+    expect(calls).toContain('eth_getBlockTransactionCountByNumber');
+  });
+
+  it('stores nothing when the node is unreachable or not configured', async () => {
+    nodeDown = true;
+    expect(await new NetworkStatsCollectorService(dbService, undefined, { ETH: new JsonRpcProvider([stubUrl]) }).collectNetworkStats()).toEqual([]);
+    expect(await new NetworkStatsCollectorService(dbService, undefined, {}).collectNetworkStats()).toEqual([]);
+
+    const count = await dbService.queryOne('SELECT COUNT(*) as count FROM network_stats');
+    expect(count.count).toBe(0);
+  });
+});
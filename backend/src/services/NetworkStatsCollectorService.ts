@@ -0,0 +1,185 @@
+import { DatabaseService } from './DatabaseService';
+import { WebSocketService } from './WebSocketService';
+import { CoinProviders, EthereumProvider, JsonRpcError, RpcBlock, createDefaultRpcProviders, hexToNumber, unwrap } from './JsonRpcProvider';
+import { Coin } from '../types';
+import { toSqlTimestamp } from '../utils/dates';
+
+interface TxPoolStatus {
+  pending: string;
+  queued: string;
+}
+
+export interface NetworkSnapshot {
+  coin: Coin;
+  block_number: number;
+  total_hashrate: number;     // H/s, difficulty over the average block time
+  difficulty: number;
+  block_time: number;         // average seconds over the sampled blocks
+  pending_transactions: number;
+  gas_price: number;          // Wei
+  timestamp: string;
+}
+
+export class NetworkStatsCollectorService {
+  private dbService: DatabaseService;
+  private providers: CoinProviders;
+  private websocketService?: WebSocketService;
+  private updateInterval?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+  private readonly blockSample = Math.max(parseInt(process.env.NETWORK_BLOCK_SAMPLE || '100') || 100, 1);
+
+  constructor(
+    dbService: DatabaseService,
+    websocketService?: WebSocketService,
+    providers: CoinProviders = createDefaultRpcProviders()
+  ) {
+    this.dbService = dbService;
+    this.websocketService = websocketService;
+    this.providers = providers;
+  }
+
+  public startNetworkCollection(): void {
+    if (this.isRunning) {
+      console.log('⚠️  Network stats collection already running');
+      return;
+    }
+    const coins = Object.keys(this.providers);
+    if (coins.length === 0) {
+      console.log('⚠️  No <COIN>_RPC_URL is set, network stats collection disabled');
+      return;
+    }
+
+    this.isRunning = true;
+    const interval = parseInt(process.env.NETWORK_UPDATE_INTERVAL || '60000');
+
+    console.log(`🌐 Starting network stats collection for ${coins.join(', ')} (interval: ${interval}ms)`);
+
+    // Initial network fetch
+    this.collectNetworkStats();
+
+    // Set up recurring network fetch
+    this.updateInterval = setInterval(() => {
+      this.collectNetworkStats();
+    }, interval);
+  }
+
+  public stopNetworkCollection(): void {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = undefined;
+    }
+    this.isRunning = false;
+    console.log('🌐 Network stats collection stopped');
+  }
+
+  /**
+   * Read each configured coin's node once, store the readings in
+   * network_stats and publish them. A coin whose node can't be reached is
+   * left out, so a gap stays a gap.
+   */
+  public async collectNetworkStats(): Promise<NetworkSnapshot[]> {
+    const snapshots: NetworkSnapshot[] = [];
+
+    for (const [coin, provider] of Object.entries(this.providers) as [Coin, EthereumProvider][]) {
+      try {
+        const snapshot = await this.fetchSnapshot(coin, provider);
+
+        await this.dbService.execute(`
+          INSERT INTO network_stats (coin, timestamp, block_number, total_hashrate, difficulty, block_time, pending_transactions, gas_price)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          snapshot.coin,
+          snapshot.timestamp,
+          snapshot.block_number,
+          snapshot.total_hashrate,
+          snapshot.difficulty,
+          snapshot.block_time,
+          snapshot.pending_transactions,
+          snapshot.gas_price
+        ]);
+
+        this.publishSnapshot(snapshot);
+        console.log(`🌐 ${coin} network stats at block ${snapshot.block_number}: difficulty ${snapshot.difficulty}, block time ${snapshot.block_time}s`);
+        snapshots.push(snapshot);
+      } catch (error: any) {
+        console.error(`❌ Failed to collect ${coin} network stats:`, error?.message || error);
+      }
+    }
+
+    return snapshots;
+  }
+
+  // Two round trips: the head and everything that doesn't depend on it, then the sample start
+  private async fetchSnapshot(coin: Coin, provider: EthereumProvider): Promise<NetworkSnapshot> {
+    const [latestResult, gasPriceResult, peerCountResult, txPoolResult] = await provider.batch([
+      { method: 'eth_getBlockByNumber', params: ['latest', false] },
+      { method: 'eth_gasPrice' },
+      { method: 'net_peerCount' },
+      { method: 'txpool_status' }
+    ]);
+
+    const latest = unwrap<RpcBlock | null>(latestResult);
+    if (!latest) {
+      throw new Error('Node returned no latest block');
+    }
+    if (!(peerCountResult instanceof JsonRpcError) && hexToNumber(peerCountResult as string) === 0) {
+      console.warn(`⚠️  ${coin} node reports no peers; network stats may be stale`);
+    }
+
+    const latestNumber = hexToNumber(latest.number);
+    const sampleStart = Math.max(latestNumber - this.blockSample, 0);
+    const [earlier, pending] = await Promise.all([
+      provider.getBlockByNumber(sampleStart),
+      this.countPendingTransactions(provider, txPoolResult)
+    ]);
+    if (!earlier) {
+      throw new Error(`Node returned no block for ${sampleStart}`);
+    }
+
+    const blocks = latestNumber - sampleStart;
+    const elapsed = hexToNumber(latest.timestamp) - hexToNumber(earlier.timestamp);
+    const blockTime = blocks > 0 && elapsed > 0 ? Math.round((elapsed / blocks) * 100) / 100 : 0;
+    const difficulty = hexToNumber(latest.difficulty);
+
+    return {
+      coin,
+      block_number: latestNumber,
+      total_hashrate: blockTime > 0 ? Math.round(difficulty / blockTime) : 0,
+      difficulty,
+      block_time: blockTime,
+      pending_transactions: pending,
+      gas_price: hexToNumber(unwrap<string>(gasPriceResult)),
+      timestamp: toSqlTimestamp(new Date())
+    };
+  }
+
+  /**
+   * txpool_status gives the whole mempool but is often disabled on public
+   * nodes; the pending block's transaction count is the fallback.
+   */
+  private async countPendingTransactions(provider: EthereumProvider, txPoolResult: unknown): Promise<number> {
+    if (!(txPoolResult instanceof JsonRpcError)) {
+      const status = txPoolResult as TxPoolStatus;
+      return hexToNumber(status?.pending) + hexToNumber(status?.queued);
+    }
+
+    try {
+      return hexToNumber(await provider.call<string | null>('eth_getBlockTransactionCountByNumber', ['pending']));
+    } catch (error) {
+      if (!(error instanceof JsonRpcError)) throw error;
+      return 0;
+    }
+  }
+
+  private publishSnapshot(snapshot: NetworkSnapshot): void {
+    this.websocketService?.broadcastNetworkUpdate({
+      coin: snapshot.coin,
+      network_difficulty: snapshot.difficulty,
+      network_hashrate: snapshot.total_hashrate,
+      block_time: snapshot.block_time,
+      pending_transactions: snapshot.pending_transactions,
+      gas_price: snapshot.gas_price,
+      last_updated: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,168 @@
+import { DatabaseService } from './DatabaseService';
+import { ExternalAPIService, PriceUnavailableError } from './ExternalAPIService';
+import { EmailService } from './EmailService';
+import { ProfitabilityService } from './ProfitabilityService';
+import { AlertService } from './AlertService';
+import { AlertType, Coin } from '../types';
+import { ETH_MERGE_BLOCK, blockRewardFor } from '../utils/coins';
+import { estimateDailyEth } from '../utils/profitability';
+
+class FixedPriceAPIService extends ExternalAPIService {
+  async getCoinPrice(coin: Coin): Promise<number> {
+    return coin === 'ETC' ? 20 : 2000;
+  }
+}
+
+class NullEmailService extends EmailService {
+  async send() {
+    return { success: true, attempts: 1 };
+  }
+}
+
+describe('ProfitabilityService', () => {
+  let dbService: DatabaseService;
+  let profitabilityService: ProfitabilityService;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, coin, fee_percentage, payout_method) VALUES (?, ?, ?, ?, ?, ?)`,
+      ['pool-1', 'Pool One', 'http://127.0.0.1:1', 'ETHW', 1.0, 'PPLNS']
+    );
+    await dbService.execute(
+      `INSERT INTO pool_statistics (pool_id, hashrate, miners_count, luck_7d, difficulty) VALUES (?, ?, ?, ?, ?)`,
+      ['pool-1', 1000000000, 10, 110, 0]
+    );
+    await dbService.execute(
+      `INSERT INTO network_stats (coin, total_hashrate, difficulty, block_time) VALUES (?, ?, ?, ?)`,
+      ['ETHW', 1000000000000, 8640000000000, 13]
+    );
+
+    profitabilityService = new ProfitabilityService(dbService, new FixedPriceAPIService());
+  });
+
+  afterAll(async () => {
+    await dbService.close();
+  });
+
+  it('estimates daily ETH from difficulty, reward, fee and luck', () => {
+    // 1 MH/s * 86400s / 8.64e12 = 0.01 expected blocks/day
+    const base = { hashrate: 1e6, networkDifficulty: 8.64e12, blockReward: 2, feePercentage: 1 };
+
+    expect(estimateDailyEth({ ...base, payoutMethod: 'PPS', luck: 110 })).toBeCloseTo(0.0198, 10);
+    expect(estimateDailyEth({ ...base, payoutMethod: 'PPLNS', luck: 110 })).toBeCloseTo(0.02178, 10);
+    expect(estimateDailyEth({ ...base, payoutMethod: 'PPLNS' })).toBeCloseTo(0.0198, 10);
+    expect(estimateDailyEth({ ...base, networkDifficulty: 0 })).toBe(0);
+  });
+
+  it('stores a profitability point per pool', async () => {
+    const [point] = await profitabilityService.recordProfitability();
+
+    // The recorded series follows the PPLNS pool's 110% luck
+    expect(point).toMatchObject({ poolId: 'pool-1', ethPrice: 2000, luckFactor: 1.1 });
+    expect(point!.usdPerMhDay).toBeCloseTo(0.02178 * 2000, 6);
+
+    const rows = await dbService.query('SELECT COUNT(*) as count FROM pool_profitability');
+    expect(rows).toEqual([{ count: 1 }]);
+  });
+
+  it('projects rig earnings after fee, power cost and minimum payout', async () => {
+    await dbService.execute('UPDATE pools SET minimum_payout = 0.3 WHERE id = ?', ['pool-1']);
+    const estimate = await profitabilityService.estimateEarnings({
+      hashrate: 100e6,
+      powerWatts: 250,
+      electricityCost: 0.1,
+      currency: 'usd',
+      coin: 'ETHW'
+    });
+
+    const [pool] = estimate.pools;
+    // 100 MH/s -> 1.98 ETHW/day whatever the pool's 110% luck last week; 0.25 kW * 24h * $0.10 = $0.60/day
+    expect(pool!.luck_7d).toBe(110);
+    expect(pool!.daily.eth).toBeCloseTo(1.98, 6);
+    expect(pool!.daily.power_cost).toBeCloseTo(0.6, 6);
+    expect(pool!.daily.profit).toBeCloseTo(1.98 * 2000 - 0.6, 6);
+    expect(pool!.weekly.eth).toBeCloseTo(1.98 * 7, 6);
+    // With a 0.3 ETHW minimum payout only whole payouts count as paid
+    expect(pool!.weekly.paid_eth).toBeCloseTo(13.8, 6);
+    expect(pool!.days_to_payout).toBeCloseTo(0.3 / 1.98, 6);
+  });
+
+  it('fires PROFITABILITY_CHANGE when the change over the window exceeds the threshold', async () => {
+    await dbService.execute('DELETE FROM pool_profitability');
+    await dbService.execute(`
+      INSERT INTO pool_profitability (
+        pool_id, timestamp, eth_per_mh_day, usd_per_mh_day, eth_price, network_difficulty, block_reward, fee_percentage
+      ) VALUES
+        ('pool-1', datetime('now', '-6 hours'), 0.02, 40, 2000, 1, 2, 1),
+        ('pool-1', datetime('now', '-1 hours'), 0.02, 30, 1500, 1, 2, 1)
+    `);
+    await dbService.execute(
+      `INSERT INTO alert_subscriptions (id, email, alert_type, pool_id, threshold, is_active) VALUES (?, ?, ?, ?, ?, 1)`,
+      ['sub-small', 'a@example.com', AlertType.PROFITABILITY_CHANGE, 'pool-1', 30]
+    );
+    await dbService.execute(
+      `INSERT INTO alert_subscriptions (id, email, alert_type, pool_id, threshold, is_active) VALUES (?, ?, ?, ?, ?, 1)`,
+      ['sub-global', 'b@example.com', AlertType.PROFITABILITY_CHANGE, null, 20]
+    );
+
+    const alertService = new AlertService(dbService, undefined, new NullEmailService());
+    await alertService.processAlerts();
+
+    const history = await dbService.query<any>('SELECT subscription_id, message, trigger_value FROM alert_history');
+    expect(history).toHaveLength(1);
+    expect(history[0].subscription_id).toBe('sub-global');
+    expect(history[0].message).toContain('Profitability on Pool One fell 25.00%');
+    expect(history[0].trigger_value).toBeCloseTo(-25);
+  });
+
+  it('models each coin against its own difficulty, reward schedule and price', async () => {
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, coin, fee_percentage, payout_method) VALUES (?, ?, ?, ?, ?, ?)`,
+      ['pool-etc', 'Pool Classic', 'http://127.0.0.1:1', 'ETC', 1.0, 'PPS']
+    );
+    // Era 4 of ECIP-1017: 5 * 0.8^4 = 2.048 ETC per block
+    await dbService.execute(
+      `INSERT INTO network_stats (coin, block_number, total_hashrate, difficulty, block_time) VALUES (?, ?, ?, ?, ?)`,
+      ['ETC', 20000001, 1000000000000, 864000000000, 13]
+    );
+
+    const estimate = await profitabilityService.estimateEarnings({
+      hashrate: 100e6,
+      powerWatts: 0,
+      electricityCost: 0,
+      currency: 'usd',
+      coin: 'ETC'
+    });
+
+    expect(estimate).toMatchObject({ coin: 'ETC', coin_price: 20, network_difficulty: 8.64e11, block_reward: 2.048 });
+    expect(estimate.pools.map(pool => pool.pool_id)).toEqual(['pool-etc']);
+    // 100 MH/s * 86400s / 8.64e11 = 10 blocks/day at 2.048 ETC, less the 1% fee
+    expect(estimate.pools[0]!.daily.eth).toBeCloseTo(20.2752, 6);
+    expect(estimate.pools[0]!.daily.revenue).toBeCloseTo(20.2752 * 20, 6);
+
+    // Proof of work ended on ETH at the merge, so there is no reward left to project
+    expect(blockRewardFor('ETH', ETH_MERGE_BLOCK - 1)).toBe(2);
+    expect(blockRewardFor('ETH', ETH_MERGE_BLOCK)).toBe(0);
+    expect(blockRewardFor('ETH')).toBe(0);
+  });
+
+  it('skips coins without a real price instead of recording a made-up one', async () => {
+    class NoEtcPriceAPIService extends ExternalAPIService {
+      async getCoinPrice(coin: Coin): Promise<number> {
+        if (coin === 'ETC') throw new PriceUnavailableError(coin, 'usd', new Error('CoinGecko unreachable'));
+        return 2000;
+      }
+    }
+    await dbService.execute('DELETE FROM pool_profitability');
+
+    const recorded = await new ProfitabilityService(dbService, new NoEtcPriceAPIService()).recordProfitability();
+
+    expect(recorded.map(point => point.poolId)).toEqual(['pool-1']);
+    expect(await dbService.query('SELECT pool_id FROM pool_profitability')).toEqual([{ pool_id: 'pool-1' }]);
+  });
+});
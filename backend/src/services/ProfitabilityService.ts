@@ -0,0 +1,265 @@
+import { DatabaseService } from './DatabaseService';
+import { ExternalAPIService, PriceUnavailableError } from './ExternalAPIService';
+import { Coin, PoolProfitability, PoolRow } from '../types';
+import { blockRewardFor } from '../utils/coins';
+import { PROFITABILITY_HASHRATE_UNIT, ProfitabilityInputs, estimateDailyEth, luckFactor } from '../utils/profitability';
+
+type ModelPool = PoolRow & { luck_7d: number | null; network_difficulty: number; block_reward: number };
+
+export interface EarningsRequest {
+  hashrate: number;        // H/s
+  powerWatts: number;
+  electricityCost: number; // per kWh, in `currency`
+  currency: string;
+  coin: Coin;              // only pools on this chain are compared
+}
+
+// Amounts are in the requested coin
+export interface EarningsPeriod {
+  eth: number;
+  paid_eth: number;        // whole minimum payouts reached within the period
+  revenue: number;
+  power_cost: number;
+  profit: number;
+}
+
+export interface PoolEarnings {
+  pool_id: string;
+  pool_name: string;
+  fee_percentage: number;
+  payout_method: string;
+  luck_7d: number | null;  // past luck for reference; rig earnings are projected at 100%
+  minimum_payout: number;
+  days_to_payout: number | null;
+  daily: EarningsPeriod;
+  weekly: EarningsPeriod;
+  monthly: EarningsPeriod;
+}
+
+export interface EarningsEstimate {
+  currency: string;
+  coin: Coin;
+  coin_price: number;
+  network_difficulty: number;
+  block_reward: number;
+  hashrate: number;
+  power_watts: number;
+  electricity_cost: number;
+  pools: PoolEarnings[];
+}
+
+export class ProfitabilityService {
+  private dbService: DatabaseService;
+  private externalApiService: ExternalAPIService;
+  private updateInterval?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+
+  constructor(dbService: DatabaseService, externalApiService: ExternalAPIService = new ExternalAPIService()) {
+    this.dbService = dbService;
+    this.externalApiService = externalApiService;
+  }
+
+  public startProfitabilityTracking(): void {
+    if (this.isRunning) {
+      console.log('⚠️  Profitability tracking already running');
+      return;
+    }
+
+    this.isRunning = true;
+    const interval = parseInt(process.env.PROFITABILITY_UPDATE_INTERVAL || '300000');
+
+    console.log(`💰 Starting profitability tracking (interval: ${interval}ms)`);
+
+    // Initial snapshot
+    this.recordProfitability();
+
+    // Set up recurring snapshots
+    this.updateInterval = setInterval(() => {
+      this.recordProfitability();
+    }, interval);
+  }
+
+  public stopProfitabilityTracking(): void {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = undefined;
+    }
+    this.isRunning = false;
+    console.log('💰 Profitability tracking stopped');
+  }
+
+  /**
+   * Evaluate the earnings model for every active pool and store one point per pool,
+   * priced in the pool's coin and scaled by the 7d luck of PPLNS pools. Pools without
+   * a known network difficulty or a real coin price are skipped rather than stored as
+   * zero or a made-up value.
+   */
+  public async recordProfitability(): Promise<PoolProfitability[]> {
+    try {
+      const pools = await this.loadPools();
+      const prices = new Map<Coin, number | null>();
+
+      const recorded: PoolProfitability[] = [];
+      for (const pool of pools) {
+        if (pool.network_difficulty <= 0) {
+          continue;
+        }
+        if (!prices.has(pool.coin)) {
+          prices.set(pool.coin, await this.externalApiService.getCoinPrice(pool.coin).catch(error => {
+            if (!(error instanceof PriceUnavailableError)) throw error;
+            console.warn(`⚠️  Skipping ${pool.coin} profitability: ${error.message}`);
+            return null;
+          }));
+        }
+        const ethPrice = prices.get(pool.coin);
+        if (ethPrice == null) {
+          continue;
+        }
+
+        const inputs = this.toInputs(pool, PROFITABILITY_HASHRATE_UNIT, pool.luck_7d);
+        const ethPerMhDay = estimateDailyEth(inputs);
+
+        const point: PoolProfitability = {
+          id: this.generateId(),
+          poolId: pool.id,
+          timestamp: new Date(),
+          ethPerMhDay,
+          usdPerMhDay: ethPerMhDay * ethPrice,
+          ethPrice,
+          networkDifficulty: pool.network_difficulty,
+          blockReward: pool.block_reward,
+          feePercentage: pool.fee_percentage,
+          luckFactor: luckFactor(inputs)
+        };
+
+        await this.dbService.execute(`
+          INSERT INTO pool_profitability (
+            id, pool_id, timestamp, eth_per_mh_day, usd_per_mh_day, eth_price,
+            network_difficulty, block_reward, fee_percentage, luck_factor
+          ) VALUES (?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          point.id,
+          point.poolId,
+          point.ethPerMhDay,
+          point.usdPerMhDay,
+          point.ethPrice,
+          point.networkDifficulty,
+          point.blockReward,
+          point.feePercentage,
+          point.luckFactor
+        ]);
+
+        recorded.push(point);
+      }
+
+      console.log(`💰 Recorded profitability for ${recorded.length} pools`);
+      return recorded;
+    } catch (error) {
+      console.error('❌ Failed to record profitability:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Project a rig's earnings on every active pool of the requested coin: revenue after
+   * pool fee, electricity cost, and how the pool's minimum payout gates what is actually paid.
+   * Projected at 100% luck; each pool's past luck is returned alongside.
+   */
+  public async estimateEarnings(request: EarningsRequest): Promise<EarningsEstimate> {
+    const currency = request.currency.toLowerCase();
+    const [pools, coinPrice] = await Promise.all([
+      this.loadPools(request.coin),
+      this.externalApiService.getCoinPrice(request.coin, currency)
+    ]);
+
+    const dailyPowerCost = (request.powerWatts / 1000) * 24 * request.electricityCost;
+    const networkDifficulty = pools.find(pool => pool.network_difficulty > 0)?.network_difficulty || 0;
+
+    const estimates: PoolEarnings[] = pools
+      .filter(pool => pool.network_difficulty > 0)
+      .map(pool => {
+        const ethPerDay = estimateDailyEth(this.toInputs(pool, request.hashrate, null));
+        const minimumPayout = pool.minimum_payout || 0;
+
+        const period = (days: number): EarningsPeriod => {
+          const eth = ethPerDay * days;
+          const paidEth = minimumPayout > 0 ? Math.floor(eth / minimumPayout) * minimumPayout : eth;
+          const revenue = eth * coinPrice;
+          const powerCost = dailyPowerCost * days;
+          return { eth, paid_eth: paidEth, revenue, power_cost: powerCost, profit: revenue - powerCost };
+        };
+
+        return {
+          pool_id: pool.id,
+          pool_name: pool.name,
+          fee_percentage: pool.fee_percentage,
+          payout_method: pool.payout_method,
+          luck_7d: pool.luck_7d,
+          minimum_payout: minimumPayout,
+          days_to_payout: ethPerDay > 0 ? minimumPayout / ethPerDay : null,
+          daily: period(1),
+          weekly: period(7),
+          monthly: period(30)
+        };
+      })
+      .sort((a, b) => b.daily.profit - a.daily.profit);
+
+    return {
+      currency,
+      coin: request.coin,
+      coin_price: coinPrice,
+      network_difficulty: networkDifficulty,
+      block_reward: pools[0]?.block_reward ?? blockRewardFor(request.coin),
+      hashrate: request.hashrate,
+      power_watts: request.powerWatts,
+      electricity_cost: request.electricityCost,
+      pools: estimates
+    };
+  }
+
+  // Active pools (of one coin, if given) with their latest luck and the difficulty and reward of their chain
+  private async loadPools(coin?: Coin): Promise<ModelPool[]> {
+    const pools = await this.dbService.query<PoolRow & { luck_7d: number | null; stats_difficulty: number | null }>(`
+      SELECT p.*, lps.luck_7d, lps.difficulty as stats_difficulty
+      FROM pools p
+      LEFT JOIN latest_pool_stats lps ON p.id = lps.pool_id
+      WHERE p.status = ? AND (? IS NULL OR p.coin = ?)
+    `, ['active', coin ?? null, coin ?? null]);
+
+    const networks = new Map<Coin, { difficulty: number; block_number: number | null } | null>();
+    for (const poolCoin of new Set(pools.map(pool => pool.coin))) {
+      networks.set(poolCoin, await this.dbService.queryOne(
+        'SELECT difficulty, block_number FROM network_stats WHERE coin = ? ORDER BY timestamp DESC LIMIT 1',
+        [poolCoin]
+      ));
+    }
+
+    return pools.map(pool => {
+      const network = networks.get(pool.coin);
+      return {
+        ...pool,
+        network_difficulty: network?.difficulty || pool.stats_difficulty || 0,
+        block_reward: blockRewardFor(pool.coin, network?.block_number)
+      };
+    });
+  }
+
+  private toInputs(pool: ModelPool, hashrate: number, luck: number | null): ProfitabilityInputs {
+    return {
+      hashrate,
+      networkDifficulty: pool.network_difficulty,
+      blockReward: pool.block_reward,
+      feePercentage: pool.fee_percentage,
+      payoutMethod: pool.payout_method,
+      luck
+    };
+  }
+
+  private generateId(): string {
+    if (process.env.DATABASE_TYPE === 'sqlite') {
+      return require('crypto').randomBytes(16).toString('hex');
+    } else {
+      return require('crypto').randomUUID();
+    }
+  }
+}
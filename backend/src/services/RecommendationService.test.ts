@@ -0,0 +1,96 @@
+import { DatabaseService } from './DatabaseService';
+import { RecommendationService } from './RecommendationService';
+import { DEFAULT_SCORING_WEIGHTS, parseMinerProfile, parseScoringWeights } from '../utils/scoring';
+
+describe('RecommendationService', () => {
+  let dbService: DatabaseService;
+  let recommendationService: RecommendationService;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, coin, fee_percentage, payout_method, minimum_payout)
+       VALUES (?, ?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        'pool-big', 'Big Pool', 'http://127.0.0.1:1', 'ETHW', 1.0, 'PPLNS', 0.1,
+        'pool-cheap', 'Cheap Pool', 'http://127.0.0.1:1', 'ETHW', 0.5, 'PPS', 1.0
+      ]
+    );
+    await dbService.execute(
+      `INSERT INTO pool_statistics (pool_id, hashrate, miners_count, luck_7d) VALUES (?, ?, ?, ?), (?, ?, ?, ?)`,
+      ['pool-big', 5e14, 1000, 100, 'pool-cheap', 2e13, 50, 80]
+    );
+    for (let i = 0; i < 8; i++) {
+      await dbService.execute(
+        `INSERT INTO blocks (pool_id, block_number, timestamp, reward, difficulty, hash) VALUES (?, ?, datetime('now', ?), ?, ?, ?)`,
+        ['pool-big', 1000 + i, `-${i + 1} hours`, 2, 1e16, `0x${String(i).padStart(64, '0')}`]
+      );
+    }
+    await dbService.execute(
+      `INSERT INTO network_stats (coin, total_hashrate, difficulty, block_time) VALUES (?, ?, ?, ?)`,
+      ['ETHW', 1e15, 1e16, 13]
+    );
+
+    recommendationService = new RecommendationService(dbService, DEFAULT_SCORING_WEIGHTS);
+  });
+
+  afterAll(async () => {
+    await dbService.close();
+  });
+
+  it('explains the score factor by factor and skips the payout threshold without a hashrate', async () => {
+    const [big, cheap] = await recommendationService.comparePools(
+      ['pool-big', 'pool-cheap'],
+      { profile: parseMinerProfile({}) }
+    );
+
+    expect(big!.name).toBe('Big Pool');
+    expect(big!.recommendation_score).toBeGreaterThan(cheap!.recommendation_score);
+
+    for (const pool of [big!, cheap!]) {
+      const total = pool.score_breakdown.reduce((sum, entry) => sum + entry.points, 0);
+      expect(Math.abs(total - pool.recommendation_score)).toBeLessThanOrEqual(1);
+    }
+
+    const threshold = big!.score_breakdown.find(entry => entry.factor === 'payout_threshold')!;
+    expect(threshold).toMatchObject({ weight: 0, score: null, points: 0 });
+
+    const activity = big!.score_breakdown.find(entry => entry.factor === 'activity')!;
+    expect(activity).toMatchObject({ score: 1, explanation: '8 blocks in the last 24h (6+ scores full marks)' });
+  });
+
+  it('ranks by the supplied weights and miner profile', async () => {
+    const feeOnly = parseScoringWeights('fee:1,pool_size:0,luck:0,activity:0,payout_method:0,payout_threshold:0');
+    const [cheapest] = await recommendationService.recommendPools({ profile: parseMinerProfile({}), weights: feeOnly }, 1);
+    expect(cheapest).toMatchObject({ id: 'pool-cheap', recommendation_score: 83 });
+
+    // A 500 MH/s rig earns ~0.0086 ETHW/day: 12 days to Big Pool's 0.1 ETHW, months to Cheap Pool's 1 ETHW
+    const smallMiner = parseMinerProfile({ hashrate: '500', payout_preference: 'pps', risk_tolerance: 'low' });
+    const ranked = await recommendationService.recommendPools({ profile: smallMiner }, 5);
+
+    const threshold = (id: string) => ranked.find(pool => pool.id === id)!.score_breakdown.find(entry => entry.factor === 'payout_threshold')!;
+    expect(threshold('pool-big').explanation).toBe('About 12 days to reach the 0.1 ETHW minimum payout at 500.0 MH/s');
+    expect(threshold('pool-cheap').score).toBe(0);
+
+    const payout = ranked.find(pool => pool.id === 'pool-cheap')!.score_breakdown.find(entry => entry.factor === 'payout_method')!;
+    expect(payout).toMatchObject({ score: 1, explanation: 'PPS matches the PPS preference' });
+
+    // Low risk tolerance leans on pool size and luck
+    const poolSize = ranked[0]!.score_breakdown.find(entry => entry.factor === 'pool_size')!;
+    expect(poolSize.weight).toBe(30);
+  });
+
+  it('rejects unknown factors, bad weights and bad profiles', () => {
+    expect(() => parseScoringWeights('speed:10')).toThrow('Invalid weights');
+    expect(() => parseScoringWeights('fee:-1')).toThrow('Invalid weight for fee');
+    expect(() => parseScoringWeights('fee:0,pool_size:0,luck:0,activity:0,payout_method:0,payout_threshold:0'))
+      .toThrow('At least one scoring weight must be greater than 0');
+    expect(() => parseMinerProfile({ risk_tolerance: 'yolo' })).toThrow('Invalid risk_tolerance');
+    expect(() => parseMinerProfile({ hashrate: '0' })).toThrow('hashrate (MH/s) must be a positive number');
+    expect(parseScoringWeights('fee:30')).toEqual({ ...DEFAULT_SCORING_WEIGHTS, fee: 30 });
+  });
+});
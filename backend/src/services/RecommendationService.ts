@@ -0,0 +1,121 @@
+import { DatabaseService } from './DatabaseService';
+import { Coin, MinerProfile, PoolRow, ScoreFactorBreakdown, ScoringWeights } from '../types';
+import { blockRewardFor } from '../utils/coins';
+import { DEFAULT_SCORING_WEIGHTS, ScoringContext, ScoringInputs, parseScoringWeights, scorePool } from '../utils/scoring';
+
+// Pool row with the figures the comparison table and the score are built from
+export type PoolMetrics = PoolRow & ScoringInputs & {
+  miners_count: number | null;
+  blocks_found_24h: number | null;
+  last_updated: string | null;
+};
+
+export type ScoredPool = PoolMetrics & {
+  recommendation_score: number;
+  score_breakdown: ScoreFactorBreakdown[];
+};
+
+export interface ScoringOptions {
+  profile: MinerProfile;
+  weights?: ScoringWeights;  // defaults to the configured weights
+  coin?: Coin;               // only recommend pools on this chain
+}
+
+export class RecommendationService {
+  private dbService: DatabaseService;
+  private defaultWeights: ScoringWeights;
+
+  constructor(dbService: DatabaseService, defaultWeights?: ScoringWeights) {
+    this.dbService = dbService;
+    this.defaultWeights = defaultWeights ?? parseScoringWeights(process.env.SCORING_WEIGHTS, DEFAULT_SCORING_WEIGHTS);
+  }
+
+  public getDefaultWeights(): ScoringWeights {
+    return { ...this.defaultWeights };
+  }
+
+  /**
+   * Score the given pools, ordered by hashrate like the pools list
+   */
+  public async comparePools(poolIds: string[], options: ScoringOptions): Promise<ScoredPool[]> {
+    const pools = await this.loadPoolMetrics(poolIds);
+    return this.scorePools(pools, options);
+  }
+
+  /**
+   * Score every active pool (on the chosen coin, if any) and return the best `limit`, highest score first
+   */
+  public async recommendPools(options: ScoringOptions, limit: number): Promise<ScoredPool[]> {
+    const pools = (await this.loadPoolMetrics()).filter(pool => !options.coin || pool.coin === options.coin);
+    const scored = await this.scorePools(pools, options);
+
+    return scored
+      .sort((a, b) => b.recommendation_score - a.recommendation_score || (b.hashrate || 0) - (a.hashrate || 0))
+      .slice(0, limit);
+  }
+
+  private async scorePools(pools: PoolMetrics[], options: ScoringOptions): Promise<ScoredPool[]> {
+    const weights = options.weights ?? this.defaultWeights;
+
+    // Earnings depend on the chain each pool mines
+    const contexts = new Map<Coin, ScoringContext>();
+    for (const coin of new Set(pools.map(pool => pool.coin))) {
+      contexts.set(coin, await this.loadContext(coin));
+    }
+
+    return pools.map(pool => {
+      const { score, breakdown } = scorePool(pool, options.profile, weights, contexts.get(pool.coin)!);
+      return { ...pool, recommendation_score: score, score_breakdown: breakdown };
+    });
+  }
+
+  // Latest stats plus 24h blocks and 7d/30d average luck, for some or all active pools
+  private async loadPoolMetrics(poolIds?: string[]): Promise<PoolMetrics[]> {
+    const filter = poolIds
+      ? `p.id IN (${poolIds.map(() => '?').join(',')})`
+      : `p.status = 'active'`;
+
+    return this.dbService.query<PoolMetrics>(`
+      SELECT
+        p.*,
+        lps.hashrate,
+        lps.miners_count,
+        lps.blocks_found_24h,
+        lps.luck_7d,
+        lps.timestamp as last_updated,
+        COALESCE(recent_blocks.block_count, 0) as recent_blocks,
+        avg_luck.avg_luck_7d, -- NULL when the pool reported no luck in the window
+        avg_luck.avg_luck_30d
+      FROM pools p
+      LEFT JOIN latest_pool_stats lps ON p.id = lps.pool_id
+      LEFT JOIN (
+        SELECT pool_id, COUNT(*) as block_count
+        FROM blocks
+        WHERE timestamp > datetime('now', '-24 hours') AND status != 'orphaned'
+        GROUP BY pool_id
+      ) recent_blocks ON p.id = recent_blocks.pool_id
+      LEFT JOIN (
+        SELECT
+          pool_id,
+          AVG(CASE WHEN timestamp > datetime('now', '-7 days') THEN luck_7d END) as avg_luck_7d,
+          AVG(CASE WHEN timestamp > datetime('now', '-30 days') THEN luck_7d END) as avg_luck_30d
+        FROM pool_statistics
+        GROUP BY pool_id
+      ) avg_luck ON p.id = avg_luck.pool_id
+      WHERE ${filter}
+      ORDER BY lps.hashrate DESC NULLS LAST
+    `, poolIds ?? []);
+  }
+
+  private async loadContext(coin: Coin): Promise<ScoringContext> {
+    const network = await this.dbService.queryOne<{ difficulty: number; block_number: number | null }>(
+      'SELECT difficulty, block_number FROM network_stats WHERE coin = ? ORDER BY timestamp DESC LIMIT 1',
+      [coin]
+    );
+
+    return {
+      networkDifficulty: network?.difficulty || 0,
+      blockReward: blockRewardFor(coin, network?.block_number)
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { DatabaseService } from './DatabaseService';
+import { POOL_SERIES_METRICS, RollupService } from './RollupService';
+import { parseSeriesQuery, planSeries } from '../utils/timeseries';
+
+const RETENTION = { '1m': 7 * 86400, '1h': 90 * 86400, '1d': 0 };
+
+describe('RollupService', () => {
+  let dbService: DatabaseService;
+  let rollupService: RollupService;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+
+    await dbService.execute(
+      `INSERT INTO pools (id, name, api_url, adapter_type, fee_percentage, payout_method)
+       VALUES (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?)`,
+      [
+        'pool-1', 'Test Pool', 'http://127.0.0.1/unused', 'ethermine', 1.0, 'PPLNS',
+        'pool-2', 'Quiet Pool', 'http://127.0.0.1/unused', 'ethermine', 1.0, 'PPLNS'
+      ]
+    );
+
+    // Two readings a minute for the last three days, hashrate rising by 1 H/s per reading
+    const values: string[] = [];
+    for (let i = 0; i < 3 * 24 * 120; i++) {
+      values.push(`('pool-1', ${1000 + i}, 10, 95, datetime('now', '-${i * 30} seconds'))`);
+    }
+    await dbService.execute(
+      `INSERT INTO pool_statistics (pool_id, hashrate, miners_count, luck_7d, timestamp) VALUES ${values.join(', ')}`
+    );
+
+    rollupService = new RollupService(dbService, { raw: 24 * 3600, resolutions: RETENTION });
+  });
+
+  afterAll(async () => {
+    await dbService.close();
+  });
+
+  it('folds raw readings into every rollup level and expires old raw rows', async () => {
+    await rollupService.runCompaction();
+
+    const counts = await dbService.query<any>(`
+      SELECT resolution, SUM(sample_count) as samples, MIN(hashrate_min) as low, MAX(hashrate_max) as high
+      FROM pool_statistics_rollup
+      GROUP BY resolution
+      ORDER BY resolution
+    `);
+    expect(counts).toEqual([
+      { resolution: '1d', samples: 8640, low: 1000, high: 9639 },
+      { resolution: '1h', samples: 8640, low: 1000, high: 9639 },
+      { resolution: '1m', samples: 8640, low: 1000, high: 9639 }
+    ]);
+
+    const raw = await dbService.queryOne<any>(
+      `SELECT COUNT(*) as count FROM pool_statistics WHERE timestamp < datetime('now', '-1 day')`
+    );
+    expect(raw.count).toBe(0);
+  });
+
+  it('recomputes the newest bucket instead of double counting it', async () => {
+    await dbService.execute(
+      `INSERT INTO pool_statistics (pool_id, hashrate, miners_count, luck_7d, timestamp) VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      ['pool-1', 500, 10, 95]
+    );
+    await rollupService.runCompaction();
+    await rollupService.runCompaction();
+
+    const totals = await dbService.query<any>(
+      'SELECT resolution, SUM(sample_count) as samples FROM pool_statistics_rollup GROUP BY resolution ORDER BY resolution'
+    );
+    expect(totals.map(row => row.samples)).toEqual([8641, 8641, 8641]);
+  });
+
+  it('returns evenly spaced points at a resolution that fits the period', async () => {
+    const day = (await rollupService.getPoolSeries(['pool-1'], parseSeriesQuery({ period: '24h', limit: '100' }, POOL_SERIES_METRICS, '7d'))).series[0]!;
+
+    const timestamps = day.points.map(point => Date.parse(point.timestamp));
+    expect(new Set(timestamps.slice(1).map((time, index) => time - timestamps[index]!))).toEqual(new Set([900000]));
+
+    // 15 minutes of 30s readings per point, averaged across the 1m buckets
+    const full = day.points[10]!;
+    expect(full.sample_count).toBe(30);
+    expect(full.hashrate).toBeCloseTo((full.hashrate_min + full.hashrate_max) / 2);
+
+    const month = (await rollupService.getPoolSeries(['pool-1'], parseSeriesQuery({ period: '30d', limit: '100' }, POOL_SERIES_METRICS, '7d'))).series[0]!;
+    // Only the last three days hold data; earlier steps are explicit gaps
+    expect(month.points[0]).toMatchObject({ hashrate: null, sample_count: null });
+    expect(month.points.filter(point => point.sample_count !== null).length).toBeGreaterThanOrEqual(6);
+  });
+
+  it('plans the resolution from the period and limit', () => {
+    const now = new Date();
+    const plan = (period: string) => planSeries(parseSeriesQuery({ period, limit: '100' }, POOL_SERIES_METRICS, '7d'), RETENTION, now);
+
+    expect(plan('24h')).toMatchObject({ resolution: '1m', step: 900 });
+    expect(plan('30d')).toMatchObject({ resolution: '1h', step: 43200 });
+    expect(plan('1y')).toMatchObject({ resolution: '1d', step: 7 * 86400 });
+  });
+
+  it('serves explicit ranges, intervals, metrics and aggregations for several pools at once', async () => {
+    const to = new Date();
+    const from = new Date(to.getTime() - 6 * 3600 * 1000);
+    const query = parseSeriesQuery(
+      { from: from.toISOString(), to: String(Math.floor(to.getTime() / 1000)), interval: '1h', metrics: 'hashrate,luck_7d', aggregations: 'max' },
+      POOL_SERIES_METRICS,
+      '7d'
+    );
+
+    const result = await rollupService.getPoolSeries(['pool-1', 'pool-2'], query);
+
+    expect(result).toMatchObject({ resolution: '1h', step: 3600 });
+    expect(result.series.map(series => series.pool_id)).toEqual(['pool-1', 'pool-2']);
+    expect(Object.keys(result.series[0]!.points[0]!)).toEqual(['timestamp', 'sample_count', 'hashrate_max', 'luck_7d_max']);
+    expect(result.series[0]!.points.every(point => point.luck_7d_max === 95)).toBe(true);
+    expect(result.series[1]!.points.every(point => point.hashrate_max === null)).toBe(true);
+    expect(result.series[0]!.points.map(point => point.timestamp)).toEqual(result.series[1]!.points.map(point => point.timestamp));
+  });
+
+  it('rejects intervals finer than the retained rollups and unknown metrics', () => {
+    const old = new Date(Date.now() - 30 * 86400 * 1000).toISOString();
+
+    expect(() => planSeries(parseSeriesQuery({ from: old, interval: '5m' }, POOL_SERIES_METRICS, '7d'), RETENTION))
+      .toThrow('interval is too fine for data that old; use a multiple of 1h');
+    expect(() => parseSeriesQuery({ metrics: 'hashrate,gas_price' }, POOL_SERIES_METRICS, '7d'))
+      .toThrow('Invalid metrics (gas_price)');
+    expect(() => parseSeriesQuery({ interval: '90s' }, POOL_SERIES_METRICS, '7d'))
+      .toThrow('Invalid interval');
+  });
+});
@@ -0,0 +1,274 @@
+import { DatabaseService } from './DatabaseService';
+import { Coin, RollupResolution, SeriesQuery } from '../types';
+import { DEFAULT_COIN } from '../utils/coins';
+import { toSqlTimestamp } from '../utils/dates';
+import { fillSeries, planSeries, SeriesPlan, seriesColumn } from '../utils/timeseries';
+
+/**
+ * A raw time-series table and the rollup table its buckets are folded into.
+ * Rollups are keyed by `keys` (e.g. pool_id) plus resolution and bucket_start.
+ */
+interface RollupTarget {
+  source: string;
+  rollup: string;
+  keys: string[];
+  metrics: string[];
+}
+
+// Metrics the history endpoints can select from
+export const POOL_SERIES_METRICS = ['hashrate', 'miners_count', 'blocks_found_24h', 'luck_7d', 'difficulty', 'block_time'];
+export const NETWORK_SERIES_METRICS = ['total_hashrate', 'difficulty', 'block_time', 'pending_transactions', 'gas_price'];
+
+const POOL_STATISTICS: RollupTarget = {
+  source: 'pool_statistics',
+  rollup: 'pool_statistics_rollup',
+  keys: ['pool_id'],
+  metrics: POOL_SERIES_METRICS
+};
+
+const NETWORK_STATS: RollupTarget = {
+  source: 'network_stats',
+  rollup: 'network_stats_rollup',
+  keys: ['coin'],
+  metrics: NETWORK_SERIES_METRICS
+};
+
+// strftime format that truncates a timestamp to the start of its bucket
+const BUCKET_FORMATS: Record<RollupResolution, string> = {
+  '1m': '%Y-%m-%d %H:%M:00',
+  '1h': '%Y-%m-%d %H:00:00',
+  '1d': '%Y-%m-%d 00:00:00'
+};
+
+// Each rollup is built from the next finer level; 1m comes from the raw table
+const ROLLUP_SOURCES: { resolution: RollupResolution; from: RollupResolution | 'raw' }[] = [
+  { resolution: '1m', from: 'raw' },
+  { resolution: '1h', from: '1m' },
+  { resolution: '1d', from: '1h' }
+];
+
+export interface RollupRetention {
+  raw: number;                           // seconds
+  resolutions: Record<RollupResolution, number>; // seconds, 0 = kept forever
+}
+
+export interface SeriesResult {
+  resolution: RollupResolution;
+  step: number;
+  points: Record<string, any>[];
+}
+
+export interface PoolSeriesResult {
+  resolution: RollupResolution;
+  step: number;
+  series: { pool_id: string; points: Record<string, any>[] }[];
+}
+
+export class RollupService {
+  private dbService: DatabaseService;
+  private retention: RollupRetention;
+  private compactionInterval?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+
+  constructor(dbService: DatabaseService, retention?: RollupRetention) {
+    this.dbService = dbService;
+    this.retention = retention || this.loadRetention();
+  }
+
+  private loadRetention(): RollupRetention {
+    const days = (value: string | undefined, fallback: number): number => parseFloat(value ?? String(fallback)) * 86400;
+
+    return {
+      raw: parseFloat(process.env.RETENTION_RAW_HOURS || '48') * 3600,
+      resolutions: {
+        '1m': days(process.env.RETENTION_1M_DAYS, 7),
+        '1h': days(process.env.RETENTION_1H_DAYS, 90),
+        '1d': days(process.env.RETENTION_1D_DAYS, 0)
+      }
+    };
+  }
+
+  public startCompaction(): void {
+    if (this.isRunning) {
+      console.log('⚠️  Rollup compaction already running');
+      return;
+    }
+
+    this.isRunning = true;
+    const interval = parseInt(process.env.ROLLUP_INTERVAL || '60000');
+
+    console.log(`🗜️  Starting rollup compaction (interval: ${interval}ms)`);
+
+    // Initial compaction
+    this.runCompaction();
+
+    // Set up recurring compaction
+    this.compactionInterval = setInterval(() => {
+      this.runCompaction();
+    }, interval);
+  }
+
+  public stopCompaction(): void {
+    if (this.compactionInterval) {
+      clearInterval(this.compactionInterval);
+      this.compactionInterval = undefined;
+    }
+    this.isRunning = false;
+    console.log('🗜️  Rollup compaction stopped');
+  }
+
+  /**
+   * Fold new readings into every rollup level, then drop what has aged out.
+   * Retention always runs after compaction so no raw row is deleted before
+   * it has been counted.
+   */
+  public async runCompaction(): Promise<void> {
+    try {
+      for (const target of [POOL_STATISTICS, NETWORK_STATS]) {
+        await this.compact(target);
+        await this.applyRetention(target);
+      }
+    } catch (error) {
+      console.error('❌ Failed to compact time series:', error);
+    }
+  }
+
+  /**
+   * One evenly spaced series per pool, all on the same time axis so they
+   * can be drawn on a single comparison chart.
+   */
+  public async getPoolSeries(poolIds: string[], query: SeriesQuery): Promise<PoolSeriesResult> {
+    const { plan, columns, rows } = await this.querySeries(POOL_STATISTICS, query, poolIds);
+
+    return {
+      resolution: plan.resolution,
+      step: plan.step,
+      series: poolIds.map(poolId => ({
+        pool_id: poolId,
+        points: fillSeries(plan, rows.filter(row => row.pool_id === poolId), columns)
+      }))
+    };
+  }
+
+  public async getNetworkSeries(query: SeriesQuery, coin: Coin = DEFAULT_COIN): Promise<SeriesResult> {
+    const { plan, columns, rows } = await this.querySeries(NETWORK_STATS, query, [coin]);
+
+    return {
+      resolution: plan.resolution,
+      step: plan.step,
+      points: fillSeries(plan, rows, columns)
+    };
+  }
+
+  /**
+   * Rebuild every bucket from the newest existing one onwards. The newest
+   * bucket is usually still filling up, so it is recomputed rather than
+   * appended to; older buckets are final and never touched again.
+   */
+  private async compact(target: RollupTarget): Promise<void> {
+    for (const { resolution, from } of ROLLUP_SOURCES) {
+      const latest = await this.dbService.queryOne<{ bucket_start: string | null }>(
+        `SELECT MAX(bucket_start) as bucket_start FROM ${target.rollup} WHERE resolution = ?`,
+        [resolution]
+      );
+      const since = latest?.bucket_start || '1970-01-01 00:00:00';
+
+      const bucketExpression = `strftime('${BUCKET_FORMATS[resolution]}', ${from === 'raw' ? 'timestamp' : 'bucket_start'})`;
+      const aggregates = from === 'raw'
+        ? target.metrics.map(metric => `MIN(${metric}), AVG(${metric}), MAX(${metric})`)
+        : target.metrics.map(metric => `MIN(${metric}_min), ${this.weightedAverage(metric)}, MAX(${metric}_max)`);
+      const sourceFilter = from === 'raw'
+        ? `FROM ${target.source} WHERE timestamp >= ?`
+        : `FROM ${target.rollup} WHERE resolution = '${from}' AND bucket_start >= ?`;
+
+      const keyColumns = target.keys.map(key => `${key}, `).join('');
+      const metricColumns = target.metrics.flatMap(metric => [`${metric}_min`, `${metric}_avg`, `${metric}_max`]);
+
+      await this.dbService.execute(`
+        INSERT INTO ${target.rollup} (${keyColumns}resolution, bucket_start, sample_count, ${metricColumns.join(', ')})
+        SELECT ${keyColumns}'${resolution}', ${bucketExpression} as bucket,
+          ${from === 'raw' ? 'COUNT(*)' : 'SUM(sample_count)'}, ${aggregates.join(', ')}
+        ${sourceFilter}
+        GROUP BY ${keyColumns}bucket
+        ON CONFLICT (${keyColumns}resolution, bucket_start) DO UPDATE SET
+          sample_count = excluded.sample_count,
+          ${metricColumns.map(column => `${column} = excluded.${column}`).join(',\n          ')}
+      `, [since]);
+    }
+  }
+
+  private async applyRetention(target: RollupTarget): Promise<void> {
+    const now = Date.now();
+    const cutoff = (seconds: number): string => toSqlTimestamp(new Date(now - seconds * 1000));
+
+    // Always keep the newest raw reading (per key) so "latest" views stay populated
+    const keyMatch = target.keys.map(key => `AND newest.${key} = ${target.source}.${key}`).join(' ');
+    await this.dbService.execute(`
+      DELETE FROM ${target.source}
+      WHERE timestamp < ?
+        AND timestamp < (SELECT MAX(newest.timestamp) FROM ${target.source} newest WHERE 1 = 1 ${keyMatch})
+    `, [cutoff(this.retention.raw)]);
+
+    for (const [resolution, seconds] of Object.entries(this.retention.resolutions)) {
+      if (seconds <= 0) continue;
+
+      await this.dbService.execute(
+        `DELETE FROM ${target.rollup} WHERE resolution = ? AND bucket_start < ?`,
+        [resolution, cutoff(seconds)]
+      );
+    }
+  }
+
+  /**
+   * Read a rollup at the resolution planned for the query and regroup it into
+   * evenly spaced steps: min of mins, max of maxes and sample-weighted averages.
+   * Rows are grouped per key value when `keyValues` is given (one pool or coin each).
+   */
+  private async querySeries(
+    target: RollupTarget,
+    query: SeriesQuery,
+    keyValues: string[] = []
+  ): Promise<{ plan: SeriesPlan; columns: string[]; rows: any[] }> {
+    const plan = planSeries(query, this.retention.resolutions);
+    const key = target.keys[0];
+
+    const aggregates = query.metrics.flatMap(metric => query.aggregations.map(aggregation => {
+      const expression = aggregation === 'avg'
+        ? this.weightedAverage(metric)
+        : `${aggregation.toUpperCase()}(${metric}_${aggregation})`;
+      return `${expression} as ${seriesColumn(metric, aggregation)}`;
+    }));
+    const keyCondition = key && keyValues.length > 0
+      ? `AND ${key} IN (${keyValues.map(() => '?').join(', ')})`
+      : '';
+    const keyColumn = key && keyValues.length > 0 ? `${key}, ` : '';
+
+    const rows = await this.dbService.query(`
+      SELECT
+        ${keyColumn}(CAST(strftime('%s', bucket_start) AS INTEGER) / ?) * ? as bucket,
+        SUM(sample_count) as sample_count,
+        ${aggregates.join(',\n        ')}
+      FROM ${target.rollup}
+      WHERE resolution = ? ${keyCondition} AND bucket_start >= ? AND bucket_start < ?
+      GROUP BY ${keyColumn}bucket
+      ORDER BY bucket
+    `, [
+      plan.step,
+      plan.step,
+      plan.resolution,
+      ...keyValues,
+      toSqlTimestamp(new Date(plan.from * 1000)),
+      toSqlTimestamp(new Date((plan.to + plan.step) * 1000))
+    ]);
+
+    const columns = ['sample_count', ...query.metrics.flatMap(metric =>
+      query.aggregations.map(aggregation => seriesColumn(metric, aggregation))
+    )];
+    return { plan, columns, rows };
+  }
+
+  // Average of bucket averages weighted by how many readings each one holds
+  private weightedAverage(metric: string): string {
+    return `SUM(${metric}_avg * sample_count) / SUM(CASE WHEN ${metric}_avg IS NOT NULL THEN sample_count END)`;
+  }
+}
@@ -0,0 +1,194 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { DatabaseService } from './DatabaseService';
+import { AuthService } from './AuthService';
+import { WebSocketService } from './WebSocketService';
+
+/**
+ * Test client that queues every message so tests can wait for the next one of a type
+ */
+class TestClient {
+  private messages: any[] = [];
+  private waiters: (() => void)[] = [];
+  private socket: WebSocket;
+
+  constructor(url: string) {
+    this.socket = new WebSocket(url);
+    this.socket.on('message', data => {
+      this.messages.push(JSON.parse(data.toString()));
+      this.waiters.splice(0).forEach(wake => wake());
+    });
+  }
+
+  send(message: any): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  async next(type: string): Promise<any> {
+    for (;;) {
+      const index = this.messages.findIndex(message => message.type === type);
+      if (index !== -1) return this.messages.splice(index, 1)[0];
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  received(type: string): any[] {
+    return this.messages.filter(message => message.type === type);
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
+
+describe('WebSocketService', () => {
+  let dbService: DatabaseService;
+  let authService: AuthService;
+  let server: http.Server;
+  let wss: WebSocketServer;
+  let websocketService: WebSocketService;
+  let url: string;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = 'sqlite::memory:';
+    process.env.DATABASE_TYPE = 'sqlite';
+    dbService = new DatabaseService();
+    await dbService.initialize();
+    authService = new AuthService(dbService, { secret: 'test-secret', bcryptRounds: 4 });
+
+    server = http.createServer();
+    wss = new WebSocketServer({ server });
+    websocketService = new WebSocketService(wss);
+    websocketService.setAuthService(authService);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    wss.clients.forEach(client => client.terminate());
+    await new Promise<void>(resolve => wss.close(() => resolve()));
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await dbService.close();
+  });
+
+  const connect = async (): Promise<TestClient> => {
+    const client = new TestClient(url);
+    await client.next('connection');
+    return client;
+  };
+
+  const login = async (client: TestClient, email: string): Promise<string> => {
+    const user = await authService.createUser(email, 'correct horse');
+    const token = (await authService.createSession(user)).token;
+    client.send({ type: 'auth', data: { token } });
+    await client.next('authenticated');
+    return token;
+  };
+
+  const connectAs = async (email: string | null): Promise<TestClient> => {
+    const client = await connect();
+    if (email) {
+      await login(client, email);
+    }
+    client.send({ type: 'subscribe', data: { channels: ['alerts', 'blocks'] } });
+    return client;
+  };
+
+  it('publishes updates only to the channels a socket subscribed to', async () => {
+    const allPools = await connect();
+    const onePool = await connect();
+
+    allPools.send({ type: 'subscribe', data: { channels: ['pools', 'network'] } });
+    expect((await allPools.next('subscription_confirmed')).data).toEqual({ channels: ['pools', 'network'], rejected: [] });
+    onePool.send({ type: 'subscribe', data: ['pool:pool-1', 'pool:', 'weather'] });
+    expect((await onePool.next('subscription_confirmed')).data).toEqual({ channels: ['pool:pool-1'], rejected: ['pool:', 'weather'] });
+
+    websocketService.broadcastPoolUpdate({ id: 'pool-2', hashrate: 1 });
+    websocketService.broadcastPoolUpdate({ id: 'pool-1', hashrate: 2 });
+    websocketService.broadcastNetworkUpdate({ difficulty: 3 });
+
+    expect((await allPools.next('pool_update')).data).toEqual({ id: 'pool-2', hashrate: 1 });
+    expect((await allPools.next('pool_update')).data).toEqual({ id: 'pool-1', hashrate: 2 });
+    await allPools.next('network_update');
+    expect((await onePool.next('pool_update')).data).toEqual({ id: 'pool-1', hashrate: 2 });
+
+    onePool.send({ type: 'unsubscribe', data: { channels: ['pool:pool-1'] } });
+    expect((await onePool.next('unsubscription_confirmed')).data.channels).toEqual([]);
+    websocketService.broadcastPoolUpdate({ id: 'pool-1', hashrate: 4 });
+    websocketService.broadcastNetworkUpdate({ difficulty: 5 });
+
+    // The network update goes out after the pool update, so the pool update would have arrived first
+    await allPools.next('pool_update');
+    await allPools.next('network_update');
+    onePool.send({ type: 'ping' });
+    await onePool.next('pong');
+    expect(onePool.received('pool_update')).toEqual([]);
+    expect(onePool.received('network_update')).toEqual([]);
+
+    [allPools, onePool].forEach(client => client.close());
+  });
+
+  it('pushes alerts only to the sockets of the account that owns them', async () => {
+    const owner = await connectAs('owner@example.com');
+    const other = await connectAs('other@example.com');
+    const anonymous = await connectAs(null);
+
+    expect((await owner.next('subscription_confirmed')).data).toEqual({ channels: ['alerts', 'blocks'], rejected: [] });
+    await other.next('subscription_confirmed');
+    expect((await anonymous.next('subscription_confirmed')).data).toEqual({ channels: ['blocks'], rejected: ['alerts'] });
+
+    const ownerId = (await authService.findUserByEmail('owner@example.com'))!.id;
+    websocketService.broadcastAlert(ownerId, { subscription_id: 'sub-1', message: 'Hashrate dropped' });
+    websocketService.broadcastNewBlock({ pool_id: 'pool-1', block_number: 1 });
+
+    expect((await owner.next('alert')).data).toEqual({ subscription_id: 'sub-1', message: 'Hashrate dropped' });
+    // Blocks are public and published after the alert, so once they arrive the alert would have too
+    await other.next('new_block');
+    await anonymous.next('new_block');
+    expect(other.received('alert')).toEqual([]);
+    expect(anonymous.received('alert')).toEqual([]);
+
+    [owner, other, anonymous].forEach(client => client.close());
+  });
+
+  it('drops the alerts channel when a socket fails to authenticate', async () => {
+    const client = await connectAs('switcher@example.com');
+    await client.next('subscription_confirmed');
+
+    client.send({ type: 'auth', data: { token: 'not-a-jwt' } });
+    await client.next('auth_failed');
+    client.send({ type: 'subscribe', data: { channels: [] } });
+
+    expect((await client.next('subscription_confirmed')).data.channels).toEqual(['blocks']);
+    client.close();
+  });
+
+  it('drops the alerts channel of sockets on a session that logged out', async () => {
+    const loggedOut = await connect();
+    const token = await login(loggedOut, 'leaver@example.com');
+    const otherSession = await connect();
+    const user = (await authService.findUserByEmail('leaver@example.com'))!;
+    otherSession.send({ type: 'auth', data: { token: (await authService.createSession(user)).token } });
+    await otherSession.next('authenticated');
+    for (const client of [loggedOut, otherSession]) {
+      client.send({ type: 'subscribe', data: { channels: ['alerts', 'blocks'] } });
+      await client.next('subscription_confirmed');
+    }
+
+    websocketService.revokeSession(token);
+    expect((await loggedOut.next('session_revoked')).data).toEqual({ channels: ['blocks'] });
+
+    websocketService.broadcastAlert(user.id, { subscription_id: 'sub-2', message: 'Pool offline' });
+    websocketService.broadcastNewBlock({ pool_id: 'pool-1', block_number: 2 });
+    expect((await otherSession.next('alert')).data).toEqual({ subscription_id: 'sub-2', message: 'Pool offline' });
+    await loggedOut.next('new_block');
+    expect(loggedOut.received('alert')).toEqual([]);
+
+    // Without an identity the socket cannot rejoin
+    loggedOut.send({ type: 'subscribe', data: { channels: ['alerts'] } });
+    expect((await loggedOut.next('subscription_confirmed')).data).toEqual({ channels: ['blocks'], rejected: ['alerts'] });
+
+    [loggedOut, otherSession].forEach(client => client.close());
+  });
+});
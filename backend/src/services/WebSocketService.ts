@@ -1,24 +1,45 @@
 import { WebSocketServer, WebSocket } from 'ws';
+import { AuthService } from './AuthService';
+import { AuthUser, WebSocketChannel } from '../types';
+
+const STATIC_CHANNELS: WebSocketChannel[] = ['pools', 'network', 'blocks', 'alerts'];
+
+// Channels carrying one account's own data; only sockets that sent a valid session token may join them
+const PRIVATE_CHANNELS: WebSocketChannel[] = ['alerts'];
+
+interface ClientState {
+  channels: Set<WebSocketChannel>;
+  user?: AuthUser;  // Set by an { type: 'auth', data: { token } } message
+  token?: string;   // The session token user came from, so logging out of it can drop the socket's identity
+}
 
 export class WebSocketService {
   private wss: WebSocketServer;
-  private clients: Set<WebSocket> = new Set();
+  private authService?: AuthService;
+  // Each connected client with the channels it subscribed to and the account it authenticated as
+  private clients: Map<WebSocket, ClientState> = new Map();
 
   constructor(wss: WebSocketServer) {
     this.wss = wss;
     this.initialize();
   }
 
+  // Called from server.ts once the auth service exists; until then every auth message fails
+  public setAuthService(authService: AuthService): void {
+    this.authService = authService;
+  }
+
   private initialize(): void {
     this.wss.on('connection', (ws: WebSocket, req) => {
       console.log('🔌 New WebSocket connection from:', req.socket.remoteAddress);
-      
-      this.clients.add(ws);
-      
+
+      this.clients.set(ws, { channels: new Set() });
+
       // Send welcome message
       this.sendToClient(ws, {
         type: 'connection',
         message: 'Connected to Mining Dashboard WebSocket',
+        channels: STATIC_CHANNELS,
         timestamp: new Date().toISOString()
       });
 
@@ -54,22 +75,118 @@ export class WebSocketService {
           timestamp: new Date().toISOString()
         });
         break;
-      
+
+      case 'auth':
+        this.authenticate(ws, message.data?.token);
+        break;
+
       case 'subscribe':
-        // Handle subscription to specific data types (pools, network stats, etc.)
-        console.log('Client subscribed to:', message.data);
+      case 'unsubscribe': {
+        const client = this.clients.get(ws);
+        if (!client) break;
+
+        const { valid, rejected } = this.parseChannels(message.data);
+        valid.forEach(channel => {
+          if (message.type === 'unsubscribe') {
+            client.channels.delete(channel);
+          } else if (PRIVATE_CHANNELS.includes(channel) && !client.user) {
+            rejected.push(channel);
+          } else {
+            client.channels.add(channel);
+          }
+        });
+
         this.sendToClient(ws, {
-          type: 'subscription_confirmed',
-          data: message.data,
+          type: message.type === 'subscribe' ? 'subscription_confirmed' : 'unsubscription_confirmed',
+          data: {
+            channels: Array.from(client.channels),
+            rejected
+          },
           timestamp: new Date().toISOString()
         });
         break;
-      
+      }
+
       default:
         console.log('Unknown message type:', message.type);
     }
   }
 
+  /**
+   * Tie the socket to the account behind a session token. A failed attempt
+   * also drops a previous identity and the private channels that came with it.
+   */
+  private async authenticate(ws: WebSocket, token: unknown): Promise<void> {
+    const client = this.clients.get(ws);
+    if (!client) return;
+
+    const user = this.authService && typeof token === 'string'
+      ? await this.authService.authenticate(token).catch(() => null)
+      : null;
+
+    if (user) {
+      client.user = user;
+      client.token = token as string;
+    } else {
+      this.dropIdentity(client);
+    }
+
+    this.sendToClient(ws, {
+      type: user ? 'authenticated' : 'auth_failed',
+      data: user ? { user } : { error: 'Session expired or invalid, please log in again' },
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Called when a session is revoked (logout): sockets authenticated with its
+   * token lose the account and its private channels but stay connected.
+   */
+  public revokeSession(token: string): void {
+    this.clients.forEach((client, ws) => {
+      if (client.token !== token) return;
+
+      this.dropIdentity(client);
+      this.sendToClient(ws, {
+        type: 'session_revoked',
+        data: { channels: Array.from(client.channels) },
+        timestamp: new Date().toISOString()
+      });
+    });
+  }
+
+  private dropIdentity(client: ClientState): void {
+    client.user = undefined;
+    client.token = undefined;
+    PRIVATE_CHANNELS.forEach(channel => client.channels.delete(channel));
+  }
+
+  // Accepts either an array of channel names or { channels: [...] }
+  private parseChannels(data: any): { valid: WebSocketChannel[]; rejected: any[] } {
+    const requested: any[] = Array.isArray(data)
+      ? data
+      : Array.isArray(data?.channels) ? data.channels : [data];
+
+    const valid: WebSocketChannel[] = [];
+    const rejected: any[] = [];
+
+    requested.forEach(channel => {
+      if (this.isValidChannel(channel)) {
+        valid.push(channel);
+      } else {
+        rejected.push(channel);
+      }
+    });
+
+    return { valid, rejected };
+  }
+
+  private isValidChannel(channel: any): channel is WebSocketChannel {
+    if (typeof channel !== 'string') return false;
+    if ((STATIC_CHANNELS as string[]).includes(channel)) return true;
+    return /^pool:[\w-]+$/.test(channel);
+  }
+
   private sendToClient(ws: WebSocket, data: any): void {
     if (ws.readyState === WebSocket.OPEN) {
       try {
@@ -82,10 +199,20 @@ export class WebSocketService {
 
   // Broadcast to all connected clients
   public broadcast(data: any): void {
+    this.sendWhere(() => true, data);
+  }
+
+  // Send to clients subscribed to at least one of the given channels
+  public publish(channels: WebSocketChannel[], data: any): void {
+    this.sendWhere(state => channels.some(channel => state.channels.has(channel)), data);
+  }
+
+  private sendWhere(predicate: (state: ClientState) => boolean, data: any): void {
     const message = JSON.stringify(data);
-    
-    this.clients.forEach((client) => {
+
+    this.clients.forEach((state, client) => {
       if (client.readyState === WebSocket.OPEN) {
+        if (!predicate(state)) return;
         try {
           client.send(message);
         } catch (error) {
@@ -99,36 +226,39 @@ export class WebSocketService {
     });
   }
 
-  // Send mining pool updates to all clients
+  // Send mining pool updates to subscribers of that pool or of all pools
   public broadcastPoolUpdate(poolData: any): void {
-    this.broadcast({
+    this.publish(['pools', `pool:${poolData.id}`], {
       type: 'pool_update',
       data: poolData,
       timestamp: new Date().toISOString()
     });
   }
 
-  // Send network stats updates to all clients
+  // Send network stats updates to network subscribers
   public broadcastNetworkUpdate(networkData: any): void {
-    this.broadcast({
+    this.publish(['network'], {
       type: 'network_update',
       data: networkData,
       timestamp: new Date().toISOString()
     });
   }
 
-  // Send new block notifications to all clients
+  // Send new block notifications to block subscribers and the finding pool's subscribers
   public broadcastNewBlock(blockData: any): void {
-    this.broadcast({
+    this.publish(['blocks', `pool:${blockData.pool_id}`], {
       type: 'new_block',
       data: blockData,
       timestamp: new Date().toISOString()
     });
   }
 
-  // Send alert notifications to all clients
-  public broadcastAlert(alertData: any): void {
-    this.broadcast({
+  // Send an alert only to the owning account's sockets subscribed to alerts;
+  // alerts of subscriptions without an owner are not pushed at all
+  public broadcastAlert(userId: string | null, alertData: any): void {
+    if (!userId) return;
+
+    this.sendWhere(state => state.user?.id === userId && state.channels.has('alerts'), {
       type: 'alert',
       data: alertData,
       timestamp: new Date().toISOString()
@@ -147,4 +277,4 @@ export class WebSocketService {
       connections: this.clients.size
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+import { EthermineResponse, EtherminePoolStatsResponse, EthermineWorkersResponse, MinerSnapshot, PoolRow, PoolSnapshot, WorkerSnapshot } from '../../types';
+import { HttpPoolAdapter, WORKER_OFFLINE_AFTER_MS } from './PoolAdapter';
+
+export class EthermineAdapter extends HttpPoolAdapter<EtherminePoolStatsResponse> {
+  public readonly type = 'ethermine';
+  protected readonly statsPath = '/poolStats';
+
+  protected toSnapshot(response: EtherminePoolStatsResponse): PoolSnapshot {
+    const { poolStats, minedBlocks } = response.data;
+    const lastBlock = minedBlocks?.[0];
+
+    return {
+      hashrate: poolStats.hashRate,
+      minersCount: poolStats.miners,
+      blocksFound24h: Math.round(poolStats.blocksPerHour * 24),
+      lastBlockTime: lastBlock ? new Date(lastBlock.time * 1000) : undefined
+    };
+  }
+
+  public async fetchMinerStats(pool: PoolRow, address: string): Promise<MinerSnapshot> {
+    const response = await this.getJson<EthermineResponse>(pool, `/miner/${encodeURIComponent(address)}/currentStats`);
+    const stats = response.data;
+
+    return {
+      reportedHashrate: stats.reportedHashrate,
+      currentHashrate: stats.currentHashrate,
+      validShares: stats.validShares,
+      invalidShares: stats.invalidShares,
+      staleShares: stats.staleShares,
+      activeWorkers: stats.activeWorkers,
+      unpaid: this.weiToEth(stats.unpaid || 0)
+    };
+  }
+
+  public async fetchWorkers(pool: PoolRow, address: string): Promise<WorkerSnapshot[]> {
+    const response = await this.getJson<EthermineWorkersResponse>(pool, `/miner/${encodeURIComponent(address)}/workers`);
+
+    // Ethermine has no online flag; a worker is online while it keeps submitting shares
+    return (response.data || []).map(worker => ({
+      name: worker.worker,
+      isOnline: (worker.time - worker.lastSeen) * 1000 < WORKER_OFFLINE_AFTER_MS,
+      lastSeen: new Date(worker.lastSeen * 1000),
+      reportedHashrate: worker.reportedHashrate,
+      currentHashrate: worker.currentHashrate,
+      validShares: worker.validShares,
+      invalidShares: worker.invalidShares,
+      staleShares: worker.staleShares
+    }));
+  }
+}
@@ -0,0 +1,18 @@
+import { F2PoolResponse, PoolSnapshot } from '../../types';
+import { HttpPoolAdapter } from './PoolAdapter';
+
+export class F2PoolAdapter extends HttpPoolAdapter<F2PoolResponse> {
+  public readonly type = 'f2pool';
+  protected readonly statsPath = '/eth';
+
+  protected toSnapshot(response: F2PoolResponse): PoolSnapshot {
+    const { data } = response;
+
+    return {
+      hashrate: data.hashrate,
+      minersCount: data.miners,
+      blocksFound24h: data.blocks_found,
+      luck7d: data.luck
+    };
+  }
+}
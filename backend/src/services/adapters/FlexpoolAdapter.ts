@@ -0,0 +1,84 @@
+import {
+  FlexpoolBlocksResponse,
+  FlexpoolMinerBalanceResponse,
+  FlexpoolMinerStatsResponse,
+  FlexpoolResponse,
+  FlexpoolWorkerCountResponse,
+  FlexpoolWorkersResponse,
+  MinerSnapshot,
+  PoolBlock,
+  PoolRow,
+  PoolSnapshot,
+  WorkerSnapshot
+} from '../../types';
+import { HttpPoolAdapter } from './PoolAdapter';
+
+export class FlexpoolAdapter extends HttpPoolAdapter<FlexpoolResponse> {
+  public readonly type = 'flexpool';
+  protected readonly statsPath = '/pool/stats';
+
+  protected toSnapshot(response: FlexpoolResponse): PoolSnapshot {
+    const { result } = response;
+
+    return {
+      hashrate: result.hashrate,
+      minersCount: result.minerCount,
+      blocksFound24h: result.blockCount,
+      // Flexpool reports luck as a ratio (1.0 = 100%)
+      luck7d: result.luck * 100
+    };
+  }
+
+  public async fetchBlocks(pool: PoolRow): Promise<PoolBlock[]> {
+    const response = await this.getJson<FlexpoolBlocksResponse>(pool, '/pool/blocks');
+
+    return response.result.data.map(block => ({
+      blockNumber: block.number,
+      hash: block.hash,
+      timestamp: new Date(block.timestamp * 1000),
+      reward: this.weiToEth(block.reward),
+      difficulty: block.difficulty,
+      uncle: block.type === 'uncle',
+      status: block.type === 'orphan' ? 'orphaned' : block.confirmed ? 'confirmed' : 'immature'
+    }));
+  }
+
+  public async fetchMinerStats(pool: PoolRow, address: string): Promise<MinerSnapshot> {
+    const query = this.minerQuery(pool, address);
+    const [stats, balance, workers] = await Promise.all([
+      this.getJson<FlexpoolMinerStatsResponse>(pool, `/miner/stats${query}`),
+      this.getJson<FlexpoolMinerBalanceResponse>(pool, `/miner/balance${query}`),
+      this.getJson<FlexpoolWorkerCountResponse>(pool, `/miner/workerCount${query}`)
+    ]);
+
+    return {
+      reportedHashrate: stats.result.reportedHashrate,
+      currentHashrate: stats.result.currentEffectiveHashrate,
+      validShares: stats.result.validShares,
+      invalidShares: stats.result.invalidShares,
+      staleShares: stats.result.staleShares,
+      activeWorkers: workers.result.workersOnline,
+      unpaid: this.weiToEth(balance.result.balance || 0)
+    };
+  }
+
+  public async fetchWorkers(pool: PoolRow, address: string): Promise<WorkerSnapshot[]> {
+    const response = await this.getJson<FlexpoolWorkersResponse>(pool, `/miner/workers${this.minerQuery(pool, address)}`);
+
+    return (response.result || []).map(worker => ({
+      name: worker.name,
+      isOnline: worker.isOnline,
+      lastSeen: worker.lastSeen ? new Date(worker.lastSeen * 1000) : undefined,
+      reportedHashrate: worker.reportedHashrate,
+      currentHashrate: worker.currentEffectiveHashrate,
+      validShares: worker.validShares,
+      invalidShares: worker.invalidShares,
+      staleShares: worker.staleShares
+    }));
+  }
+
+  // Flexpool serves every chain from one API, so miner endpoints name the pool's coin
+  private minerQuery(pool: PoolRow, address: string): string {
+    return `?coin=${pool.coin.toLowerCase()}&address=${encodeURIComponent(address)}`;
+  }
+}
@@ -0,0 +1,53 @@
+import axios from 'axios';
+import { MinerSnapshot, MiningPoolApiResponse, PoolBlock, PoolRow, PoolSnapshot, WorkerSnapshot } from '../../types';
+
+/**
+ * A PoolAdapter knows how to talk to one family of pool APIs. Pools are bound
+ * to an adapter through the `adapter_type` column of the `pools` table.
+ */
+export interface PoolAdapter {
+  readonly type: string;
+  fetchPoolStats(pool: PoolRow): Promise<PoolSnapshot>;
+  // Optional: only implemented by pools that publish their found blocks
+  fetchBlocks?(pool: PoolRow): Promise<PoolBlock[]>;
+  // Optional: only implemented by pools with a public per-address endpoint
+  fetchMinerStats?(pool: PoolRow, address: string): Promise<MinerSnapshot>;
+  // Optional: per-worker breakdown of an address
+  fetchWorkers?(pool: PoolRow, address: string): Promise<WorkerSnapshot[]>;
+}
+
+// A worker that hasn't submitted a share for this long is treated as offline
+export const WORKER_OFFLINE_AFTER_MS = 10 * 60 * 1000;
+
+/**
+ * Base class for adapters that read a single JSON endpoint relative to the
+ * pool's api_url and map the typed response onto a PoolSnapshot.
+ */
+export abstract class HttpPoolAdapter<TResponse extends MiningPoolApiResponse> implements PoolAdapter {
+  public abstract readonly type: string;
+  protected abstract readonly statsPath: string;
+  protected readonly timeout: number = 10000;
+
+  public async fetchPoolStats(pool: PoolRow): Promise<PoolSnapshot> {
+    const response = await this.getJson<TResponse>(pool, this.statsPath);
+    return this.toSnapshot(response);
+  }
+
+  protected abstract toSnapshot(response: TResponse): PoolSnapshot;
+
+  protected async getJson<T>(pool: PoolRow, path: string): Promise<T> {
+    const response = await axios.get<T>(this.buildUrl(pool.api_url, path), {
+      timeout: this.timeout
+    });
+    return response.data;
+  }
+
+  protected buildUrl(apiUrl: string, path: string): string {
+    return `${apiUrl.replace(/\/+$/, '')}${path}`;
+  }
+
+  // Pool APIs report rewards in wei, sometimes as decimal strings
+  protected weiToEth(wei: string | number): number {
+    return Number(BigInt(typeof wei === 'number' ? Math.round(wei) : wei)) / 1e18;
+  }
+}
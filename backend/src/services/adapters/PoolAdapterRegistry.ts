@@ -0,0 +1,41 @@
+import { PoolRow } from '../../types';
+import { PoolAdapter } from './PoolAdapter';
+import { EthermineAdapter } from './EthermineAdapter';
+import { F2PoolAdapter } from './F2PoolAdapter';
+import { FlexpoolAdapter } from './FlexpoolAdapter';
+import { TwoMinersAdapter } from './TwoMinersAdapter';
+
+export class PoolAdapterRegistry {
+  private adapters: Map<string, PoolAdapter> = new Map();
+
+  public register(adapter: PoolAdapter): this {
+    this.adapters.set(adapter.type, adapter);
+    return this;
+  }
+
+  public get(type: string): PoolAdapter | undefined {
+    return this.adapters.get(type);
+  }
+
+  public has(type: string): boolean {
+    return this.adapters.has(type);
+  }
+
+  // Resolve the adapter for a `pools` row, or null if the pool isn't collectable
+  public forPool(pool: PoolRow): PoolAdapter | null {
+    if (!pool.adapter_type) return null;
+    return this.adapters.get(pool.adapter_type) || null;
+  }
+
+  public getTypes(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
+
+export const createDefaultPoolAdapterRegistry = (): PoolAdapterRegistry => {
+  return new PoolAdapterRegistry()
+    .register(new EthermineAdapter())
+    .register(new F2PoolAdapter())
+    .register(new FlexpoolAdapter())
+    .register(new TwoMinersAdapter());
+};
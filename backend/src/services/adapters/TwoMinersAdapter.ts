@@ -0,0 +1,71 @@
+import { MinerSnapshot, PoolBlock, PoolRow, PoolSnapshot, TwoMinersAccountResponse, TwoMinersBlock, TwoMinersBlocksResponse, TwoMinersResponse, WorkerSnapshot } from '../../types';
+import { HttpPoolAdapter } from './PoolAdapter';
+
+export class TwoMinersAdapter extends HttpPoolAdapter<TwoMinersResponse> {
+  public readonly type = '2miners';
+  protected readonly statsPath = '/stats';
+
+  protected toSnapshot(response: TwoMinersResponse): PoolSnapshot {
+    return {
+      hashrate: response.hashrate,
+      minersCount: response.minersTotal,
+      luck7d: response.stats.luck,
+      lastBlockTime: response.stats.lastBlockFound
+        ? new Date(response.stats.lastBlockFound * 1000)
+        : undefined
+    };
+  }
+
+  public async fetchBlocks(pool: PoolRow): Promise<PoolBlock[]> {
+    const response = await this.getJson<TwoMinersBlocksResponse>(pool, '/blocks');
+
+    // Candidates have no hash until the pool unlocks them, so they are skipped
+    return [
+      ...(response.immature || []).map(block => this.toPoolBlock(block, 'immature')),
+      ...(response.matured || []).map(block => this.toPoolBlock(block, 'confirmed'))
+    ];
+  }
+
+  public async fetchMinerStats(pool: PoolRow, address: string): Promise<MinerSnapshot> {
+    const response = await this.getJson<TwoMinersAccountResponse>(pool, `/accounts/${encodeURIComponent(address)}`);
+
+    return {
+      // 2Miners only reports pool-side hashrate
+      reportedHashrate: null,
+      currentHashrate: response.currentHashrate,
+      validShares: response.sharesValid || 0,
+      invalidShares: response.sharesInvalid || 0,
+      staleShares: response.sharesStale || 0,
+      activeWorkers: response.workersOnline || 0,
+      // Balances are reported in Gwei
+      unpaid: (response.stats?.balance || 0) / 1e9
+    };
+  }
+
+  public async fetchWorkers(pool: PoolRow, address: string): Promise<WorkerSnapshot[]> {
+    const response = await this.getJson<TwoMinersAccountResponse>(pool, `/accounts/${encodeURIComponent(address)}`);
+
+    return Object.entries(response.workers || {}).map(([name, worker]) => ({
+      name,
+      isOnline: !worker.offline,
+      lastSeen: worker.lastBeat ? new Date(worker.lastBeat * 1000) : undefined,
+      reportedHashrate: worker.rhr ?? null,
+      currentHashrate: worker.hr,
+      validShares: worker.sharesValid || 0,
+      invalidShares: worker.sharesInvalid || 0,
+      staleShares: worker.sharesStale || 0
+    }));
+  }
+
+  private toPoolBlock(block: TwoMinersBlock, status: 'immature' | 'confirmed'): PoolBlock {
+    return {
+      blockNumber: block.uncle ? block.uncleHeight : block.height,
+      hash: block.hash,
+      timestamp: new Date(block.timestamp * 1000),
+      reward: this.weiToEth(block.reward || '0'),
+      difficulty: block.difficulty,
+      uncle: block.uncle,
+      status: block.orphan ? 'orphaned' : status
+    };
+  }
+}
@@ -0,0 +1,6 @@
+export { PoolAdapter, HttpPoolAdapter } from './PoolAdapter';
+export { PoolAdapterRegistry, createDefaultPoolAdapterRegistry } from './PoolAdapterRegistry';
+export { EthermineAdapter } from './EthermineAdapter';
+export { F2PoolAdapter } from './F2PoolAdapter';
+export { FlexpoolAdapter } from './FlexpoolAdapter';
+export { TwoMinersAdapter } from './TwoMinersAdapter';
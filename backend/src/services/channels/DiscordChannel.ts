@@ -0,0 +1,35 @@
+import { AlertNotification, ChannelConfig, ChannelRequest, HttpNotificationChannel, notificationText, truncate } from './NotificationChannel';
+
+interface DiscordConfig {
+  webhook_url: string;
+}
+
+// Discord caps embed titles at 256 and descriptions at 4096 characters
+const MAX_TITLE_LENGTH = 256;
+const MAX_DESCRIPTION_LENGTH = 4096;
+
+// Discord channel webhook, posted as a single embed in the alert's color
+export class DiscordChannel extends HttpNotificationChannel {
+  public readonly type = 'discord';
+
+  public validateConfig(config: ChannelConfig): string | null {
+    return this.checkUrl(config.webhook_url, 'webhook_url');
+  }
+
+  protected buildRequest(config: ChannelConfig, notification: AlertNotification): ChannelRequest {
+    const { webhook_url } = config as unknown as DiscordConfig;
+    const latest = notification.entries[notification.entries.length - 1];
+
+    return {
+      url: webhook_url,
+      body: {
+        embeds: [{
+          title: truncate(notification.title, MAX_TITLE_LENGTH),
+          description: truncate(notificationText(notification), MAX_DESCRIPTION_LENGTH),
+          color: parseInt(notification.color.replace('#', ''), 16),
+          timestamp: (latest?.triggeredAt ?? new Date()).toISOString()
+        }]
+      }
+    };
+  }
+}
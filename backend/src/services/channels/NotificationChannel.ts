@@ -0,0 +1,171 @@
+import axios from 'axios';
+import http from 'http';
+import https from 'https';
+import { AlertHistoryKind, AlertType, NotificationChannelType } from '../../types';
+import { isPrivateHostname, publicOnlyLookup } from '../../utils/network';
+
+// Parsed `config` column of a notification_channels row
+export type ChannelConfig = Record<string, unknown>;
+
+export interface AlertNotificationEntry {
+  id: string;
+  kind: AlertHistoryKind;
+  message: string;
+  triggerValue: number | null;
+  triggeredAt: Date;
+}
+
+/**
+ * What a channel is asked to deliver: one alert, a digest of several alerts
+ * of the same subscription, or the test message sent when a channel is set up.
+ */
+export interface AlertNotification {
+  event: 'alert' | 'test';
+  subscriptionId: string | null;
+  alertType: AlertType | null;
+  title: string;
+  color: string;      // '#rrggbb'
+  poolName: string | null;
+  minerAddress: string | null;
+  entries: AlertNotificationEntry[];
+}
+
+export interface ChannelDeliveryResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * A NotificationChannel delivers alerts to one kind of destination. Users
+ * create channels of a type with their own config (stored as JSON in
+ * `notification_channels`) and pick them per alert subscription.
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  // Why the config can't be used, or null when it looks deliverable
+  validateConfig(config: ChannelConfig): string | null;
+  // Never throws; a failed delivery is reported in the result
+  send(config: ChannelConfig, notification: AlertNotification): Promise<ChannelDeliveryResult>;
+}
+
+export interface ChannelRequest {
+  url: string;
+  body: string | object;
+  headers?: Record<string, string>;
+}
+
+// Agents whose DNS lookup refuses private addresses, so a public name can't be pointed at an internal host
+const PUBLIC_HTTP_AGENT = new http.Agent({ lookup: publicOnlyLookup } as http.AgentOptions);
+const PUBLIC_HTTPS_AGENT = new https.Agent({ lookup: publicOnlyLookup } as https.AgentOptions);
+
+/**
+ * Base class for channels that deliver with a single JSON POST.
+ *
+ * Destinations are user-supplied, so requests only go to public hosts and
+ * redirects are not followed; otherwise any account could make the server call
+ * localhost, the private network or the cloud metadata endpoint.
+ * NOTIFICATION_ALLOW_PRIVATE_HOSTS=true lifts that for local stubs.
+ */
+export abstract class HttpNotificationChannel implements NotificationChannel {
+  public abstract readonly type: NotificationChannelType;
+  protected readonly timeout: number = 10000;
+  protected readonly allowPrivateHosts: boolean = process.env.NOTIFICATION_ALLOW_PRIVATE_HOSTS === 'true';
+
+  public abstract validateConfig(config: ChannelConfig): string | null;
+
+  protected abstract buildRequest(config: ChannelConfig, notification: AlertNotification): ChannelRequest;
+
+  public async send(config: ChannelConfig, notification: AlertNotification): Promise<ChannelDeliveryResult> {
+    const request = this.buildRequest(config, notification);
+
+    if (!this.allowPrivateHosts && isPrivateHostname(new URL(request.url).hostname)) {
+      return { success: false, error: 'Destination is not a public host' };
+    }
+
+    try {
+      await axios.post(request.url, request.body, {
+        timeout: this.timeout,
+        maxRedirects: 0,
+        headers: { 'Content-Type': 'application/json', ...request.headers },
+        ...(this.allowPrivateHosts ? {} : { httpAgent: PUBLIC_HTTP_AGENT, httpsAgent: PUBLIC_HTTPS_AGENT })
+      });
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: this.describeError(error) };
+    }
+  }
+
+  // Why a user-supplied destination URL can't be used, or null when it can
+  protected checkUrl(value: unknown, field: string): string | null {
+    if (!isHttpUrl(value)) {
+      return `${field} must be an http(s) URL`;
+    }
+    if (!this.allowPrivateHosts && isPrivateHostname(new URL(value).hostname)) {
+      return `${field} must point to a public host`;
+    }
+    return null;
+  }
+
+  // Keep the URL out of the message: for some channels it carries the credentials
+  private describeError(error: unknown): string {
+    if (axios.isAxiosError(error) && error.response) {
+      return `HTTP ${error.response.status}`;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const entryLine = (entry: AlertNotificationEntry): string =>
+  `${entry.triggeredAt.toUTCString()}: ${entry.kind === 'resolved' ? 'Resolved: ' : ''}${entry.message}`;
+
+/**
+ * Plain-text body shared by the chat channels: the alert message (or one line
+ * per alert for a digest) followed by what the subscription watches
+ */
+export const notificationText = (notification: AlertNotification): string => {
+  const [only] = notification.entries;
+  const lines = notification.entries.length === 1 && only
+    ? [only.message]
+    : notification.entries.map(entry => `• ${entryLine(entry)}`);
+
+  return [
+    ...lines,
+    ...(notification.poolName ? [`Pool: ${notification.poolName}`] : []),
+    ...(notification.minerAddress ? [`Address: ${notification.minerAddress}`] : [])
+  ].join('\n');
+};
+
+// Chat APIs reject messages over their length limit, so long digests are cut short
+export const truncate = (value: string, maxLength: number): string =>
+  value.length <= maxLength ? value : `${value.slice(0, maxLength - 1)}…`;
+
+// Sent by POST /api/channels/:id/test so users can check a channel before relying on it
+export const createTestNotification = (): AlertNotification => ({
+  event: 'test',
+  subscriptionId: null,
+  alertType: null,
+  title: 'Mining Dashboard test notification',
+  color: '#FF6B35',
+  poolName: null,
+  minerAddress: null,
+  entries: [{
+    id: 'test',
+    kind: 'firing',
+    message: 'This channel is set up correctly and will receive your alerts.',
+    triggerValue: null,
+    triggeredAt: new Date()
+  }]
+});
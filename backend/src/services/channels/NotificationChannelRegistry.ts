@@ -0,0 +1,52 @@
+import { NotificationChannelRow, NotificationChannelType } from '../../types';
+import { AlertNotification, ChannelConfig, ChannelDeliveryResult, NotificationChannel } from './NotificationChannel';
+import { DiscordChannel } from './DiscordChannel';
+import { SlackChannel } from './SlackChannel';
+import { TelegramChannel } from './TelegramChannel';
+import { WebhookChannel } from './WebhookChannel';
+
+export class NotificationChannelRegistry {
+  private channels: Map<string, NotificationChannel> = new Map();
+
+  public register(channel: NotificationChannel): this {
+    this.channels.set(channel.type, channel);
+    return this;
+  }
+
+  public get(type: string): NotificationChannel | undefined {
+    return this.channels.get(type);
+  }
+
+  public has(type: string): boolean {
+    return this.channels.has(type);
+  }
+
+  public getTypes(): NotificationChannelType[] {
+    return Array.from(this.channels.keys()) as NotificationChannelType[];
+  }
+
+  // Deliver through a `notification_channels` row; never throws
+  public async send(row: NotificationChannelRow, notification: AlertNotification): Promise<ChannelDeliveryResult> {
+    const channel = this.channels.get(row.type);
+    if (!channel) {
+      return { success: false, error: `Unsupported channel type: ${row.type}` };
+    }
+
+    let config: ChannelConfig;
+    try {
+      config = JSON.parse(row.config);
+    } catch {
+      return { success: false, error: 'Channel config is not valid JSON' };
+    }
+
+    return channel.send(config, notification);
+  }
+}
+
+export const createDefaultNotificationChannelRegistry = (): NotificationChannelRegistry => {
+  return new NotificationChannelRegistry()
+    .register(new WebhookChannel())
+    .register(new SlackChannel())
+    .register(new DiscordChannel())
+    .register(new TelegramChannel());
+};
@@ -0,0 +1,23 @@
+import { AlertNotification, ChannelConfig, ChannelRequest, HttpNotificationChannel, notificationText } from './NotificationChannel';
+
+interface SlackConfig {
+  webhook_url: string;
+}
+
+// Slack incoming webhook (https://api.slack.com/messaging/webhooks)
+export class SlackChannel extends HttpNotificationChannel {
+  public readonly type = 'slack';
+
+  public validateConfig(config: ChannelConfig): string | null {
+    return this.checkUrl(config.webhook_url, 'webhook_url');
+  }
+
+  protected buildRequest(config: ChannelConfig, notification: AlertNotification): ChannelRequest {
+    const { webhook_url } = config as unknown as SlackConfig;
+
+    return {
+      url: webhook_url,
+      body: { text: `*${notification.title}*\n${notificationText(notification)}` }
+    };
+  }
+}
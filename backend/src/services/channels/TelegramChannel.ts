@@ -0,0 +1,45 @@
+import { AlertNotification, ChannelConfig, ChannelRequest, HttpNotificationChannel, isNonEmptyString, notificationText, truncate } from './NotificationChannel';
+
+interface TelegramConfig {
+  bot_token: string;
+  chat_id: string | number;
+}
+
+const MAX_MESSAGE_LENGTH = 4096;
+
+/**
+ * Telegram bot message via the Bot API's sendMessage. The bot has to be added
+ * to the chat (or messaged first, for a private chat) before it can post there.
+ */
+export class TelegramChannel extends HttpNotificationChannel {
+  public readonly type = 'telegram';
+  private apiUrl: string;
+
+  constructor(apiUrl: string = process.env.TELEGRAM_API_URL || 'https://api.telegram.org') {
+    super();
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+  }
+
+  public validateConfig(config: ChannelConfig): string | null {
+    if (!isNonEmptyString(config.bot_token) || !/^\d+:[\w-]+$/.test(config.bot_token)) {
+      return 'bot_token must be a Telegram bot token (123456:ABC-DEF...)';
+    }
+    if (!isNonEmptyString(config.chat_id) && !Number.isInteger(config.chat_id)) {
+      return 'chat_id is required';
+    }
+    return null;
+  }
+
+  protected buildRequest(config: ChannelConfig, notification: AlertNotification): ChannelRequest {
+    const { bot_token, chat_id } = config as unknown as TelegramConfig;
+
+    return {
+      url: `${this.apiUrl}/bot${bot_token}/sendMessage`,
+      body: {
+        chat_id,
+        text: truncate(`${notification.title}\n\n${notificationText(notification)}`, MAX_MESSAGE_LENGTH),
+        disable_web_page_preview: true
+      }
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import { AlertNotification, ChannelConfig, ChannelRequest, HttpNotificationChannel, isNonEmptyString } from './NotificationChannel';
+
+interface WebhookConfig {
+  url: string;
+  secret: string;
+}
+
+const MIN_SECRET_LENGTH = 16;
+
+/**
+ * Posts the alert as JSON to any URL. The receiver can verify the request by
+ * recomputing `sha256=` + HMAC-SHA256(secret, `${timestamp}.${body}`) from the
+ * X-Mining-Dashboard-Timestamp header and the raw body, and should reject old
+ * timestamps to stop replays.
+ */
+export class WebhookChannel extends HttpNotificationChannel {
+  public readonly type = 'webhook';
+
+  public validateConfig(config: ChannelConfig): string | null {
+    const urlError = this.checkUrl(config.url, 'url');
+    if (urlError) {
+      return urlError;
+    }
+    if (!isNonEmptyString(config.secret) || config.secret.length < MIN_SECRET_LENGTH) {
+      return `secret must be at least ${MIN_SECRET_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  protected buildRequest(config: ChannelConfig, notification: AlertNotification): ChannelRequest {
+    const { url, secret } = config as unknown as WebhookConfig;
+
+    // Signed as sent, so the body is serialized here rather than by axios
+    const body = JSON.stringify({
+      event: notification.event,
+      subscription_id: notification.subscriptionId,
+      alert_type: notification.alertType,
+      title: notification.title,
+      pool_name: notification.poolName,
+      miner_address: notification.minerAddress,
+      alerts: notification.entries.map(entry => ({
+        id: entry.id,
+        kind: entry.kind,
+        message: entry.message,
+        trigger_value: entry.triggerValue,
+        triggered_at: entry.triggeredAt.toISOString()
+      }))
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    return {
+      url,
+      body,
+      headers: {
+        'X-Mining-Dashboard-Timestamp': timestamp,
+        'X-Mining-Dashboard-Signature': `sha256=${WebhookChannel.sign(secret, timestamp, body)}`
+      }
+    };
+  }
+
+  public static sign(secret: string, timestamp: string, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+}
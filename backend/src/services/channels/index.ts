@@ -0,0 +1,14 @@
+export {
+  AlertNotification,
+  AlertNotificationEntry,
+  ChannelConfig,
+  ChannelDeliveryResult,
+  NotificationChannel,
+  HttpNotificationChannel,
+  createTestNotification
+} from './NotificationChannel';
+export { NotificationChannelRegistry, createDefaultNotificationChannelRegistry } from './NotificationChannelRegistry';
+export { WebhookChannel } from './WebhookChannel';
+export { SlackChannel } from './SlackChannel';
+export { DiscordChannel } from './DiscordChannel';
+export { TelegramChannel } from './TelegramChannel';
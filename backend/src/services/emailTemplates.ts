@@ -0,0 +1,285 @@
+import { AlertDeliveryMode, AlertHistoryKind, AlertType } from '../types';
+
+export interface AlertEmailContext {
+  alertType: AlertType;
+  message: string;
+  poolName?: string | null;
+  minerAddress?: string | null;
+  threshold?: number | null;
+  triggerValue?: number | null;
+  triggeredAt: Date;
+  unsubscribeUrl: string;
+  kind?: AlertHistoryKind;        // Defaults to firing
+}
+
+// Sent once per new subscription; no alerts go out until the link is clicked
+export interface ConfirmationEmailContext {
+  alertType: AlertType;
+  poolName?: string | null;
+  minerAddress?: string | null;
+  threshold?: number | null;
+  confirmUrl: string;
+  expiresInHours: number;
+}
+
+// Several triggers of one subscription batched into a single email
+export interface DigestEmailContext {
+  alertType: AlertType;
+  poolName?: string | null;
+  minerAddress?: string | null;
+  threshold?: number | null;
+  deliveryMode: AlertDeliveryMode;
+  entries: { message: string; triggeredAt: Date; triggerValue?: number | null; kind?: AlertHistoryKind }[];
+  unsubscribeUrl: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+}
+
+// What the alert watches; described by the emails and the chat/webhook notifications
+export type AlertTarget = Pick<AlertEmailContext, 'poolName' | 'minerAddress' | 'threshold'>;
+
+interface AlertTemplate {
+  subject: (context: AlertTarget) => string;
+  headline: string;
+  color: string;
+  explanation: (context: AlertTarget) => string;
+}
+
+const poolLabel = (context: AlertTarget): string => context.poolName || 'All pools';
+
+// 0x1234…abcd, short enough for a subject line
+const minerLabel = (context: AlertTarget): string => context.minerAddress
+  ? `${context.minerAddress.slice(0, 6)}…${context.minerAddress.slice(-4)}`
+  : 'your miner';
+
+const TEMPLATES: Record<AlertType, AlertTemplate> = {
+  [AlertType.HASHRATE_DROP]: {
+    subject: context => `Hashrate drop on ${poolLabel(context)}`,
+    headline: 'Pool hashrate dropped',
+    color: '#f59e0b',
+    explanation: context => `The pool hashrate fell by more than your ${context.threshold ?? '?'}% threshold between two readings.`
+  },
+  [AlertType.POOL_OFFLINE]: {
+    subject: context => `${poolLabel(context)} appears to be offline`,
+    headline: 'Pool offline',
+    color: '#ef4444',
+    explanation: context => `We have not received fresh statistics from this pool for more than ${context.threshold ?? 10} minutes.`
+  },
+  [AlertType.LUCK_STREAK]: {
+    subject: context => `Luck streak on ${poolLabel(context)}`,
+    headline: 'Pool luck below threshold',
+    color: '#3b82f6',
+    explanation: context => `The 7-day luck is below your ${context.threshold ?? '?'}% threshold.`
+  },
+  [AlertType.NEW_BLOCK]: {
+    subject: context => `New block found by ${poolLabel(context)}`,
+    headline: 'New block found',
+    color: '#10b981',
+    explanation: () => 'A pool you follow has found a new block.'
+  },
+  [AlertType.PROFITABILITY_CHANGE]: {
+    subject: context => `Profitability change on ${poolLabel(context)}`,
+    headline: 'Mining profitability changed',
+    color: '#FF6B35',
+    explanation: context => `Expected earnings moved by more than your ${context.threshold ?? '?'}% threshold.`
+  },
+  [AlertType.WORKER_OFFLINE]: {
+    subject: context => `Worker offline on ${minerLabel(context)}`,
+    headline: 'Worker went offline',
+    color: '#ef4444',
+    explanation: context => `One or more workers stopped submitting shares for longer than ${context.threshold ?? 10} minutes.`
+  },
+  [AlertType.HASHRATE_DIVERGENCE]: {
+    subject: context => `Hashrate divergence on ${minerLabel(context)}`,
+    headline: 'Effective hashrate below reported',
+    color: '#f59e0b',
+    explanation: context => `The hashrate credited by the pool trails the hashrate your rigs report by more than ${context.threshold ?? 10}%.`
+  },
+  [AlertType.REJECTED_SHARE_RATIO]: {
+    subject: context => `High stale/invalid shares on ${minerLabel(context)}`,
+    headline: 'Rejected share ratio above threshold',
+    color: '#f59e0b',
+    explanation: context => `Stale and invalid shares make up more than ${context.threshold ?? 5}% of submitted shares.`
+  }
+};
+
+export const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// One-click unsubscribe from the mail client (RFC 8058)
+const unsubscribeHeaders = (unsubscribeUrl: string): Record<string, string> => ({
+  'List-Unsubscribe': `<${unsubscribeUrl}>`,
+  'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+});
+
+const RESOLVED_COLOR = '#10b981';
+const RESOLVED_EXPLANATION = 'The condition that fired this alert has cleared.';
+
+// Headline and accent color for notification channels, matching the alert email's subject and banner
+export const alertTitle = (alertType: AlertType, target: AlertTarget, kind: AlertHistoryKind = 'firing'): string =>
+  `${kind === 'resolved' ? 'Resolved: ' : ''}${TEMPLATES[alertType].subject(target)}`;
+
+export const alertColor = (alertType: AlertType, kind: AlertHistoryKind = 'firing'): string =>
+  kind === 'resolved' ? RESOLVED_COLOR : TEMPLATES[alertType].color;
+
+export const renderAlertEmail = (context: AlertEmailContext): RenderedEmail => {
+  const resolved = context.kind === 'resolved';
+  const base = TEMPLATES[context.alertType];
+  const template: AlertTemplate = resolved
+    ? { ...base, headline: `Resolved: ${base.headline}`, color: RESOLVED_COLOR, explanation: () => RESOLVED_EXPLANATION }
+    : base;
+  const subject = `[Mining Dashboard] ${resolved ? 'Resolved: ' : ''}${template.subject(context)}`;
+  const explanation = template.explanation(context);
+  const triggeredAt = context.triggeredAt.toUTCString();
+
+  const text = [
+    template.headline,
+    '',
+    context.message,
+    '',
+    explanation,
+    '',
+    `Pool: ${poolLabel(context)}`,
+    ...(context.minerAddress ? [`Address: ${context.minerAddress}`] : []),
+    `Triggered at: ${triggeredAt}`,
+    ...(context.triggerValue !== undefined && context.triggerValue !== null ? [`Value: ${context.triggerValue}`] : []),
+    '',
+    `Stop these alerts: ${context.unsubscribeUrl}`
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: Inter, Arial, sans-serif; background: #f8f9fa; padding: 24px;">
+    <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 10px; border-top: 4px solid ${template.color};">
+      <div style="padding: 24px;">
+        <h2 style="margin: 0 0 12px; color: #1a1d29;">${escapeHtml(template.headline)}</h2>
+        <p style="font-size: 16px; color: #1a1d29;">${escapeHtml(context.message)}</p>
+        <p style="color: #6c757d;">${escapeHtml(explanation)}</p>
+        <table style="color: #2d3748; font-size: 14px;">
+          <tr><td style="padding-right: 12px;">Pool</td><td>${escapeHtml(poolLabel(context))}</td></tr>
+          ${context.minerAddress ? `<tr><td style="padding-right: 12px;">Address</td><td>${escapeHtml(context.minerAddress)}</td></tr>` : ''}
+          <tr><td style="padding-right: 12px;">Triggered at</td><td>${escapeHtml(triggeredAt)}</td></tr>
+        </table>
+        <p style="margin-top: 24px; font-size: 12px; color: #6c757d;">
+          <a href="${escapeHtml(context.unsubscribeUrl)}" style="color: #6c757d;">Unsubscribe from these alerts</a>
+        </p>
+      </div>
+    </div>
+  </body>
+</html>`;
+
+  return { subject, text, html, headers: unsubscribeHeaders(context.unsubscribeUrl) };
+};
+
+// Immediate subscriptions only get a digest for alerts held back by quiet hours
+const DIGEST_INTROS: Record<AlertDeliveryMode, string> = {
+  immediate: 'These alerts were held back during your quiet hours.',
+  hourly: 'Your hourly summary of triggered alerts.',
+  daily: 'Your daily summary of triggered alerts.'
+};
+
+const entryLabel = (entry: DigestEmailContext['entries'][number]): string =>
+  entry.kind === 'resolved' ? `Resolved: ${entry.message}` : entry.message;
+
+export const renderDigestEmail = (context: DigestEmailContext): RenderedEmail => {
+  const template = TEMPLATES[context.alertType];
+  const subject = `[Mining Dashboard] ${context.entries.length} alerts: ${template.subject(context)}`;
+  const intro = DIGEST_INTROS[context.deliveryMode];
+
+  const text = [
+    template.headline,
+    '',
+    intro,
+    '',
+    ...context.entries.map(entry => `- ${entry.triggeredAt.toUTCString()}: ${entryLabel(entry)}`),
+    '',
+    `Pool: ${poolLabel(context)}`,
+    ...(context.minerAddress ? [`Address: ${context.minerAddress}`] : []),
+    '',
+    `Stop these alerts: ${context.unsubscribeUrl}`
+  ].join('\n');
+
+  const rows = context.entries.map(entry => `
+          <tr>
+            <td style="padding: 4px 12px 4px 0; white-space: nowrap; color: #6c757d;">${escapeHtml(entry.triggeredAt.toUTCString())}</td>
+            <td style="padding: 4px 0;">${escapeHtml(entryLabel(entry))}</td>
+          </tr>`).join('');
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: Inter, Arial, sans-serif; background: #f8f9fa; padding: 24px;">
+    <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 10px; border-top: 4px solid ${template.color};">
+      <div style="padding: 24px;">
+        <h2 style="margin: 0 0 12px; color: #1a1d29;">${escapeHtml(template.headline)}</h2>
+        <p style="color: #6c757d;">${escapeHtml(intro)}</p>
+        <table style="color: #2d3748; font-size: 14px;">${rows}
+        </table>
+        <p style="color: #2d3748; font-size: 14px;">
+          Pool: ${escapeHtml(poolLabel(context))}
+          ${context.minerAddress ? `<br>Address: ${escapeHtml(context.minerAddress)}` : ''}
+        </p>
+        <p style="margin-top: 24px; font-size: 12px; color: #6c757d;">
+          <a href="${escapeHtml(context.unsubscribeUrl)}" style="color: #6c757d;">Unsubscribe from these alerts</a>
+        </p>
+      </div>
+    </div>
+  </body>
+</html>`;
+
+  return { subject, text, html, headers: unsubscribeHeaders(context.unsubscribeUrl) };
+};
+
+export const renderConfirmationEmail = (context: ConfirmationEmailContext): RenderedEmail => {
+  const template = TEMPLATES[context.alertType];
+  const subject = `[Mining Dashboard] Confirm your alert: ${template.subject(context)}`;
+  const intro = 'Someone (hopefully you) asked the Mining Dashboard to send alerts to this address.';
+  const outro = `Nothing will be sent until you confirm. The link expires in ${context.expiresInHours} hours; if you did not ask for these alerts, ignore this email.`;
+
+  const text = [
+    'Confirm your alert subscription',
+    '',
+    intro,
+    '',
+    `Alert: ${template.headline}`,
+    `Pool: ${poolLabel(context)}`,
+    ...(context.minerAddress ? [`Address: ${context.minerAddress}`] : []),
+    ...(context.threshold !== undefined && context.threshold !== null ? [`Threshold: ${context.threshold}`] : []),
+    '',
+    `Confirm: ${context.confirmUrl}`,
+    '',
+    outro
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: Inter, Arial, sans-serif; background: #f8f9fa; padding: 24px;">
+    <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 10px; border-top: 4px solid ${template.color};">
+      <div style="padding: 24px;">
+        <h2 style="margin: 0 0 12px; color: #1a1d29;">Confirm your alert subscription</h2>
+        <p style="color: #1a1d29;">${escapeHtml(intro)}</p>
+        <table style="color: #2d3748; font-size: 14px;">
+          <tr><td style="padding-right: 12px;">Alert</td><td>${escapeHtml(template.headline)}</td></tr>
+          <tr><td style="padding-right: 12px;">Pool</td><td>${escapeHtml(poolLabel(context))}</td></tr>
+          ${context.minerAddress ? `<tr><td style="padding-right: 12px;">Address</td><td>${escapeHtml(context.minerAddress)}</td></tr>` : ''}
+          ${context.threshold !== undefined && context.threshold !== null ? `<tr><td style="padding-right: 12px;">Threshold</td><td>${context.threshold}</td></tr>` : ''}
+        </table>
+        <p style="margin: 24px 0;">
+          <a href="${escapeHtml(context.confirmUrl)}" style="background: ${template.color}; color: #ffffff; padding: 10px 18px; border-radius: 6px; text-decoration: none;">Confirm alerts</a>
+        </p>
+        <p style="font-size: 12px; color: #6c757d;">${escapeHtml(outro)}</p>
+      </div>
+    </div>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+};
@@ -1,7 +1,12 @@
+// Ethash-family chains a pool can mine
+export type Coin = 'ETH' | 'ETC' | 'ETHW';
+
 export interface MiningPool {
   id: string;
   name: string;
   apiUrl: string;
+  adapterType: string | null;
+  coin: Coin;
   feePercentage: number;
   payoutMethod: 'PPS' | 'PPLNS' | 'PPS+';
   status: 'active' | 'inactive' | 'maintenance';
@@ -9,37 +14,179 @@ export interface MiningPool {
   updatedAt: Date;
 }
 
+// Row shape of the `pools` table as returned by DatabaseService
+export interface PoolRow {
+  id: string;
+  name: string;
+  api_url: string;
+  adapter_type: string | null;
+  coin: Coin;
+  fee_percentage: number;
+  payout_method: 'PPS' | 'PPLNS' | 'PPS+';
+  status: 'active' | 'inactive' | 'maintenance';
+  minimum_payout: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Normalized pool reading produced by a PoolAdapter
+export interface PoolSnapshot {
+  hashrate: number;
+  minersCount: number;
+  blocksFound24h?: number;
+  luck7d?: number;
+  difficulty?: number;
+  blockTime?: number;
+  lastBlockTime?: Date;
+}
+
 export interface PoolStatistics {
   id: string;
   poolId: string;
+  coin: Coin;
   timestamp: Date;
   hashrate: number;
   minersCount: number;
   blocksFound24h: number;
-  luck7d: number;
+  luck7d: number | null;
   difficulty: number;
   blockTime: number;
   lastBlockTime?: Date;
 }
 
+// Outcome of one collection attempt for a pool, mirrored in pool_fetch_log
+export interface PoolFetchResult {
+  poolId: string;
+  success: boolean;
+  fetchedAt: Date;
+  responseTimeMs?: number;
+  statistics?: PoolStatistics;
+  error?: string;
+}
+
+// One point of the expected-earnings model, normalised to 1 MH/s (pool_profitability)
+export interface PoolProfitability {
+  id: string;
+  poolId: string;
+  timestamp: Date;
+  ethPerMhDay: number;
+  usdPerMhDay: number;
+  ethPrice: number;
+  networkDifficulty: number;
+  blockReward: number;
+  feePercentage: number;
+  luckFactor: number;
+}
+
+// Row shape of the `users` table
+export interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  created_at: string;
+  last_login_at: string | null;
+}
+
+// Identity attached to a request once its session token checks out
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+// Row shape of the `miners` table: a wallet address registered on one pool
+export interface MinerRow {
+  id: string;
+  address: string;
+  pool_id: string;
+  last_fetch_at: string | null;
+  last_fetch_error: string | null;
+  created_at: string;
+}
+
+// Row shape of the workers table
+export interface WorkerRow {
+  id: string;
+  miner_id: string;
+  name: string;
+  is_online: number | boolean;
+  last_seen_at: string | null;
+  status_changed_at: string;
+  created_at: string;
+}
+
+// Normalized per-address reading produced by a PoolAdapter
+export interface MinerSnapshot {
+  reportedHashrate: number | null; // H/s, null when the pool doesn't expose it
+  currentHashrate: number;         // H/s
+  validShares: number;
+  invalidShares: number;
+  staleShares: number;
+  activeWorkers: number;
+  unpaid: number;                  // in ETH
+}
+
+// Normalized per-worker reading produced by a PoolAdapter
+export interface WorkerSnapshot {
+  name: string;
+  isOnline: boolean;
+  lastSeen?: Date;
+  reportedHashrate: number | null; // H/s
+  currentHashrate: number;         // H/s
+  validShares: number;
+  invalidShares: number;
+  staleShares: number;
+}
+
+export type BlockStatus = 'pending' | 'immature' | 'confirmed' | 'orphaned';
+
 export interface Block {
   id: string;
   poolId: string;
+  coin: Coin;
   blockNumber: number;
   timestamp: Date;
   reward: number;
   minerCount: number;
   difficulty: number;
   hash: string;
+  uncle: boolean;
+  status: BlockStatus;
+  maturedAt?: Date;
+}
+
+// Normalized entry from a pool's found-blocks feed
+export interface PoolBlock {
+  blockNumber: number;
+  hash: string;
+  timestamp: Date;
+  reward: number; // in ETH
+  difficulty: number;
+  uncle: boolean;
+  status: BlockStatus;
+  onChain?: boolean; // Set by the chain check when the node holds this hash at this height
 }
 
 export interface AlertSubscription {
   id: string;
+  userId?: string;
   email: string;
   poolId?: string;
+  minerAddress?: string;
   alertType: AlertType;
   threshold?: number;
   isActive: boolean;
+  confirmedAt?: Date;     // Unset until the recipient confirms the verification email
+  cooldownMinutes: number;
+  quietHoursStart?: string; // 'HH:MM' in timezone
+  quietHoursEnd?: string;
+  timezone: string;       // IANA zone, e.g. 'Europe/Berlin'
+  deliveryMode: AlertDeliveryMode;
+  emailEnabled: boolean;  // Off = only the selected notification channels are used
+  channelIds: string[];
+  forMinutes: number;     // Condition alerts only
+  resolveThreshold?: number;
+  state: AlertState;
+  stateChangedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -52,11 +199,14 @@ export interface AlertHistory {
   emailSent: boolean;
   poolId?: string;
   triggerValue?: number;
+  kind: AlertHistoryKind;
 }
 
 export interface NetworkStats {
   id: string;
+  coin: Coin;
   timestamp: Date;
+  blockNumber: number | null;
   totalHashrate: number;
   difficulty: number;
   blockTime: number;
@@ -64,6 +214,72 @@ export interface NetworkStats {
   gasPrice: number;
 }
 
+// Bucket sizes kept by the rollup tables
+export type RollupResolution = '1m' | '1h' | '1d';
+
+export type SeriesAggregation = 'avg' | 'min' | 'max';
+
+// Parsed history request shared by the pool and network history endpoints
+export interface SeriesQuery {
+  from: Date;
+  to: Date;
+  interval?: number;               // seconds between points; planned from maxPoints when omitted
+  maxPoints: number;
+  metrics: string[];
+  aggregations: SeriesAggregation[];
+}
+
+// Factors the pool recommendation score is built from
+export type ScoringFactor = 'fee' | 'pool_size' | 'luck' | 'activity' | 'payout_method' | 'payout_threshold';
+
+export type ScoringWeights = Record<ScoringFactor, number>;
+
+export type RiskTolerance = 'low' | 'medium' | 'high';
+
+export type PayoutPreference = 'any' | 'pps' | 'pplns';
+
+// Who the recommendation is for; hashrate enables the payout threshold factor
+export interface MinerProfile {
+  hashrate?: number;               // H/s
+  payoutPreference: PayoutPreference;
+  riskTolerance: RiskTolerance;
+}
+
+// One factor's share of a recommendation score
+export interface ScoreFactorBreakdown {
+  factor: ScoringFactor;
+  weight: number;                  // effective weight after the risk adjustment, 0 when skipped
+  score: number | null;            // 0-1, null when the factor could not be evaluated
+  points: number;                  // contribution to the 0-100 total
+  explanation: string;
+}
+
+// Luck computed from found blocks against the pool's hashrate over a window
+export interface LuckWindow {
+  window: string;                  // e.g. 24h, 7d, 30d
+  from: string;
+  to: string;
+  blocks: number;
+  expected_blocks: number;
+  luck: number | null;             // percent, null when no hashrate was recorded
+  ci_low: number | null;           // 95% confidence interval, percent
+  ci_high: number | null;
+  coverage: number;                // share of the window backed by hashrate readings, 0-1
+}
+
+// Work spent on one block relative to the difficulty, 100 = exactly average
+export interface BlockEffort {
+  block_number: number;
+  timestamp: string;
+  effort: number;                  // percent
+}
+
+export interface PoolLuck {
+  pool_id: string;
+  windows: LuckWindow[];
+  efforts: BlockEffort[];          // newest first
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -72,6 +288,9 @@ export interface ApiResponse<T> {
   timestamp: string;
 }
 
+// Channels a WebSocket client can subscribe to; `pool:<id>` targets a single pool
+export type WebSocketChannel = 'pools' | 'network' | 'blocks' | 'alerts' | `pool:${string}`;
+
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   pagination: {
     page: number;
@@ -98,7 +317,52 @@ export enum AlertType {
   POOL_OFFLINE = 'pool_offline',
   LUCK_STREAK = 'luck_streak',
   NEW_BLOCK = 'new_block',
-  PROFITABILITY_CHANGE = 'profitability_change'
+  PROFITABILITY_CHANGE = 'profitability_change',
+  WORKER_OFFLINE = 'worker_offline',
+  HASHRATE_DIVERGENCE = 'hashrate_divergence',
+  REJECTED_SHARE_RATIO = 'rejected_share_ratio'
+}
+
+// Alert types that watch a tracked wallet address rather than a pool
+export const MINER_ALERT_TYPES: AlertType[] = [
+  AlertType.WORKER_OFFLINE,
+  AlertType.HASHRATE_DIVERGENCE,
+  AlertType.REJECTED_SHARE_RATIO
+];
+
+// Alert types that watch an ongoing condition: they move ok → pending → firing → resolved
+// and notify on the transitions instead of on every check while the condition holds
+export const CONDITION_ALERT_TYPES: AlertType[] = [
+  AlertType.POOL_OFFLINE,
+  AlertType.LUCK_STREAK,
+  AlertType.WORKER_OFFLINE,
+  AlertType.HASHRATE_DIVERGENCE,
+  AlertType.REJECTED_SHARE_RATIO
+];
+
+// pending = breaching but not yet for for_minutes; resolved behaves like ok until the next breach
+export type AlertState = 'ok' | 'pending' | 'firing' | 'resolved';
+
+export type AlertHistoryKind = 'firing' | 'resolved';
+
+// One email per trigger, or triggered alerts batched into a summary email
+export type AlertDeliveryMode = 'immediate' | 'hourly' | 'daily';
+
+export const ALERT_DELIVERY_MODES: AlertDeliveryMode[] = ['immediate', 'hourly', 'daily'];
+
+// Destinations besides email that alerts can be routed to
+export type NotificationChannelType = 'webhook' | 'slack' | 'discord' | 'telegram';
+
+export const NOTIFICATION_CHANNEL_TYPES: NotificationChannelType[] = ['webhook', 'slack', 'discord', 'telegram'];
+
+// Row shape of the `notification_channels` table; config is the channel's JSON settings
+export interface NotificationChannelRow {
+  id: string;
+  user_id: string;
+  type: NotificationChannelType;
+  name: string;
+  config: string;
+  created_at: string;
 }
 
 export interface MiningPoolApiResponse {
@@ -106,6 +370,23 @@ export interface MiningPoolApiResponse {
   data: any;
 }
 
+export interface EtherminePoolStatsResponse extends MiningPoolApiResponse {
+  data: {
+    poolStats: {
+      hashRate: number;
+      miners: number;
+      workers: number;
+      blocksPerHour: number;
+    };
+    minedBlocks: {
+      number: number;
+      miner: string;
+      time: number;
+    }[];
+  };
+}
+
+// Per-miner stats from /miner/:address/currentStats
 export interface EthermineResponse extends MiningPoolApiResponse {
   data: {
     time: number;
@@ -120,6 +401,83 @@ export interface EthermineResponse extends MiningPoolApiResponse {
   };
 }
 
+// Per-worker stats from /miner/:address/workers
+export interface EthermineWorkersResponse extends MiningPoolApiResponse {
+  data: {
+    worker: string;
+    time: number;
+    lastSeen: number;
+    reportedHashrate: number;
+    currentHashrate: number;
+    validShares: number;
+    invalidShares: number;
+    staleShares: number;
+  }[];
+}
+
+export interface TwoMinersWorker {
+  lastBeat: number;
+  hr: number;
+  hr2: number;
+  offline: boolean;
+  rhr?: number;
+  sharesValid?: number;
+  sharesInvalid?: number;
+  sharesStale?: number;
+}
+
+export interface TwoMinersAccountResponse extends MiningPoolApiResponse {
+  currentHashrate: number;
+  hashrate: number;
+  sharesValid: number;
+  sharesInvalid: number;
+  sharesStale: number;
+  workersOnline: number;
+  workers: Record<string, TwoMinersWorker> | null;
+  stats: {
+    balance: number; // in Gwei
+    immature: number;
+    paid: number;
+  };
+}
+
+export interface FlexpoolMinerStatsResponse extends MiningPoolApiResponse {
+  result: {
+    currentEffectiveHashrate: number;
+    averageEffectiveHashrate: number;
+    reportedHashrate: number;
+    validShares: number;
+    staleShares: number;
+    invalidShares: number;
+  };
+}
+
+export interface FlexpoolMinerBalanceResponse extends MiningPoolApiResponse {
+  result: {
+    balance: number; // in wei
+  };
+}
+
+export interface FlexpoolWorkerCountResponse extends MiningPoolApiResponse {
+  result: {
+    workersOnline: number;
+    workersOffline: number;
+  };
+}
+
+export interface FlexpoolWorkersResponse extends MiningPoolApiResponse {
+  result: {
+    name: string;
+    isOnline: boolean;
+    reportedHashrate: number;
+    currentEffectiveHashrate: number;
+    validShares: number;
+    staleShares: number;
+    invalidShares: number;
+    lastSeen: number;
+  }[];
+}
+
 export interface F2PoolResponse extends MiningPoolApiResponse {
   data: {
     hashrate: number;
@@ -153,6 +511,38 @@ export interface TwoMinersResponse extends MiningPoolApiResponse {
   };
 }
 
+export interface TwoMinersBlock {
+  height: number;
+  timestamp: number;
+  difficulty: number;
+  shares: number;
+  uncle: boolean;
+  uncleHeight: number;
+  orphan: boolean;
+  hash: string;
+  reward: string; // in wei
+}
+
+export interface TwoMinersBlocksResponse extends MiningPoolApiResponse {
+  candidates: TwoMinersBlock[] | null;
+  immature: TwoMinersBlock[] | null;
+  matured: TwoMinersBlock[] | null;
+}
+
+export interface FlexpoolBlocksResponse extends MiningPoolApiResponse {
+  result: {
+    data: {
+      hash: string;
+      number: number;
+      type: 'block' | 'uncle' | 'orphan';
+      difficulty: number;
+      timestamp: number;
+      confirmed: boolean;
+      reward: number; // in wei
+    }[];
+  };
+}
+
 export interface DatabaseConfig {
   type: 'sqlite' | 'postgresql';
   url: string;
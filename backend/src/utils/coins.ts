@@ -0,0 +1,92 @@
+import { createError } from '../middleware/errorHandler';
+import { Coin } from '../types';
+
+export const COINS: Coin[] = ['ETH', 'ETC', 'ETHW'];
+// ETH no longer has proof of work, so endpoints without a `coin` default to its PoW fork
+export const DEFAULT_COIN: Coin = 'ETHW';
+
+// One step of a block reward schedule: `reward` applies from `fromBlock` onwards
+interface RewardStep {
+  fromBlock: number;
+  reward: number;
+}
+
+export interface CoinDefinition {
+  symbol: Coin;
+  name: string;
+  coingeckoId: string;
+  reward: (blockNumber: number) => number;
+  // Reward assumed when the chain height isn't known yet (no node reading, no blocks)
+  currentReward: number;
+}
+
+const stepSchedule = (steps: RewardStep[]) => (blockNumber: number): number => {
+  const step = [...steps].reverse().find(entry => blockNumber >= entry.fromBlock);
+  return step ? step.reward : steps[0]!.reward;
+};
+
+// ECIP-1017: 5 ETC, reduced by 20% every 5,000,000 blocks
+const ETC_ERA_LENGTH = 5_000_000;
+const etcReward = (blockNumber: number): number => {
+  const era = Math.max(Math.floor((blockNumber - 1) / ETC_ERA_LENGTH), 0);
+  return Math.round(5 * Math.pow(0.8, era) * 1e6) / 1e6;
+};
+
+export const ETH_MERGE_BLOCK = 15_537_394;
+
+export const COIN_DEFINITIONS: Record<Coin, CoinDefinition> = {
+  // Byzantium and Constantinople cut the reward; the merge (block 15,537,394) ended proof of work, so nothing is left to mine
+  ETH: {
+    symbol: 'ETH',
+    name: 'Ethereum',
+    coingeckoId: 'ethereum',
+    reward: stepSchedule([
+      { fromBlock: 0, reward: 5 },
+      { fromBlock: 4_370_000, reward: 3 },
+      { fromBlock: 7_280_000, reward: 2 },
+      { fromBlock: ETH_MERGE_BLOCK, reward: 0 }
+    ]),
+    currentReward: 0
+  },
+  ETC: {
+    symbol: 'ETC',
+    name: 'Ethereum Classic',
+    coingeckoId: 'ethereum-classic',
+    reward: etcReward,
+    currentReward: etcReward(20_000_001)
+  },
+  // Forked from ETH at the merge and kept the 2 coin reward
+  ETHW: {
+    symbol: 'ETHW',
+    name: 'EthereumPoW',
+    coingeckoId: 'ethereum-pow-iou',
+    reward: stepSchedule([{ fromBlock: 0, reward: 2 }]),
+    currentReward: 2
+  }
+};
+
+export const isCoin = (value: unknown): value is Coin => COINS.includes(value as Coin);
+
+/**
+ * Read the `coin` query parameter (case-insensitive). Undefined when absent,
+ * so callers can choose between "all chains" and a default.
+ */
+export const parseCoin = (raw: unknown): Coin | undefined => {
+  if (raw === undefined || raw === null || String(raw).trim() === '') {
+    return undefined;
+  }
+
+  const coin = String(raw).trim().toUpperCase();
+  if (!isCoin(coin)) {
+    throw createError(`Invalid coin. Must be one of: ${COINS.join(', ')}`, 400);
+  }
+  return coin;
+};
+
+/**
+ * Block reward at a height, or the current reward when the height is unknown
+ */
+export const blockRewardFor = (coin: Coin, blockNumber?: number | null): number => {
+  const definition = COIN_DEFINITIONS[coin];
+  return blockNumber && blockNumber > 0 ? definition.reward(blockNumber) : definition.currentReward;
+};
@@ -0,0 +1,54 @@
+// Format a Date the way SQLite's CURRENT_TIMESTAMP does (UTC, "YYYY-MM-DD HH:MM:SS")
+// so values written from JS compare correctly against datetime('now', ...) filters.
+export const toSqlTimestamp = (date: Date): string => {
+  return date.toISOString().replace('T', ' ').replace(/\.\d{3}Z$/, '');
+};
+
+// Read a timestamp column back as a Date: SQLite returns UTC text without a zone,
+// PostgreSQL returns Date objects already.
+export const fromSqlTimestamp = (value: string | Date): Date => {
+  if (value instanceof Date) {
+    return value;
+  }
+  const text = value.includes('T') ? value : value.replace(' ', 'T');
+  return new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(text) ? text : `${text}Z`);
+};
+
+// 'HH:MM' on a 24-hour clock
+export const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Minutes since local midnight at `date` in an IANA time zone
+export const minutesOfDayIn = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: string): number => parseInt(parts.find(p => p.type === type)?.value || '0');
+  return part('hour') * 60 + part('minute');
+};
+
+/**
+ * Whether `date` falls inside a daily 'HH:MM'-'HH:MM' window in `timeZone`.
+ * A window that ends before it starts wraps past midnight (22:00-07:00);
+ * an empty window (start equals end) never matches.
+ */
+export const isWithinDailyWindow = (date: Date, start: string, end: string, timeZone: string): boolean => {
+  const toMinutes = (time: string): number => parseInt(time.slice(0, 2)) * 60 + parseInt(time.slice(3, 5));
+  const now = minutesOfDayIn(date, timeZone);
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+
+  if (from === to) return false;
+  return from < to ? now >= from && now < to : now >= from || now < to;
+};
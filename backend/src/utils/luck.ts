@@ -0,0 +1,137 @@
+import { createError } from '../middleware/errorHandler';
+import { parseInterval } from './timeseries';
+
+// Confidence level of the interval reported with every luck figure
+export const LUCK_CONFIDENCE = 0.95;
+const Z_95 = 1.959964;
+
+// Windows reported when the caller doesn't ask for specific ones
+export const DEFAULT_LUCK_WINDOWS = ['24h', '7d', '30d'];
+const MAX_LUCK_WINDOWS = 5;
+const MAX_LUCK_WINDOW_SECONDS = 365 * 86400;
+
+export interface LuckWindowSpec {
+  label: string;
+  seconds: number;
+}
+
+export interface PoissonInterval {
+  low: number;
+  high: number;
+}
+
+export interface LuckEstimate {
+  luck: number | null;      // percent, 100 = exactly as many blocks as expected
+  ci_low: number | null;
+  ci_high: number | null;
+}
+
+/**
+ * Parse a comma-separated list of windows ending now, such as "24h,7d,30d"
+ * or "12h,3d"; each is a number followed by m, h, d or w, up to one year.
+ */
+export const parseLuckWindows = (raw: unknown): LuckWindowSpec[] => {
+  const labels = raw === undefined || String(raw).trim() === ''
+    ? DEFAULT_LUCK_WINDOWS
+    : [...new Set(String(raw).split(',').map(label => label.trim()).filter(Boolean))];
+
+  if (labels.length === 0 || labels.length > MAX_LUCK_WINDOWS) {
+    throw createError(`Between 1 and ${MAX_LUCK_WINDOWS} windows are allowed`, 400);
+  }
+
+  return labels.map(label => {
+    const seconds = parseInterval(label);
+    if (!seconds || seconds > MAX_LUCK_WINDOW_SECONDS) {
+      throw createError(`Invalid window ${label}. Use a number followed by m, h, d or w, up to 1 year (e.g. 24h, 7d, 30d)`, 400);
+    }
+    return { label, seconds };
+  });
+};
+
+/**
+ * Two-sided 95% interval for the mean of a Poisson count, using Byar's
+ * approximation of the exact (Garwood) interval. Accurate to a few tenths of
+ * a percent even for small counts, and the lower bound is 0 for a count of 0.
+ */
+export const poissonInterval = (count: number, z: number = Z_95): PoissonInterval => {
+  const low = count === 0
+    ? 0
+    : count * Math.pow(1 - 1 / (9 * count) - z / (3 * Math.sqrt(count)), 3);
+  const next = count + 1;
+  const high = next * Math.pow(1 - 1 / (9 * next) + z / (3 * Math.sqrt(next)), 3);
+
+  return { low: Math.max(low, 0), high };
+};
+
+/**
+ * Luck is found blocks over expected blocks. Blocks arrive as a Poisson
+ * process, so the uncertainty comes from the block count: the interval on the
+ * count divided by the expectation bounds the true luck.
+ */
+export const estimateLuck = (blocks: number, expectedBlocks: number): LuckEstimate => {
+  if (!(expectedBlocks > 0)) {
+    return { luck: null, ci_low: null, ci_high: null };
+  }
+
+  const interval = poissonInterval(blocks);
+  const percent = (value: number) => Math.round((value / expectedBlocks) * 1000) / 10;
+  return {
+    luck: percent(blocks),
+    ci_low: percent(interval.low),
+    ci_high: percent(interval.high)
+  };
+};
+
+/**
+ * Expected blocks per second for each step of an evenly spaced hashrate /
+ * difficulty series. Steps with no reading assume the average rate of the
+ * steps that have one, so gaps in collection don't read as a lucky pool.
+ */
+export class WorkTimeline {
+  private readonly start: number;   // epoch ms of the first step
+  private readonly stepMs: number;
+  private readonly rates: number[];
+  readonly coverage: number;        // share of steps backed by a reading, 0-1
+
+  constructor(
+    points: { timestamp: string; hashrate: number | null; difficulty: number | null }[],
+    stepSeconds: number,
+    fallbackDifficulty: number
+  ) {
+    this.start = points.length > 0 ? Date.parse(points[0]!.timestamp) : 0;
+    this.stepMs = stepSeconds * 1000;
+
+    const known = points.map(point => {
+      if (point.hashrate === null) return null;
+      const difficulty = point.difficulty && point.difficulty > 0 ? point.difficulty : fallbackDifficulty;
+      return difficulty > 0 ? point.hashrate / difficulty : null;
+    });
+    const measured = known.filter((rate): rate is number => rate !== null);
+    const mean = measured.length > 0 ? measured.reduce((sum, rate) => sum + rate, 0) / measured.length : 0;
+
+    this.rates = known.map(rate => rate ?? mean);
+    this.coverage = points.length > 0 ? measured.length / points.length : 0;
+  }
+
+  get hasData(): boolean {
+    return this.coverage > 0;
+  }
+
+  /**
+   * Blocks the pool's hashrate should have found between two instants,
+   * prorating partially covered steps
+   */
+  expectedBlocks(from: Date, to: Date): number {
+    const fromMs = from.getTime();
+    const toMs = to.getTime();
+    let expected = 0;
+
+    this.rates.forEach((rate, index) => {
+      const stepStart = this.start + index * this.stepMs;
+      const overlap = Math.min(stepStart + this.stepMs, toMs) - Math.max(stepStart, fromMs);
+      if (overlap > 0) expected += rate * (overlap / 1000);
+    });
+
+    return expected;
+  }
+}
@@ -0,0 +1,57 @@
+import dns from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254), CGNAT and unspecified ranges
+const PRIVATE_RANGES = new net.BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addAddress('::', 'ipv6');
+PRIVATE_RANGES.addAddress('::1', 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+
+/**
+ * Whether an IP address points into the server's own network rather than the
+ * public internet. IPv4-mapped IPv6 addresses are judged by their IPv4 part.
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  const ip = mapped ? mapped[1]! : address.replace(/^\[|\]$/g, '');
+  const family = net.isIP(ip);
+  if (family === 0) return false;
+  return PRIVATE_RANGES.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// A hostname that obviously names this machine or an internal address, before any DNS lookup
+export const isPrivateHostname = (hostname: string): boolean => {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+};
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+/**
+ * dns.lookup for http.Agent that fails when a name resolves to a private
+ * address. Checking the address the socket actually connects to (rather than
+ * resolving once up front) also covers DNS rebinding.
+ */
+export const publicOnlyLookup = (hostname: string, options: dns.LookupOptions, callback: LookupCallback): void => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: 'EPRIVATE' }), []);
+    }
+
+    const [first] = addresses;
+    if (options.all) return callback(null, addresses);
+    if (!first) return callback(Object.assign(new Error(`${hostname} did not resolve`), { code: 'ENOTFOUND' }), []);
+    callback(null, first.address, first.family);
+  });
+};
@@ -0,0 +1,43 @@
+const SECONDS_PER_DAY = 86400;
+
+// Hashrate unit the stored profitability figures are normalised to (1 MH/s)
+export const PROFITABILITY_HASHRATE_UNIT = 1e6;
+
+export interface ProfitabilityInputs {
+  hashrate: number;          // H/s
+  networkDifficulty: number;
+  blockReward: number;       // ETH per block, including average fees/uncle share
+  feePercentage: number;
+  payoutMethod?: string;
+  luck?: number | null;      // pool luck in percent, 100 = expected
+}
+
+/**
+ * Expected ETH/day for a hashrate: on average a share of 1/difficulty hashes finds a
+ * block, so hashes per day / difficulty is the expected number of blocks. PPS-style
+ * pools absorb variance, so luck only scales PPLNS earnings; without a luck the
+ * estimate is at 100% luck.
+ */
+export const estimateDailyEth = (inputs: ProfitabilityInputs): number => {
+  if (inputs.networkDifficulty <= 0 || inputs.hashrate <= 0) {
+    return 0;
+  }
+
+  const expectedBlocks = (inputs.hashrate * SECONDS_PER_DAY) / inputs.networkDifficulty;
+  return expectedBlocks * inputs.blockReward * (1 - inputs.feePercentage / 100) * luckFactor(inputs);
+};
+
+export const luckFactor = (inputs: Pick<ProfitabilityInputs, 'luck' | 'payoutMethod'>): number => {
+  if (inputs.payoutMethod !== 'PPLNS' || inputs.luck === null || inputs.luck === undefined) {
+    return 1;
+  }
+  return inputs.luck / 100;
+};
+
+// Relative change in percent, null when there is no meaningful baseline
+export const percentChange = (previous: number, current: number): number | null => {
+  if (!Number.isFinite(previous) || previous === 0) {
+    return null;
+  }
+  return ((current - previous) / previous) * 100;
+};
@@ -0,0 +1,276 @@
+import { createError } from '../middleware/errorHandler';
+import { Coin, MinerProfile, PayoutPreference, RiskTolerance, ScoreFactorBreakdown, ScoringFactor, ScoringWeights } from '../types';
+import { estimateDailyEth } from './profitability';
+
+export const SCORING_FACTORS: ScoringFactor[] = ['fee', 'pool_size', 'luck', 'activity', 'payout_method', 'payout_threshold'];
+
+// Same relative importance as the original points table
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  fee: 15,
+  pool_size: 20,
+  luck: 10,
+  activity: 10,
+  payout_method: 5,
+  payout_threshold: 10
+};
+
+export const RISK_TOLERANCES: RiskTolerance[] = ['low', 'medium', 'high'];
+export const PAYOUT_PREFERENCES: PayoutPreference[] = ['any', 'pps', 'pplns'];
+
+// Cautious miners weigh steady payouts more, risk takers weigh expected value
+const RISK_ADJUSTMENTS: Record<RiskTolerance, Partial<Record<ScoringFactor, number>>> = {
+  low: { pool_size: 1.5, luck: 1.5 },
+  medium: {},
+  high: { pool_size: 0.5, luck: 0.5, fee: 1.5 }
+};
+
+// Payout method fit when the miner states no preference; medium keeps the old PPLNS bonus
+const PAYOUT_METHOD_FIT: Record<RiskTolerance, { pps: number; pplns: number }> = {
+  low: { pps: 1, pplns: 0.5 },
+  medium: { pps: 0.75, pplns: 1 },
+  high: { pps: 0.5, pplns: 1 }
+};
+
+// Scale ends: fees at or above MAX_FEE score 0; pools grow from 10 TH/s to 1 PH/s
+const MAX_FEE_PERCENT = 3;
+const POOL_SIZE_LOG_MIN = 13;
+const POOL_SIZE_LOG_MAX = 15;
+const LUCK_TOLERANCE_PERCENT = 20;
+const FULL_ACTIVITY_BLOCKS = 6;
+const MAX_DAYS_TO_PAYOUT = 30;
+
+/**
+ * Pool figures the score is computed from
+ */
+export interface ScoringInputs {
+  coin: Coin;
+  fee_percentage: number;
+  payout_method: string;
+  minimum_payout: number | null;
+  hashrate: number | null;
+  luck_7d: number | null;
+  avg_luck_7d: number | null;
+  avg_luck_30d: number | null;
+  recent_blocks: number;
+}
+
+// Network figures of the pool's chain needed to estimate a miner's earnings
+export interface ScoringContext {
+  networkDifficulty: number;
+  blockReward: number;
+}
+
+export interface PoolScore {
+  score: number;
+  breakdown: ScoreFactorBreakdown[];
+}
+
+interface FactorResult {
+  score: number | null;
+  explanation: string;
+}
+
+const clamp = (value: number): number => Math.min(Math.max(value, 0), 1);
+
+const formatHashrate = (hashrate: number): string => {
+  const units = ['H/s', 'KH/s', 'MH/s', 'GH/s', 'TH/s', 'PH/s'];
+  let value = hashrate;
+  let unit = 0;
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+const isPpsFamily = (method: string): boolean => method === 'PPS' || method === 'PPS+';
+
+/**
+ * Parse `factor:weight` pairs such as "fee:30,luck:5" over a set of defaults.
+ * Unlisted factors keep their default; a weight of 0 turns a factor off.
+ */
+export const parseScoringWeights = (raw: unknown, defaults: ScoringWeights = DEFAULT_SCORING_WEIGHTS): ScoringWeights => {
+  const weights = { ...defaults };
+  if (raw === undefined || raw === null || String(raw).trim() === '') {
+    return weights;
+  }
+
+  for (const pair of String(raw).split(',')) {
+    const [factor, value] = pair.split(':').map(part => part.trim());
+    if (!SCORING_FACTORS.includes(factor as ScoringFactor)) {
+      throw createError(`Invalid weights. Factors must be one of: ${SCORING_FACTORS.join(', ')}`, 400);
+    }
+
+    const weight = Number(value);
+    if (value === undefined || value === '' || !Number.isFinite(weight) || weight < 0) {
+      throw createError(`Invalid weight for ${factor}. Use factor:number with a non-negative number`, 400);
+    }
+    weights[factor as ScoringFactor] = weight;
+  }
+
+  if (SCORING_FACTORS.every(factor => weights[factor] === 0)) {
+    throw createError('At least one scoring weight must be greater than 0', 400);
+  }
+
+  return weights;
+};
+
+/**
+ * Read a miner profile from query parameters:
+ *   hashrate           rig hashrate in MH/s (optional)
+ *   payout_preference  any, pps or pplns (default any)
+ *   risk_tolerance     low, medium or high (default medium)
+ */
+export const parseMinerProfile = (query: Record<string, unknown>): MinerProfile => {
+  let hashrate: number | undefined;
+  if (query.hashrate !== undefined) {
+    const hashrateMh = parseFloat(String(query.hashrate));
+    if (!Number.isFinite(hashrateMh) || hashrateMh <= 0) {
+      throw createError('hashrate (MH/s) must be a positive number', 400);
+    }
+    hashrate = hashrateMh * 1e6;
+  }
+
+  const payoutPreference = String(query.payout_preference ?? 'any').toLowerCase() as PayoutPreference;
+  if (!PAYOUT_PREFERENCES.includes(payoutPreference)) {
+    throw createError(`Invalid payout_preference. Must be one of: ${PAYOUT_PREFERENCES.join(', ')}`, 400);
+  }
+
+  const riskTolerance = String(query.risk_tolerance ?? 'medium').toLowerCase() as RiskTolerance;
+  if (!RISK_TOLERANCES.includes(riskTolerance)) {
+    throw createError(`Invalid risk_tolerance. Must be one of: ${RISK_TOLERANCES.join(', ')}`, 400);
+  }
+
+  return { hashrate, payoutPreference, riskTolerance };
+};
+
+/**
+ * Score a pool from 0 to 100 as the weighted mean of per-factor scores (each
+ * 0-1). Factors that cannot be evaluated, such as the payout threshold without
+ * a miner hashrate, drop out of the mean instead of counting as zero.
+ */
+export const scorePool = (
+  pool: ScoringInputs,
+  profile: MinerProfile,
+  weights: ScoringWeights,
+  context: ScoringContext
+): PoolScore => {
+  const results: Record<ScoringFactor, FactorResult> = {
+    fee: scoreFee(pool),
+    pool_size: scorePoolSize(pool),
+    luck: scoreLuck(pool),
+    activity: scoreActivity(pool),
+    payout_method: scorePayoutMethod(pool, profile),
+    payout_threshold: scorePayoutThreshold(pool, profile, context)
+  };
+
+  const effective = SCORING_FACTORS.map(factor => ({
+    factor,
+    weight: results[factor].score === null ? 0 : weights[factor] * (RISK_ADJUSTMENTS[profile.riskTolerance][factor] ?? 1)
+  }));
+  const totalWeight = effective.reduce((sum, entry) => sum + entry.weight, 0);
+
+  const breakdown = effective.map(({ factor, weight }): ScoreFactorBreakdown => {
+    const { score, explanation } = results[factor];
+    const points = totalWeight > 0 && score !== null ? (weight / totalWeight) * score * 100 : 0;
+    return {
+      factor,
+      weight: Math.round(weight * 100) / 100,
+      score: score === null ? null : Math.round(score * 100) / 100,
+      points: Math.round(points * 10) / 10,
+      explanation
+    };
+  });
+
+  const total = breakdown.reduce((sum, entry) => sum + entry.points, 0);
+  return { score: Math.round(Math.min(Math.max(total, 0), 100)), breakdown };
+};
+
+const scoreFee = (pool: ScoringInputs): FactorResult => ({
+  score: clamp(1 - pool.fee_percentage / MAX_FEE_PERCENT),
+  explanation: `${pool.fee_percentage}% fee (${MAX_FEE_PERCENT}% or more scores 0)`
+});
+
+// Bigger pools find blocks more often, so payouts are steadier
+const scorePoolSize = (pool: ScoringInputs): FactorResult => {
+  if (!pool.hashrate || pool.hashrate <= 0) {
+    return { score: 0, explanation: 'No hashrate reported' };
+  }
+
+  const score = clamp((Math.log10(pool.hashrate) - POOL_SIZE_LOG_MIN) / (POOL_SIZE_LOG_MAX - POOL_SIZE_LOG_MIN));
+  return { score, explanation: `${formatHashrate(pool.hashrate)} pool hashrate; larger pools pay out more steadily` };
+};
+
+// Luck close to 100% means the pool reports what the network predicts
+const scoreLuck = (pool: ScoringInputs): FactorResult => {
+  const candidates: [number | null, string][] = [
+    [pool.avg_luck_30d, '30d average luck'],
+    [pool.avg_luck_7d, '7d average luck'],
+    [pool.luck_7d, 'Latest 7d luck']
+  ];
+  const found = candidates.find(([luck]) => luck !== null && luck !== undefined);
+  if (!found) {
+    return { score: 0.5, explanation: 'No luck data; scored as neutral' };
+  }
+
+  const [luck, label] = found as [number, string];
+  const deviation = Math.abs(100 - luck);
+  return {
+    score: clamp(1 - deviation / LUCK_TOLERANCE_PERCENT),
+    explanation: `${label} ${luck.toFixed(1)}%, ${deviation.toFixed(1)} points from expected`
+  };
+};
+
+const scoreActivity = (pool: ScoringInputs): FactorResult => ({
+  score: clamp((pool.recent_blocks || 0) / FULL_ACTIVITY_BLOCKS),
+  explanation: `${pool.recent_blocks || 0} blocks in the last 24h (${FULL_ACTIVITY_BLOCKS}+ scores full marks)`
+});
+
+/**
+ * An explicit preference wins; otherwise the risk tolerance decides, since
+ * PPS pools absorb variance and PPLNS pools pass luck on to the miner.
+ */
+const scorePayoutMethod = (pool: ScoringInputs, profile: MinerProfile): FactorResult => {
+  const pps = isPpsFamily(pool.payout_method);
+
+  if (profile.payoutPreference !== 'any') {
+    const matches = profile.payoutPreference === 'pps' ? pps : pool.payout_method === 'PPLNS';
+    return {
+      score: matches ? 1 : 0,
+      explanation: `${pool.payout_method} ${matches ? 'matches' : 'does not match'} the ${profile.payoutPreference.toUpperCase()} preference`
+    };
+  }
+
+  const score = PAYOUT_METHOD_FIT[profile.riskTolerance][pps ? 'pps' : 'pplns'];
+  return {
+    score,
+    explanation: pps
+      ? `${pool.payout_method} pays a fixed rate per share and absorbs luck (${profile.riskTolerance} risk tolerance)`
+      : `${pool.payout_method} passes pool luck on to miners (${profile.riskTolerance} risk tolerance)`
+  };
+};
+
+// How long a miner of this size waits for the pool's minimum payout
+const scorePayoutThreshold = (pool: ScoringInputs, profile: MinerProfile, context: ScoringContext): FactorResult => {
+  if (!profile.hashrate) {
+    return { score: null, explanation: 'Skipped; pass hashrate to weigh the minimum payout' };
+  }
+
+  const dailyEth = estimateDailyEth({
+    hashrate: profile.hashrate,
+    networkDifficulty: context.networkDifficulty,
+    blockReward: context.blockReward,
+    feePercentage: pool.fee_percentage
+  });
+  if (dailyEth <= 0) {
+    return { score: null, explanation: 'Skipped; network difficulty is unknown' };
+  }
+
+  const minimumPayout = pool.minimum_payout ?? 0;
+  const days = minimumPayout / dailyEth;
+  const score = days <= 1 ? 1 : clamp(1 - Math.log(days) / Math.log(MAX_DAYS_TO_PAYOUT));
+  return {
+    score,
+    explanation: `About ${days < 10 ? days.toFixed(1) : Math.round(days)} days to reach the ${minimumPayout} ${pool.coin} minimum payout at ${formatHashrate(profile.hashrate)}`
+  };
+};
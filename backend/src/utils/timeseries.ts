@@ -0,0 +1,198 @@
+import { createError } from '../middleware/errorHandler';
+import { RollupResolution, SeriesAggregation, SeriesQuery } from '../types';
+
+export const RESOLUTION_SECONDS: Record<RollupResolution, number> = {
+  '1m': 60,
+  '1h': 3600,
+  '1d': 86400
+};
+
+// Periods accepted by the history endpoints, in seconds
+export const HISTORY_PERIODS: Record<string, number> = {
+  '24h': 86400,
+  '7d': 7 * 86400,
+  '30d': 30 * 86400,
+  '90d': 90 * 86400,
+  '1y': 365 * 86400
+};
+
+export const SERIES_AGGREGATIONS: SeriesAggregation[] = ['avg', 'min', 'max'];
+
+// Hard cap on points per series, whether planned or requested through interval
+export const MAX_SERIES_POINTS = 2000;
+
+const INTERVAL_UNITS: Record<string, number> = { m: 60, h: 3600, d: 86400, w: 7 * 86400 };
+
+// Point spacings picked automatically when no interval is requested
+const STEP_CANDIDATES = [
+  60, 300, 900, 1800,
+  3600, 7200, 14400, 21600, 43200,
+  86400, 2 * 86400, 7 * 86400
+];
+
+export interface SeriesPlan {
+  resolution: RollupResolution;
+  step: number;   // seconds between points
+  from: number;   // epoch seconds of the first point, aligned to step
+  to: number;     // epoch seconds of the last point, aligned to step
+}
+
+/**
+ * Column a metric/aggregation pair is returned under. Averages keep the plain
+ * metric name so default responses read like the raw table.
+ */
+export const seriesColumn = (metric: string, aggregation: SeriesAggregation): string =>
+  aggregation === 'avg' ? metric : `${metric}_${aggregation}`;
+
+/**
+ * Parse "5m", "1h", "1d" or "1w" into seconds. Intervals must be whole
+ * minutes since the finest rollup is 1m.
+ */
+export const parseInterval = (value: string): number | null => {
+  const match = /^(\d+)([mhdw])$/.exec(value.trim());
+  if (!match) return null;
+
+  const seconds = parseInt(match[1]!) * INTERVAL_UNITS[match[2]!]!;
+  return seconds > 0 ? seconds : null;
+};
+
+// ISO 8601 or unix seconds
+const parseTimestamp = (value: unknown, name: string): Date => {
+  const text = String(value);
+  const date = /^\d+$/.test(text) ? new Date(parseInt(text) * 1000) : new Date(text);
+  if (isNaN(date.getTime())) {
+    throw createError(`Invalid ${name}. Use an ISO 8601 timestamp or unix seconds`, 400);
+  }
+  return date;
+};
+
+// Comma-separated list, every entry checked against the allowed values
+const parseList = <T extends string>(value: unknown, allowed: readonly T[], name: string): T[] => {
+  const entries = String(value).split(',').map(entry => entry.trim()).filter(Boolean);
+  const invalid = entries.filter(entry => !allowed.includes(entry as T));
+
+  if (entries.length === 0 || invalid.length > 0) {
+    throw createError(`Invalid ${name}${invalid.length ? ` (${invalid.join(', ')})` : ''}. Must be any of: ${allowed.join(', ')}`, 400);
+  }
+  return [...new Set(entries)] as T[];
+};
+
+/**
+ * Turn history query parameters into a SeriesQuery:
+ *   from/to      ISO 8601 or unix seconds; default is the `period` ending now
+ *   period       24h, 7d, 30d, 90d or 1y (used when from is omitted)
+ *   interval     point spacing such as 5m, 1h or 1d; planned from limit when omitted
+ *   limit        maximum points when no interval is given
+ *   metrics      comma-separated subset of the allowed metrics (default all)
+ *   aggregations comma-separated subset of avg, min, max (default all)
+ */
+export const parseSeriesQuery = (
+  query: Record<string, unknown>,
+  metrics: readonly string[],
+  defaultPeriod: string
+): SeriesQuery => {
+  const period = String(query.period ?? defaultPeriod);
+  const rangeSeconds = HISTORY_PERIODS[period];
+  if (!rangeSeconds && query.from === undefined) {
+    throw createError(`Invalid period. Must be one of: ${Object.keys(HISTORY_PERIODS).join(', ')}`, 400);
+  }
+
+  const to = query.to !== undefined ? parseTimestamp(query.to, 'to') : new Date();
+  const from = query.from !== undefined
+    ? parseTimestamp(query.from, 'from')
+    : new Date(to.getTime() - rangeSeconds! * 1000);
+  if (from >= to) {
+    throw createError('from must be before to', 400);
+  }
+
+  let interval: number | undefined;
+  if (query.interval !== undefined) {
+    const parsed = parseInterval(String(query.interval));
+    if (!parsed) {
+      throw createError('Invalid interval. Use a number followed by m, h, d or w, e.g. 5m, 1h or 1d', 400);
+    }
+    interval = parsed;
+  }
+
+  return {
+    from,
+    to,
+    interval,
+    maxPoints: Math.min(Math.max(parseInt(String(query.limit ?? '')) || 200, 1), MAX_SERIES_POINTS),
+    metrics: query.metrics !== undefined ? parseList(query.metrics, metrics, 'metrics') : [...metrics],
+    aggregations: query.aggregations !== undefined
+      ? parseList(query.aggregations, SERIES_AGGREGATIONS, 'aggregations')
+      : [...SERIES_AGGREGATIONS]
+  };
+};
+
+/**
+ * Pick the point spacing and source rollup for a query. Without an interval
+ * the step is the smallest candidate that keeps the series within maxPoints.
+ * The resolution is the coarsest rollup that divides the step and still
+ * reaches back to `from` under its retention (seconds, 0 = kept forever).
+ */
+export const planSeries = (
+  query: Pick<SeriesQuery, 'from' | 'to' | 'interval' | 'maxPoints'>,
+  retention: Record<RollupResolution, number>,
+  now: Date = new Date()
+): SeriesPlan => {
+  const from = Math.floor(query.from.getTime() / 1000);
+  const to = Math.floor(query.to.getTime() / 1000);
+  const age = Math.floor(now.getTime() / 1000) - from;
+  const covers = (resolution: RollupResolution): boolean =>
+    retention[resolution] === 0 || retention[resolution] >= age;
+
+  let step: number;
+  if (query.interval) {
+    step = query.interval;
+    if (step % RESOLUTION_SECONDS['1m'] !== 0) {
+      throw createError('interval must be a whole number of minutes', 400);
+    }
+  } else {
+    const minimumStep = (to - from) / Math.max(query.maxPoints, 1);
+    step = STEP_CANDIDATES.find(candidate => candidate >= minimumStep) ?? STEP_CANDIDATES[STEP_CANDIDATES.length - 1]!;
+    // Widen automatic steps until a rollup that still holds the range can serve them
+    if (step < RESOLUTION_SECONDS['1h'] && !covers('1m')) step = RESOLUTION_SECONDS['1h'];
+    if (step < RESOLUTION_SECONDS['1d'] && !covers('1m') && !covers('1h')) step = RESOLUTION_SECONDS['1d'];
+  }
+
+  const resolution = (['1d', '1h', '1m'] as RollupResolution[])
+    .find(candidate => step % RESOLUTION_SECONDS[candidate] === 0 && covers(candidate));
+  if (!resolution) {
+    throw createError(`interval is too fine for data that old; use a multiple of ${covers('1h') ? '1h' : '1d'}`, 400);
+  }
+
+  const plan: SeriesPlan = {
+    resolution,
+    step,
+    from: Math.floor(from / step) * step,
+    to: Math.floor(to / step) * step
+  };
+
+  if ((plan.to - plan.from) / step + 1 > MAX_SERIES_POINTS) {
+    throw createError(`Range and interval would return more than ${MAX_SERIES_POINTS} points; use a larger interval`, 400);
+  }
+
+  return plan;
+};
+
+/**
+ * Lay bucketed rows onto every step of the plan so points are evenly spaced;
+ * steps without data become points whose columns are all null.
+ */
+export const fillSeries = (plan: SeriesPlan, rows: any[], columns: string[]): Record<string, any>[] => {
+  const rowsByBucket = new Map(rows.map(row => [Number(row.bucket), row]));
+  const points: Record<string, any>[] = [];
+
+  for (let bucket = plan.from; bucket <= plan.to; bucket += plan.step) {
+    const row = rowsByBucket.get(bucket);
+    const point: Record<string, any> = { timestamp: new Date(bucket * 1000).toISOString() };
+    for (const column of columns) {
+      point[column] = row ? row[column] ?? null : null;
+    }
+    points.push(point);
+  }
+
+  return points;
+};
@@ -8,6 +8,8 @@ CREATE TABLE pools (
     id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
     name TEXT NOT NULL UNIQUE,
     api_url TEXT NOT NULL,
+    adapter_type TEXT, -- key into the pool adapter registry, NULL = not collected
+    coin TEXT NOT NULL DEFAULT 'ETHW' CHECK (coin IN ('ETH', 'ETC', 'ETHW')), -- chain the pool mines
     fee_percentage REAL NOT NULL,
     payout_method TEXT NOT NULL CHECK (payout_method IN ('PPS', 'PPLNS', 'PPS+')),
     status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive', 'maintenance')),
@@ -20,51 +22,205 @@ CREATE TABLE pools (
 CREATE TABLE pool_statistics (
     id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
     pool_id TEXT NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    coin TEXT NOT NULL DEFAULT 'ETHW', -- copied from the pool so per-chain queries skip the join
     timestamp DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     hashrate INTEGER NOT NULL, -- in H/s
     miners_count INTEGER NOT NULL DEFAULT 0,
     blocks_found_24h INTEGER NOT NULL DEFAULT 0,
-    luck_7d REAL NOT NULL DEFAULT 0, -- percentage
+    luck_7d REAL, -- percentage, NULL when the pool doesn't report it
     difficulty INTEGER NOT NULL DEFAULT 0,
     block_time INTEGER NOT NULL DEFAULT 0, -- in seconds
     last_block_time DATETIME,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Pool Statistics Rollups (min/avg/max per 1m, 1h and 1d bucket, filled by the compaction job)
+CREATE TABLE pool_statistics_rollup (
+    pool_id TEXT NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    resolution TEXT NOT NULL CHECK (resolution IN ('1m', '1h', '1d')),
+    bucket_start DATETIME NOT NULL, -- UTC start of the bucket
+    sample_count INTEGER NOT NULL, -- raw readings folded into the bucket
+    hashrate_min REAL, -- in H/s
+    hashrate_avg REAL,
+    hashrate_max REAL,
+    miners_count_min REAL,
+    miners_count_avg REAL,
+    miners_count_max REAL,
+    blocks_found_24h_min REAL,
+    blocks_found_24h_avg REAL,
+    blocks_found_24h_max REAL,
+    luck_7d_min REAL, -- NULL when the pool doesn't report luck
+    luck_7d_avg REAL,
+    luck_7d_max REAL,
+    difficulty_min REAL,
+    difficulty_avg REAL,
+    difficulty_max REAL,
+    block_time_min REAL, -- in seconds
+    block_time_avg REAL,
+    block_time_max REAL,
+    PRIMARY KEY (pool_id, resolution, bucket_start)
+);
+
+-- Pool Fetch Log (one row per collection attempt)
+CREATE TABLE pool_fetch_log (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    pool_id TEXT NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    fetched_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    success INTEGER NOT NULL DEFAULT 0, -- 0 = false, 1 = true
+    statistics_id TEXT REFERENCES pool_statistics(id) ON DELETE SET NULL,
+    response_time_ms INTEGER,
+    error_message TEXT
+);
+
+-- Pool Profitability (Time-series of the expected-earnings model, per 1 MH/s)
+CREATE TABLE pool_profitability (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    pool_id TEXT NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    timestamp DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    eth_per_mh_day REAL NOT NULL, -- expected coins/day of the pool's coin for 1 MH/s after fee and luck
+    usd_per_mh_day REAL NOT NULL,
+    eth_price REAL NOT NULL, -- USD price of the pool's coin
+    network_difficulty INTEGER NOT NULL,
+    block_reward REAL NOT NULL, -- coins per block at the time of the reading
+    fee_percentage REAL NOT NULL,
+    luck_factor REAL NOT NULL DEFAULT 1 -- multiplier applied for PPLNS luck
+);
+
 -- Blocks Table
 CREATE TABLE blocks (
     id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
     pool_id TEXT NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    coin TEXT NOT NULL DEFAULT 'ETHW',
     block_number INTEGER NOT NULL,
     timestamp DATETIME NOT NULL,
-    reward REAL NOT NULL, -- in ETH
+    reward REAL NOT NULL, -- in the pool's coin
     miner_count INTEGER NOT NULL DEFAULT 0,
     difficulty INTEGER NOT NULL,
     hash TEXT NOT NULL, -- 0x prefix + 64 hex chars
     uncle INTEGER NOT NULL DEFAULT 0, -- 0 = false, 1 = true
+    status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('pending', 'immature', 'confirmed', 'orphaned')),
+    matured_at DATETIME,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     
     UNIQUE(pool_id, block_number)
 );
 
+-- Users Table (dashboard accounts; own alert subscriptions and watchlists)
+CREATE TABLE users (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    email TEXT NOT NULL UNIQUE, -- lower-cased
+    password_hash TEXT NOT NULL, -- bcrypt
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_login_at DATETIME
+);
+
+-- Miners (wallet addresses tracked on a pool)
+CREATE TABLE miners (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    address TEXT NOT NULL, -- lower-cased 0x wallet address
+    pool_id TEXT NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    last_fetch_at DATETIME,
+    last_fetch_error TEXT, -- NULL when the last poll succeeded
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(address, pool_id)
+);
+
+-- Watchlist Table (tracked miners each user follows; a miner is collected while anyone watches it)
+CREATE TABLE watchlist (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    miner_id TEXT NOT NULL REFERENCES miners(id) ON DELETE CASCADE,
+    label TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, miner_id)
+);
+
+-- Miner Statistics Table (Time-series data per registered address)
+CREATE TABLE miner_statistics (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    miner_id TEXT NOT NULL REFERENCES miners(id) ON DELETE CASCADE,
+    timestamp DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    reported_hashrate INTEGER, -- in H/s, NULL when the pool doesn't expose it
+    current_hashrate INTEGER NOT NULL DEFAULT 0, -- in H/s
+    valid_shares INTEGER NOT NULL DEFAULT 0,
+    invalid_shares INTEGER NOT NULL DEFAULT 0,
+    stale_shares INTEGER NOT NULL DEFAULT 0,
+    active_workers INTEGER NOT NULL DEFAULT 0,
+    unpaid REAL NOT NULL DEFAULT 0 -- in ETH
+);
+
+-- Workers (individual rigs reporting under a miner address)
+CREATE TABLE workers (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    miner_id TEXT NOT NULL REFERENCES miners(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    is_online INTEGER NOT NULL DEFAULT 1, -- 0 = offline, 1 = online
+    last_seen_at DATETIME,
+    status_changed_at DATETIME DEFAULT CURRENT_TIMESTAMP, -- when is_online last flipped
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(miner_id, name)
+);
+
+-- Worker Statistics Table (status history per worker)
+CREATE TABLE worker_statistics (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    worker_id TEXT NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+    timestamp DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    is_online INTEGER NOT NULL DEFAULT 1, -- 0 = offline, 1 = online
+    reported_hashrate INTEGER, -- in H/s, NULL when the pool doesn't expose it
+    current_hashrate INTEGER NOT NULL DEFAULT 0, -- in H/s
+    valid_shares INTEGER NOT NULL DEFAULT 0,
+    invalid_shares INTEGER NOT NULL DEFAULT 0,
+    stale_shares INTEGER NOT NULL DEFAULT 0
+);
+
+-- Notification Channels (chat and webhook destinations an account routes alerts to)
+CREATE TABLE notification_channels (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('webhook', 'slack', 'discord', 'telegram')),
+    name TEXT NOT NULL,
+    config TEXT NOT NULL, -- JSON: url + secret (webhook), webhook_url (slack, discord), bot_token + chat_id (telegram)
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Alert Subscriptions Table
 CREATE TABLE alert_subscriptions (
     id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-    email TEXT NOT NULL,
+    user_id TEXT REFERENCES users(id) ON DELETE CASCADE, -- owner; NULL for subscriptions from before accounts
+    email TEXT NOT NULL, -- where alert emails are delivered
     pool_id TEXT REFERENCES pools(id) ON DELETE CASCADE, -- NULL for global alerts
+    miner_address TEXT, -- wallet address for miner/worker alerts, NULL otherwise
     alert_type TEXT NOT NULL CHECK (alert_type IN (
         'hashrate_drop', 
         'pool_offline', 
         'luck_streak', 
         'new_block', 
-        'profitability_change'
+        'profitability_change',
+        'worker_offline',
+        'hashrate_divergence',
+        'rejected_share_ratio'
     )),
     threshold REAL, -- threshold value (percentage, hashrate, etc.)
-    is_active INTEGER NOT NULL DEFAULT 1, -- 0 = false, 1 = true
+    is_active INTEGER NOT NULL DEFAULT 1, -- 0 = false, 1 = true; new subscriptions stay 0 until confirmed
+    confirmed_at DATETIME, -- when the recipient clicked the verification link; NULL while pending or after unsubscribing
+    confirmation_sent_at DATETIME, -- last verification email; another is refused for a few minutes after it
+    cooldown_minutes INTEGER NOT NULL DEFAULT 60, -- minimum gap between two triggers of this subscription; 0 = none
+    quiet_hours_start TEXT, -- 'HH:MM' in timezone; emails are held from start to end (may wrap past midnight)
+    quiet_hours_end TEXT,
+    timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA zone for quiet hours, e.g. 'Europe/Berlin'
+    delivery_mode TEXT NOT NULL DEFAULT 'immediate' CHECK (delivery_mode IN ('immediate', 'hourly', 'daily')),
+    for_minutes INTEGER NOT NULL DEFAULT 0, -- condition alerts: how long the condition must hold before firing
+    resolve_threshold REAL, -- condition alerts: value that counts as recovered (hysteresis); NULL = threshold
+    state TEXT NOT NULL DEFAULT 'ok' CHECK (state IN ('ok', 'pending', 'firing', 'resolved')),
+    state_changed_at DATETIME,
+    email_enabled INTEGER NOT NULL DEFAULT 1, -- 0 = deliver only to the selected notification channels
+    blocks_checked_until DATETIME, -- new_block alerts: blocks ingested before this were already considered; NULL = not checked yet
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     
-    UNIQUE(email, pool_id, alert_type)
+    UNIQUE(email, pool_id, alert_type, miner_address)
 );
 
 -- Alert History Table
@@ -77,26 +233,73 @@ CREATE TABLE alert_history (
     pool_id TEXT REFERENCES pools(id) ON DELETE SET NULL,
     trigger_value REAL, -- actual value that triggered the alert
     email_sent_at DATETIME,
-    error_message TEXT
+    error_message TEXT,
+    digest_pending INTEGER NOT NULL DEFAULT 0, -- 1 = waiting for the next digest or the end of quiet hours
+    kind TEXT NOT NULL DEFAULT 'firing' CHECK (kind IN ('firing', 'resolved')) -- resolved = the condition cleared
+);
+
+-- Subscription Channels (notification channels each subscription delivers to besides email)
+CREATE TABLE alert_subscription_channels (
+    subscription_id TEXT NOT NULL REFERENCES alert_subscriptions(id) ON DELETE CASCADE,
+    channel_id TEXT NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+    PRIMARY KEY (subscription_id, channel_id)
+);
+
+-- Alert Deliveries (one row per alert and channel it was sent to; email outcomes stay on alert_history)
+CREATE TABLE alert_history_deliveries (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    alert_history_id TEXT NOT NULL REFERENCES alert_history(id) ON DELETE CASCADE,
+    channel_id TEXT REFERENCES notification_channels(id) ON DELETE SET NULL,
+    channel_type TEXT NOT NULL,
+    success INTEGER NOT NULL DEFAULT 0, -- 0 = false, 1 = true
+    error_message TEXT,
+    attempted_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Network Statistics Table
 CREATE TABLE network_stats (
     id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    coin TEXT NOT NULL DEFAULT 'ETHW' CHECK (coin IN ('ETH', 'ETC', 'ETHW')),
     timestamp DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    block_number INTEGER, -- chain head the reading was taken at
     total_hashrate INTEGER NOT NULL, -- in H/s
     difficulty INTEGER NOT NULL,
-    block_time INTEGER NOT NULL, -- average in seconds
+    block_time REAL NOT NULL, -- average in seconds over the sampled blocks
     pending_transactions INTEGER NOT NULL DEFAULT 0,
     gas_price INTEGER NOT NULL DEFAULT 0, -- in Wei
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
--- User Sessions (for future authentication)
+-- Network Statistics Rollups (min/avg/max per 1m, 1h and 1d bucket, filled by the compaction job)
+CREATE TABLE network_stats_rollup (
+    coin TEXT NOT NULL DEFAULT 'ETHW',
+    resolution TEXT NOT NULL CHECK (resolution IN ('1m', '1h', '1d')),
+    bucket_start DATETIME NOT NULL, -- UTC start of the bucket
+    sample_count INTEGER NOT NULL, -- raw readings folded into the bucket
+    total_hashrate_min REAL, -- in H/s
+    total_hashrate_avg REAL,
+    total_hashrate_max REAL,
+    difficulty_min REAL,
+    difficulty_avg REAL,
+    difficulty_max REAL,
+    block_time_min REAL, -- in seconds
+    block_time_avg REAL,
+    block_time_max REAL,
+    pending_transactions_min REAL,
+    pending_transactions_avg REAL,
+    pending_transactions_max REAL,
+    gas_price_min REAL, -- in Wei
+    gas_price_avg REAL,
+    gas_price_max REAL,
+    PRIMARY KEY (coin, resolution, bucket_start)
+);
+
+-- User Sessions (one row per issued JWT; deleting the row revokes the token)
 CREATE TABLE user_sessions (
     id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     email TEXT NOT NULL,
-    session_token TEXT NOT NULL UNIQUE,
+    session_token TEXT NOT NULL UNIQUE, -- the JWT's jti claim
     expires_at DATETIME NOT NULL,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     last_accessed_at DATETIME DEFAULT CURRENT_TIMESTAMP
@@ -108,12 +311,29 @@ CREATE TABLE user_sessions (
 CREATE INDEX idx_pool_stats_pool_timestamp ON pool_statistics(pool_id, timestamp DESC);
 CREATE INDEX idx_pool_stats_timestamp ON pool_statistics(timestamp DESC);
 
+-- Rollup indexes (primary keys cover per-pool lookups)
+CREATE INDEX idx_pool_stats_rollup_bucket ON pool_statistics_rollup(resolution, bucket_start DESC);
+
+-- Pool fetch log indexes
+CREATE INDEX idx_pool_fetch_log_pool ON pool_fetch_log(pool_id, fetched_at DESC);
+
+-- Pool profitability indexes
+CREATE INDEX idx_pool_profitability_pool ON pool_profitability(pool_id, timestamp DESC);
+
 -- Blocks indexes
 CREATE INDEX idx_blocks_pool_timestamp ON blocks(pool_id, timestamp DESC);
 CREATE INDEX idx_blocks_block_number ON blocks(block_number DESC);
 CREATE INDEX idx_blocks_timestamp ON blocks(timestamp DESC);
+CREATE INDEX idx_blocks_coin_timestamp ON blocks(coin, timestamp DESC);
+
+-- Miner indexes
+CREATE INDEX idx_miners_address ON miners(address);
+CREATE INDEX idx_miner_statistics_miner_timestamp ON miner_statistics(miner_id, timestamp DESC);
+CREATE INDEX idx_worker_statistics_worker_timestamp ON worker_statistics(worker_id, timestamp DESC);
+CREATE INDEX idx_watchlist_miner ON watchlist(miner_id);
 
 -- Alert subscriptions indexes
+CREATE INDEX idx_alert_subs_user ON alert_subscriptions(user_id);
 CREATE INDEX idx_alert_subs_email ON alert_subscriptions(email);
 CREATE INDEX idx_alert_subs_pool ON alert_subscriptions(pool_id);
 CREATE INDEX idx_alert_subs_active ON alert_subscriptions(is_active) WHERE is_active = 1;
@@ -121,11 +341,18 @@ CREATE INDEX idx_alert_subs_active ON alert_subscriptions(is_active) WHERE is_ac
 -- Alert history indexes
 CREATE INDEX idx_alert_history_subscription ON alert_history(subscription_id, triggered_at DESC);
 CREATE INDEX idx_alert_history_triggered ON alert_history(triggered_at DESC);
+CREATE INDEX idx_alert_history_digest ON alert_history(digest_pending, subscription_id);
+CREATE INDEX idx_alert_history_deliveries_alert ON alert_history_deliveries(alert_history_id);
+
+-- Notification channel indexes
+CREATE INDEX idx_notification_channels_user ON notification_channels(user_id);
+CREATE INDEX idx_alert_subscription_channels_channel ON alert_subscription_channels(channel_id);
 
 -- Network stats index
-CREATE INDEX idx_network_stats_timestamp ON network_stats(timestamp DESC);
+CREATE INDEX idx_network_stats_coin_timestamp ON network_stats(coin, timestamp DESC);
 
 -- User sessions indexes
+CREATE INDEX idx_user_sessions_user ON user_sessions(user_id);
 CREATE INDEX idx_user_sessions_email ON user_sessions(email);
 CREATE INDEX idx_user_sessions_token ON user_sessions(session_token);
 CREATE INDEX idx_user_sessions_expires ON user_sessions(expires_at);
@@ -151,6 +378,20 @@ WHERE timestamp = (
     WHERE ps2.pool_id = ps1.pool_id
 );
 
+-- Latest fetch attempt per pool view (SQLite compatible)
+CREATE VIEW latest_pool_fetch AS
+SELECT 
+    pool_id,
+    fetched_at,
+    success,
+    error_message
+FROM pool_fetch_log pf1
+WHERE fetched_at = (
+    SELECT MAX(fetched_at) 
+    FROM pool_fetch_log pf2 
+    WHERE pf2.pool_id = pf1.pool_id
+);
+
 -- Pool performance summary view (SQLite compatible)
 CREATE VIEW pool_performance_summary AS
 SELECT 
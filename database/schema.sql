@@ -6,6 +6,8 @@ CREATE TABLE pools (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(), -- PostgreSQL: Use UUID, SQLite: TEXT
     name VARCHAR(100) NOT NULL UNIQUE,
     api_url VARCHAR(255) NOT NULL,
+    adapter_type VARCHAR(30), -- key into the pool adapter registry, NULL = not collected
+    coin VARCHAR(10) NOT NULL DEFAULT 'ETHW' CHECK (coin IN ('ETH', 'ETC', 'ETHW')), -- chain the pool mines
     fee_percentage DECIMAL(5,2) NOT NULL,
     payout_method VARCHAR(10) NOT NULL CHECK (payout_method IN ('PPS', 'PPLNS', 'PPS+')),
     status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive', 'maintenance')),
@@ -18,51 +20,205 @@ CREATE TABLE pools (
 CREATE TABLE pool_statistics (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     pool_id UUID NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    coin VARCHAR(10) NOT NULL DEFAULT 'ETHW', -- copied from the pool so per-chain queries skip the join
     timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     hashrate BIGINT NOT NULL, -- in H/s
     miners_count INTEGER NOT NULL DEFAULT 0,
     blocks_found_24h INTEGER NOT NULL DEFAULT 0,
-    luck_7d DECIMAL(8,4) NOT NULL DEFAULT 0, -- percentage
+    luck_7d DECIMAL(8,4), -- percentage, NULL when the pool doesn't report it
     difficulty BIGINT NOT NULL DEFAULT 0,
     block_time INTEGER NOT NULL DEFAULT 0, -- in seconds
     last_block_time TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Pool Statistics Rollups (min/avg/max per 1m, 1h and 1d bucket, filled by the compaction job)
+CREATE TABLE pool_statistics_rollup (
+    pool_id UUID NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    resolution TEXT NOT NULL CHECK (resolution IN ('1m', '1h', '1d')),
+    bucket_start TIMESTAMP NOT NULL, -- UTC start of the bucket
+    sample_count INTEGER NOT NULL, -- raw readings folded into the bucket
+    hashrate_min DOUBLE PRECISION, -- in H/s
+    hashrate_avg DOUBLE PRECISION,
+    hashrate_max DOUBLE PRECISION,
+    miners_count_min DOUBLE PRECISION,
+    miners_count_avg DOUBLE PRECISION,
+    miners_count_max DOUBLE PRECISION,
+    blocks_found_24h_min DOUBLE PRECISION,
+    blocks_found_24h_avg DOUBLE PRECISION,
+    blocks_found_24h_max DOUBLE PRECISION,
+    luck_7d_min DOUBLE PRECISION, -- NULL when the pool doesn't report luck
+    luck_7d_avg DOUBLE PRECISION,
+    luck_7d_max DOUBLE PRECISION,
+    difficulty_min DOUBLE PRECISION,
+    difficulty_avg DOUBLE PRECISION,
+    difficulty_max DOUBLE PRECISION,
+    block_time_min DOUBLE PRECISION, -- in seconds
+    block_time_avg DOUBLE PRECISION,
+    block_time_max DOUBLE PRECISION,
+    PRIMARY KEY (pool_id, resolution, bucket_start)
+);
+
+-- Pool Fetch Log (one row per collection attempt)
+CREATE TABLE pool_fetch_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    pool_id UUID NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    fetched_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    success INTEGER NOT NULL DEFAULT 0, -- 0 = false, 1 = true
+    statistics_id UUID REFERENCES pool_statistics(id) ON DELETE SET NULL,
+    response_time_ms INTEGER,
+    error_message TEXT
+);
+
+-- Pool Profitability (Time-series of the expected-earnings model, per 1 MH/s)
+CREATE TABLE pool_profitability (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    pool_id UUID NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    eth_per_mh_day DOUBLE PRECISION NOT NULL, -- expected coins/day of the pool's coin for 1 MH/s after fee and luck
+    usd_per_mh_day DOUBLE PRECISION NOT NULL,
+    eth_price DOUBLE PRECISION NOT NULL, -- USD price of the pool's coin
+    network_difficulty BIGINT NOT NULL,
+    block_reward DOUBLE PRECISION NOT NULL, -- coins per block at the time of the reading
+    fee_percentage DOUBLE PRECISION NOT NULL,
+    luck_factor DOUBLE PRECISION NOT NULL DEFAULT 1 -- multiplier applied for PPLNS luck
+);
+
 -- Blocks Table
 CREATE TABLE blocks (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     pool_id UUID NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    coin VARCHAR(10) NOT NULL DEFAULT 'ETHW',
     block_number BIGINT NOT NULL,
     timestamp TIMESTAMP NOT NULL,
-    reward DECIMAL(18,8) NOT NULL, -- in ETH
+    reward DECIMAL(18,8) NOT NULL, -- in the pool's coin
     miner_count INTEGER NOT NULL DEFAULT 0,
     difficulty BIGINT NOT NULL,
     hash VARCHAR(66) NOT NULL, -- 0x prefix + 64 hex chars
     uncle BOOLEAN NOT NULL DEFAULT FALSE,
+    status VARCHAR(20) NOT NULL DEFAULT 'confirmed' CHECK (status IN ('pending', 'immature', 'confirmed', 'orphaned')),
+    matured_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     
     UNIQUE(pool_id, block_number)
 );
 
+-- Users Table (dashboard accounts; own alert subscriptions and watchlists)
+CREATE TABLE users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email VARCHAR(255) NOT NULL UNIQUE, -- lower-cased
+    password_hash VARCHAR(255) NOT NULL, -- bcrypt
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_login_at TIMESTAMP
+);
+
+-- Miners (wallet addresses tracked on a pool)
+CREATE TABLE miners (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    address TEXT NOT NULL, -- lower-cased 0x wallet address
+    pool_id UUID NOT NULL REFERENCES pools(id) ON DELETE CASCADE,
+    last_fetch_at TIMESTAMP,
+    last_fetch_error TEXT, -- NULL when the last poll succeeded
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(address, pool_id)
+);
+
+-- Watchlist Table (tracked miners each user follows; a miner is collected while anyone watches it)
+CREATE TABLE watchlist (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    miner_id UUID NOT NULL REFERENCES miners(id) ON DELETE CASCADE,
+    label TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, miner_id)
+);
+
+-- Miner Statistics Table (Time-series data per registered address)
+CREATE TABLE miner_statistics (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    miner_id UUID NOT NULL REFERENCES miners(id) ON DELETE CASCADE,
+    timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    reported_hashrate BIGINT, -- in H/s, NULL when the pool doesn't expose it
+    current_hashrate BIGINT NOT NULL DEFAULT 0, -- in H/s
+    valid_shares INTEGER NOT NULL DEFAULT 0,
+    invalid_shares INTEGER NOT NULL DEFAULT 0,
+    stale_shares INTEGER NOT NULL DEFAULT 0,
+    active_workers INTEGER NOT NULL DEFAULT 0,
+    unpaid DOUBLE PRECISION NOT NULL DEFAULT 0 -- in ETH
+);
+
+-- Workers (individual rigs reporting under a miner address)
+CREATE TABLE workers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    miner_id UUID NOT NULL REFERENCES miners(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    is_online BOOLEAN NOT NULL DEFAULT TRUE,
+    last_seen_at TIMESTAMP,
+    status_changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- when is_online last flipped
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(miner_id, name)
+);
+
+-- Worker Statistics Table (status history per worker)
+CREATE TABLE worker_statistics (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+    timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    is_online BOOLEAN NOT NULL DEFAULT TRUE,
+    reported_hashrate BIGINT, -- in H/s, NULL when the pool doesn't expose it
+    current_hashrate BIGINT NOT NULL DEFAULT 0, -- in H/s
+    valid_shares INTEGER NOT NULL DEFAULT 0,
+    invalid_shares INTEGER NOT NULL DEFAULT 0,
+    stale_shares INTEGER NOT NULL DEFAULT 0
+);
+
+-- Notification Channels (chat and webhook destinations an account routes alerts to)
+CREATE TABLE notification_channels (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type VARCHAR(10) NOT NULL CHECK (type IN ('webhook', 'slack', 'discord', 'telegram')),
+    name VARCHAR(100) NOT NULL,
+    config TEXT NOT NULL, -- JSON: url + secret (webhook), webhook_url (slack, discord), bot_token + chat_id (telegram)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Alert Subscriptions Table
 CREATE TABLE alert_subscriptions (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    email VARCHAR(255) NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE, -- owner; NULL for subscriptions from before accounts
+    email VARCHAR(255) NOT NULL, -- where alert emails are delivered
     pool_id UUID REFERENCES pools(id) ON DELETE CASCADE, -- NULL for global alerts
+    miner_address TEXT, -- wallet address for miner/worker alerts, NULL otherwise
     alert_type VARCHAR(30) NOT NULL CHECK (alert_type IN (
         'hashrate_drop', 
         'pool_offline', 
         'luck_streak', 
         'new_block', 
-        'profitability_change'
+        'profitability_change',
+        'worker_offline',
+        'hashrate_divergence',
+        'rejected_share_ratio'
     )),
     threshold DECIMAL(10,2), -- threshold value (percentage, hashrate, etc.)
-    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE, -- new subscriptions stay FALSE until confirmed
+    confirmed_at TIMESTAMP, -- when the recipient clicked the verification link; NULL while pending or after unsubscribing
+    confirmation_sent_at TIMESTAMP, -- last verification email; another is refused for a few minutes after it
+    cooldown_minutes INTEGER NOT NULL DEFAULT 60, -- minimum gap between two triggers of this subscription; 0 = none
+    quiet_hours_start VARCHAR(5), -- 'HH:MM' in timezone; emails are held from start to end (may wrap past midnight)
+    quiet_hours_end VARCHAR(5),
+    timezone VARCHAR(64) NOT NULL DEFAULT 'UTC', -- IANA zone for quiet hours, e.g. 'Europe/Berlin'
+    delivery_mode VARCHAR(10) NOT NULL DEFAULT 'immediate' CHECK (delivery_mode IN ('immediate', 'hourly', 'daily')),
+    for_minutes INTEGER NOT NULL DEFAULT 0, -- condition alerts: how long the condition must hold before firing
+    resolve_threshold DECIMAL(10,2), -- condition alerts: value that counts as recovered (hysteresis); NULL = threshold
+    state VARCHAR(10) NOT NULL DEFAULT 'ok' CHECK (state IN ('ok', 'pending', 'firing', 'resolved')),
+    state_changed_at TIMESTAMP,
+    email_enabled BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE = deliver only to the selected notification channels
+    blocks_checked_until TIMESTAMP, -- new_block alerts: blocks ingested before this were already considered; NULL = not checked yet
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     
-    UNIQUE(email, pool_id, alert_type)
+    UNIQUE(email, pool_id, alert_type, miner_address)
 );
 
 -- Alert History Table
@@ -75,26 +231,73 @@ CREATE TABLE alert_history (
     pool_id UUID REFERENCES pools(id) ON DELETE SET NULL,
     trigger_value DECIMAL(15,6), -- actual value that triggered the alert
     email_sent_at TIMESTAMP,
-    error_message TEXT
+    error_message TEXT,
+    digest_pending BOOLEAN NOT NULL DEFAULT FALSE, -- waiting for the next digest or the end of quiet hours
+    kind VARCHAR(10) NOT NULL DEFAULT 'firing' CHECK (kind IN ('firing', 'resolved')) -- resolved = the condition cleared
+);
+
+-- Subscription Channels (notification channels each subscription delivers to besides email)
+CREATE TABLE alert_subscription_channels (
+    subscription_id UUID NOT NULL REFERENCES alert_subscriptions(id) ON DELETE CASCADE,
+    channel_id UUID NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+    PRIMARY KEY (subscription_id, channel_id)
+);
+
+-- Alert Deliveries (one row per alert and channel it was sent to; email outcomes stay on alert_history)
+CREATE TABLE alert_history_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_history_id UUID NOT NULL REFERENCES alert_history(id) ON DELETE CASCADE,
+    channel_id UUID REFERENCES notification_channels(id) ON DELETE SET NULL,
+    channel_type VARCHAR(10) NOT NULL,
+    success INTEGER NOT NULL DEFAULT 0, -- 0 = false, 1 = true
+    error_message TEXT,
+    attempted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Network Statistics Table
 CREATE TABLE network_stats (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    coin VARCHAR(10) NOT NULL DEFAULT 'ETHW' CHECK (coin IN ('ETH', 'ETC', 'ETHW')),
     timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    block_number BIGINT, -- chain head the reading was taken at
     total_hashrate BIGINT NOT NULL, -- in H/s
     difficulty BIGINT NOT NULL,
-    block_time INTEGER NOT NULL, -- average in seconds
+    block_time DOUBLE PRECISION NOT NULL, -- average in seconds over the sampled blocks
     pending_transactions INTEGER NOT NULL DEFAULT 0,
     gas_price BIGINT NOT NULL DEFAULT 0, -- in Wei
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
--- User Sessions (for future authentication)
+-- Network Statistics Rollups (min/avg/max per 1m, 1h and 1d bucket, filled by the compaction job)
+CREATE TABLE network_stats_rollup (
+    coin VARCHAR(10) NOT NULL DEFAULT 'ETHW',
+    resolution TEXT NOT NULL CHECK (resolution IN ('1m', '1h', '1d')),
+    bucket_start TIMESTAMP NOT NULL, -- UTC start of the bucket
+    sample_count INTEGER NOT NULL, -- raw readings folded into the bucket
+    total_hashrate_min DOUBLE PRECISION, -- in H/s
+    total_hashrate_avg DOUBLE PRECISION,
+    total_hashrate_max DOUBLE PRECISION,
+    difficulty_min DOUBLE PRECISION,
+    difficulty_avg DOUBLE PRECISION,
+    difficulty_max DOUBLE PRECISION,
+    block_time_min DOUBLE PRECISION, -- in seconds
+    block_time_avg DOUBLE PRECISION,
+    block_time_max DOUBLE PRECISION,
+    pending_transactions_min DOUBLE PRECISION,
+    pending_transactions_avg DOUBLE PRECISION,
+    pending_transactions_max DOUBLE PRECISION,
+    gas_price_min DOUBLE PRECISION, -- in Wei
+    gas_price_avg DOUBLE PRECISION,
+    gas_price_max DOUBLE PRECISION,
+    PRIMARY KEY (coin, resolution, bucket_start)
+);
+
+-- User Sessions (one row per issued JWT; deleting the row revokes the token)
 CREATE TABLE user_sessions (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     email VARCHAR(255) NOT NULL,
-    session_token VARCHAR(255) NOT NULL UNIQUE,
+    session_token VARCHAR(255) NOT NULL UNIQUE, -- the JWT's jti claim
     expires_at TIMESTAMP NOT NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     last_accessed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -106,12 +309,29 @@ CREATE TABLE user_sessions (
 CREATE INDEX idx_pool_stats_pool_timestamp ON pool_statistics(pool_id, timestamp DESC);
 CREATE INDEX idx_pool_stats_timestamp ON pool_statistics(timestamp DESC);
 
+-- Rollup indexes (primary keys cover per-pool lookups)
+CREATE INDEX idx_pool_stats_rollup_bucket ON pool_statistics_rollup(resolution, bucket_start DESC);
+
+-- Pool fetch log indexes
+CREATE INDEX idx_pool_fetch_log_pool ON pool_fetch_log(pool_id, fetched_at DESC);
+
+-- Pool profitability indexes
+CREATE INDEX idx_pool_profitability_pool ON pool_profitability(pool_id, timestamp DESC);
+
 -- Blocks indexes
 CREATE INDEX idx_blocks_pool_timestamp ON blocks(pool_id, timestamp DESC);
 CREATE INDEX idx_blocks_block_number ON blocks(block_number DESC);
 CREATE INDEX idx_blocks_timestamp ON blocks(timestamp DESC);
+CREATE INDEX idx_blocks_coin_timestamp ON blocks(coin, timestamp DESC);
+
+-- Miner indexes
+CREATE INDEX idx_miners_address ON miners(address);
+CREATE INDEX idx_miner_statistics_miner_timestamp ON miner_statistics(miner_id, timestamp DESC);
+CREATE INDEX idx_worker_statistics_worker_timestamp ON worker_statistics(worker_id, timestamp DESC);
+CREATE INDEX idx_watchlist_miner ON watchlist(miner_id);
 
 -- Alert subscriptions indexes
+CREATE INDEX idx_alert_subs_user ON alert_subscriptions(user_id);
 CREATE INDEX idx_alert_subs_email ON alert_subscriptions(email);
 CREATE INDEX idx_alert_subs_pool ON alert_subscriptions(pool_id);
 CREATE INDEX idx_alert_subs_active ON alert_subscriptions(is_active) WHERE is_active = TRUE;
@@ -119,11 +339,18 @@ CREATE INDEX idx_alert_subs_active ON alert_subscriptions(is_active) WHERE is_ac
 -- Alert history indexes
 CREATE INDEX idx_alert_history_subscription ON alert_history(subscription_id, triggered_at DESC);
 CREATE INDEX idx_alert_history_triggered ON alert_history(triggered_at DESC);
+CREATE INDEX idx_alert_history_digest ON alert_history(digest_pending, subscription_id);
+CREATE INDEX idx_alert_history_deliveries_alert ON alert_history_deliveries(alert_history_id);
+
+-- Notification channel indexes
+CREATE INDEX idx_notification_channels_user ON notification_channels(user_id);
+CREATE INDEX idx_alert_subscription_channels_channel ON alert_subscription_channels(channel_id);
 
 -- Network stats index
-CREATE INDEX idx_network_stats_timestamp ON network_stats(timestamp DESC);
+CREATE INDEX idx_network_stats_coin_timestamp ON network_stats(coin, timestamp DESC);
 
 -- User sessions indexes
+CREATE INDEX idx_user_sessions_user ON user_sessions(user_id);
 CREATE INDEX idx_user_sessions_email ON user_sessions(email);
 CREATE INDEX idx_user_sessions_token ON user_sessions(session_token);
 CREATE INDEX idx_user_sessions_expires ON user_sessions(expires_at);
@@ -145,6 +372,16 @@ SELECT DISTINCT ON (pool_id)
 FROM pool_statistics
 ORDER BY pool_id, timestamp DESC;
 
+-- Latest fetch attempt per pool view
+CREATE VIEW latest_pool_fetch AS
+SELECT DISTINCT ON (pool_id)
+    pool_id,
+    fetched_at,
+    success,
+    error_message
+FROM pool_fetch_log
+ORDER BY pool_id, fetched_at DESC;
+
 -- Pool performance summary view
 CREATE VIEW pool_performance_summary AS
 SELECT 
@@ -1,12 +1,16 @@
 -- Initial seed data for Ethereum Mining Pool Dashboard
 
--- Insert Mining Pools
-INSERT OR IGNORE INTO pools (id, name, api_url, fee_percentage, payout_method, minimum_payout) VALUES
-('ethermine-pool-001', 'Ethermine', 'https://api.ethermine.org', 1.0, 'PPLNS', 0.01),
-('f2pool-pool-002', 'F2Pool', 'https://api.f2pool.com', 2.5, 'PPS', 0.005),
-('flexpool-pool-003', 'Flexpool', 'https://flexpool.io/api/v2', 1.0, 'PPLNS', 0.01),
-('2miners-pool-004', '2miners', 'https://eth.2miners.com/api', 1.0, 'PPLNS', 0.01),
-('nanopool-pool-005', 'Nanopool', 'https://api.nanopool.org', 1.0, 'PPLNS', 0.2);
+-- Insert Mining Pools (no coin given, so on the default chain, ETHW)
+INSERT OR IGNORE INTO pools (id, name, api_url, adapter_type, fee_percentage, payout_method, minimum_payout) VALUES
+('ethermine-pool-001', 'Ethermine', 'https://api.ethermine.org', 'ethermine', 1.0, 'PPLNS', 0.01),
+('f2pool-pool-002', 'F2Pool', 'https://api.f2pool.com', 'f2pool', 2.5, 'PPS', 0.005),
+('flexpool-pool-003', 'Flexpool', 'https://flexpool.io/api/v2', 'flexpool', 1.0, 'PPLNS', 0.01),
+('2miners-pool-004', '2miners', 'https://eth.2miners.com/api', '2miners', 1.0, 'PPLNS', 0.01),
+('nanopool-pool-005', 'Nanopool', 'https://api.nanopool.org', NULL, 1.0, 'PPLNS', 0.2);
+
+-- Ethereum Classic pools
+INSERT OR IGNORE INTO pools (id, name, api_url, adapter_type, coin, fee_percentage, payout_method, minimum_payout) VALUES
+('2miners-etc-pool-006', '2miners ETC', 'https://etc.2miners.com/api', '2miners', 'ETC', 1.0, 'PPLNS', 0.1);
 
 -- Insert Sample Pool Statistics (Last 24 hours)
 INSERT OR IGNORE INTO pool_statistics (id, pool_id, timestamp, hashrate, miners_count, blocks_found_24h, luck_7d, difficulty, block_time) VALUES
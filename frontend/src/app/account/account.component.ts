@@ -0,0 +1,60 @@
+import { Component, Input, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { AuthService } from '../services/auth.service';
+
+type AccountMode = 'login' | 'register';
+
+@Component({
+  selector: 'app-account',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './account.component.html',
+  styleUrl: './account.component.scss'
+})
+export class AccountComponent implements OnDestroy {
+  // Why the section needs an account, shown above the form
+  @Input() prompt = 'Log in to continue.';
+
+  readonly MIN_PASSWORD_LENGTH = 8;
+
+  mode: AccountMode = 'login';
+  email = '';
+  password = '';
+  isLoading = false;
+  error: string | null = null;
+  private requestSubscription?: Subscription;
+
+  constructor(private authService: AuthService) {}
+
+  ngOnDestroy(): void {
+    this.requestSubscription?.unsubscribe();
+  }
+
+  switchMode(mode: AccountMode): void {
+    this.mode = mode;
+    this.error = null;
+  }
+
+  submit(): void {
+    this.requestSubscription?.unsubscribe();
+    this.isLoading = true;
+    this.error = null;
+
+    const request = this.mode === 'login'
+      ? this.authService.login(this.email.trim(), this.password)
+      : this.authService.register(this.email.trim(), this.password);
+
+    this.requestSubscription = request.subscribe({
+      next: () => {
+        this.password = '';
+        this.isLoading = false;
+      },
+      error: response => {
+        this.error = response?.error?.error || (this.mode === 'login' ? 'Unable to log in' : 'Unable to create the account');
+        this.isLoading = false;
+      }
+    });
+  }
+}
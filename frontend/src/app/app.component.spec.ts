@@ -1,5 +1,13 @@
-import { TestBed } from '@angular/core/testing';
+import { NO_ERRORS_SCHEMA } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter, RouterOutlet } from '@angular/router';
+import { TestBed, discardPeriodicTasks, fakeAsync, flushMicrotasks, tick } from '@angular/core/testing';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
 import { AppComponent } from './app.component';
+import { RealtimeMessage, RealtimeService } from './services/realtime.service';
 
 describe('AppComponent', () => {
   beforeEach(async () => {
@@ -27,3 +35,145 @@ describe('AppComponent', () => {
     expect(compiled.querySelector('h1')?.textContent).toContain('Hello, mining-dashboard');
   });
 });
+
+/**
+ * Realtime feed the tests push messages and connection changes through
+ */
+class FakeRealtimeService {
+  status$ = new BehaviorSubject({ isOnline: true });
+  messages$ = new Subject<RealtimeMessage>();
+  subscribe = jasmine.createSpy('subscribe');
+
+  on(type: string) {
+    return this.messages$.pipe(filter(message => message.type === type), map(message => message.data));
+  }
+
+  push(type: string, data: any): void {
+    this.messages$.next({ type, data, timestamp: new Date().toISOString() });
+  }
+}
+
+describe('AppComponent realtime updates', () => {
+  let realtime: FakeRealtimeService;
+  let httpMock: HttpTestingController;
+  let app: AppComponent;
+
+  const dashboard = () => ({
+    total_hashrate: 300,
+    total_miners: 20,
+    active_pools: 2,
+    blocks_found_24h: 5,
+    recent_blocks: [],
+    coin: null,
+    network_difficulty: null,
+    last_updated: new Date().toISOString()
+  });
+
+  const pools = () => [
+    { id: 'pool-a', name: 'Pool A', coin: 'ETC', hashrate: 200 },
+    { id: 'pool-b', name: 'Pool B', coin: 'ETHW', hashrate: 100 }
+  ];
+
+  // Answers every pending dashboard load and returns how many there were
+  const respond = (): number => {
+    const dashboardRequests = httpMock.match(request => request.url.endsWith('/stats/dashboard'));
+    dashboardRequests.forEach(request => request.flush({ success: true, data: dashboard(), timestamp: '' }));
+    httpMock.match(request => request.url.endsWith('/pools')).forEach(request => request.flush({ success: true, data: pools(), timestamp: '' }));
+    return dashboardRequests.length;
+  };
+
+  const block = (number: number, extra: object = {}) => ({
+    pool_id: 'pool-a',
+    coin: 'ETC',
+    block_number: number,
+    timestamp: new Date().toISOString(),
+    reward: 3.2,
+    pool_name: 'Pool A',
+    ...extra
+  });
+
+  beforeEach(async () => {
+    localStorage.removeItem('mining-dashboard.coin');
+    realtime = new FakeRealtimeService();
+
+    await TestBed.configureTestingModule({
+      imports: [AppComponent],
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([]),
+        { provide: RealtimeService, useValue: realtime }
+      ]
+    })
+    // Child sections load their own data; only the dashboard state is under test here
+    .overrideComponent(AppComponent, { set: { imports: [CommonModule, RouterOutlet], schemas: [NO_ERRORS_SCHEMA] } })
+    .compileComponents();
+
+    httpMock = TestBed.inject(HttpTestingController);
+    const fixture = TestBed.createComponent(AppComponent);
+    app = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('subscribes to the public channels', () => {
+    expect(realtime.subscribe).toHaveBeenCalledWith(['pools', 'network', 'blocks']);
+  });
+
+  it('merges pool updates and keeps the pools ordered by hashrate', async () => {
+    respond();
+    await new Promise(resolve => setTimeout(resolve));
+
+    realtime.push('pool_update', { id: 'pool-b', coin: 'ETHW', hashrate: 400 });
+    realtime.push('pool_update', { id: 'pool-c', coin: 'ETC' });
+
+    expect(app.pools.map(pool => [pool.id, pool.hashrate])).toEqual([['pool-b', 400], ['pool-a', 200]]);
+  });
+
+  it('counts only recent canonical blocks towards the 24h total', async () => {
+    respond();
+    await new Promise(resolve => setTimeout(resolve));
+
+    realtime.push('new_block', block(101));
+    realtime.push('new_block', block(101));
+    realtime.push('new_block', block(102, { uncle: true }));
+    realtime.push('new_block', block(103, { status: 'orphaned' }));
+    realtime.push('new_block', block(104, { timestamp: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString() }));
+
+    expect(app.dashboardData!.recent_blocks.map(recent => recent.block_number)).toEqual([104, 103, 102, 101]);
+    expect(app.dashboardData!.blocks_found_24h).toBe(6);
+  });
+
+  it('applies only the network updates of the selected chain', async () => {
+    respond();
+    await new Promise(resolve => setTimeout(resolve));
+
+    realtime.push('network_update', { coin: 'ETC', total_hashrate: 50 });
+    expect(app.dashboardData!.total_hashrate).toBe(300);
+
+    realtime.push('network_update', { coin: null, total_hashrate: 350 });
+    expect(app.dashboardData!.total_hashrate).toBe(350);
+  });
+
+  it('polls the API only while the socket is down', fakeAsync(() => {
+    respond();
+    flushMicrotasks();
+
+    tick(30000);
+    expect(respond()).toBe(0);
+
+    realtime.status$.next({ isOnline: false });
+    tick(30000);
+    expect(respond()).toBe(1);
+    tick(30000);
+    expect(respond()).toBe(1);
+
+    // Coming back reloads once to catch up on anything missed, then polling stops
+    realtime.status$.next({ isOnline: true });
+    expect(respond()).toBe(1);
+    tick(60000);
+    expect(respond()).toBe(0);
+
+    flushMicrotasks();
+    discardPeriodicTasks();
+  }));
+});
@@ -6,9 +6,17 @@
  * and presents it in a professional, mining-themed interface.
  * 
  * Features:
- * - Real-time data updates every 30 seconds
+ * - Live updates over the backend WebSocket, polling only while it is down
+ * - Chain selector (ETH/ETC/ETHW or all chains) in the header scoping every section
  * - Hero dashboard with total network statistics
- * - Individual mining pool cards with live stats
+ * - Network history chart with blocks found by the tracked pools
+ * - Individual mining pool cards with live stats, linking to /pools/:id
+ * - Pool detail page: metadata, latest stats, history, luck and paginated blocks
+ * - Shareable side-by-side comparison of up to five pools (/compare?pools=)
+ * - Per-pool hashrate, miners and luck history charts
+ * - Profitability calculator comparing projected earnings per pool
+ * - Miner tracking for wallet addresses (workers, shares, unpaid balance)
+ * - Accounts with a private per-user watchlist (AuthService, bearer token)
  * - Recent blocks table with timestamps
  * - Responsive design with Bootstrap styling
  * - Professional mining-themed color scheme
@@ -19,15 +27,23 @@
 
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { HttpClient, HttpClientModule } from '@angular/common/http';
+import { HttpClient, HttpClientModule, HttpParams } from '@angular/common/http';
 import { RouterOutlet } from '@angular/router';
-import { interval, Subscription } from 'rxjs';
+import { interval, of, Subscription } from 'rxjs';
+import { distinctUntilChanged, map, switchMap } from 'rxjs/operators';
 import { HeaderComponent } from './header/header.component';
 import { JumbotronComponent } from './jumbotron/jumbotron.component';
 import { DashboardStatsComponent } from './dashboard-stats/dashboard-stats.component';
 import { PoolsGridComponent } from './pools-grid/pools-grid.component';
+import { NetworkChartComponent } from './network-chart/network-chart.component';
+import { PoolHistoryComponent } from './pool-history/pool-history.component';
 import { RecentBlocksComponent } from './recent-blocks/recent-blocks.component';
+import { CalculatorComponent } from './calculator/calculator.component';
+import { MinerComponent } from './miner/miner.component';
 import { FooterComponent } from './footer/footer.component';
+import { RealtimeService } from './services/realtime.service';
+import { Coin, CoinService } from './services/coin.service';
+import { formatDifficulty, formatHashrate, formatNumber, getLuckClass, getTimeAgo } from './utils/format';
 
 // ================================================================
 // TYPE DEFINITIONS
@@ -40,13 +56,14 @@ import { FooterComponent } from './footer/footer.component';
 interface Pool {
   id: string;                    // Unique pool identifier
   name: string;                  // Display name (e.g., "Ethermine")
+  coin: Coin;                    // Chain the pool mines
   fee_percentage: number;        // Pool fee percentage
   payout_method: string;         // Payment method (PPS, PPLNS, etc.)
   status: string;                // Pool status (active, inactive)
   hashrate: number;              // Current hashrate in H/s
   miners_count: number;          // Number of active miners
-  luck_7d: number;               // 7-day luck percentage
-  minimum_payout: number;        // Minimum payout threshold in ETH
+  luck_7d: number | null;        // 7-day luck percentage (null if not reported)
+  minimum_payout: number;        // Minimum payout threshold in the pool's coin
 }
 
 /**
@@ -55,10 +72,13 @@ interface Pool {
  */
 interface Block {
   pool_id: string;               // ID of pool that found the block
-  block_number: number;          // Ethereum block number
+  coin: Coin;                    // Chain the block belongs to
+  block_number: number;          // Block number on that chain
   timestamp: string;             // When block was found (ISO string)
-  reward: number;                // Block reward in ETH
+  reward: number;                // Block reward in the block's coin
   pool_name: string;             // Human-readable pool name
+  uncle?: boolean;               // Whether the block was an uncle
+  status?: string;               // pending, immature, confirmed or orphaned
 }
 
 /**
@@ -71,7 +91,8 @@ interface DashboardData {
   active_pools: number;          // Number of active pools
   blocks_found_24h: number;      // Blocks found in last 24 hours
   recent_blocks: Block[];        // Array of recently found blocks
-  network_difficulty: number;    // Current Ethereum network difficulty
+  coin: Coin | null;             // Chain the figures cover (null for all chains)
+  network_difficulty: number | null;  // Current network difficulty (null across all chains)
   last_updated: string;          // Timestamp of last data update
 }
 
@@ -92,7 +113,7 @@ interface ApiResponse<T> {
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, HttpClientModule, RouterOutlet, HeaderComponent, JumbotronComponent, DashboardStatsComponent, PoolsGridComponent, RecentBlocksComponent, FooterComponent],
+  imports: [CommonModule, HttpClientModule, RouterOutlet, HeaderComponent, JumbotronComponent, DashboardStatsComponent, NetworkChartComponent, PoolsGridComponent, PoolHistoryComponent, CalculatorComponent, MinerComponent, RecentBlocksComponent, FooterComponent],
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.scss']
 })
@@ -108,17 +129,20 @@ export class AppComponent implements OnInit, OnDestroy {
   dashboardData: DashboardData | null = null;  // Aggregated dashboard statistics
   isLoading = true;                             // Loading state for UI
   selectedImage: string = '';                   // Random jumbotron background image
+  selectedCoin: Coin | null = null;             // Chain picked in the header (null for all chains)
   
   // Configuration and subscriptions
-  private refreshSubscription?: Subscription;   // RxJS subscription for auto-refresh
+  private realtimeSubscription = new Subscription();  // WebSocket feed, fallback polling and chain changes
   private readonly API_BASE = 'http://localhost:3000/api';  // Backend API base URL
-  private readonly REFRESH_INTERVAL = 30000;   // Auto-refresh interval (30 seconds)
+  private readonly REFRESH_INTERVAL = 30000;   // Fallback polling interval while the socket is down (30 seconds)
+  private readonly RECENT_BLOCKS_LIMIT = 10;   // Matches the backend dashboard query
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
   private readonly JUMBOTRON_IMAGES = ['Whisk_14048fc946.jpg', 'Whisk_66ec472097.jpg'];
 
   /**
-   * Component constructor - inject HTTP client for API calls
+   * Component constructor - inject HTTP client for API calls, the realtime feed and the chain selection
    */
-  constructor(private http: HttpClient) {}
+  constructor(private http: HttpClient, private realtimeService: RealtimeService, private coinService: CoinService) {}
 
   // ================================================================
   // LIFECYCLE HOOKS
@@ -126,12 +150,12 @@ export class AppComponent implements OnInit, OnDestroy {
   
   /**
    * Angular OnInit lifecycle hook
-   * Initializes the component by loading data and starting auto-refresh
+   * Initializes the component by loading data and starting live updates
    */
   ngOnInit(): void {
-    this.selectRandomImage();   // Select random jumbotron image
-    this.loadInitialData();     // Load initial dashboard data
-    this.startAutoRefresh();    // Start automatic data refresh
+    this.selectRandomImage();      // Select random jumbotron image
+    this.watchCoinSelection();     // Load dashboard data now and whenever the chain changes
+    this.startRealtimeUpdates();   // Patch state from the WebSocket feed
   }
 
   /**
@@ -139,9 +163,7 @@ export class AppComponent implements OnInit, OnDestroy {
    * Clean up subscriptions to prevent memory leaks
    */
   ngOnDestroy(): void {
-    if (this.refreshSubscription) {
-      this.refreshSubscription.unsubscribe();
-    }
+    this.realtimeSubscription.unsubscribe();
   }
 
   // ================================================================
@@ -157,17 +179,30 @@ export class AppComponent implements OnInit, OnDestroy {
   }
   
   /**
-   * Load initial dashboard data from the backend API
+   * Reload everything for the chain picked in the header (the current one is emitted straight away)
+   */
+  private watchCoinSelection(): void {
+    this.realtimeSubscription.add(
+      this.coinService.selected$.subscribe(coin => {
+        this.selectedCoin = coin;
+        this.loadInitialData();
+      })
+    );
+  }
+
+  /**
+   * Load initial dashboard data from the backend API for the selected chain
    * Makes parallel requests for dashboard stats and pool data for better performance
    */
   private async loadInitialData(): Promise<void> {
     try {
       this.isLoading = true;
+      const params = this.selectedCoin ? new HttpParams().set('coin', this.selectedCoin) : undefined;
       
       // Load dashboard data and pools in parallel for better performance
       const [dashboardResponse, poolsResponse] = await Promise.all([
-        this.http.get<ApiResponse<DashboardData>>(`${this.API_BASE}/stats/dashboard`).toPromise(),
-        this.http.get<ApiResponse<Pool[]>>(`${this.API_BASE}/pools`).toPromise()
+        this.http.get<ApiResponse<DashboardData>>(`${this.API_BASE}/stats/dashboard`, { params }).toPromise(),
+        this.http.get<ApiResponse<Pool[]>>(`${this.API_BASE}/pools`, { params }).toPromise()
       ]);
 
       // Update dashboard data if API call succeeded
@@ -190,106 +225,106 @@ export class AppComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Start automatic data refresh using RxJS interval
-   * Refreshes dashboard data every 30 seconds to show live updates
+   * Subscribe to the backend WebSocket channels and patch state incrementally.
+   * HTTP polling runs only while the socket is down; reconnecting triggers one
+   * full reload so anything missed while offline is picked up.
    */
-  private startAutoRefresh(): void {
-    this.refreshSubscription = interval(this.REFRESH_INTERVAL).subscribe(() => {
-      this.loadInitialData();  // Reload data on each interval
-    });
-  }
+  private startRealtimeUpdates(): void {
+    this.realtimeService.subscribe(['pools', 'network', 'blocks']);
 
-  // ================================================================
-  // UTILITY METHODS FOR DATA FORMATTING
-  // ================================================================
-  
-  /**
-   * Format hashrate values with appropriate units (H/s, KH/s, MH/s, etc.)
-   * Converts raw hashrate numbers to human-readable format
-   */
-  formatHashrate(hashrate: number): string {
-    if (!hashrate) return '0 H/s';
-    
-    if (hashrate >= 1e15) {
-      return (hashrate / 1e15).toFixed(2) + ' PH/s';
-    } else if (hashrate >= 1e12) {
-      return (hashrate / 1e12).toFixed(2) + ' TH/s';
-    } else if (hashrate >= 1e9) {
-      return (hashrate / 1e9).toFixed(2) + ' GH/s';
-    } else if (hashrate >= 1e6) {
-      return (hashrate / 1e6).toFixed(2) + ' MH/s';
-    } else if (hashrate >= 1e3) {
-      return (hashrate / 1e3).toFixed(2) + ' KH/s';
-    } else {
-      return hashrate.toFixed(2) + ' H/s';
-    }
-  }
+    this.realtimeSubscription.add(
+      this.realtimeService.on<Partial<Pool> & { id: string }>('pool_update')
+        .subscribe(update => this.applyPoolUpdate(update))
+    );
 
-  /**
-   * Format large numbers with K/M suffixes for better readability
-   * Used for miner counts and other large integer values
-   */
-  formatNumber(num: number): string {
-    if (!num) return '0';
-    
-    if (num >= 1e6) {
-      return (num / 1e6).toFixed(1) + 'M';   // Millions
-    } else if (num >= 1e3) {
-      return (num / 1e3).toFixed(1) + 'K';   // Thousands
-    } else {
-      return num.toString();                 // Raw number
-    }
+    this.realtimeSubscription.add(
+      this.realtimeService.on<Partial<DashboardData>>('network_update')
+        .subscribe(update => this.applyNetworkUpdate(update))
+    );
+
+    this.realtimeSubscription.add(
+      this.realtimeService.on<Block>('new_block')
+        .subscribe(block => this.applyNewBlock(block))
+    );
+
+    this.realtimeSubscription.add(
+      this.realtimeService.status$
+        .pipe(
+          map(status => status.isOnline),
+          distinctUntilChanged(),
+          switchMap(isOnline => isOnline ? of(null) : interval(this.REFRESH_INTERVAL))
+        )
+        .subscribe(() => this.loadInitialData())
+    );
   }
 
   /**
-   * Format network difficulty with P/T suffixes
-   * Network difficulty is usually in the petahash range
+   * Merge a single pool update into the pools list, keeping hashrate order
    */
-  formatDifficulty(difficulty: number): string {
-    if (!difficulty) return '0';
-    
-    if (difficulty >= 1e15) {
-      return (difficulty / 1e15).toFixed(1) + 'P';  // Petahash
-    } else if (difficulty >= 1e12) {
-      return (difficulty / 1e12).toFixed(1) + 'T';  // Terahash
+  private applyPoolUpdate(update: Partial<Pool> & { id: string }): void {
+    if (this.selectedCoin && update.coin && update.coin !== this.selectedCoin) return;
+
+    const exists = this.pools.some(pool => pool.id === update.id);
+
+    if (exists) {
+      this.pools = this.pools.map(pool => pool.id === update.id ? { ...pool, ...update } : pool);
+    } else if (update.hashrate !== undefined) {
+      this.pools = [...this.pools, update as Pool];
     } else {
-      return this.formatNumber(difficulty);         // Use number formatter
+      return;  // Failure notice for a pool we are not showing
     }
+
+    this.pools.sort((a, b) => (b.hashrate || 0) - (a.hashrate || 0));
   }
 
   /**
-   * Get CSS class for luck percentage display based on performance
-   * Color-codes luck values to indicate pool performance quality
+   * Merge network/total statistics into the hero dashboard data.
+   * Updates are published per chain plus once for all chains (coin null);
+   * only the ones for the selected view apply.
    */
-  getLuckClass(luck: number): string {
-    if (!luck) return '';
-    
-    if (luck >= 105) return 'text-success';    // Excellent luck (green)
-    if (luck >= 95) return 'text-info';       // Good luck (blue)
-    if (luck >= 85) return 'text-warning';    // Average luck (yellow)
-    return 'text-danger';                     // Poor luck (red)
+  private applyNetworkUpdate(update: Partial<DashboardData>): void {
+    if (!this.dashboardData) return;  // Nothing to patch until the first load completes
+    if ((update.coin ?? null) !== this.selectedCoin) return;
+
+    this.dashboardData = { ...this.dashboardData, ...update };
   }
 
   /**
-   * Convert timestamp to human-readable "time ago" format
-   * Shows how long ago a block was found (e.g., "2h 15m ago")
+   * Prepend a newly found block to the recent blocks table. It only counts
+   * towards blocks_found_24h when the backend would count it too: a canonical
+   * block (not an uncle or orphan) found within the last 24 hours.
    */
-  getTimeAgo(timestamp: string): string {
-    const now = new Date();
-    const blockTime = new Date(timestamp);
-    const diffMs = now.getTime() - blockTime.getTime();
-    
-    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-    const diffMinutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-    
-    if (diffHours > 0) {
-      return `${diffHours}h ${diffMinutes}m ago`;    // Hours and minutes
-    } else if (diffMinutes > 0) {
-      return `${diffMinutes}m ago`;                  // Minutes only
-    } else {
-      return 'Just now';                             // Less than a minute
-    }
+  private applyNewBlock(block: Block): void {
+    if (!this.dashboardData) return;
+    if (this.selectedCoin && block.coin !== this.selectedCoin) return;
+
+    const alreadyListed = this.dashboardData.recent_blocks.some(
+      existing => existing.pool_id === block.pool_id && existing.block_number === block.block_number
+    );
+    if (alreadyListed) return;
+
+    const countsToday = !block.uncle
+      && block.status !== 'orphaned'
+      && Date.now() - Date.parse(block.timestamp) < this.DAY_MS;
+
+    this.dashboardData = {
+      ...this.dashboardData,
+      recent_blocks: [block, ...this.dashboardData.recent_blocks].slice(0, this.RECENT_BLOCKS_LIMIT),
+      blocks_found_24h: this.dashboardData.blocks_found_24h + (countsToday ? 1 : 0),
+      last_updated: new Date().toISOString()
+    };
   }
+
+  // ================================================================
+  // UTILITY METHODS FOR DATA FORMATTING
+  // ================================================================
+  
+  // Shared formatters (utils/format.ts), exposed to the template and child components
+  readonly formatHashrate = formatHashrate;
+  readonly formatNumber = formatNumber;
+  readonly formatDifficulty = formatDifficulty;
+  readonly getLuckClass = getLuckClass;
+  readonly getTimeAgo = getTimeAgo;
 }
 
 // ================================================================
@@ -306,9 +341,11 @@ export class AppComponent implements OnInit, OnDestroy {
  * KEY FEATURES:
  * 
  * 1. REAL-TIME DATA INTEGRATION
- *    - Automatic data refresh every 30 seconds using RxJS intervals
+ *    - Live pool, network and block updates over the backend WebSocket
+ *    - Header chain selector (CoinService) reloads pools and stats with ?coin=
+ *      and filters realtime messages to the selected chain
  *    - Parallel API calls for optimal performance (dashboard + pools)
- *    - Live WebSocket-ready architecture for future upgrades
+ *    - 30-second HTTP polling only while the WebSocket is disconnected
  *    - Professional loading states and error handling
  * 
  * 2. COMPREHENSIVE DATA VISUALIZATION
@@ -316,6 +353,13 @@ export class AppComponent implements OnInit, OnDestroy {
  *    - Individual mining pool cards with live statistics
  *    - Recent blocks table with timestamp formatting
  *    - Color-coded luck indicators for performance assessment
+ *    - Profitability calculator (GET /api/calculator) next to the pool grid
+ *    - Miner section backed by /api/miners/:address with unpaid balance history
+ *    - Auth interceptor sends the session token and drops it on a 401
+ *    - SVG history charts from /api/stats/network/history and /api/pools/:id/history
+ *      with period selection, hover tooltips and blocks-found overlays
+ *    - Pool detail (/pools/:id) and comparison (/compare, GET /api/pools/compare)
+ *      routes rendered through the router outlet in place of the dashboard sections
  * 
  * 3. PROFESSIONAL UI/UX FEATURES
  *    - Responsive Bootstrap 5 design with custom mining theme
@@ -331,13 +375,14 @@ export class AppComponent implements OnInit, OnDestroy {
  *    - Modular utility functions for data formatting
  * 
  * COMPONENT LIFECYCLE:
- * 1. OnInit: Load initial data and start auto-refresh timer
+ * 1. OnInit: Load initial data and subscribe to the realtime feed
  * 2. Data Loading: Parallel API calls to backend for pools and dashboard stats
- * 3. Auto-refresh: Continuous updates every 30 seconds via RxJS interval
+ * 3. Live updates: pool_update / network_update / new_block messages patch state
  * 4. OnDestroy: Cleanup subscriptions to prevent memory leaks
  * 
  * DATA FLOW ARCHITECTURE:
  * - HTTP Client → API Response → Type Checking → State Update → UI Render
+ * - WebSocket message → RealtimeService → incremental State Patch → UI Render
  * - Error handling with fallback values and console logging
  * - Optimistic UI updates with loading states
  * 
@@ -352,7 +397,7 @@ export class AppComponent implements OnInit, OnDestroy {
  * - Backend API: http://localhost:3000/api endpoints
  * - Template: app.component.html for UI structure
  * - Styles: app.component.scss for custom mining theme
- * - Services: HTTP client for API communication
+ * - Services: HTTP client for API communication, RealtimeService for the WebSocket feed
  * 
  * PERFORMANCE OPTIMIZATIONS:
  * - Parallel API requests for faster loading
@@ -361,7 +406,6 @@ export class AppComponent implements OnInit, OnDestroy {
  * - Minimal re-renders with smart data formatting
  * 
  * FUTURE EXTENSIBILITY:
- * - WebSocket integration for real-time streaming data
  * - Additional mining pool metrics and analytics
  * - User preferences and customizable dashboards
  * - Mobile-responsive enhancements
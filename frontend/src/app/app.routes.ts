@@ -1,3 +1,14 @@
 import { Routes } from '@angular/router';
+import { PoolDetailComponent } from './pool-detail/pool-detail.component';
+import { PoolCompareComponent } from './pool-compare/pool-compare.component';
 
-export const routes: Routes = [];
+/**
+ * The dashboard renders in AppComponent when no child route is active;
+ * pages below replace it through the router outlet.
+ */
+export const routes: Routes = [
+  { path: '', pathMatch: 'full', children: [] },
+  { path: 'compare', component: PoolCompareComponent, title: 'Compare pools' },
+  { path: 'pools/:id', component: PoolDetailComponent, title: 'Pool details' },
+  { path: '**', redirectTo: '' }
+];
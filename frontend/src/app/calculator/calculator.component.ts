@@ -0,0 +1,85 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { CalculatorRequest, CalculatorResult, CalculatorService, PoolEarnings } from '../services/calculator.service';
+import { COINS, CoinService } from '../services/coin.service';
+import { getLuckClass } from '../utils/format';
+
+type Period = 'daily' | 'weekly' | 'monthly';
+
+@Component({
+  selector: 'app-calculator',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './calculator.component.html',
+  styleUrl: './calculator.component.scss'
+})
+export class CalculatorComponent implements OnInit, OnDestroy {
+  readonly coins = COINS;
+  readonly currencies = ['usd', 'eur', 'gbp', 'cad', 'aud', 'chf', 'jpy', 'cny'];
+  readonly periods: Period[] = ['daily', 'weekly', 'monthly'];
+  readonly getLuckClass = getLuckClass;
+
+  // Defaults describe a typical 6-GPU rig
+  form: CalculatorRequest = {
+    hashrate: 300,
+    power: 1200,
+    electricity_cost: 0.12,
+    currency: 'usd',
+    coin: 'ETHW'
+  };
+  period: Period = 'daily';
+
+  result: CalculatorResult | null = null;
+  isLoading = false;
+  error: string | null = null;
+  private requestSubscription?: Subscription;
+  private coinSubscription?: Subscription;
+
+  constructor(private calculatorService: CalculatorService, private coinService: CoinService) {}
+
+  ngOnInit(): void {
+    // Follow the header's chain; "all chains" keeps whatever coin is picked here
+    this.coinSubscription = this.coinService.selected$.subscribe(coin => {
+      if (coin) this.form = { ...this.form, coin };
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.requestSubscription?.unsubscribe();
+    this.coinSubscription?.unsubscribe();
+  }
+
+  calculate(): void {
+    this.requestSubscription?.unsubscribe();
+    this.isLoading = true;
+    this.error = null;
+
+    this.requestSubscription = this.calculatorService.calculate(this.form).subscribe({
+      next: result => {
+        this.result = result;
+        this.isLoading = false;
+      },
+      error: response => {
+        this.error = response?.error?.error || 'Unable to calculate earnings right now';
+        this.isLoading = false;
+      }
+    });
+  }
+
+  earnings(pool: PoolEarnings) {
+    return pool[this.period];
+  }
+
+  formatFiat(value: number): string {
+    const currency = (this.result?.currency || this.form.currency).toUpperCase();
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 2 }).format(value);
+  }
+
+  formatDays(days: number | null): string {
+    if (days === null) return 'never';
+    if (days < 1) return `${Math.ceil(days * 24)}h`;
+    return `${days.toFixed(1)} days`;
+  }
+}
@@ -1,7 +1,9 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Subscription } from 'rxjs';
-import { ApiHealthService, ApiHealthStatus } from '../services/api-health.service';
+import { RealtimeService, RealtimeStatus } from '../services/realtime.service';
+import { Coin, COINS, CoinService } from '../services/coin.service';
+import { AuthService, AuthUser } from '../services/auth.service';
 
 @Component({
   selector: 'app-header',
@@ -11,24 +13,47 @@ import { ApiHealthService, ApiHealthStatus } from '../services/api-health.servic
   styleUrl: './header.component.scss'
 })
 export class HeaderComponent implements OnInit, OnDestroy {
-  apiStatus: ApiHealthStatus = { isOnline: true, lastChecked: new Date() };
-  private healthSubscription?: Subscription;
+  apiStatus: RealtimeStatus = { isOnline: false, state: 'connecting', lastChecked: new Date(), reconnectAttempt: 0 };
+  user: AuthUser | null = null;
+  readonly coins = COINS;
+  private statusSubscription?: Subscription;
+  private userSubscription?: Subscription;
 
-  constructor(private apiHealthService: ApiHealthService) {}
+  constructor(
+    private realtimeService: RealtimeService,
+    private coinService: CoinService,
+    private authService: AuthService
+  ) {}
+
+  get selectedCoin(): Coin | null {
+    return this.coinService.selected;
+  }
 
   ngOnInit(): void {
-    // Subscribe to API health status changes
-    this.healthSubscription = this.apiHealthService.healthStatus$.subscribe(
+    // Subscribe to WebSocket connection state changes
+    this.statusSubscription = this.realtimeService.status$.subscribe(
       status => {
         this.apiStatus = status;
       }
     );
+
+    this.userSubscription = this.authService.user$.subscribe(user => this.user = user);
   }
 
   ngOnDestroy(): void {
-    if (this.healthSubscription) {
-      this.healthSubscription.unsubscribe();
+    if (this.statusSubscription) {
+      this.statusSubscription.unsubscribe();
     }
+    this.userSubscription?.unsubscribe();
+  }
+
+  logout(): void {
+    this.authService.logout().subscribe();
+  }
+
+  // The select hands back '' for "All chains"
+  selectCoin(value: string): void {
+    this.coinService.select((value || null) as Coin | null);
   }
 
   get statusText(): string {
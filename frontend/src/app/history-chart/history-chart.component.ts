@@ -0,0 +1,201 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+/**
+ * Value at one step of the chart; min/max draw the shaded range behind the line
+ */
+export interface ChartPoint {
+  timestamp: string;
+  value: number | null;
+  min?: number | null;
+  max?: number | null;
+}
+
+/**
+ * Event drawn as a vertical marker, e.g. a block found by the pool
+ */
+export interface ChartMarker {
+  timestamp: string;
+  label: string;
+}
+
+interface MarkerPosition {
+  x: number;
+  labels: string[];
+}
+
+@Component({
+  selector: 'app-history-chart',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './history-chart.component.html',
+  styleUrl: './history-chart.component.scss'
+})
+export class HistoryChartComponent implements OnChanges {
+  @Input() points: ChartPoint[] = [];
+  @Input() markers: ChartMarker[] = [];
+  @Input() isLoading = false;
+
+  // Input methods that will be passed from parent
+  @Input() formatValue: (value: number) => string = value => value.toFixed(2);
+
+  // Size of the SVG viewBox; the chart stretches to its container
+  readonly WIDTH = 600;
+  readonly HEIGHT = 160;
+
+  linePath = '';
+  bandPath = '';
+  markerPositions: MarkerPosition[] = [];
+  yMin = 0;
+  yMax = 0;
+  hoverIndex: number | null = null;
+
+  ngOnChanges(): void {
+    this.hoverIndex = null;
+    this.computeScale();
+    this.linePath = this.buildLinePath();
+    this.bandPath = this.buildBandPath();
+    this.markerPositions = this.buildMarkers();
+  }
+
+  get hasData(): boolean {
+    return this.points.some(point => point.value !== null);
+  }
+
+  get startTime(): string | null {
+    return this.points.length > 0 ? this.points[0]!.timestamp : null;
+  }
+
+  get endTime(): string | null {
+    return this.points.length > 0 ? this.points[this.points.length - 1]!.timestamp : null;
+  }
+
+  get hoverPoint(): ChartPoint | null {
+    return this.hoverIndex === null ? null : this.points[this.hoverIndex] ?? null;
+  }
+
+  // Blocks that fall inside the hovered step
+  get hoverMarkers(): string[] {
+    if (this.hoverIndex === null) return [];
+    const x = this.x(this.hoverIndex);
+    const half = this.stepWidth() / 2;
+    return this.markerPositions
+      .filter(marker => marker.x >= x - half && marker.x < x + half)
+      .flatMap(marker => marker.labels);
+  }
+
+  get hoverX(): number {
+    return this.hoverIndex === null ? 0 : this.x(this.hoverIndex);
+  }
+
+  /**
+   * Snap the hover position to the nearest point using the pointer's
+   * offset relative to the rendered width
+   */
+  onPointerMove(event: MouseEvent): void {
+    const target = event.currentTarget as Element;
+    const bounds = target.getBoundingClientRect();
+    if (bounds.width === 0 || this.points.length === 0) return;
+
+    const ratio = (event.clientX - bounds.left) / bounds.width;
+    const index = Math.round(ratio * (this.points.length - 1));
+    this.hoverIndex = Math.min(Math.max(index, 0), this.points.length - 1);
+  }
+
+  onPointerLeave(): void {
+    this.hoverIndex = null;
+  }
+
+  x(index: number): number {
+    if (this.points.length < 2) return this.WIDTH / 2;
+    return (index / (this.points.length - 1)) * this.WIDTH;
+  }
+
+  y(value: number): number {
+    const range = this.yMax - this.yMin || 1;
+    return this.HEIGHT - ((value - this.yMin) / range) * this.HEIGHT;
+  }
+
+  private stepWidth(): number {
+    return this.points.length < 2 ? this.WIDTH : this.WIDTH / (this.points.length - 1);
+  }
+
+  private computeScale(): void {
+    const values = this.points.flatMap(point => [point.value, point.min ?? null, point.max ?? null])
+      .filter((value): value is number => value !== null && value !== undefined);
+    if (values.length === 0) {
+      this.yMin = 0;
+      this.yMax = 0;
+      return;
+    }
+
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const padding = (max - min) * 0.05 || Math.abs(max) * 0.05 || 1;
+    this.yMin = min - padding;
+    this.yMax = max + padding;
+  }
+
+  // Line broken into segments wherever a step has no data
+  private buildLinePath(): string {
+    let path = '';
+    let penDown = false;
+
+    this.points.forEach((point, index) => {
+      if (point.value === null) {
+        penDown = false;
+        return;
+      }
+      path += `${penDown ? 'L' : 'M'}${this.x(index).toFixed(1)},${this.y(point.value).toFixed(1)} `;
+      penDown = true;
+    });
+
+    return path.trim();
+  }
+
+  // One closed min/max polygon per contiguous run of points
+  private buildBandPath(): string {
+    const segments: number[][] = [];
+    let current: number[] = [];
+
+    this.points.forEach((point, index) => {
+      if (point.min === null || point.min === undefined || point.max === null || point.max === undefined) {
+        if (current.length > 0) segments.push(current);
+        current = [];
+        return;
+      }
+      current.push(index);
+    });
+    if (current.length > 0) segments.push(current);
+
+    return segments
+      .map(indexes => {
+        const top = indexes.map(index => `${this.x(index).toFixed(1)},${this.y(this.points[index]!.max!).toFixed(1)}`);
+        const bottom = [...indexes].reverse().map(index => `${this.x(index).toFixed(1)},${this.y(this.points[index]!.min!).toFixed(1)}`);
+        return `M${top.join(' L')} L${bottom.join(' L')} Z`;
+      })
+      .join(' ');
+  }
+
+  // Markers inside the plotted range, grouped when they land on the same step
+  private buildMarkers(): MarkerPosition[] {
+    if (this.points.length === 0) return [];
+
+    const start = Date.parse(this.points[0]!.timestamp);
+    const end = Date.parse(this.points[this.points.length - 1]!.timestamp);
+    const span = end - start;
+    const step = this.points.length > 1 ? span / (this.points.length - 1) : 0;
+    const positions = new Map<number, string[]>();
+
+    for (const marker of this.markers) {
+      const time = Date.parse(marker.timestamp);
+      if (time < start || time > end + step) continue;
+
+      const x = span > 0 ? Math.min(((time - start) / span) * this.WIDTH, this.WIDTH) : this.WIDTH / 2;
+      const key = Math.round(x);
+      positions.set(key, [...(positions.get(key) || []), marker.label]);
+    }
+
+    return [...positions.entries()].map(([x, labels]) => ({ x, labels }));
+  }
+}
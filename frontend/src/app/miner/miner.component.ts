@@ -0,0 +1,198 @@
+import { Component, Input, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { forkJoin, of, Subscription } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { MinerPoolStats, MinerReading, MinerService, MinerSummary, MinerWorker, WatchlistEntry } from '../services/miner.service';
+import { AuthService, AuthUser } from '../services/auth.service';
+import { AccountComponent } from '../account/account.component';
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+@Component({
+  selector: 'app-miner',
+  standalone: true,
+  imports: [CommonModule, FormsModule, AccountComponent],
+  templateUrl: './miner.component.html',
+  styleUrl: './miner.component.scss'
+})
+export class MinerComponent implements OnInit, OnDestroy {
+  @Input() pools: { id: string; name: string }[] = [];
+
+  // Input methods that will be passed from parent
+  @Input() formatHashrate!: (value: number) => string;
+
+  user: AuthUser | null = null;
+  watchlist: WatchlistEntry[] = [];
+
+  address = '';
+  registerPoolId = '';
+  registerLabel = '';
+
+  summary: MinerSummary | null = null;
+  history: MinerReading[] = [];
+  workers: MinerWorker[] = [];
+  isLoading = false;
+  notTracked = false;
+  error: string | null = null;
+  private requestSubscription = new Subscription();
+
+  // Size of the unpaid balance sparkline viewBox
+  readonly SPARKLINE_WIDTH = 240;
+  readonly SPARKLINE_HEIGHT = 48;
+
+  constructor(private minerService: MinerService, private authService: AuthService) {}
+
+  ngOnInit(): void {
+    // Addresses are per account, so start over whenever the user changes
+    this.requestSubscription.add(
+      this.authService.user$.subscribe(user => {
+        this.user = user;
+        this.summary = null;
+        this.history = [];
+        this.workers = [];
+        this.notTracked = false;
+        this.error = null;
+        this.watchlist = [];
+        if (user) this.loadWatchlist();
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.requestSubscription.unsubscribe();
+  }
+
+  /**
+   * Each watched address once, for the quick-pick buttons
+   */
+  get watchedAddresses(): string[] {
+    return [...new Set(this.watchlist.map(entry => entry.address))];
+  }
+
+  select(address: string): void {
+    this.address = address;
+    this.lookup();
+  }
+
+  get isValidAddress(): boolean {
+    return ADDRESS_PATTERN.test(this.address.trim());
+  }
+
+  lookup(): void {
+    if (!this.isValidAddress) return;
+
+    const address = this.address.trim().toLowerCase();
+    this.isLoading = true;
+    this.error = null;
+    this.notTracked = false;
+
+    this.requestSubscription.add(
+      forkJoin({
+        summary: this.minerService.getMiner(address),
+        history: this.minerService.getHistory(address).pipe(catchError(() => of([] as MinerReading[]))),
+        workers: this.minerService.getWorkers(address).pipe(catchError(() => of([] as MinerWorker[])))
+      }).subscribe({
+        next: ({ summary, history, workers }) => {
+          this.summary = summary;
+          this.history = history;
+          this.workers = workers;
+          this.isLoading = false;
+        },
+        error: response => {
+          this.summary = null;
+          this.history = [];
+          this.workers = [];
+          this.notTracked = response?.status === 404;
+          this.error = this.notTracked ? null : (response?.error?.error || 'Unable to load miner data');
+          this.isLoading = false;
+        }
+      })
+    );
+  }
+
+  register(): void {
+    if (!this.isValidAddress || !this.registerPoolId) return;
+
+    this.requestSubscription.add(
+      this.minerService.register(this.address.trim(), this.registerPoolId, this.registerLabel || undefined).subscribe({
+        next: () => {
+          this.registerLabel = '';
+          this.loadWatchlist();
+          this.lookup();
+        },
+        error: response => this.error = response?.error?.error || 'Unable to track this address'
+      })
+    );
+  }
+
+  remove(pool: MinerPoolStats): void {
+    if (!this.summary) return;
+
+    this.requestSubscription.add(
+      this.minerService.remove(this.summary.address, pool.pool_id).subscribe({
+        next: () => {
+          this.loadWatchlist();
+          this.lookup();
+        },
+        error: response => this.error = response?.error?.error || 'Unable to stop tracking this address'
+      })
+    );
+  }
+
+  private loadWatchlist(): void {
+    this.requestSubscription.add(
+      this.minerService.getWatchlist().subscribe({
+        next: watchlist => this.watchlist = watchlist,
+        error: () => this.watchlist = []
+      })
+    );
+  }
+
+  /**
+   * Pools the address is not tracked on yet, for the register dropdown
+   */
+  get untrackedPools(): { id: string; name: string }[] {
+    const tracked = new Set(this.summary?.pools.map(pool => pool.pool_id) || []);
+    return this.pools.filter(pool => !tracked.has(pool.id));
+  }
+
+  workersFor(poolId: string): MinerWorker[] {
+    return this.workers.filter(worker => worker.pool_id === poolId);
+  }
+
+  /**
+   * SVG polyline points for one pool's unpaid balance over the loaded history
+   */
+  unpaidSparkline(poolId: string): string {
+    const readings = this.history.filter(reading => reading.pool_id === poolId);
+    if (readings.length < 2) return '';
+
+    const values = readings.map(reading => reading.unpaid);
+    const max = Math.max(...values);
+    const min = Math.min(...values);
+    const range = max - min || 1;
+
+    return readings
+      .map((reading, index) => {
+        const x = (index / (readings.length - 1)) * this.SPARKLINE_WIDTH;
+        const y = this.SPARKLINE_HEIGHT - ((reading.unpaid - min) / range) * this.SPARKLINE_HEIGHT;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+  }
+
+  /**
+   * Progress towards the pool's minimum payout, capped at 100%
+   */
+  payoutProgress(pool: MinerPoolStats): number {
+    if (!pool.minimum_payout || pool.unpaid === null) return 0;
+    return Math.min((pool.unpaid / pool.minimum_payout) * 100, 100);
+  }
+
+  getShareQualityClass(rate: number): string {
+    if (rate < 2) return 'text-success';
+    if (rate < 5) return 'text-warning';
+    return 'text-danger';
+  }
+}
@@ -0,0 +1,89 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+
+import { NetworkChartComponent } from './network-chart.component';
+import { HistoryService, PoolBlock } from '../services/history.service';
+
+describe('NetworkChartComponent', () => {
+  let component: NetworkChartComponent;
+  let fixture: ComponentFixture<NetworkChartComponent>;
+  let historyService: jasmine.SpyObj<HistoryService>;
+
+  const pools = [
+    { id: 'pool-a', name: 'Pool A', coin: 'ETC' as const },
+    { id: 'pool-b', name: 'Pool B', coin: 'ETHW' as const }
+  ];
+
+  const blocks: PoolBlock[] = [
+    { pool_id: 'pool-a', block_number: 102, timestamp: '2026-10-18T10:00:00Z', reward: 2.56, uncle: false, status: 'orphaned' },
+    { pool_id: 'pool-a', block_number: 101, timestamp: '2026-10-18T09:00:00Z', reward: 2.56, uncle: false, status: 'confirmed' }
+  ];
+
+  const title = (): string => (fixture.nativeElement as HTMLElement).querySelector('.card-title')!.textContent!.trim();
+  const chainPicker = (): HTMLElement | null => (fixture.nativeElement as HTMLElement).querySelector('[aria-label="Chain"]');
+
+  beforeEach(async () => {
+    historyService = jasmine.createSpyObj<HistoryService>('HistoryService', ['getNetworkHistory', 'getBlocksForPools']);
+    historyService.getNetworkHistory.and.returnValue(of([
+      { timestamp: '2026-10-18T09:00:00Z', sample_count: 1, total_hashrate: 5e12, total_hashrate_min: 4e12, total_hashrate_max: 6e12 }
+    ]));
+    historyService.getBlocksForPools.and.returnValue(of(blocks));
+
+    await TestBed.configureTestingModule({
+      imports: [NetworkChartComponent],
+      providers: [{ provide: HistoryService, useValue: historyService }]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(NetworkChartComponent);
+    component = fixture.componentInstance;
+    component.formatHashrate = value => `${value} H/s`;
+    component.formatDifficulty = value => `${value}`;
+    fixture.componentRef.setInput('pools', pools);
+  });
+
+  it('charts the chain picked in the header with the blocks of its pools', () => {
+    fixture.componentRef.setInput('coin', 'ETC');
+    fixture.detectChanges();
+
+    expect(historyService.getNetworkHistory).toHaveBeenCalledWith('24h', ['total_hashrate', 'difficulty'], 'ETC');
+    expect(historyService.getBlocksForPools).toHaveBeenCalledWith(['pool-a']);
+    expect(component.markers).toEqual([{ timestamp: '2026-10-18T09:00:00Z', label: 'Pool A #101' }]);
+    expect(component.points).toEqual([{ timestamp: '2026-10-18T09:00:00Z', value: 5e12, min: 4e12, max: 6e12 }]);
+    expect(title()).toBe('ETC Network History');
+    expect(chainPicker()).toBeNull();
+  });
+
+  it('charts one chain at a time across all chains, labelled by that chain', () => {
+    fixture.detectChanges();
+
+    // First chain in selector order that a tracked pool mines
+    expect(historyService.getNetworkHistory).toHaveBeenCalledWith('24h', ['total_hashrate', 'difficulty'], 'ETC');
+    expect(title()).toBe('ETC Network History');
+
+    const ethw = Array.from(chainPicker()!.querySelectorAll('button')).find(button => button.textContent!.trim() === 'ETHW')!;
+    ethw.click();
+    fixture.detectChanges();
+
+    expect(historyService.getNetworkHistory).toHaveBeenCalledWith('24h', ['total_hashrate', 'difficulty'], 'ETHW');
+    expect(historyService.getBlocksForPools).toHaveBeenCalledWith(['pool-b']);
+    expect(title()).toBe('ETHW Network History');
+  });
+
+  it('only reloads when the set of pools changes', () => {
+    fixture.detectChanges();
+    fixture.componentRef.setInput('pools', pools.map(pool => ({ ...pool })));
+    fixture.detectChanges();
+
+    expect(historyService.getNetworkHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the backend error when the history cannot be loaded', () => {
+    historyService.getNetworkHistory.and.returnValue(throwError(() => ({ error: { error: 'Invalid period' } })));
+    fixture.detectChanges();
+    fixture.detectChanges();
+
+    expect(component.points).toEqual([]);
+    expect((fixture.nativeElement as HTMLElement).querySelector('.alert-warning')!.textContent).toContain('Invalid period');
+  });
+});
@@ -0,0 +1,128 @@
+import { Component, Input, OnChanges, OnDestroy, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { forkJoin, of, Subscription } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { HistoryChartComponent, ChartMarker, ChartPoint } from '../history-chart/history-chart.component';
+import { HistoryPeriod, HistoryPoint, HistoryService, PoolBlock } from '../services/history.service';
+import { Coin, COINS } from '../services/coin.service';
+
+type NetworkMetric = 'total_hashrate' | 'difficulty';
+
+@Component({
+  selector: 'app-network-chart',
+  standalone: true,
+  imports: [CommonModule, HistoryChartComponent],
+  templateUrl: './network-chart.component.html',
+  styleUrl: './network-chart.component.scss'
+})
+export class NetworkChartComponent implements OnChanges, OnDestroy {
+  @Input() pools: { id: string; name: string; coin: Coin }[] = [];
+  // Chain picked in the header; with all chains the chart offers its own chain picker
+  @Input() coin: Coin | null = null;
+
+  // Input methods that will be passed from parent
+  @Input() formatHashrate!: (value: number) => string;
+  @Input() formatDifficulty!: (value: number) => string;
+
+  readonly coins = COINS;
+  readonly periods: HistoryPeriod[] = ['24h', '7d', '30d', '90d'];
+  readonly metrics: { key: NetworkMetric; label: string }[] = [
+    { key: 'total_hashrate', label: 'Network Hashrate' },
+    { key: 'difficulty', label: 'Difficulty' }
+  ];
+
+  pickedCoin: Coin | null = null;
+  period: HistoryPeriod = '24h';
+  metric: NetworkMetric = 'total_hashrate';
+  history: HistoryPoint[] = [];
+  markers: ChartMarker[] = [];
+  isLoading = false;
+  error: string | null = null;
+  private poolKey = '';
+  private requestSubscription?: Subscription;
+
+  constructor(private historyService: HistoryService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // Realtime updates replace the pools array; only a different set of pools needs a reload
+    const poolKey = this.pools.map(pool => pool.id).sort().join(',');
+    if (changes['coin'] || (changes['pools'] && poolKey !== this.poolKey)) {
+      this.poolKey = poolKey;
+      this.load();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.requestSubscription?.unsubscribe();
+  }
+
+  /**
+   * Chain on the chart. Networks differ too much in hashrate and difficulty to
+   * share an axis, so "all chains" charts one chain at a time: the one picked
+   * above the chart, else the first chain a tracked pool mines.
+   */
+  get chartCoin(): Coin {
+    return this.coin
+      ?? this.pickedCoin
+      ?? this.coins.find(option => this.pools.some(pool => pool.coin === option.symbol))?.symbol
+      ?? 'ETHW';
+  }
+
+  selectCoin(coin: Coin): void {
+    if (coin === this.chartCoin) return;
+    this.pickedCoin = coin;
+    this.load();
+  }
+
+  selectPeriod(period: HistoryPeriod): void {
+    if (period === this.period) return;
+    this.period = period;
+    this.load();
+  }
+
+  load(): void {
+    this.requestSubscription?.unsubscribe();
+    this.isLoading = true;
+    this.error = null;
+
+    // Only blocks of the charted chain belong on its timeline
+    const chartCoin = this.chartCoin;
+    const pools = this.pools.filter(pool => pool.coin === chartCoin);
+    const names = new Map(pools.map(pool => [pool.id, pool.name]));
+    this.requestSubscription = forkJoin({
+      history: this.historyService.getNetworkHistory(this.period, this.metrics.map(metric => metric.key), chartCoin),
+      blocks: this.historyService.getBlocksForPools(pools.map(pool => pool.id))
+        .pipe(catchError(() => of([] as PoolBlock[])))
+    }).subscribe({
+      next: ({ history, blocks }) => {
+        this.history = history;
+        this.markers = blocks
+          .filter(block => block.status !== 'orphaned')
+          .map(block => ({ timestamp: block.timestamp, label: `${names.get(block.pool_id) || 'Pool'} #${block.block_number}` }));
+        this.isLoading = false;
+      },
+      error: response => {
+        this.history = [];
+        this.markers = [];
+        this.error = response?.error?.error || 'Unable to load network history';
+        this.isLoading = false;
+      }
+    });
+  }
+
+  /**
+   * Points for the selected metric, with the bucket extremes as the band
+   */
+  get points(): ChartPoint[] {
+    return this.history.map(point => ({
+      timestamp: point.timestamp,
+      value: point[this.metric] as number | null,
+      min: point[`${this.metric}_min`] as number | null,
+      max: point[`${this.metric}_max`] as number | null
+    }));
+  }
+
+  get formatValue(): (value: number) => string {
+    return this.metric === 'difficulty' ? this.formatDifficulty : this.formatHashrate;
+  }
+}
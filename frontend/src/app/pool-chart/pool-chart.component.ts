@@ -0,0 +1,112 @@
+import { Component, Input, OnChanges, OnDestroy, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { forkJoin, of, Subscription } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { HistoryChartComponent, ChartMarker, ChartPoint } from '../history-chart/history-chart.component';
+import { HistoryPeriod, HistoryPoint, HistoryService, PoolBlock } from '../services/history.service';
+
+type PoolMetric = 'hashrate' | 'miners_count' | 'luck_7d';
+
+@Component({
+  selector: 'app-pool-chart',
+  standalone: true,
+  imports: [CommonModule, HistoryChartComponent],
+  templateUrl: './pool-chart.component.html',
+  styleUrl: './pool-chart.component.scss'
+})
+export class PoolChartComponent implements OnChanges, OnDestroy {
+  @Input({ required: true }) pool!: { id: string; name: string };
+  @Input() period: HistoryPeriod = '24h';
+
+  // Input methods that will be passed from parent
+  @Input() formatHashrate!: (value: number) => string;
+  @Input() formatNumber!: (value: number) => string;
+
+  readonly periods: HistoryPeriod[] = ['24h', '7d', '30d'];
+  readonly metrics: { key: PoolMetric; label: string }[] = [
+    { key: 'hashrate', label: 'Hashrate' },
+    { key: 'miners_count', label: 'Miners' },
+    { key: 'luck_7d', label: 'Luck' }
+  ];
+
+  metric: PoolMetric = 'hashrate';
+  history: HistoryPoint[] = [];
+  markers: ChartMarker[] = [];
+  isLoading = false;
+  error: string | null = null;
+  private requestSubscription?: Subscription;
+
+  constructor(private historyService: HistoryService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // Realtime updates replace the pool object; only a different pool needs a reload
+    const poolChange = changes['pool'];
+    if (changes['period'] || (poolChange && poolChange.previousValue?.id !== poolChange.currentValue?.id)) {
+      this.load();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.requestSubscription?.unsubscribe();
+  }
+
+  selectPeriod(period: HistoryPeriod): void {
+    if (period === this.period) return;
+    this.period = period;
+    this.load();
+  }
+
+  load(): void {
+    this.requestSubscription?.unsubscribe();
+    this.isLoading = true;
+    this.error = null;
+
+    this.requestSubscription = forkJoin({
+      history: this.historyService.getPoolHistory(this.pool.id, this.period, this.metrics.map(metric => metric.key)),
+      blocks: this.historyService.getPoolBlocks(this.pool.id).pipe(catchError(() => of([] as PoolBlock[])))
+    }).subscribe({
+      next: ({ history, blocks }) => {
+        this.history = history;
+        this.markers = blocks
+          .filter(block => block.status !== 'orphaned')
+          .map(block => ({ timestamp: block.timestamp, label: `${block.uncle ? 'Uncle' : 'Block'} #${block.block_number}` }));
+        this.isLoading = false;
+      },
+      error: response => {
+        this.history = [];
+        this.markers = [];
+        this.error = response?.error?.error || 'Unable to load pool history';
+        this.isLoading = false;
+      }
+    });
+  }
+
+  /**
+   * Points for the selected metric, with the bucket extremes as the band
+   */
+  get points(): ChartPoint[] {
+    return this.history.map(point => ({
+      timestamp: point.timestamp,
+      value: point[this.metric] as number | null,
+      min: point[`${this.metric}_min`] as number | null,
+      max: point[`${this.metric}_max`] as number | null
+    }));
+  }
+
+  // Block markers only make sense on the hashrate view
+  get chartMarkers(): ChartMarker[] {
+    return this.metric === 'hashrate' ? this.markers : [];
+  }
+
+  get formatValue(): (value: number) => string {
+    switch (this.metric) {
+      case 'miners_count':
+        return value => this.formatNumber(Math.round(value));
+      case 'luck_7d':
+        return value => `${value.toFixed(1)}%`;
+      case 'hashrate':
+      default:
+        return this.formatHashrate;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter, Router } from '@angular/router';
+import { of, throwError } from 'rxjs';
+
+import { PoolCompareComponent } from './pool-compare.component';
+import { PoolComparison, PoolService } from '../services/pool.service';
+
+describe('PoolCompareComponent', () => {
+  let component: PoolCompareComponent;
+  let fixture: ComponentFixture<PoolCompareComponent>;
+  let poolService: jasmine.SpyObj<PoolService>;
+  let navigate: jasmine.Spy;
+
+  const comparison = (id: string, extra: Partial<PoolComparison> = {}): PoolComparison => ({
+    id,
+    name: `Pool ${id.toUpperCase()}`,
+    api_url: `https://${id}.example.com/api`,
+    coin: 'ETC',
+    fee_percentage: 1,
+    payout_method: 'PPLNS',
+    status: 'active',
+    minimum_payout: 0.1,
+    hashrate: 1e12,
+    miners_count: 100,
+    blocks_found_24h: 2,
+    luck_7d: 100,
+    last_updated: null,
+    last_fetch_at: null,
+    last_fetch_success: 1,
+    last_fetch_error: null,
+    recent_blocks: 2,
+    avg_luck_7d: 100,
+    avg_luck_30d: 100,
+    recommendation_score: 50,
+    score_breakdown: [],
+    ...extra
+  });
+
+  const rowCells = (label: string): string[] => {
+    const row = Array.from((fixture.nativeElement as HTMLElement).querySelectorAll('tbody tr'))
+      .find(tr => tr.querySelector('th')?.textContent?.trim() === label)!;
+    return Array.from(row.querySelectorAll('td')).map(cell => cell.textContent!.trim());
+  };
+
+  const compare = (pools: string | undefined): void => {
+    fixture.componentRef.setInput('pools', pools);
+    fixture.detectChanges();
+  };
+
+  beforeEach(async () => {
+    poolService = jasmine.createSpyObj<PoolService>('PoolService', ['getPools', 'comparePools']);
+    poolService.getPools.and.returnValue(of([comparison('a'), comparison('b'), comparison('c')]));
+    poolService.comparePools.and.returnValue(of([
+      comparison('a', { fee_percentage: 2, hashrate: 3e12, coin: 'ETHW', minimum_payout: 0.05 }),
+      comparison('b', { fee_percentage: 0.9 })
+    ]));
+
+    await TestBed.configureTestingModule({
+      imports: [PoolCompareComponent],
+      providers: [provideRouter([]), { provide: PoolService, useValue: poolService }]
+    })
+    .compileComponents();
+
+    navigate = spyOn(TestBed.inject(Router), 'navigate').and.resolveTo(true);
+    fixture = TestBed.createComponent(PoolCompareComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('compares the pools from the link in link order, without duplicates', () => {
+    compare('b, a,b');
+
+    expect(poolService.comparePools).toHaveBeenCalledWith(['b', 'a']);
+    expect(component.comparison.map(pool => pool.id)).toEqual(['b', 'a']);
+    expect(component.addablePools.map(pool => pool.id)).toEqual(['c']);
+  });
+
+  it('shows each value in the pool\'s own coin and highlights the best one', () => {
+    compare('a,b');
+
+    expect(rowCells('Minimum payout')).toEqual(['0.05 ETHW', '0.1 ETC']);
+    const fees = Array.from((fixture.nativeElement as HTMLElement).querySelectorAll('td.best-value')).map(cell => cell.textContent!.trim());
+    expect(fees).toContain('0.9%');
+    expect(fees).not.toContain('2%');
+  });
+
+  it('notes ids in the link that no longer match a pool', () => {
+    compare('a,b,gone');
+
+    expect(component.missingCount).toBe(1);
+    expect((fixture.nativeElement as HTMLElement).querySelector('.alert-info')!.textContent).toContain('1 pool(s)');
+  });
+
+  it('keeps the selection in the URL when adding and removing pools', () => {
+    compare('a,b');
+
+    component.add('c');
+    expect(navigate).toHaveBeenCalledWith(['/compare'], { queryParams: { pools: 'a,b,c' } });
+
+    component.remove('a');
+    expect(navigate).toHaveBeenCalledWith(['/compare'], { queryParams: { pools: 'b' } });
+  });
+
+  it('drops the query parameter once the last pool is removed', () => {
+    compare('a');
+    component.remove('a');
+
+    expect(navigate).toHaveBeenCalledWith(['/compare'], { queryParams: { pools: null } });
+  });
+
+  it('loads nothing without pools and shows the backend error otherwise', () => {
+    compare(undefined);
+    expect(poolService.comparePools).not.toHaveBeenCalled();
+
+    poolService.comparePools.and.returnValue(throwError(() => ({ error: { error: 'Between 2 and 5 pool IDs are required' } })));
+    compare('a');
+    expect(component.comparison).toEqual([]);
+    expect((fixture.nativeElement as HTMLElement).querySelector('.alert-warning')!.textContent).toContain('Between 2 and 5 pool IDs are required');
+  });
+});
@@ -0,0 +1,173 @@
+import { Component, Input, OnChanges, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, RouterLink } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { LuckWindow, MAX_COMPARE_POOLS, PoolComparison, PoolDetail, PoolService } from '../services/pool.service';
+import { formatHashrate, getLuckClass } from '../utils/format';
+
+/**
+ * One row of the side-by-side table. `best` marks which end of the
+ * numeric value is highlighted across the compared pools.
+ */
+interface ComparisonRow {
+  label: string;
+  display: (pool: PoolComparison) => string;
+  value?: (pool: PoolComparison) => number | null;
+  best?: 'min' | 'max';
+  luck?: boolean;
+}
+
+const FACTOR_LABELS: Record<string, string> = {
+  fee: 'Fee',
+  pool_size: 'Pool size',
+  luck: 'Luck',
+  activity: 'Recent blocks',
+  payout_method: 'Payout method',
+  payout_threshold: 'Time to payout'
+};
+
+@Component({
+  selector: 'app-pool-compare',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './pool-compare.component.html',
+  styleUrl: './pool-compare.component.scss'
+})
+export class PoolCompareComponent implements OnInit, OnChanges, OnDestroy {
+  // Bound from the ?pools=id1,id2 query parameter so the selection can be shared
+  @Input() pools?: string;
+
+  readonly MAX_COMPARE_POOLS = MAX_COMPARE_POOLS;
+  readonly getLuckClass = getLuckClass;
+
+  readonly rows: ComparisonRow[] = [
+    { label: 'Fee', display: pool => `${pool.fee_percentage}%`, value: pool => pool.fee_percentage, best: 'min' },
+    { label: 'Payout method', display: pool => pool.payout_method },
+    { label: 'Minimum payout', display: pool => `${pool.minimum_payout} ${pool.coin}`, value: pool => pool.minimum_payout, best: 'min' },
+    { label: 'Hashrate', display: pool => formatHashrate(pool.hashrate || 0), value: pool => pool.hashrate, best: 'max' },
+    { label: 'Avg luck (7d)', display: pool => this.formatLuck(pool.avg_luck_7d), value: pool => pool.avg_luck_7d, best: 'max', luck: true },
+    { label: 'Avg luck (30d)', display: pool => this.formatLuck(pool.avg_luck_30d), value: pool => pool.avg_luck_30d, best: 'max', luck: true },
+    { label: 'Computed luck (30d)', display: pool => this.formatComputedLuck(pool, '30d'), value: pool => this.computedLuck(pool, '30d')?.luck ?? null, luck: true },
+    { label: 'Blocks (24h)', display: pool => String(pool.recent_blocks), value: pool => pool.recent_blocks, best: 'max' },
+    { label: 'Score', display: pool => `${pool.recommendation_score} / 100`, value: pool => pool.recommendation_score, best: 'max' }
+  ];
+
+  selectedIds: string[] = [];
+  comparison: PoolComparison[] = [];
+  availablePools: PoolDetail[] = [];
+  isLoading = false;
+  error: string | null = null;
+  private isInitialized = false;
+  private subscriptions = new Subscription();
+
+  constructor(private poolService: PoolService, private router: Router) {}
+
+  ngOnInit(): void {
+    this.subscriptions.add(
+      this.poolService.getPools().subscribe({
+        next: pools => this.availablePools = pools,
+        error: () => this.availablePools = []
+      })
+    );
+
+    // The query parameter may be absent, in which case ngOnChanges never runs
+    this.isInitialized = true;
+    this.applySelection();
+  }
+
+  ngOnChanges(): void {
+    if (this.isInitialized) this.applySelection();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  applySelection(): void {
+    this.selectedIds = [...new Set((this.pools || '').split(',').map(id => id.trim()).filter(Boolean))]
+      .slice(0, MAX_COMPARE_POOLS);
+    this.load();
+  }
+
+  load(): void {
+    this.error = null;
+    if (this.selectedIds.length === 0) {
+      this.comparison = [];
+      return;
+    }
+
+    this.isLoading = true;
+    this.subscriptions.add(
+      this.poolService.comparePools(this.selectedIds).subscribe({
+        next: rows => {
+          // Keep the order from the URL rather than the API's hashrate order
+          this.comparison = this.selectedIds
+            .map(id => rows.find(row => row.id === id))
+            .filter((row): row is PoolComparison => row !== undefined);
+          this.isLoading = false;
+        },
+        error: response => {
+          this.comparison = [];
+          this.error = response?.error?.error || 'Unable to compare pools';
+          this.isLoading = false;
+        }
+      })
+    );
+  }
+
+  // Pools that can still be added to the comparison
+  get addablePools(): PoolDetail[] {
+    return this.availablePools.filter(pool => !this.selectedIds.includes(pool.id));
+  }
+
+  // Ids in the URL that did not match a pool
+  get missingCount(): number {
+    return this.isLoading ? 0 : this.selectedIds.length - this.comparison.length;
+  }
+
+  add(poolId: string): void {
+    if (!poolId || this.selectedIds.length >= MAX_COMPARE_POOLS) return;
+    this.navigate([...this.selectedIds, poolId]);
+  }
+
+  remove(poolId: string): void {
+    this.navigate(this.selectedIds.filter(id => id !== poolId));
+  }
+
+  /**
+   * True when this pool holds the best value of the row among the compared pools
+   */
+  isBest(row: ComparisonRow, pool: PoolComparison): boolean {
+    if (!row.value || !row.best || this.comparison.length < 2) return false;
+
+    const value = row.value(pool);
+    const values = this.comparison.map(row.value).filter((other): other is number => other !== null);
+    if (value === null || values.length === 0) return false;
+
+    return value === (row.best === 'min' ? Math.min(...values) : Math.max(...values));
+  }
+
+  factorLabel(factor: string): string {
+    return FACTOR_LABELS[factor] || factor;
+  }
+
+  private computedLuck(pool: PoolComparison, window: string): LuckWindow | undefined {
+    return pool.computed_luck?.find(entry => entry.window === window);
+  }
+
+  // Luck with its 95% confidence interval, e.g. "104.2% (88–121%)"
+  private formatComputedLuck(pool: PoolComparison, window: string): string {
+    const luck = this.computedLuck(pool, window);
+    if (!luck || luck.luck === null) return 'n/a';
+    return `${luck.luck.toFixed(1)}% (${Math.round(luck.ci_low ?? 0)}–${Math.round(luck.ci_high ?? 0)}%)`;
+  }
+
+  private formatLuck(luck: number | null): string {
+    return luck !== null ? `${luck.toFixed(1)}%` : 'n/a';
+  }
+
+  // The URL is the source of truth for the selection
+  private navigate(poolIds: string[]): void {
+    this.router.navigate(['/compare'], { queryParams: { pools: poolIds.length > 0 ? poolIds.join(',') : null } });
+  }
+}
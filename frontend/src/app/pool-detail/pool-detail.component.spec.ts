@@ -0,0 +1,124 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { of, throwError } from 'rxjs';
+
+import { PoolDetailComponent } from './pool-detail.component';
+import { HistoryService } from '../services/history.service';
+import { PoolBlockRow, PoolDetail, PoolService } from '../services/pool.service';
+
+describe('PoolDetailComponent', () => {
+  let component: PoolDetailComponent;
+  let fixture: ComponentFixture<PoolDetailComponent>;
+  let poolService: jasmine.SpyObj<PoolService>;
+  let historyService: jasmine.SpyObj<HistoryService>;
+
+  const pool: PoolDetail = {
+    id: 'pool-1',
+    name: 'Pool One',
+    api_url: 'https://pool.example.com/api',
+    coin: 'ETC',
+    fee_percentage: 1,
+    payout_method: 'PPLNS',
+    status: 'active',
+    minimum_payout: 0.1,
+    hashrate: 5e12,
+    miners_count: 1200,
+    blocks_found_24h: 4,
+    luck_7d: 98,
+    last_updated: '2026-10-18T09:00:00Z',
+    last_fetch_at: '2026-10-18T09:00:00Z',
+    last_fetch_success: 1,
+    last_fetch_error: null
+  };
+
+  const blockRow = (number: number): PoolBlockRow => ({
+    block_number: number,
+    timestamp: '2026-10-18T08:00:00Z',
+    reward: 2.56,
+    miner_count: 10,
+    difficulty: 1e15,
+    hash: `0x${number}`,
+    uncle: number === 99 ? 1 : 0,
+    status: 'confirmed',
+    matured_at: null
+  });
+
+  const element = (): HTMLElement => fixture.nativeElement as HTMLElement;
+
+  beforeEach(async () => {
+    poolService = jasmine.createSpyObj<PoolService>('PoolService', ['getPool', 'getBlocks']);
+    poolService.getPool.and.returnValue(of(pool));
+    poolService.getBlocks.and.callFake((_id, page, limit) => of({
+      blocks: [blockRow(101 - page), blockRow(99)],
+      pagination: { page, limit, total: 45, totalPages: 3 }
+    }));
+
+    historyService = jasmine.createSpyObj<HistoryService>('HistoryService', ['getPoolHistory', 'getPoolBlocks']);
+    historyService.getPoolHistory.and.returnValue(of([
+      { timestamp: '2026-10-17T00:00:00Z', sample_count: 1, luck_7d: 90, luck_7d_min: 85, luck_7d_max: 95 },
+      { timestamp: '2026-10-18T00:00:00Z', sample_count: 0, luck_7d: null, luck_7d_min: null, luck_7d_max: null },
+      { timestamp: '2026-10-19T00:00:00Z', sample_count: 1, luck_7d: 110, luck_7d_min: 100, luck_7d_max: 120 }
+    ]));
+    historyService.getPoolBlocks.and.returnValue(of([
+      { pool_id: 'pool-1', block_number: 100, timestamp: '2026-10-18T08:00:00Z', reward: 2.56, uncle: 0, status: 'confirmed' },
+      { pool_id: 'pool-1', block_number: 98, timestamp: '2026-10-17T08:00:00Z', reward: 2.56, uncle: 0, status: 'orphaned' }
+    ]));
+
+    await TestBed.configureTestingModule({
+      imports: [PoolDetailComponent],
+      providers: [
+        provideRouter([]),
+        { provide: PoolService, useValue: poolService },
+        { provide: HistoryService, useValue: historyService }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PoolDetailComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('id', 'pool-1');
+    fixture.detectChanges();
+  });
+
+  it('loads the pool, the first page of blocks and its luck history', () => {
+    expect(poolService.getPool).toHaveBeenCalledWith('pool-1');
+    expect(poolService.getBlocks).toHaveBeenCalledWith('pool-1', 1, component.BLOCKS_PER_PAGE);
+    expect(historyService.getPoolHistory).toHaveBeenCalledWith('pool-1', '90d', ['luck_7d']);
+
+    expect(element().querySelector('.breadcrumb-item.active')!.textContent).toContain('Pool One');
+    expect(element().textContent).toContain('Page 1 of 3');
+    expect(element().querySelectorAll('.badge.bg-warning').length).toBe(1);
+  });
+
+  it('averages the plotted luck and marks only canonical blocks', () => {
+    expect(component.averageLuck).toBe(100);
+    expect(component.luckMarkers).toEqual([{ timestamp: '2026-10-18T08:00:00Z', label: 'Block #100' }]);
+  });
+
+  it('pages through the blocks within the page range', () => {
+    component.goToPage(2);
+    expect(poolService.getBlocks).toHaveBeenCalledWith('pool-1', 2, component.BLOCKS_PER_PAGE);
+
+    poolService.getBlocks.calls.reset();
+    component.goToPage(0);
+    component.goToPage(4);
+    expect(poolService.getBlocks).not.toHaveBeenCalled();
+  });
+
+  it('reloads everything when the route switches to another pool', () => {
+    fixture.componentRef.setInput('id', 'pool-2');
+    fixture.detectChanges();
+
+    expect(poolService.getPool).toHaveBeenCalledWith('pool-2');
+    expect(poolService.getBlocks).toHaveBeenCalledWith('pool-2', 1, component.BLOCKS_PER_PAGE);
+  });
+
+  it('says so when the pool does not exist', () => {
+    poolService.getPool.and.returnValue(throwError(() => ({ status: 404 })));
+    fixture.componentRef.setInput('id', 'missing');
+    fixture.detectChanges();
+
+    expect(component.pool).toBeNull();
+    expect(element().querySelector('.alert-warning')!.textContent).toContain('Pool not found');
+  });
+});
@@ -0,0 +1,154 @@
+import { Component, Input, OnChanges, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { forkJoin, of, Subscription } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { HistoryChartComponent, ChartMarker, ChartPoint } from '../history-chart/history-chart.component';
+import { PoolChartComponent } from '../pool-chart/pool-chart.component';
+import { HistoryService, PoolBlock } from '../services/history.service';
+import { Pagination, PoolBlockRow, PoolDetail, PoolService } from '../services/pool.service';
+import { formatHashrate, formatNumber, getLuckClass, getTimeAgo } from '../utils/format';
+
+@Component({
+  selector: 'app-pool-detail',
+  standalone: true,
+  imports: [CommonModule, RouterLink, HistoryChartComponent, PoolChartComponent],
+  templateUrl: './pool-detail.component.html',
+  styleUrl: './pool-detail.component.scss'
+})
+export class PoolDetailComponent implements OnChanges, OnDestroy {
+  // Bound from the :id route parameter
+  @Input({ required: true }) id!: string;
+
+  readonly BLOCKS_PER_PAGE = 20;
+  readonly LUCK_PERIOD = '90d';
+
+  pool: PoolDetail | null = null;
+  isLoading = false;
+  error: string | null = null;
+
+  blocks: PoolBlockRow[] = [];
+  pagination: Pagination | null = null;
+  isLoadingBlocks = false;
+
+  luckPoints: ChartPoint[] = [];
+  luckMarkers: ChartMarker[] = [];
+  isLoadingLuck = false;
+
+  readonly formatHashrate = formatHashrate;
+  readonly formatNumber = formatNumber;
+  readonly getLuckClass = getLuckClass;
+  readonly getTimeAgo = getTimeAgo;
+  readonly formatLuck = (value: number) => `${value.toFixed(1)}%`;
+
+  private subscriptions = new Subscription();
+  private blocksSubscription?: Subscription;
+
+  constructor(private poolService: PoolService, private historyService: HistoryService) {}
+
+  ngOnChanges(): void {
+    this.subscriptions.unsubscribe();
+    this.subscriptions = new Subscription();
+    this.loadPool();
+    this.loadBlocks(1);
+    this.loadLuck();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+    this.blocksSubscription?.unsubscribe();
+  }
+
+  loadPool(): void {
+    this.isLoading = true;
+    this.error = null;
+    this.pool = null;
+
+    this.subscriptions.add(
+      this.poolService.getPool(this.id).subscribe({
+        next: pool => {
+          this.pool = pool;
+          this.isLoading = false;
+        },
+        error: response => {
+          this.error = response?.status === 404 ? 'Pool not found' : response?.error?.error || 'Unable to load pool';
+          this.isLoading = false;
+        }
+      })
+    );
+  }
+
+  loadBlocks(page: number): void {
+    this.blocksSubscription?.unsubscribe();
+    this.isLoadingBlocks = true;
+
+    this.blocksSubscription = this.poolService.getBlocks(this.id, page, this.BLOCKS_PER_PAGE).subscribe({
+      next: ({ blocks, pagination }) => {
+        this.blocks = blocks;
+        this.pagination = pagination;
+        this.isLoadingBlocks = false;
+      },
+      error: () => {
+        this.blocks = [];
+        this.pagination = null;
+        this.isLoadingBlocks = false;
+      }
+    });
+  }
+
+  /**
+   * 7-day luck over the last 90 days with the pool's blocks as markers
+   */
+  loadLuck(): void {
+    this.isLoadingLuck = true;
+
+    this.subscriptions.add(
+      forkJoin({
+        history: this.historyService.getPoolHistory(this.id, this.LUCK_PERIOD, ['luck_7d']),
+        blocks: this.historyService.getPoolBlocks(this.id, 500).pipe(catchError(() => of([] as PoolBlock[])))
+      }).subscribe({
+        next: ({ history, blocks }) => {
+          this.luckPoints = history.map(point => ({
+            timestamp: point.timestamp,
+            value: point['luck_7d'] as number | null,
+            min: point['luck_7d_min'] as number | null,
+            max: point['luck_7d_max'] as number | null
+          }));
+          this.luckMarkers = blocks
+            .filter(block => block.status !== 'orphaned')
+            .map(block => ({ timestamp: block.timestamp, label: `Block #${block.block_number}` }));
+          this.isLoadingLuck = false;
+        },
+        error: () => {
+          this.luckPoints = [];
+          this.luckMarkers = [];
+          this.isLoadingLuck = false;
+        }
+      })
+    );
+  }
+
+  // Mean of the plotted 7-day luck values
+  get averageLuck(): number | null {
+    const values = this.luckPoints.map(point => point.value).filter((value): value is number => value !== null);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  }
+
+  goToPage(page: number): void {
+    if (!this.pagination || page < 1 || page > this.pagination.totalPages) return;
+    this.loadBlocks(page);
+  }
+
+  isUncle(block: PoolBlockRow): boolean {
+    return block.uncle === true || block.uncle === 1;
+  }
+
+  statusClass(status: string): string {
+    switch (status) {
+      case 'confirmed': return 'bg-success';
+      case 'immature': return 'bg-info';
+      case 'orphaned': return 'bg-danger';
+      default: return 'bg-secondary';
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PoolChartComponent } from '../pool-chart/pool-chart.component';
+
+@Component({
+  selector: 'app-pool-history',
+  standalone: true,
+  imports: [CommonModule, PoolChartComponent],
+  templateUrl: './pool-history.component.html',
+  styleUrl: './pool-history.component.scss'
+})
+export class PoolHistoryComponent {
+  @Input() pools: { id: string; name: string }[] = [];
+
+  // Input methods that will be passed from parent
+  @Input() formatHashrate!: (value: number) => string;
+  @Input() formatNumber!: (value: number) => string;
+
+  // Keep each chart alive across realtime updates of the pools list
+  trackByPoolId(_index: number, pool: { id: string }): string {
+    return pool.id;
+  }
+}
@@ -1,10 +1,12 @@
 import { Component, Input } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MAX_COMPARE_POOLS } from '../services/pool.service';
 
 @Component({
   selector: 'app-pools-grid',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink],
   templateUrl: './pools-grid.component.html',
   styleUrl: './pools-grid.component.scss'
 })
@@ -16,4 +18,21 @@ export class PoolsGridComponent {
   @Input() formatHashrate!: (value: number) => string;
   @Input() formatNumber!: (value: number) => string;
   @Input() getLuckClass!: (luck: number) => string;
+
+  readonly MAX_COMPARE_POOLS = MAX_COMPARE_POOLS;
+
+  // Pools picked for the comparison page, in the order they were picked
+  selectedIds: string[] = [];
+
+  isSelected(poolId: string): boolean {
+    return this.selectedIds.includes(poolId);
+  }
+
+  toggleCompare(poolId: string): void {
+    if (this.isSelected(poolId)) {
+      this.selectedIds = this.selectedIds.filter(id => id !== poolId);
+    } else if (this.selectedIds.length < MAX_COMPARE_POOLS) {
+      this.selectedIds = [...this.selectedIds, poolId];
+    }
+  }
 }
\ No newline at end of file
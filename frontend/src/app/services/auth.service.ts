@@ -0,0 +1,112 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpInterceptorFn } from '@angular/common/http';
+import { BehaviorSubject, Observable, of, throwError } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+
+const API_BASE = 'http://localhost:3000/api';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * Session returned by /api/auth/register and /api/auth/login
+ */
+export interface AuthSession {
+  token: string;
+  expires_at: string;
+  user: AuthUser;
+}
+
+/**
+ * Dashboard account session. The token is kept in localStorage until it
+ * expires, the user logs out, or the backend rejects it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService {
+  private readonly STORAGE_KEY = 'mining-dashboard.session';
+  private sessionSubject = new BehaviorSubject<AuthSession | null>(this.restore());
+
+  public user$ = this.sessionSubject.pipe(map(session => session?.user ?? null));
+
+  constructor(private http: HttpClient) {}
+
+  get token(): string | null {
+    return this.sessionSubject.value?.token ?? null;
+  }
+
+  get user(): AuthUser | null {
+    return this.sessionSubject.value?.user ?? null;
+  }
+
+  login(email: string, password: string): Observable<AuthUser> {
+    return this.startSession('login', email, password);
+  }
+
+  register(email: string, password: string): Observable<AuthUser> {
+    return this.startSession('register', email, password);
+  }
+
+  logout(): Observable<void> {
+    if (!this.token) return of(undefined);
+
+    return this.http.post(`${API_BASE}/auth/logout`, {}).pipe(
+      // The session is gone locally either way
+      catchError(() => of(null)),
+      tap(() => this.clear()),
+      map(() => undefined)
+    );
+  }
+
+  /**
+   * Forget the session without telling the backend (it already rejected the token)
+   */
+  clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+    this.sessionSubject.next(null);
+  }
+
+  private startSession(action: 'login' | 'register', email: string, password: string): Observable<AuthUser> {
+    return this.http
+      .post<{ success: boolean; data: AuthSession }>(`${API_BASE}/auth/${action}`, { email, password })
+      .pipe(
+        map(response => response.data),
+        tap(session => {
+          localStorage.setItem(this.STORAGE_KEY, JSON.stringify(session));
+          this.sessionSubject.next(session);
+        }),
+        map(session => session.user)
+      );
+  }
+
+  private restore(): AuthSession | null {
+    try {
+      const session = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || 'null') as AuthSession | null;
+      return session && Date.parse(session.expires_at) > Date.now() ? session : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Send the session token with every backend request and drop the session
+ * when the backend says it is no longer valid
+ */
+export const authInterceptor: HttpInterceptorFn = (request, next) => {
+  const auth = inject(AuthService);
+  const token = auth.token;
+  if (!token || !request.url.startsWith(API_BASE)) {
+    return next(request);
+  }
+
+  return next(request.clone({ setHeaders: { Authorization: `Bearer ${token}` } })).pipe(
+    catchError(error => {
+      if (error?.status === 401) auth.clear();
+      return throwError(() => error);
+    })
+  );
+};
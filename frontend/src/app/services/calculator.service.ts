@@ -0,0 +1,66 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Coin } from './coin.service';
+
+export interface CalculatorRequest {
+  hashrate: number;          // MH/s
+  power: number;             // Watts
+  electricity_cost: number;  // Price per kWh in the selected currency
+  currency: string;
+  coin: Coin;
+}
+
+// Amounts are in the requested coin
+export interface EarningsPeriod {
+  eth: number;
+  paid_eth: number;          // Coins actually paid out once minimum payouts are applied
+  revenue: number;
+  power_cost: number;
+  profit: number;
+}
+
+export interface PoolEarnings {
+  pool_id: string;
+  pool_name: string;
+  fee_percentage: number;
+  payout_method: string;
+  luck_7d: number | null;  // past luck, for reference; earnings assume 100%
+  minimum_payout: number;
+  days_to_payout: number | null;
+  daily: EarningsPeriod;
+  weekly: EarningsPeriod;
+  monthly: EarningsPeriod;
+}
+
+export interface CalculatorResult {
+  currency: string;
+  coin: Coin;
+  coin_price: number;
+  network_difficulty: number;
+  block_reward: number;
+  pools: PoolEarnings[];
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CalculatorService {
+  private readonly API_BASE = 'http://localhost:3000/api';
+
+  constructor(private http: HttpClient) {}
+
+  calculate(request: CalculatorRequest): Observable<CalculatorResult> {
+    const params = new HttpParams()
+      .set('hashrate', request.hashrate)
+      .set('power', request.power)
+      .set('electricity_cost', request.electricity_cost)
+      .set('currency', request.currency)
+      .set('coin', request.coin);
+
+    return this.http
+      .get<{ success: boolean; data: CalculatorResult }>(`${this.API_BASE}/calculator`, { params })
+      .pipe(map(response => response.data));
+  }
+}
@@ -0,0 +1,45 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+export type Coin = 'ETH' | 'ETC' | 'ETHW';
+
+// Chains the backend tracks, in selector order
+export const COINS: { symbol: Coin; name: string }[] = [
+  { symbol: 'ETH', name: 'Ethereum' },
+  { symbol: 'ETC', name: 'Ethereum Classic' },
+  { symbol: 'ETHW', name: 'EthereumPoW' }
+];
+
+/**
+ * The chain picked in the header; null means all chains. The choice is
+ * kept in localStorage so it survives a reload.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CoinService {
+  private readonly STORAGE_KEY = 'mining-dashboard.coin';
+  private selectedSubject = new BehaviorSubject<Coin | null>(this.restore());
+
+  public selected$ = this.selectedSubject.asObservable();
+
+  get selected(): Coin | null {
+    return this.selectedSubject.value;
+  }
+
+  select(coin: Coin | null): void {
+    if (coin === this.selected) return;
+
+    if (coin) {
+      localStorage.setItem(this.STORAGE_KEY, coin);
+    } else {
+      localStorage.removeItem(this.STORAGE_KEY);
+    }
+    this.selectedSubject.next(coin);
+  }
+
+  private restore(): Coin | null {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    return COINS.some(coin => coin.symbol === stored) ? stored as Coin : null;
+  }
+}
@@ -0,0 +1,53 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { HistoryService } from './history.service';
+
+describe('HistoryService', () => {
+  let service: HistoryService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(HistoryService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('requests the network series of one chain', () => {
+    let points: any[] = [];
+    service.getNetworkHistory('7d', ['total_hashrate', 'difficulty'], 'ETC').subscribe(data => points = data);
+
+    const request = httpMock.expectOne(req => req.url.endsWith('/stats/network/history'));
+    expect(request.request.params.get('period')).toBe('7d');
+    expect(request.request.params.get('metrics')).toBe('total_hashrate,difficulty');
+    expect(request.request.params.get('coin')).toBe('ETC');
+    request.flush({ success: true, data: [{ timestamp: '2026-10-18T00:00:00Z', sample_count: 3, total_hashrate: 1 }] });
+
+    expect(points).toEqual([{ timestamp: '2026-10-18T00:00:00Z', sample_count: 3, total_hashrate: 1 }]);
+  });
+
+  it('merges the blocks of several pools newest first', () => {
+    let blocks: any[] = [];
+    service.getBlocksForPools(['pool-a', 'pool-b'], 20).subscribe(data => blocks = data);
+
+    const block = (number: number, timestamp: string) => ({ block_number: number, timestamp, reward: 2, uncle: 0, status: 'confirmed' });
+    const poolA = httpMock.expectOne(req => req.url.endsWith('/pools/pool-a/blocks'));
+    expect(poolA.request.params.get('limit')).toBe('20');
+    poolA.flush({ success: true, data: [block(10, '2026-10-18T08:00:00Z')] });
+    httpMock.expectOne(req => req.url.endsWith('/pools/pool-b/blocks'))
+      .flush({ success: true, data: [block(20, '2026-10-18T09:00:00Z'), block(5, '2026-10-18T07:00:00Z')] });
+
+    expect(blocks.map(found => [found.pool_id, found.block_number])).toEqual([['pool-b', 20], ['pool-a', 10], ['pool-b', 5]]);
+  });
+
+  it('makes no request for an empty pool list', () => {
+    let blocks: any[] | undefined;
+    service.getBlocksForPools([]).subscribe(data => blocks = data);
+
+    expect(blocks).toEqual([]);
+  });
+});
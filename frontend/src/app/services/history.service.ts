@@ -0,0 +1,76 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { forkJoin, Observable, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Coin } from './coin.service';
+
+export type HistoryPeriod = '24h' | '7d' | '30d' | '90d' | '1y';
+
+/**
+ * One evenly spaced point of a history series. Averages use the plain metric
+ * name, the bucket extremes the `_min` / `_max` suffixes; every value is null
+ * for steps where nothing was recorded.
+ */
+export interface HistoryPoint {
+  timestamp: string;
+  sample_count: number | null;
+  [column: string]: number | string | null;
+}
+
+export interface PoolBlock {
+  pool_id: string;
+  block_number: number;
+  timestamp: string;
+  reward: number;
+  uncle: boolean | number;
+  status: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HistoryService {
+  private readonly API_BASE = 'http://localhost:3000/api';
+
+  constructor(private http: HttpClient) {}
+
+  getPoolHistory(poolId: string, period: HistoryPeriod, metrics?: string[]): Observable<HistoryPoint[]> {
+    let params = new HttpParams().set('period', period);
+    if (metrics) params = params.set('metrics', metrics.join(','));
+
+    return this.http
+      .get<{ success: boolean; data: HistoryPoint[] }>(`${this.API_BASE}/pools/${poolId}/history`, { params })
+      .pipe(map(response => response.data));
+  }
+
+  /**
+   * Network series of one chain (the backend defaults to ETHW)
+   */
+  getNetworkHistory(period: HistoryPeriod, metrics?: string[], coin?: Coin | null): Observable<HistoryPoint[]> {
+    let params = new HttpParams().set('period', period);
+    if (metrics) params = params.set('metrics', metrics.join(','));
+    if (coin) params = params.set('coin', coin);
+
+    return this.http
+      .get<{ success: boolean; data: HistoryPoint[] }>(`${this.API_BASE}/stats/network/history`, { params })
+      .pipe(map(response => response.data));
+  }
+
+  getPoolBlocks(poolId: string, limit = 100): Observable<PoolBlock[]> {
+    const params = new HttpParams().set('limit', limit);
+    return this.http
+      .get<{ success: boolean; data: Omit<PoolBlock, 'pool_id'>[] }>(`${this.API_BASE}/pools/${poolId}/blocks`, { params })
+      .pipe(map(response => response.data.map(block => ({ ...block, pool_id: poolId }))));
+  }
+
+  /**
+   * Recent blocks of several pools merged newest first, for chart overlays
+   */
+  getBlocksForPools(poolIds: string[], limit = 100): Observable<PoolBlock[]> {
+    if (poolIds.length === 0) return of([]);
+
+    return forkJoin(poolIds.map(poolId => this.getPoolBlocks(poolId, limit))).pipe(
+      map(blocks => blocks.flat().sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp)))
+    );
+  }
+}
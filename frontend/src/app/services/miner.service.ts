@@ -0,0 +1,122 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+export interface ShareQuality {
+  total: number;
+  stale_rate: number;       // Percent of shares that were stale
+  invalid_rate: number;     // Percent of shares that were invalid
+}
+
+export interface MinerPoolStats {
+  miner_id: string;
+  pool_id: string;
+  pool_name: string;
+  minimum_payout: number;
+  label: string | null;
+  last_fetch_at: string | null;
+  last_fetch_error: string | null;
+  timestamp: string | null;          // Null until the collector has read the address once
+  reported_hashrate: number | null;
+  current_hashrate: number | null;
+  valid_shares: number | null;
+  invalid_shares: number | null;
+  stale_shares: number | null;
+  active_workers: number | null;
+  unpaid: number | null;
+  share_quality: ShareQuality | null;
+}
+
+export interface MinerSummary {
+  address: string;
+  totals: {
+    current_hashrate: number;
+    reported_hashrate: number;
+    active_workers: number;
+    unpaid: number;
+  };
+  pools: MinerPoolStats[];
+}
+
+export interface MinerReading {
+  pool_id: string;
+  timestamp: string;
+  reported_hashrate: number | null;
+  current_hashrate: number;
+  valid_shares: number;
+  invalid_shares: number;
+  stale_shares: number;
+  active_workers: number;
+  unpaid: number;
+}
+
+export interface MinerWorker {
+  id: string;
+  name: string;
+  pool_id: string;
+  pool_name: string;
+  is_online: boolean;
+  last_seen_at: string | null;
+  status_changed_at: string;         // When the worker last went online/offline
+  reported_hashrate: number | null;
+  current_hashrate: number | null;
+  valid_shares: number | null;
+  invalid_shares: number | null;
+  stale_shares: number | null;
+}
+
+// One address/pool pair on the signed-in user's watchlist
+export interface WatchlistEntry {
+  miner_id: string;
+  address: string;
+  pool_id: string;
+  pool_name: string;
+  label: string | null;
+  created_at: string;
+  last_fetch_at: string | null;
+  last_fetch_error: string | null;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class MinerService {
+  private readonly API_BASE = 'http://localhost:3000/api';
+
+  constructor(private http: HttpClient) {}
+
+  getWatchlist(): Observable<WatchlistEntry[]> {
+    return this.http
+      .get<{ success: boolean; data: WatchlistEntry[] }>(`${this.API_BASE}/miners`)
+      .pipe(map(response => response.data));
+  }
+
+  getMiner(address: string): Observable<MinerSummary> {
+    return this.http
+      .get<{ success: boolean; data: MinerSummary }>(`${this.API_BASE}/miners/${address}`)
+      .pipe(map(response => response.data));
+  }
+
+  getHistory(address: string, period: '24h' | '7d' | '30d' = '7d'): Observable<MinerReading[]> {
+    const params = new HttpParams().set('period', period);
+    return this.http
+      .get<{ success: boolean; data: MinerReading[] }>(`${this.API_BASE}/miners/${address}/history`, { params })
+      .pipe(map(response => response.data));
+  }
+
+  getWorkers(address: string): Observable<MinerWorker[]> {
+    return this.http
+      .get<{ success: boolean; data: MinerWorker[] }>(`${this.API_BASE}/miners/${address}/workers`)
+      .pipe(map(response => response.data));
+  }
+
+  register(address: string, poolId: string, label?: string): Observable<unknown> {
+    return this.http.post(`${this.API_BASE}/miners`, { address, pool_id: poolId, label });
+  }
+
+  remove(address: string, poolId: string): Observable<unknown> {
+    const params = new HttpParams().set('pool_id', poolId);
+    return this.http.delete(`${this.API_BASE}/miners/${address}`, { params });
+  }
+}
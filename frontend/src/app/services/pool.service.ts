@@ -0,0 +1,130 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Coin } from './coin.service';
+
+// Most pools /api/pools/compare accepts at once
+export const MAX_COMPARE_POOLS = 5;
+
+/**
+ * Luck the backend computed from found blocks against the pool's hashrate
+ */
+export interface LuckWindow {
+  window: string;
+  blocks: number;
+  expected_blocks: number;
+  luck: number | null;
+  ci_low: number | null;
+  ci_high: number | null;
+  coverage: number;
+}
+
+/**
+ * Pool metadata joined with its latest statistics reading
+ */
+export interface PoolDetail {
+  id: string;
+  name: string;
+  api_url: string;
+  coin: Coin;
+  fee_percentage: number;
+  payout_method: string;
+  status: string;
+  minimum_payout: number;
+  hashrate: number | null;
+  miners_count: number | null;
+  blocks_found_24h: number | null;
+  luck_7d: number | null;
+  last_updated: string | null;
+  last_fetch_at: string | null;
+  last_fetch_success: boolean | number | null;
+  last_fetch_error: string | null;
+  computed_luck?: LuckWindow[];
+}
+
+/**
+ * One factor's share of a recommendation score
+ */
+export interface ScoreFactor {
+  factor: string;
+  weight: number;
+  score: number | null;
+  points: number;
+  explanation: string;
+}
+
+/**
+ * Row of /api/pools/compare: the pool with luck averages, 24h blocks and score
+ */
+export interface PoolComparison extends PoolDetail {
+  recent_blocks: number;
+  avg_luck_7d: number | null;
+  avg_luck_30d: number | null;
+  recommendation_score: number;
+  score_breakdown: ScoreFactor[];
+}
+
+export interface PoolBlockRow {
+  block_number: number;
+  timestamp: string;
+  reward: number;
+  miner_count: number | null;
+  difficulty: number | null;
+  hash: string | null;
+  uncle: boolean | number;
+  status: string;
+  matured_at: string | null;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PoolService {
+  private readonly API_BASE = 'http://localhost:3000/api';
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Active pools, optionally only those mining one coin
+   */
+  getPools(coin?: Coin | null): Observable<PoolDetail[]> {
+    const params = coin ? new HttpParams().set('coin', coin) : undefined;
+    return this.http
+      .get<{ success: boolean; data: PoolDetail[] }>(`${this.API_BASE}/pools`, { params })
+      .pipe(map(response => response.data));
+  }
+
+  comparePools(poolIds: string[]): Observable<PoolComparison[]> {
+    const params = new HttpParams().set('pools', poolIds.join(','));
+    return this.http
+      .get<{ success: boolean; data: PoolComparison[] }>(`${this.API_BASE}/pools/compare`, { params })
+      .pipe(map(response => response.data));
+  }
+
+  getPool(poolId: string): Observable<PoolDetail> {
+    return this.http
+      .get<{ success: boolean; data: PoolDetail }>(`${this.API_BASE}/pools/${poolId}`)
+      .pipe(map(response => response.data));
+  }
+
+  /**
+   * One page of the pool's blocks, newest first (pages start at 1)
+   */
+  getBlocks(poolId: string, page: number, limit: number): Observable<{ blocks: PoolBlockRow[]; pagination: Pagination }> {
+    const params = new HttpParams()
+      .set('limit', limit)
+      .set('offset', (page - 1) * limit);
+
+    return this.http
+      .get<{ success: boolean; data: PoolBlockRow[]; pagination: Pagination }>(`${this.API_BASE}/pools/${poolId}/blocks`, { params })
+      .pipe(map(response => ({ blocks: response.data, pagination: response.pagination })));
+  }
+}
@@ -0,0 +1,116 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { RealtimeService } from './realtime.service';
+
+/**
+ * Stands in for the browser WebSocket so tests decide when it opens, receives and drops
+ */
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: any[] = [];
+  onopen?: () => void;
+  onmessage?: (event: { data: string }) => void;
+  onclose?: () => void;
+  onerror?: () => void;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  static get latest(): FakeWebSocket {
+    return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.readyState = FakeWebSocket.CLOSED;
+  }
+
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: any): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  drop(): void {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+}
+
+describe('RealtimeService', () => {
+  const nativeWebSocket = window.WebSocket;
+  let service: RealtimeService;
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    (window as any).WebSocket = FakeWebSocket;
+    service = TestBed.inject(RealtimeService);
+  });
+
+  afterEach(() => {
+    service.ngOnDestroy();
+    window.WebSocket = nativeWebSocket;
+  });
+
+  it('replays the subscribed channels after reconnecting', fakeAsync(() => {
+    service.subscribe(['pools', 'blocks']);
+    expect(FakeWebSocket.latest.sent).toEqual([]);
+
+    FakeWebSocket.latest.open();
+    expect(FakeWebSocket.latest.sent).toEqual([{ type: 'subscribe', data: { channels: ['pools', 'blocks'] } }]);
+    service.subscribe(['pool:pool-1']);
+    service.unsubscribe(['blocks']);
+
+    FakeWebSocket.latest.drop();
+    expect(service.getCurrentStatus().state).toBe('closed');
+    tick(1000);
+    expect(FakeWebSocket.instances.length).toBe(2);
+
+    FakeWebSocket.latest.open();
+    expect(service.isConnected()).toBeTrue();
+    expect(FakeWebSocket.latest.sent).toEqual([{ type: 'subscribe', data: { channels: ['pools', 'pool:pool-1'] } }]);
+  }));
+
+  it('backs off exponentially between reconnect attempts, up to 30 seconds', fakeAsync(() => {
+    const delays: number[] = [];
+    for (let attempt = 0; attempt < 7; attempt++) {
+      const sockets = FakeWebSocket.instances.length;
+      FakeWebSocket.latest.drop();
+      let waited = 0;
+      while (FakeWebSocket.instances.length === sockets) {
+        tick(1000);
+        waited += 1000;
+      }
+      delays.push(waited);
+    }
+
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000]);
+
+    // A successful connection starts the backoff over
+    FakeWebSocket.latest.open();
+    FakeWebSocket.latest.drop();
+    tick(1000);
+    expect(service.getCurrentStatus().reconnectAttempt).toBe(1);
+  }));
+
+  it('streams the payloads of one message type', () => {
+    const updates: any[] = [];
+    service.on('pool_update').subscribe(update => updates.push(update));
+
+    FakeWebSocket.latest.open();
+    FakeWebSocket.latest.receive({ type: 'network_update', data: { difficulty: 1 }, timestamp: '' });
+    FakeWebSocket.latest.receive({ type: 'pool_update', data: { id: 'pool-1', hashrate: 2 }, timestamp: '' });
+
+    expect(updates).toEqual([{ id: 'pool-1', hashrate: 2 }]);
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
+
+export type RealtimeChannel = 'pools' | 'network' | 'blocks' | 'alerts' | `pool:${string}`;
+
+export interface RealtimeStatus {
+  isOnline: boolean;
+  state: 'connecting' | 'open' | 'closed';
+  lastChecked: Date;
+  reconnectAttempt: number;
+}
+
+export interface RealtimeMessage<T = any> {
+  type: string;
+  data: T;
+  timestamp: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RealtimeService implements OnDestroy {
+  private readonly WS_URL = 'ws://localhost:3000';
+  private readonly INITIAL_BACKOFF = 1000;  // First reconnect after 1 second
+  private readonly MAX_BACKOFF = 30000;     // Never wait more than 30 seconds
+
+  private socket?: WebSocket;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private reconnectAttempt = 0;
+  private destroyed = false;
+  private channels = new Set<RealtimeChannel>();
+
+  private statusSubject = new BehaviorSubject<RealtimeStatus>({
+    isOnline: false,
+    state: 'connecting',
+    lastChecked: new Date(),
+    reconnectAttempt: 0
+  });
+  private messagesSubject = new Subject<RealtimeMessage>();
+
+  public status$ = this.statusSubject.asObservable();
+  public messages$ = this.messagesSubject.asObservable();
+
+  constructor(private zone: NgZone) {
+    this.connect();
+  }
+
+  ngOnDestroy(): void {
+    this.destroyed = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+  }
+
+  /**
+   * Subscribe to server channels; remembered and replayed after every reconnect
+   */
+  subscribe(channels: RealtimeChannel[]): void {
+    channels.forEach(channel => this.channels.add(channel));
+    this.send({ type: 'subscribe', data: { channels } });
+  }
+
+  unsubscribe(channels: RealtimeChannel[]): void {
+    channels.forEach(channel => this.channels.delete(channel));
+    this.send({ type: 'unsubscribe', data: { channels } });
+  }
+
+  /**
+   * Stream of payloads for a single message type (pool_update, new_block, ...)
+   */
+  on<T = any>(type: string): Observable<T> {
+    return this.messages$.pipe(
+      filter(message => message.type === type),
+      map(message => message.data as T)
+    );
+  }
+
+  getCurrentStatus(): RealtimeStatus {
+    return this.statusSubject.value;
+  }
+
+  isConnected(): boolean {
+    return this.statusSubject.value.isOnline;
+  }
+
+  private connect(): void {
+    if (this.destroyed) return;
+
+    this.updateStatus('connecting');
+
+    try {
+      this.socket = new WebSocket(this.WS_URL);
+    } catch (error) {
+      console.warn('WebSocket connection failed:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket.onopen = () => this.zone.run(() => {
+      this.reconnectAttempt = 0;
+      this.updateStatus('open');
+
+      if (this.channels.size > 0) {
+        this.send({ type: 'subscribe', data: { channels: Array.from(this.channels) } });
+      }
+    });
+
+    this.socket.onmessage = (event: MessageEvent) => this.zone.run(() => {
+      try {
+        const message = JSON.parse(event.data) as RealtimeMessage;
+        this.updateStatus('open');
+        this.messagesSubject.next(message);
+      } catch (error) {
+        console.warn('Invalid realtime message:', error);
+      }
+    });
+
+    this.socket.onclose = () => this.zone.run(() => {
+      this.updateStatus('closed');
+      this.scheduleReconnect();
+    });
+
+    // onclose always follows onerror, so reconnecting is left to it
+    this.socket.onerror = () => {
+      console.warn('WebSocket error, connection will be retried');
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.destroyed) return;
+
+    clearTimeout(this.reconnectTimer);
+    const backoff = Math.min(this.INITIAL_BACKOFF * 2 ** this.reconnectAttempt, this.MAX_BACKOFF);
+    this.reconnectAttempt++;
+
+    this.reconnectTimer = setTimeout(() => this.connect(), backoff);
+  }
+
+  private send(message: any): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private updateStatus(state: RealtimeStatus['state']): void {
+    this.statusSubject.next({
+      isOnline: state === 'open',
+      state,
+      lastChecked: new Date(),
+      reconnectAttempt: this.reconnectAttempt
+    });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Display formatters shared by the dashboard and the pool pages.
+ * Plain functions so they can be handed to child components as inputs
+ * without depending on `this`.
+ */
+
+/**
+ * Format hashrate values with appropriate units (H/s, KH/s, MH/s, etc.)
+ * Converts raw hashrate numbers to human-readable format
+ */
+export function formatHashrate(hashrate: number): string {
+  if (!hashrate) return '0 H/s';
+
+  if (hashrate >= 1e15) {
+    return (hashrate / 1e15).toFixed(2) + ' PH/s';
+  } else if (hashrate >= 1e12) {
+    return (hashrate / 1e12).toFixed(2) + ' TH/s';
+  } else if (hashrate >= 1e9) {
+    return (hashrate / 1e9).toFixed(2) + ' GH/s';
+  } else if (hashrate >= 1e6) {
+    return (hashrate / 1e6).toFixed(2) + ' MH/s';
+  } else if (hashrate >= 1e3) {
+    return (hashrate / 1e3).toFixed(2) + ' KH/s';
+  } else {
+    return hashrate.toFixed(2) + ' H/s';
+  }
+}
+
+/**
+ * Format large numbers with K/M suffixes for better readability
+ * Used for miner counts and other large integer values
+ */
+export function formatNumber(num: number): string {
+  if (!num) return '0';
+
+  if (num >= 1e6) {
+    return (num / 1e6).toFixed(1) + 'M';   // Millions
+  } else if (num >= 1e3) {
+    return (num / 1e3).toFixed(1) + 'K';   // Thousands
+  } else {
+    return num.toString();                 // Raw number
+  }
+}
+
+/**
+ * Format network difficulty with P/T suffixes
+ * Network difficulty is usually in the petahash range
+ */
+export function formatDifficulty(difficulty: number): string {
+  if (!difficulty) return '0';
+
+  if (difficulty >= 1e15) {
+    return (difficulty / 1e15).toFixed(1) + 'P';  // Petahash
+  } else if (difficulty >= 1e12) {
+    return (difficulty / 1e12).toFixed(1) + 'T';  // Terahash
+  } else {
+    return formatNumber(difficulty);              // Use number formatter
+  }
+}
+
+/**
+ * Get CSS class for luck percentage display based on performance
+ * Color-codes luck values to indicate pool performance quality
+ */
+export function getLuckClass(luck: number): string {
+  if (!luck) return '';
+
+  if (luck >= 105) return 'text-success';    // Excellent luck (green)
+  if (luck >= 95) return 'text-info';       // Good luck (blue)
+  if (luck >= 85) return 'text-warning';    // Average luck (yellow)
+  return 'text-danger';                     // Poor luck (red)
+}
+
+/**
+ * Convert timestamp to human-readable "time ago" format
+ * Shows how long ago a block was found (e.g., "2h 15m ago")
+ */
+export function getTimeAgo(timestamp: string): string {
+  const now = new Date();
+  const blockTime = new Date(timestamp);
+  const diffMs = now.getTime() - blockTime.getTime();
+
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  const diffMinutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
+
+  if (diffHours > 0) {
+    return `${diffHours}h ${diffMinutes}m ago`;    // Hours and minutes
+  } else if (diffMinutes > 0) {
+    return `${diffMinutes}m ago`;                  // Minutes only
+  } else {
+    return 'Just now';                             // Less than a minute
+  }
+}